@@ -0,0 +1,264 @@
+// Request routing for the market data proxy
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { getDataErrorKind, RateLimitError } from "../src/utils/marketData/errors";
+import { CHART_PERIODS, isIntradayPeriod } from "../src/utils/marketData/history";
+import {
+  API_KEY_PROVIDERS,
+  ApiKeyProvider,
+  CACHE_STATUS_HEADER,
+  PRIORITY_HEADER,
+  ProxyErrorBody,
+  ProxyHealth,
+  UpdateApiKeyRequest,
+} from "../src/utils/marketData/proxyApi";
+import { ChartPeriod } from "../src/utils/marketData/types";
+import { SYMBOL_PATTERN } from "../src/utils/marketData/symbolDirectory";
+import { RequestPriority } from "../src/utils/requestScheduler";
+import { CacheResult, cached, getCacheStats } from "./cache";
+import { getKeyStatuses, removeKey, setKey } from "./keyStore";
+import * as upstream from "./upstream";
+
+const MINUTE = 60 * 1000;
+
+// Time-to-live for each kind of response
+const TTL = {
+  quote: 15 * MINUTE,
+  overview: 24 * 60 * MINUTE,
+  intradayHistory: 15 * MINUTE,
+  dailyHistory: 6 * 60 * MINUTE,
+  predictions: 30 * MINUTE,
+  marketVolatility: 30 * MINUTE,
+  search: 24 * 60 * MINUTE,
+};
+
+// Largest admin request body we accept, in bytes
+const MAX_BODY_SIZE = 4 * 1024;
+
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const CORS_ORIGIN = process.env.CORS_ORIGIN;
+const startedAt = Date.now();
+
+/**
+ * An error with a known HTTP status and error kind
+ */
+class HttpError extends Error {
+  status: number;
+  kind: ProxyErrorBody["error"]["kind"];
+
+  constructor(status: number, kind: ProxyErrorBody["error"]["kind"], message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(status === 204 ? undefined : JSON.stringify(body));
+};
+
+const sendCached = <T>(res: ServerResponse, result: CacheResult<T>) => {
+  send(res, 200, result.data, { [CACHE_STATUS_HEADER]: result.status });
+};
+
+// Map an error to a status code and the error body clients understand
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    send(res, error.status, { error: { kind: error.kind, message: error.message } } satisfies ProxyErrorBody);
+    return;
+  }
+
+  const kind = getDataErrorKind(error);
+  const message = error instanceof Error ? error.message : "Unexpected error";
+  const status = kind === "rate-limit" ? 429 : kind === "unknown" ? 500 : 502;
+  const daily = error instanceof RateLimitError ? error.daily : undefined;
+
+  if (status === 500) {
+    console.error("Unhandled proxy error:", error);
+  }
+  send(res, status, { error: { kind, message, daily } } satisfies ProxyErrorBody);
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new HttpError(413, "bad-request", "Request body is too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new HttpError(400, "bad-request", "Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const LOOPBACK_ADDRESSES = ["127.0.0.1", "::1", "::ffff:127.0.0.1"];
+
+// Whether the request came from this machine. A request forwarded by a local
+// proxy, such as the Vite dev server, arrives over loopback whoever sent it,
+// so every address it was forwarded for has to be local too.
+const isLocalRequest = (req: IncomingMessage): boolean => {
+  const header = req.headers["x-forwarded-for"];
+  const forwardedFor = (Array.isArray(header) ? header.join(",") : header ?? "")
+    .split(",")
+    .map(address => address.trim())
+    .filter(Boolean);
+  return [req.socket.remoteAddress, ...forwardedFor].every(address => LOOPBACK_ADDRESSES.includes(address));
+};
+
+// Admin routes need the admin token, or a local connection when no token is set
+const requireAdmin = (req: IncomingMessage) => {
+  if (ADMIN_TOKEN) {
+    if (req.headers.authorization !== `Bearer ${ADMIN_TOKEN}`) {
+      throw new HttpError(401, "unauthorized", "A valid admin token is required");
+    }
+  } else if (!isLocalRequest(req)) {
+    throw new HttpError(401, "unauthorized", "Set ADMIN_TOKEN on the proxy to manage keys remotely");
+  }
+};
+
+const parseSymbol = (value: string): string => {
+  let symbol: string;
+  try {
+    symbol = decodeURIComponent(value).toUpperCase();
+  } catch {
+    throw new HttpError(400, "bad-request", "Symbol is not validly URL-encoded");
+  }
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    throw new HttpError(400, "bad-request", `Invalid symbol "${symbol}"`);
+  }
+  return symbol;
+};
+
+const REQUEST_PRIORITIES: RequestPriority[] = ["high", "normal", "low"];
+
+// Requests without a priority header queue as normal
+const parsePriority = (value: string | string[] | undefined): RequestPriority => {
+  if (value === undefined) return "normal";
+  if (!REQUEST_PRIORITIES.includes(value as RequestPriority)) {
+    throw new HttpError(400, "bad-request", `${PRIORITY_HEADER} must be one of ${REQUEST_PRIORITIES.join(", ")}`);
+  }
+  return value as RequestPriority;
+};
+
+const parsePeriod = (value: string | null): ChartPeriod => {
+  if (!CHART_PERIODS.includes(value as ChartPeriod)) {
+    throw new HttpError(400, "bad-request", `Period must be one of ${CHART_PERIODS.join(", ")}`);
+  }
+  return value as ChartPeriod;
+};
+
+// Search text is normalized so "Apple" and " apple" share a cache entry
+const parseSearchQuery = (value: string | null): string => {
+  const query = (value ?? "").trim().toLowerCase();
+  if (!query || query.length > 64) {
+    throw new HttpError(400, "bad-request", "Search query \"q\" must be 1 to 64 characters");
+  }
+  return query;
+};
+
+const parseKeyProvider = (value: string): ApiKeyProvider => {
+  if (!API_KEY_PROVIDERS.includes(value as ApiKeyProvider)) {
+    throw new HttpError(404, "not-found", `Unknown key provider "${value}"`);
+  }
+  return value as ApiKeyProvider;
+};
+
+const route = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const parts = url.pathname.replace(/^\/api/, "").split("/").filter(Boolean);
+  const [resource, param] = parts;
+
+  if (req.method === "GET") {
+    const priority = parsePriority(req.headers[PRIORITY_HEADER.toLowerCase()]);
+    switch (resource) {
+      case "health": {
+        const health: ProxyHealth = {
+          status: "ok",
+          uptime: Date.now() - startedAt,
+          cache: getCacheStats(),
+          keys: getKeyStatuses(),
+        };
+        return send(res, 200, health);
+      }
+      case "quote": {
+        const symbol = parseSymbol(param ?? "");
+        return sendCached(res, await cached(`quote:${symbol}`, TTL.quote, () => upstream.fetchQuote(symbol, priority)));
+      }
+      case "overview": {
+        const symbol = parseSymbol(param ?? "");
+        return sendCached(res, await cached(`overview:${symbol}`, TTL.overview, () => upstream.fetchOverview(symbol, priority)));
+      }
+      case "history": {
+        const symbol = parseSymbol(param ?? "");
+        const period = parsePeriod(url.searchParams.get("period"));
+        const ttl = isIntradayPeriod(period) ? TTL.intradayHistory : TTL.dailyHistory;
+        return sendCached(res, await cached(`history:${symbol}:${period}`, ttl, () => upstream.fetchHistory(symbol, period, priority)));
+      }
+      case "predictions": {
+        const symbol = parseSymbol(param ?? "");
+        return sendCached(res, await cached(`predictions:${symbol}`, TTL.predictions, () => upstream.fetchPredictions(symbol)));
+      }
+      case "market-volatility":
+        return sendCached(res, await cached("market-volatility", TTL.marketVolatility, () => upstream.fetchMarketVolatility()));
+      case "search": {
+        const query = parseSearchQuery(url.searchParams.get("q"));
+        return sendCached(res, await cached(`search:${query}`, TTL.search, () => upstream.searchSymbols(query, priority)));
+      }
+    }
+  }
+
+  if (resource === "admin" && param === "keys") {
+    requireAdmin(req);
+    const provider = parts[2];
+
+    if (req.method === "GET" && !provider) {
+      return send(res, 200, getKeyStatuses());
+    }
+    if (req.method === "PUT" && provider) {
+      const { key } = (await readBody(req)) as Partial<UpdateApiKeyRequest>;
+      if (typeof key !== "string" || !key.trim()) {
+        throw new HttpError(400, "bad-request", "Body must include a non-empty \"key\"");
+      }
+      await setKey(parseKeyProvider(provider), key.trim());
+      return send(res, 200, getKeyStatuses());
+    }
+    if (req.method === "DELETE" && provider) {
+      await removeKey(parseKeyProvider(provider));
+      return send(res, 200, getKeyStatuses());
+    }
+  }
+
+  throw new HttpError(404, "not-found", `No route for ${req.method} ${url.pathname}`);
+};
+
+/**
+ * Handle one HTTP request
+ * @param req - Incoming request
+ * @param res - Response to write
+ */
+export async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (CORS_ORIGIN) {
+    res.setHeader("Access-Control-Allow-Origin", CORS_ORIGIN);
+    res.setHeader("Access-Control-Allow-Headers", `Authorization, Content-Type, ${PRIORITY_HEADER}`);
+    res.setHeader("Access-Control-Allow-Methods", "GET, PUT, DELETE, OPTIONS");
+    res.setHeader("Access-Control-Expose-Headers", CACHE_STATUS_HEADER);
+  }
+  if (req.method === "OPTIONS") {
+    return send(res, 204, null);
+  }
+
+  try {
+    await route(req, res, new URL(req.url ?? "/", "http://localhost"));
+  } catch (error) {
+    sendError(res, error);
+  }
+}
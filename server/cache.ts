@@ -0,0 +1,85 @@
+// Response cache shared by every client of the proxy
+// Upstream quotas are per key, not per user, so one cached answer serves everyone.
+
+interface Entry {
+  data: unknown;
+  storedAt: number;
+  ttl: number;
+}
+
+export type CacheStatus = "HIT" | "MISS" | "STALE";
+
+export interface CacheResult<T> {
+  data: T;
+  status: CacheStatus;
+}
+
+// Oldest entries are evicted beyond this many
+const MAX_ENTRIES = 2000;
+
+// Expired entries can still be served for this long when the upstream fails (7 days)
+const MAX_STALE_AGE = 7 * 24 * 60 * 60 * 1000;
+
+const entries = new Map<string, Entry>();
+const inFlight = new Map<string, Promise<unknown>>();
+const stats = { hits: 0, misses: 0, staleHits: 0 };
+
+const store = (key: string, data: unknown, ttl: number) => {
+  // Re-inserting moves the key to the end, so iteration order is oldest first
+  entries.delete(key);
+  entries.set(key, { data, storedAt: Date.now(), ttl });
+
+  while (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value);
+  }
+};
+
+/**
+ * Serve a cached response or load it, sharing one upstream request per key.
+ * When loading fails, an expired entry is served instead if one is recent enough.
+ * @param key - Cache key
+ * @param ttl - Time-to-live in milliseconds
+ * @param load - Fetches the data from upstream
+ * @returns Data and how it was served
+ */
+export async function cached<T>(key: string, ttl: number, load: () => Promise<T>): Promise<CacheResult<T>> {
+  const entry = entries.get(key);
+  const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+  if (entry && age <= entry.ttl) {
+    stats.hits++;
+    return { data: entry.data as T, status: "HIT" };
+  }
+
+  if (!inFlight.has(key)) {
+    inFlight.set(
+      key,
+      load()
+        .then(data => {
+          store(key, data, ttl);
+          return data;
+        })
+        .finally(() => inFlight.delete(key))
+    );
+  }
+
+  try {
+    const data = (await inFlight.get(key)) as T;
+    stats.misses++;
+    return { data, status: "MISS" };
+  } catch (error) {
+    if (entry && age <= entry.ttl + MAX_STALE_AGE) {
+      console.warn(`Serving stale ${key} after upstream failure:`, error instanceof Error ? error.message : error);
+      stats.staleHits++;
+      return { data: entry.data as T, status: "STALE" };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get cache counters for the health endpoint
+ */
+export function getCacheStats() {
+  return { entries: entries.size, ...stats };
+}
@@ -0,0 +1,17 @@
+// Market data proxy: serves quotes, history and predictions to the frontend
+// while keeping upstream API keys out of the browser bundle.
+import { createServer } from "node:http";
+import { handleRequest } from "./app";
+import { loadKeys } from "./keyStore";
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+
+await loadKeys();
+
+if (!process.env.ADMIN_TOKEN) {
+  console.warn("ADMIN_TOKEN is not set; key management is only available from this machine");
+}
+
+createServer(handleRequest).listen(PORT, () => {
+  console.log(`Market data proxy listening on http://localhost:${PORT}`);
+});
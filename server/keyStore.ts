@@ -0,0 +1,92 @@
+// Upstream API keys, held only on the server
+// Keys come from the environment and can be replaced at runtime through the
+// admin endpoints; replacements are saved to a JSON file in the data directory.
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { API_KEY_PROVIDERS, ApiKeyProvider, ApiKeyStatus } from "../src/utils/marketData/proxyApi";
+
+interface StoredKey {
+  key: string;
+  updatedAt: number;
+}
+
+type StoredKeys = Partial<Record<ApiKeyProvider, StoredKey>>;
+
+const ENV_KEYS: Record<ApiKeyProvider, string | undefined> = {
+  alphaVantage: process.env.ALPHA_VANTAGE_API_KEY,
+  predictionBackend: process.env.PREDICTION_API_KEY,
+};
+
+const dataDir = process.env.PROXY_DATA_DIR || path.resolve("server/.data");
+const keysFile = path.join(dataDir, "keys.json");
+
+let storedKeys: StoredKeys = {};
+
+const save = async () => {
+  await mkdir(dataDir, { recursive: true });
+  // Readable by the server's user only
+  await writeFile(keysFile, JSON.stringify(storedKeys, null, 2), { mode: 0o600 });
+};
+
+/**
+ * Load keys saved by earlier admin updates
+ */
+export async function loadKeys(): Promise<void> {
+  try {
+    storedKeys = JSON.parse(await readFile(keysFile, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`Could not read ${keysFile}, using environment keys only:`, error);
+    }
+    storedKeys = {};
+  }
+}
+
+/**
+ * Get the active key for an upstream provider
+ * @param provider - Upstream provider
+ * @returns Key, or undefined when none is configured
+ */
+export function getKey(provider: ApiKeyProvider): string | undefined {
+  return storedKeys[provider]?.key || ENV_KEYS[provider] || undefined;
+}
+
+const mask = (key: string) => `••••${key.slice(-3)}`;
+
+/**
+ * Describe the configured keys without revealing them
+ * @returns One status per provider
+ */
+export function getKeyStatuses(): ApiKeyStatus[] {
+  return API_KEY_PROVIDERS.map(provider => {
+    const stored = storedKeys[provider];
+    const key = getKey(provider);
+    return {
+      provider,
+      configured: !!key,
+      masked: key ? mask(key) : null,
+      source: stored ? "admin" : key ? "env" : null,
+      updatedAt: stored?.updatedAt ?? null,
+    };
+  });
+}
+
+/**
+ * Replace the key for a provider
+ * @param provider - Upstream provider
+ * @param key - New key
+ */
+export async function setKey(provider: ApiKeyProvider, key: string): Promise<void> {
+  storedKeys = { ...storedKeys, [provider]: { key, updatedAt: Date.now() } };
+  await save();
+}
+
+/**
+ * Remove an admin-set key, falling back to the environment key if there is one
+ * @param provider - Upstream provider
+ */
+export async function removeKey(provider: ApiKeyProvider): Promise<void> {
+  const { [provider]: _removed, ...rest } = storedKeys;
+  storedKeys = rest;
+  await save();
+}
@@ -0,0 +1,97 @@
+// Requests to the upstream market data services, made with server-held keys
+import { forecastFromPrediction, quoteFromAlphaVantage, symbolMatchFromAlphaVantage } from "../src/utils/marketData/adapters";
+import { HISTORY_SERIES, buildAlphaVantageUrl, checkAlphaVantageMessage } from "../src/utils/marketData/alphaVantageApi";
+import { NetworkError } from "../src/utils/marketData/errors";
+import { filterBarsToPeriod } from "../src/utils/marketData/history";
+import { fetchJson } from "../src/utils/marketData/http";
+import {
+  CompanyOverviewSchema,
+  GlobalQuoteResponseSchema,
+  MarketVolatilitySchema,
+  StockPredictionSchema,
+  SymbolSearchResponseSchema,
+  TimeSeriesResponseSchema,
+  parseResponse,
+} from "../src/utils/marketData/schemas";
+import { Forecast, PriceBar, Quote, SymbolMatch } from "../src/utils/marketData/model";
+import {
+  AlphaVantageGlobalQuote,
+  AlphaVantageSymbolMatch,
+  ChartPeriod,
+  CompanyOverview,
+  MarketVolatility,
+  StockPrediction,
+} from "../src/utils/marketData/types";
+import { RequestPriority, scheduleRequest } from "../src/utils/requestScheduler";
+import { getKey } from "./keyStore";
+
+const ALPHA_VANTAGE_URL = process.env.ALPHA_VANTAGE_URL || "https://www.alphavantage.co/query";
+const PREDICTION_API_URL = process.env.PREDICTION_API_URL || "https://govind2121.pythonanywhere.com";
+
+// Alpha Vantage calls go through the same scheduler as the browser adapter, so
+// every client shares one queue within the key's per-minute and daily quotas
+const queryAlphaVantage = (
+  fn: string,
+  symbol: string,
+  priority: RequestPriority,
+  params?: Record<string, string>
+): Promise<unknown> =>
+  scheduleRequest({
+    provider: "alphaVantage",
+    key: [fn, symbol.toUpperCase(), ...Object.values(params || {})].join(":"),
+    priority,
+    run: async () => {
+      const apiKey = getKey("alphaVantage");
+      if (!apiKey) {
+        throw new NetworkError("Alpha Vantage", "No Alpha Vantage API key is configured on the proxy");
+      }
+
+      const data = await fetchJson(buildAlphaVantageUrl(ALPHA_VANTAGE_URL, apiKey, fn, symbol, params), `Alpha Vantage ${fn}`);
+      checkAlphaVantageMessage(data);
+      return data;
+    },
+  });
+
+const fetchPredictionBackend = (requestPath: string, source: string): Promise<unknown> => {
+  const apiKey = getKey("predictionBackend");
+  return fetchJson(`${PREDICTION_API_URL}${requestPath}`, source, {
+    headers: apiKey ? { "X-API-Key": apiKey } : {},
+  });
+};
+
+export async function fetchQuote(symbol: string, priority: RequestPriority): Promise<Quote> {
+  const data = await queryAlphaVantage("GLOBAL_QUOTE", symbol, priority);
+  return quoteFromAlphaVantage(
+    parseResponse<AlphaVantageGlobalQuote>(GlobalQuoteResponseSchema, data, `Alpha Vantage GLOBAL_QUOTE for ${symbol}`)
+  );
+}
+
+export async function fetchOverview(symbol: string, priority: RequestPriority): Promise<CompanyOverview> {
+  const data = await queryAlphaVantage("OVERVIEW", symbol, priority);
+  return parseResponse<CompanyOverview>(CompanyOverviewSchema, data, `Alpha Vantage OVERVIEW for ${symbol}`);
+}
+
+export async function fetchHistory(symbol: string, period: ChartPeriod, priority: RequestPriority): Promise<PriceBar[]> {
+  const { fn, params } = HISTORY_SERIES[period];
+  const data = await queryAlphaVantage(fn, symbol, priority, params);
+  const bars = parseResponse<PriceBar[]>(TimeSeriesResponseSchema, data, `Alpha Vantage ${fn} for ${symbol}`);
+  return filterBarsToPeriod(bars, period);
+}
+
+export async function fetchPredictions(symbol: string): Promise<Forecast> {
+  const source = `prediction backend for ${symbol}`;
+  const data = await fetchPredictionBackend(`/get_predictions?stock=${encodeURIComponent(symbol)}`, source);
+  return forecastFromPrediction(parseResponse<StockPrediction>(StockPredictionSchema, data, source));
+}
+
+export async function fetchMarketVolatility(): Promise<MarketVolatility> {
+  const source = "prediction backend market volatility";
+  const data = await fetchPredictionBackend("/market_volatility", source);
+  return parseResponse<MarketVolatility>(MarketVolatilitySchema, data, source);
+}
+
+export async function searchSymbols(query: string, priority: RequestPriority): Promise<SymbolMatch[]> {
+  const data = await queryAlphaVantage("SYMBOL_SEARCH", "", priority, { keywords: query });
+  const matches = parseResponse<AlphaVantageSymbolMatch[]>(SymbolSearchResponseSchema, data, `Alpha Vantage SYMBOL_SEARCH for "${query}"`);
+  return matches.map(symbolMatchFromAlphaVantage);
+}
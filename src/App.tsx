@@ -6,45 +6,81 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/providers/ThemeProvider";
 import { StockProvider } from "@/providers/StockProvider";
+import { WatchlistProvider } from "@/providers/WatchlistProvider";
+import { ChartPreferencesProvider } from "@/providers/ChartPreferencesProvider";
+import { PortfolioProvider } from "@/providers/PortfolioProvider";
+import { PaperTradingProvider } from "@/providers/PaperTradingProvider";
+import { AlertsProvider } from "@/providers/AlertsProvider";
+import { NotificationsProvider } from "@/providers/NotificationsProvider";
 import { AuthProvider } from "@/providers/AuthProvider";
 import { MaintenanceProvider } from "@/providers/MaintenanceProvider";
 
 // Pages
 import Dashboard from "@/pages/Dashboard";
 import StockDetail from "@/pages/StockDetail";
+import Predictions from "@/pages/Predictions";
+import Screener from "@/pages/Screener";
+import Alerts from "@/pages/Alerts";
+import Portfolio from "@/pages/Portfolio";
+import PaperTrading from "@/pages/PaperTrading";
 import AdminPanel from "@/pages/AdminPanel";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
 import NotFound from "@/pages/NotFound";
 import ProtectedRoute from "@/components/ProtectedRoute";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Providers already fall back to cached or simulated data, and apply their own rate limits
+      retry: false,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider>
       <AuthProvider>
         <MaintenanceProvider>
-          <StockProvider>
-            <TooltipProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter>
-                <Routes>
-                  <Route path="/" element={<Dashboard />} />
-                  <Route path="/stocks/:id" element={<StockDetail />} />
-                  <Route path="/login" element={<Login />} />
-                  <Route path="/register" element={<Register />} />
-                  <Route path="/admin" element={
-                    <ProtectedRoute>
-                      <AdminPanel />
-                    </ProtectedRoute>
-                  } />
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </BrowserRouter>
-            </TooltipProvider>
-          </StockProvider>
+          <WatchlistProvider>
+            <PortfolioProvider>
+              <PaperTradingProvider>
+                <NotificationsProvider>
+                  <AlertsProvider>
+                    <ChartPreferencesProvider>
+                      <StockProvider>
+                        <TooltipProvider>
+                          <Toaster />
+                          <Sonner />
+                          <BrowserRouter>
+                            <Routes>
+                              <Route path="/" element={<Dashboard />} />
+                              <Route path="/stocks/:id" element={<StockDetail />} />
+                              <Route path="/portfolio" element={<Portfolio />} />
+                              <Route path="/paper-trading" element={<PaperTrading />} />
+                              <Route path="/screener" element={<Screener />} />
+                              <Route path="/predictions" element={<Predictions />} />
+                              <Route path="/alerts" element={<Alerts />} />
+                              <Route path="/login" element={<Login />} />
+                              <Route path="/register" element={<Register />} />
+                              <Route path="/admin" element={
+                                <ProtectedRoute>
+                                  <AdminPanel />
+                                </ProtectedRoute>
+                              } />
+                              <Route path="*" element={<NotFound />} />
+                            </Routes>
+                          </BrowserRouter>
+                        </TooltipProvider>
+                      </StockProvider>
+                    </ChartPreferencesProvider>
+                  </AlertsProvider>
+                </NotificationsProvider>
+              </PaperTradingProvider>
+            </PortfolioProvider>
+          </WatchlistProvider>
         </MaintenanceProvider>
       </AuthProvider>
     </ThemeProvider>
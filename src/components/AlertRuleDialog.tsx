@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import { useAlerts } from "@/providers/AlertsProvider";
+import { ALERT_CONDITION_LABELS, AlertCondition, AlertConditionType } from "@/utils/alertRules";
+
+interface AlertRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Ticker to fill in, e.g. on a stock's page
+  symbol?: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const COOLDOWN_OPTIONS = [
+  { minutes: 15, label: "15 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 4 * 60, label: "4 hours" },
+  { minutes: 24 * 60, label: "1 day" },
+];
+
+// Form for creating an alert rule
+export default function AlertRuleDialog({ open, onOpenChange, symbol = "" }: AlertRuleDialogProps) {
+  const { addRule } = useAlerts();
+  const [type, setType] = useState<AlertConditionType>("priceCross");
+  const [direction, setDirection] = useState<"above" | "below">("above");
+  const [draft, setDraft] = useState({ symbol, value: "", expires: "" });
+  const [cooldown, setCooldown] = useState("60");
+  const [error, setError] = useState<string | null>(null);
+
+  // Start each opening with a fresh form
+  useEffect(() => {
+    if (open) {
+      setType("priceCross");
+      setDirection("above");
+      setDraft({ symbol, value: "", expires: "" });
+      setCooldown("60");
+      setError(null);
+    }
+  }, [open, symbol]);
+
+  const needsValue = type === "priceCross" || type === "percentChange";
+
+  const buildCondition = (): AlertCondition => {
+    switch (type) {
+      case "priceCross":
+        return { type, symbol: draft.symbol, direction, level: Number(draft.value) };
+      case "percentChange":
+        return { type, symbol: draft.symbol, threshold: Number(draft.value) };
+      case "volatilityHigh":
+      case "predictionFlip":
+        return { type, symbol: draft.symbol };
+      case "sentimentChange":
+        return { type };
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Rules last through the whole expiry day, in UTC like other dates
+    const expiresAt = draft.expires ? Date.parse(draft.expires) + DAY : null;
+    const condition = buildCondition();
+    const failure = addRule({ condition, cooldownMinutes: Number(cooldown), expiresAt });
+    if (failure) {
+      setError(failure);
+      return;
+    }
+
+    toast.success("Alert created");
+    onOpenChange(false);
+  };
+
+  const field = (key: keyof typeof draft) => ({
+    id: `alert-${key}`,
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setDraft(prev => ({ ...prev, [key]: e.target.value })),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>New alert</DialogTitle>
+            <DialogDescription>Alerts are checked whenever new market data loads.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 my-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="alert-type">Alert when</Label>
+              <Select value={type} onValueChange={(value) => setType(value as AlertConditionType)}>
+                <SelectTrigger id="alert-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ALERT_CONDITION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {type !== "sentimentChange" && (
+              <div className="space-y-2">
+                <Label htmlFor="alert-symbol">Ticker</Label>
+                <Input {...field("symbol")} autoFocus={!symbol} placeholder="AAPL" className="uppercase" />
+              </div>
+            )}
+            {type === "priceCross" && (
+              <div className="space-y-2">
+                <Label htmlFor="alert-direction">Direction</Label>
+                <Select value={direction} onValueChange={(value) => setDirection(value as "above" | "below")}>
+                  <SelectTrigger id="alert-direction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="above">Rises above</SelectItem>
+                    <SelectItem value="below">Falls below</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {needsValue && (
+              <div className="space-y-2">
+                <Label htmlFor="alert-value">{type === "priceCross" ? "Price level" : "Day change (%)"}</Label>
+                <Input {...field("value")} autoFocus={!!symbol} type="number" min={0} step="any" />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="alert-cooldown">Cooldown</Label>
+              <Select value={cooldown} onValueChange={setCooldown}>
+                <SelectTrigger id="alert-cooldown">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COOLDOWN_OPTIONS.map(({ minutes, label }) => (
+                    <SelectItem key={minutes} value={String(minutes)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-expires">Expires (optional)</Label>
+              <Input {...field("expires")} type="date" />
+            </div>
+          </div>
+          {error && <p className="text-sm text-danger mb-4">{error}</p>}
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={(type !== "sentimentChange" && !draft.symbol.trim()) || (needsValue && !draft.value)}
+            >
+              Create alert
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useState } from "react";
+import { KeyRound, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  API_KEY_LABELS,
+  ApiKeyProvider,
+  ApiKeyStatus,
+  fetchApiKeyStatuses,
+  fetchProxyHealth,
+  getAdminToken,
+  removeApiKey,
+  setAdminToken,
+  updateApiKey
+} from "@/utils/apiKeyService";
+
+// Upstream API keys are stored on the proxy server; the browser only ever sees masked values
+export default function ApiKeyManager() {
+  const { toast } = useToast();
+  const [statuses, setStatuses] = useState<ApiKeyStatus[]>([]);
+  const [proxyError, setProxyError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [adminToken, setAdminTokenInput] = useState(getAdminToken());
+  const [drafts, setDrafts] = useState<Partial<Record<ApiKeyProvider, string>>>({});
+  const [saving, setSaving] = useState<ApiKeyProvider | null>(null);
+
+  const loadStatuses = useCallback(async () => {
+    setLoading(true);
+    try {
+      // The health check is public; listing keys needs admin access
+      await fetchProxyHealth();
+      setStatuses(await fetchApiKeyStatuses());
+      setProxyError(null);
+    } catch (error) {
+      setStatuses([]);
+      setProxyError(error instanceof Error ? error.message : "Proxy unavailable");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatuses();
+  }, [loadStatuses]);
+
+  const handleSaveToken = () => {
+    setAdminToken(adminToken.trim());
+    loadStatuses();
+  };
+
+  const handleUpdate = async (provider: ApiKeyProvider) => {
+    const key = drafts[provider]?.trim();
+    if (!key) return;
+
+    setSaving(provider);
+    try {
+      setStatuses(await updateApiKey(provider, key));
+      setDrafts(prev => ({ ...prev, [provider]: "" }));
+      toast({
+        title: "API Key Updated",
+        description: `${API_KEY_LABELS[provider]} key has been saved on the proxy`,
+      });
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Could not save the key",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleRemove = async (provider: ApiKeyProvider) => {
+    setSaving(provider);
+    try {
+      setStatuses(await removeApiKey(provider));
+      toast({
+        title: "API Key Removed",
+        description: `${API_KEY_LABELS[provider]} key set from the admin panel was removed`,
+      });
+    } catch (error) {
+      toast({
+        title: "Removal Failed",
+        description: error instanceof Error ? error.message : "Could not remove the key",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm">
+          <span className={`h-2 w-2 rounded-full ${proxyError ? "bg-danger" : "bg-success"}`} />
+          {loading ? "Checking proxy..." : proxyError ? "Proxy unavailable" : "Proxy connected"}
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={loadStatuses} disabled={loading}>
+          <RefreshCw className={`h-3.5 w-3.5 ${loading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {proxyError && (
+        <p className="text-xs text-muted-foreground">{proxyError}</p>
+      )}
+
+      <div>
+        <Label htmlFor="admin-token" className="text-sm">Admin Token</Label>
+        <div className="flex mt-1.5">
+          <Input
+            id="admin-token"
+            type="password"
+            value={adminToken}
+            placeholder="Only needed when the proxy sets ADMIN_TOKEN"
+            onChange={(e) => setAdminTokenInput(e.target.value)}
+            className="rounded-r-none"
+          />
+          <Button variant="outline" className="rounded-l-none" onClick={handleSaveToken}>
+            Use
+          </Button>
+        </div>
+      </div>
+
+      {statuses.map((status) => (
+        <div key={status.provider}>
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`api-key-${status.provider}`} className="text-sm flex items-center gap-1.5">
+              <KeyRound className="h-3.5 w-3.5" />
+              {API_KEY_LABELS[status.provider]}
+            </Label>
+            {status.configured ? (
+              <Badge variant="secondary" className="font-mono">
+                {status.masked} · {status.source === "admin" ? "admin" : "env"}
+              </Badge>
+            ) : (
+              <Badge variant="outline">Not configured</Badge>
+            )}
+          </div>
+          <div className="flex mt-1.5">
+            <Input
+              id={`api-key-${status.provider}`}
+              type="password"
+              autoComplete="off"
+              value={drafts[status.provider] ?? ""}
+              placeholder={status.configured ? "Enter a new key to replace it" : "Enter key"}
+              onChange={(e) => setDrafts(prev => ({ ...prev, [status.provider]: e.target.value }))}
+              className="rounded-r-none"
+            />
+            <Button
+              variant="outline"
+              className="rounded-none border-l-0"
+              disabled={!drafts[status.provider]?.trim() || saving === status.provider}
+              onClick={() => handleUpdate(status.provider)}
+            >
+              Save
+            </Button>
+            <Button
+              variant="outline"
+              className="rounded-l-none border-l-0"
+              disabled={status.source !== "admin" || saving === status.provider}
+              onClick={() => handleRemove(status.provider)}
+            >
+              Remove
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
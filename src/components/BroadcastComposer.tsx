@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Megaphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { postBroadcast } from "@/utils/broadcasts";
+
+// Admin form for announcements that reach every user's notification center
+export default function BroadcastComposer() {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [message, setMessage] = useState("");
+  const [highPriority, setHighPriority] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    postBroadcast({
+      kind: "announcement",
+      priority: highPriority ? "high" : "normal",
+      title: title.trim(),
+      message: message.trim(),
+    });
+    setTitle("");
+    setMessage("");
+    setHighPriority(false);
+    toast({
+      title: "Broadcast Sent",
+      description: "Every user will see it in their notifications",
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="broadcast-title">Title</Label>
+        <Input
+          id="broadcast-title"
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          placeholder="Scheduled data provider upgrade"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="broadcast-message">Message</Label>
+        <Textarea
+          id="broadcast-message"
+          value={message}
+          onChange={e => setMessage(e.target.value)}
+          rows={3}
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="broadcast-priority">High priority</Label>
+          <p className="text-sm text-muted-foreground">Also shown as a browser notification to users who enabled them</p>
+        </div>
+        <Switch id="broadcast-priority" checked={highPriority} onCheckedChange={setHighPriority} />
+      </div>
+      <Button type="submit" disabled={!title.trim()}>
+        <Megaphone className="h-4 w-4 mr-2" />
+        Send Broadcast
+      </Button>
+    </form>
+  );
+}
@@ -1,81 +1,151 @@
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import {
+  LineChart,
+  ComposedChart,
+  Line,
+  Area,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from "recharts";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/components/ui/sonner";
-import { Database, RefreshCw } from "lucide-react";
+import { BarChart3, Database, FlaskConical, RefreshCw } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import IndicatorMenu from "@/components/IndicatorMenu";
+import IndicatorPane from "@/components/IndicatorPane";
+import { CandleShape, OhlcShape } from "@/components/PriceBarShapes";
+import VolumePane from "@/components/VolumePane";
+import { useChartPreferences } from "@/providers/ChartPreferencesProvider";
 import { useTheme } from "@/providers/ThemeProvider";
-import { 
-  canRefresh, 
-  markRefreshed, 
-  clearCache, 
-  getRemainingCooldown,
-  formatCooldown
-} from "@/utils/cacheUtils";
+import {
+  CHART_PERIODS,
+  ChartPeriod,
+  Forecast,
+  PriceBar,
+  formatBarLabel
+} from "@/utils/apiService";
+import { CHART_MODES, ChartMode, isBarMode } from "@/utils/chartModes";
+import { projectForecast } from "@/utils/forecastProjection";
+import { formatPercent, formatPrice } from "@/utils/formatters";
+import { computeIndicators, indicatorDataKey } from "@/utils/indicators";
+import { toHeikinAshi } from "@/utils/marketData/history";
+import { usePriceHistory, useTickerRefresh } from "@/hooks/use-market-data";
 
 interface ChartCardProps {
   title: string;
   ticker?: string;
-  data?: Array<{
-    name: string;
-    value: number;
-    relativeValue?: number;
-  }>;
+  // Bars to draw instead of loading the ticker's history
+  bars?: PriceBar[];
   color?: string;
   subtitle?: string;
   period?: string;
-  onDataLoaded?: (stockData: StockData | null) => void;
-  cacheKey?: string;
+  // Receives the loaded bars, or null when history could not be loaded
+  onDataLoaded?: (bars: PriceBar[] | null) => void;
   height?: number;
   showRelativeChange?: boolean;
   compact?: boolean;
   minimalStyle?: boolean;
   hideOverflow?: boolean;
+  // Offer the chart mode switcher, volume pane and indicators, using the user's saved choices
+  showTools?: boolean;
+  // Model forecast drawn as a dashed continuation of the price with its uncertainty band
+  forecast?: Forecast;
+  // Price levels of the user's alerts, drawn as horizontal lines
+  alertLevels?: number[];
 }
 
-interface YahooFinanceData {
-  timestamp: number[];
-  close: number[];
-}
-
-// Stock data interface for additional metrics
-interface StockData {
-  price: number;
-  volume: string;
-  marketCap: string;
-  change: number;
-}
+// One bar on the chart. value is the close price; open, high, low and close
+// are in the units being plotted: prices, or percent change from the first
+// close. Indicator lines are added under their own fields. Forecast points
+// after the last bar have no bar fields, only the forecast ones.
+type ChartPoint = {
+  name: string;
+  value?: number;
+  relativeValue?: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  volume?: number;
+  // Low-to-high span drawn by the bar modes
+  range?: [number, number];
+  // Predicted price and its lower-to-upper band, in plotted units
+  forecast?: number;
+  forecastBand?: [number, number];
+  forecastHorizon?: number;
+  [series: string]: string | number | number[] | null | undefined;
+};
 
 // Available chart periods
-export type ChartPeriod = "1d" | "5d" | "1mo" | "3mo" | "6mo" | "1y";
+export type { ChartPeriod };
+
+/**
+ * Convert price bars into chart points labelled for the period
+ * @param bars - Bars as traded
+ * @param drawn - Bars to draw, e.g. their Heikin-Ashi version; one per traded bar
+ * @param period - Chart period
+ * @param relative - Plot percent change from the first close instead of prices
+ */
+const toChartPoints = (bars: PriceBar[], drawn: PriceBar[], period: ChartPeriod, relative: boolean): ChartPoint[] => {
+  const baseValue = bars.length > 0 ? bars[0].close : 0;
+  const plot = (price: number) => (relative ? ((price / baseValue) - 1) * 100 : price);
+  return bars.map((bar, i) => ({
+    name: formatBarLabel(bar.time, period),
+    value: bar.close,
+    relativeValue: relative ? plot(bar.close) : undefined,
+    open: plot(drawn[i].open),
+    high: plot(drawn[i].high),
+    low: plot(drawn[i].low),
+    close: plot(drawn[i].close),
+    volume: bar.volume,
+    range: [plot(drawn[i].low), plot(drawn[i].high)],
+  }));
+};
 
 export default function ChartCard({
   title,
   ticker,
-  data: providedData,
+  bars: providedBars,
   color = "hsl(var(--primary))",
   subtitle,
   period = "1d",
   onDataLoaded,
-  cacheKey,
   height = 180,
   showRelativeChange = true,
   compact = false,
   minimalStyle = false,
   hideOverflow = false,
+  showTools = false,
+  forecast,
+  alertLevels = [],
 }: ChartCardProps) {
   const { theme } = useTheme();
-  const [chartData, setChartData] = useState<Array<{ name: string; value: number; relativeValue?: number }> | null>(providedData || null);
-  const [loading, setLoading] = useState(!providedData && !!ticker);
-  const [error, setError] = useState<string | null>(null);
-  const [stockInfo, setStockInfo] = useState<StockData | null>(null);
-  const [canRefreshData, setCanRefreshData] = useState(true);
-  const [cooldownTime, setCooldownTime] = useState<string>("");
-  const [usingCache, setUsingCache] = useState(false);
   const [selectedPeriod, setSelectedPeriod] = useState<ChartPeriod>(period as ChartPeriod);
+  const history = usePriceHistory(ticker, selectedPeriod, { enabled: !!ticker && !providedBars });
+  const { refresh, canRefresh: canRefreshData, cooldown: cooldownTime } = useTickerRefresh(ticker);
+  const loading = history.isLoading;
+  const error = history.isError ? 'Failed to load chart data' : null;
+  const simulated = history.data?.simulated ?? false;
+  const usingCache = history.fromCache && !simulated;
+  const preferences = useChartPreferences();
+  const toolsShown = showTools && !!ticker && !minimalStyle;
+  const chartMode: ChartMode = toolsShown ? preferences.chartMode : "line";
+  const volumeShown = toolsShown && preferences.showVolume;
+  const sourceBars = providedBars ?? history.data?.bars;
+
+  // Follow period changes made by the parent
+  useEffect(() => {
+    setSelectedPeriod(period as ChartPeriod);
+  }, [period]);
 
   // Chart customization options based on theme
   const isDarkMode = theme === 'dark';
@@ -86,341 +156,94 @@ export default function ChartCard({
   const tooltipBgColor = isDarkMode ? "#1A1F2C" : "#FFFFFF";
   const tooltipBorderColor = isDarkMode ? "#333" : "#ccc";
   
-  const fetchChartData = useCallback(async (isRefresh = false, chartPeriod = selectedPeriod) => {
-    if (!ticker) return;
-    
-    const dataKey = cacheKey ? `${cacheKey}_${chartPeriod}` : `chart_${ticker}_${chartPeriod}`;
-    
-    // Check if refresh is allowed
-    if (isRefresh && !canRefresh(dataKey)) {
-      const remaining = getRemainingCooldown(dataKey);
-      setCooldownTime(formatCooldown(remaining));
-      toast.error(`Please wait ${formatCooldown(remaining)} before refreshing again`);
-      return;
+  const indicatorResults = useMemo(
+    () => (toolsShown && sourceBars ? computeIndicators(sourceBars, preferences.indicators) : []),
+    [toolsShown, sourceBars, preferences.indicators]
+  );
+
+  const chartData = useMemo(() => {
+    if (!sourceBars) return null;
+    const drawn = chartMode === "heikinAshi" ? toHeikinAshi(sourceBars) : sourceBars;
+    const points = toChartPoints(sourceBars, drawn, selectedPeriod, showRelativeChange);
+
+    // Overlays follow the price line, so they are shown as relative change too when it is
+    if (points.length > 0) {
+      const baseValue = points[0].value;
+      indicatorResults.forEach(({ definition, series }) => {
+        const relative = showRelativeChange && definition.placement === "overlay";
+        definition.lines.forEach(line => {
+          const key = indicatorDataKey(definition.id, line.key);
+          series[line.key].forEach((value, i) => {
+            points[i][key] = value !== null && relative ? ((value / baseValue) - 1) * 100 : value;
+          });
+        });
+      });
     }
+    return points;
+  }, [sourceBars, chartMode, selectedPeriod, showRelativeChange, indicatorResults]);
+
+  const projection = useMemo(
+    () => (forecast && sourceBars && sourceBars.length > 0 && !minimalStyle ? projectForecast(forecast, sourceBars) : null),
+    [forecast, sourceBars, minimalStyle]
+  );
+
+  // The forecast continues from the last close on trading days past the
+  // chart, so the future points are appended after the real ones
+  const plotData = useMemo(() => {
+    if (!chartData || chartData.length === 0 || !projection) return chartData;
+    const baseValue = chartData[0].value;
+    const plot = (price: number) => (showRelativeChange ? ((price / baseValue) - 1) * 100 : price);
+    const last = chartData[chartData.length - 1];
+    const anchor = plot(last.value);
+    return [
+      ...chartData.slice(0, -1),
+      { ...last, forecast: anchor, forecastBand: [anchor, anchor] as [number, number] },
+      ...projection.points.map((point): ChartPoint => ({
+        name: new Date(point.time).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+        forecast: plot(point.price),
+        forecastBand: [plot(point.lower), plot(point.upper)],
+        forecastHorizon: point.horizonDays,
+      })),
+    ];
+  }, [chartData, projection, showRelativeChange]);
+
+  const overlays = indicatorResults.filter(result => result.definition.placement === "overlay");
+  const panes = indicatorResults.filter(result => result.definition.placement === "pane");
+  const overlayKeys = overlays.flatMap(({ definition }) =>
+    definition.lines.map(line => indicatorDataKey(definition.id, line.key))
+  );
+
+  // Notify parent components about the data
+  useEffect(() => {
+    if (!onDataLoaded || providedBars) return;
     
-    setLoading(true);
-    setError(null);
-    
-    try {
-      console.log(`Generating stock data for ${ticker} with period ${chartPeriod}`);
-      
-      // If this is a refresh action, clear the cache for this key
-      if (isRefresh) {
-        clearCache(dataKey);
-        markRefreshed(dataKey);
-        setCanRefreshData(false);
-        
-        // Start cooldown timer
-        const interval = setInterval(() => {
-          const remaining = getRemainingCooldown(dataKey);
-          if (remaining <= 0) {
-            clearInterval(interval);
-            setCanRefreshData(true);
-            setCooldownTime("");
-          } else {
-            setCooldownTime(formatCooldown(remaining));
-          }
-        }, 1000);
-      }
-      
-      const fallbackData = generateRealisticStockData(ticker, chartPeriod);
-      
-      // Convert to relative values if needed
-      if (showRelativeChange && fallbackData.length > 0) {
-        const baseValue = fallbackData[0].value;
-        fallbackData.forEach(dataPoint => {
-          dataPoint.relativeValue = ((dataPoint.value / baseValue) - 1) * 100;
-        });
-      }
-      
-      setChartData(fallbackData);
-      setUsingCache(!isRefresh);
-      
-      // Generate additional stock data
-      const additionalData = generateAdditionalStockData(ticker);
-      setStockInfo(additionalData);
-      
-      // Notify parent components about the data
-      if (onDataLoaded) {
-        onDataLoaded(additionalData);
-      }
-    } catch (err) {
-      console.error('Error generating stock data:', err);
-      setError('Failed to load chart data');
-      // Use simple fallback data
-      const simpleData = generateSimpleFallbackData();
-      
-      // Ensure relativeValue exists if showRelativeChange is true
-      if (showRelativeChange && simpleData.length > 0) {
-        const baseValue = simpleData[0].value;
-        simpleData.forEach(dataPoint => {
-          dataPoint.relativeValue = ((dataPoint.value / baseValue) - 1) * 100;
-        });
-      }
-      
-      setChartData(simpleData);
-      // Show toast to inform user
-      toast.error("Unable to load chart data. Using simulated data instead.");
-      
-      if (onDataLoaded) {
-        onDataLoaded(null);
-      }
-    } finally {
-      setLoading(false);
+    if (history.isError) {
+      onDataLoaded(null);
+    } else if (history.data && history.data.bars.length > 0) {
+      onDataLoaded(history.data.bars);
     }
-  }, [ticker, selectedPeriod, providedData, onDataLoaded, cacheKey, showRelativeChange]);
+  }, [history.data, history.isError, onDataLoaded, providedBars]);
 
   useEffect(() => {
-    if (providedData) {
-      // Ensure providedData has relativeValue property if showRelativeChange is true
-      if (showRelativeChange && providedData.length > 0) {
-        const processedData = [...providedData];
-        const baseValue = processedData[0].value;
-        processedData.forEach(dataPoint => {
-          if (dataPoint.relativeValue === undefined) {
-            dataPoint.relativeValue = ((dataPoint.value / baseValue) - 1) * 100;
-          }
-        });
-        setChartData(processedData);
-      } else {
-        setChartData(providedData);
-      }
-      return;
+    if (history.error) {
+      console.error('Error loading chart data:', history.error);
+      toast.error("Unable to load chart data.");
     }
-    
-    fetchChartData(false, selectedPeriod);
-    
-    // Setup cooldown timer check
-    if (ticker && cacheKey) {
-      const dataKey = `${cacheKey}_${selectedPeriod}`;
-      const checkCooldown = () => {
-        const canRefreshNow = canRefresh(dataKey);
-        setCanRefreshData(canRefreshNow);
-        
-        if (!canRefreshNow) {
-          setCooldownTime(formatCooldown(getRemainingCooldown(dataKey)));
-        }
-      };
-      
-      checkCooldown();
-      const interval = setInterval(checkCooldown, 1000);
-      
-      return () => clearInterval(interval);
+  }, [history.error]);
+
+  const handleRefresh = async () => {
+    if (!canRefreshData) {
+      toast.error(`Please wait ${cooldownTime} before refreshing again`);
+      return;
     }
-  }, [ticker, selectedPeriod, providedData, onDataLoaded, fetchChartData, cacheKey, showRelativeChange]);
+    await refresh();
+  };
   
   // Handle period change
   const handlePeriodChange = (newPeriod: ChartPeriod) => {
     setSelectedPeriod(newPeriod);
-    fetchChartData(false, newPeriod);
   };
   
-  // Generate additional stock data (price, volume, marketCap)
-  const generateAdditionalStockData = (ticker: string): StockData => {
-    // Use ticker name to generate a seed for consistent but "random" data
-    const seedValue = ticker.split("").reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    
-    // Base price depends on the ticker (for simulation)
-    let basePrice = (seedValue % 500) + 50; // Between $50 and $550
-    
-    // Override with realistic prices for well-known tickers
-    if (ticker.toUpperCase() === "META") {
-      basePrice = 587;
-    } else if (ticker.toUpperCase() === "AAPL") {
-      basePrice = 198;
-    } else if (ticker.toUpperCase() === "MSFT") {
-      basePrice = 417;
-    } else if (ticker.toUpperCase() === "GOOGL") {
-      basePrice = 164;
-    } else if (ticker.toUpperCase() === "AMZN") {
-      basePrice = 181;
-    } else if (ticker.toUpperCase() === "TSLA") {
-      basePrice = 275;
-    }
-    
-    // Add some randomness to the price
-    const price = parseFloat((basePrice + (Math.sin(seedValue / 10) * 2)).toFixed(2));
-    
-    // Generate volume (based on ticker)
-    const volumeBase = seedValue % 100;
-    let volume: string;
-    if (volumeBase < 30) {
-      volume = `${((volumeBase + 5) / 10).toFixed(1)}M`;
-    } else if (volumeBase < 70) {
-      volume = `${volumeBase + 10}M`;
-    } else {
-      volume = `${(volumeBase / 10 + 5).toFixed(1)}B`;
-    }
-    
-    // Generate market cap (based on price and ticker)
-    const marketCapBase = price * (seedValue / 10);
-    let marketCap: string;
-    if (marketCapBase < 1000) {
-      marketCap = `${(marketCapBase / 10).toFixed(1)}B`;
-    } else if (marketCapBase < 10000) {
-      marketCap = `${(marketCapBase / 1000).toFixed(2)}T`;
-    } else {
-      marketCap = `${(marketCapBase / 1000).toFixed(1)}T`;
-    }
-    
-    // Calculate change percentage (between -5% and +5%)
-    const change = parseFloat((Math.sin(seedValue / 5) * 5).toFixed(2));
-    
-    return {
-      price,
-      volume,
-      marketCap,
-      change
-    };
-  };
-  
-  // Generate realistic-looking stock data based on ticker and period
-  const generateRealisticStockData = (ticker: string, period: string) => {
-    const data: Array<{ name: string; value: number; relativeValue?: number }> = [];
-    
-    // Use ticker name to generate a seed for consistent but "random" data
-    const seedValue = ticker.split("").reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    const seed = seedValue / 100;
-    
-    // Base price depends on the ticker (for simulation)
-    let basePrice = (seedValue % 500) + 50; // Between $50 and $550
-    
-    // Override with realistic prices for well-known tickers
-    if (ticker.toUpperCase() === "META") {
-      basePrice = 587;
-    } else if (ticker.toUpperCase() === "AAPL") {
-      basePrice = 198;
-    } else if (ticker.toUpperCase() === "MSFT") {
-      basePrice = 417;
-    } else if (ticker.toUpperCase() === "GOOGL") {
-      basePrice = 164;
-    } else if (ticker.toUpperCase() === "AMZN") {
-      basePrice = 181;
-    } else if (ticker.toUpperCase() === "TSLA") {
-      basePrice = 275;
-    }
-    
-    // Number of data points based on period
-    const dataPoints = 
-      period === "1d" ? 24 : // hourly
-      period === "5d" ? 40 : // 5 days × 8 hours
-      period === "1mo" ? 30 : // daily for a month
-      period === "3mo" ? 90 : // daily for 3 months
-      period === "6mo" ? 26 : // weekly for 6 months
-      52; // weekly for a year
-    
-    // Volatility based on period and ticker
-    let volatility = 
-      period === "1d" ? 0.003 : 
-      period === "5d" ? 0.008 : 
-      period === "1mo" ? 0.015 : 
-      period === "3mo" ? 0.025 :
-      period === "6mo" ? 0.04 : 
-      0.06; // 1y
-    
-    // Adjust volatility based on the stock
-    if (ticker.toUpperCase() === "TSLA") {
-      volatility *= 2; // Tesla is more volatile
-    } else if (ticker.toUpperCase() === "AAPL" || ticker.toUpperCase() === "MSFT") {
-      volatility *= 0.7; // Blue chips are less volatile
-    }
-      
-    // Generate data points
-    let price = basePrice;
-    let trend = Math.sin(seed) * 0.5; // -0.5 to 0.5, determines general trend direction
-    
-    // For META, create a more specific pattern based on recent performance
-    if (ticker.toUpperCase() === "META" && period === "1d") {
-      // Slightly downward trend for META's daily chart
-      trend = -0.2;
-    } else if (ticker.toUpperCase() === "AAPL" && period === "1mo") {
-      // Slightly upward trend for AAPL monthly
-      trend = 0.3;
-    }
-    
-    for (let i = 0; i < dataPoints; i++) {
-      // Implement a slight trend with random noise
-      const progress = i / dataPoints; // 0 to 1, position in the timeline
-      const randomFactor = (Math.sin(i * seed * 5) + Math.cos(i * seed * 3)) * volatility;
-      const trendFactor = trend * volatility * 0.8 * progress;
-      
-      // Add some pattern to make charts look more realistic
-      const patternFactor = Math.sin(i / 5) * volatility * 0.3;
-      
-      price = price * (1 + randomFactor + trendFactor + patternFactor);
-      
-      // Format date based on period
-      let dateFormat: string;
-      const now = new Date();
-      
-      if (period === "1d") {
-        // For 1-day chart, use even hour distribution
-        const hour = (now.getHours() + i - dataPoints) % 24;
-        const formattedHour = hour % 12 === 0 ? 12 : hour % 12;
-        const amPm = hour < 12 || hour === 24 ? 'AM' : 'PM';
-        dateFormat = `${formattedHour}${amPm}`;
-      } else if (period === "5d") {
-        // For 5-day chart, use day and hour
-        const date = new Date();
-        date.setHours(date.getHours() - (dataPoints - i - 1) * 3);
-        const day = date.toLocaleDateString('en-US', { weekday: 'short' });
-        const hour = date.getHours();
-        const formattedHour = hour % 12 === 0 ? 12 : hour % 12;
-        const amPm = hour < 12 ? 'AM' : 'PM';
-        dateFormat = `${day} ${formattedHour}${amPm}`;
-      } else if (period === "1mo") {
-        // For 1-month chart, use day and month
-        const date = new Date();
-        date.setDate(date.getDate() - (dataPoints - i - 1));
-        dateFormat = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-      } else if (period === "3mo") {
-        // For 3-month chart, use day and month
-        const date = new Date();
-        date.setDate(date.getDate() - (dataPoints - i - 1));
-        dateFormat = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-      } else {
-        // For 6-month and 1-year charts, use month only
-        const date = new Date();
-        date.setDate(date.getDate() - (dataPoints - i - 1) * 7);
-        dateFormat = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-      }
-      
-      data.push({
-        name: dateFormat,
-        value: parseFloat(price.toFixed(2))
-      });
-    }
-    
-    return data;
-  };
-  
-  // Simple fallback for worst-case scenarios
-  const generateSimpleFallbackData = () => {
-    const data: Array<{ name: string; value: number; relativeValue?: number }> = [];
-    let value = 150 + Math.random() * 50;
-    
-    for (let i = 0; i < 20; i++) {
-      value = value + (Math.random() - 0.5) * 10;
-      data.push({
-        name: `${i + 1}h`,
-        value: parseFloat(value.toFixed(2))
-      });
-    }
-    
-    // Add relativeValue field if we're using relative change
-    if (showRelativeChange && data.length > 0) {
-      const baseValue = data[0].value;
-      data.forEach(point => {
-        if (point.relativeValue === undefined) {
-          point.relativeValue = ((point.value / baseValue) - 1) * 100;
-        }
-      });
-    }
-    
-    return data;
-  };
-
   if (loading) {
     return (
       <Card className={`w-full h-full ${hideOverflow ? "overflow-hidden" : ""}`}>
@@ -450,8 +273,8 @@ export default function ChartCard({
         </CardHeader>
         <CardContent className="p-0">
           <div className={`w-full flex flex-col items-center justify-center`} style={{ height: `${height}px` }}>
-            <p className="text-muted-foreground">Using simulated market data</p>
-            <p className="text-xs text-muted-foreground">(Real-time data unavailable)</p>
+            <p className="text-muted-foreground">Chart data unavailable</p>
+            <p className="text-xs text-muted-foreground">(Try refreshing later)</p>
           </div>
         </CardContent>
       </Card>
@@ -480,24 +303,47 @@ export default function ChartCard({
 
   // Get the data key to use
   const yDataKey = showRelativeChange ? 'relativeValue' : 'value';
+
+  // Alert levels in the plotted units
+  const plottedAlertLevels = showRelativeChange
+    ? (startValue > 0 ? alertLevels.map(level => ((level / startValue) - 1) * 100) : [])
+    : alertLevels;
   
-  // Make sure every point in chartData has the relativeValue property if showRelativeChange is true
-  if (showRelativeChange && chartData && chartData.length > 0) {
-    const baseValue = chartData[0].value;
-    chartData.forEach(point => {
-      if (point.relativeValue === undefined) {
-        point.relativeValue = ((point.value / baseValue) - 1) * 100;
-      }
-    });
-  }
-  
+  // Everything drawn against the relative axis, bar ranges, overlays and
+  // the forecast band included
+  const plottedValues = showRelativeChange && plotData
+    ? plotData.flatMap(item => [
+        ...(item.forecastHorizon !== undefined
+          ? []
+          : isBarMode(chartMode) ? [item.low, item.high] : [item.relativeValue || 0]),
+        ...(item.forecastBand ?? []),
+        ...overlayKeys.map(key => item[key]).filter((value): value is number => typeof value === "number"),
+      ]).concat(plottedAlertLevels)
+    : [];
   const chartMaxValue = showRelativeChange && chartData
-    ? Math.max(...chartData.map(item => item.relativeValue || 0)) * 1.1
+    ? Math.max(...plottedValues) * 1.1
     : undefined;
   const chartMinValue = showRelativeChange && chartData
-    ? Math.min(...chartData.map(item => item.relativeValue || 0)) * 1.1
+    ? Math.min(...plottedValues) * 1.1
     : undefined;
 
+  // Baseline mode shades above the first value green and below it red; the
+  // gradient switches color where the baseline falls within the line's range
+  const baselineValue = showRelativeChange ? 0 : startValue;
+  const lineValues = chartData ? chartData.map(point => point[yDataKey] as number) : [];
+  const lineMax = Math.max(...lineValues);
+  const lineMin = Math.min(...lineValues);
+  const baselineOffset = lineMax > lineMin
+    ? Math.min(1, Math.max(0, (lineMax - baselineValue) / (lineMax - lineMin)))
+    : 0.5;
+
+  const gradientId = `${title}${ticker ?? ""}`.replace(/\s+/g, '');
+  const syncId = toolsShown ? `chart-${ticker}` : undefined;
+  const formatValue = (value: number) => (showRelativeChange ? formatPercent(value) : formatPrice(value));
+  const forecastIssued = projection
+    ? new Date(projection.issuedAt).toLocaleDateString(undefined, { timeZone: "UTC" })
+    : "";
+
   // For minimal style (similar to reference images)
   if (minimalStyle) {
     return (
@@ -510,6 +356,18 @@ export default function ChartCard({
                 <div className="text-xs text-muted-foreground">{subtitle}</div>
               </div>
               <div className="flex items-center gap-1">
+                {simulated && (
+                  <TooltipProvider>
+                    <UITooltip>
+                      <TooltipTrigger>
+                        <FlaskConical className="h-3 w-3 text-warning" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Simulated data (real price history unavailable)</p>
+                      </TooltipContent>
+                    </UITooltip>
+                  </TooltipProvider>
+                )}
                 {usingCache && (
                   <TooltipProvider>
                     <UITooltip>
@@ -517,7 +375,7 @@ export default function ChartCard({
                         <Database className="h-3 w-3 text-muted-foreground" />
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p>Using cached data (30m)</p>
+                        <p>Using cached data</p>
                       </TooltipContent>
                     </UITooltip>
                   </TooltipProvider>
@@ -525,8 +383,8 @@ export default function ChartCard({
                 <Button 
                   variant="ghost" 
                   size="icon" 
-                  onClick={() => fetchChartData(true)} 
-                  disabled={!canRefreshData || loading}
+                  onClick={handleRefresh} 
+                  disabled={!canRefreshData || history.isFetching}
                   className="h-6 w-6"
                 >
                   <RefreshCw className="h-3 w-3" />
@@ -536,7 +394,7 @@ export default function ChartCard({
             
             <div className="mt-1 px-3">
               <span className={`font-mono text-sm ${isPositive ? "text-success" : "text-danger"}`}>
-                {isPositive ? "+" : ""}{changePercent.toFixed(2)}%
+                {formatPercent(changePercent, true)}
               </span>
             </div>
             
@@ -547,7 +405,7 @@ export default function ChartCard({
                   margin={{ top: 5, right: 0, left: 0, bottom: 5 }}
                 >
                   <defs>
-                    <linearGradient id={`colorGradient-${title.replace(/\s+/g, '')}`} x1="0" y1="0" x2="0" y2="1">
+                    <linearGradient id={`colorGradient-${gradientId}`} x1="0" y1="0" x2="0" y2="1">
                       <stop offset="5%" stopColor={finalChartColor} stopOpacity={0.3}/>
                       <stop offset="95%" stopColor={finalChartColor} stopOpacity={0}/>
                     </linearGradient>
@@ -606,6 +464,37 @@ export default function ChartCard({
           {/* Refresh button and cached data indicator */}
           {ticker && (
             <div className="flex items-center gap-1">
+              {toolsShown && (
+                <>
+                  <Select value={chartMode} onValueChange={(mode) => preferences.setChartMode(mode as ChartMode)}>
+                    <SelectTrigger className={`${compact ? "h-6 w-[110px] text-[10px]" : "h-8 w-[130px] text-xs"}`} aria-label="Chart type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHART_MODES.map(mode => (
+                        <SelectItem key={mode.id} value={mode.id} className="text-xs">{mode.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant={volumeShown ? "secondary" : "ghost"}
+                    size="icon"
+                    className={`${compact ? "h-6 w-6" : "h-8 w-8"}`}
+                    onClick={() => preferences.setShowVolume(!preferences.showVolume)}
+                    title={volumeShown ? "Hide volume" : "Show volume"}
+                    aria-pressed={volumeShown}
+                  >
+                    <BarChart3 className={compact ? "h-3 w-3" : "h-4 w-4"} />
+                  </Button>
+                  <IndicatorMenu compact={compact} />
+                </>
+              )}
+              {simulated && (
+                <span className={`flex items-center gap-1 rounded border border-warning/50 px-1.5 text-warning ${compact ? "text-[10px]" : "text-xs"}`}>
+                  <FlaskConical className={compact ? "h-3 w-3" : "h-3.5 w-3.5"} />
+                  Simulated
+                </span>
+              )}
               {usingCache && (
                 <TooltipProvider>
                   <UITooltip>
@@ -613,7 +502,7 @@ export default function ChartCard({
                       <Database className={`${compact ? "h-3 w-3" : "h-4 w-4"} text-muted-foreground`} />
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p>Using cached data (30m)</p>
+                      <p>Using cached data</p>
                     </TooltipContent>
                   </UITooltip>
                 </TooltipProvider>
@@ -622,14 +511,14 @@ export default function ChartCard({
               <Button 
                 variant="ghost" 
                 size="icon" 
-                onClick={() => fetchChartData(true)} 
-                disabled={!canRefreshData || loading}
+                onClick={handleRefresh} 
+                disabled={!canRefreshData || history.isFetching}
                 className={`${compact ? "h-6 w-6" : "h-8 w-8"}`}
               >
                 <TooltipProvider>
                   <UITooltip>
                     <TooltipTrigger>
-                      <RefreshCw className={`${compact ? "h-3 w-3" : "h-4 w-4"} ${loading ? "animate-spin" : ""}`} />
+                      <RefreshCw className={`${compact ? "h-3 w-3" : "h-4 w-4"} ${history.isFetching ? "animate-spin" : ""}`} />
                     </TooltipTrigger>
                     <TooltipContent>
                       {canRefreshData 
@@ -647,7 +536,7 @@ export default function ChartCard({
         {chartData && chartData.length > 0 && (
           <div className="flex items-baseline gap-2 mt-1">
             <span className={`font-mono ${compact ? "text-xs" : "text-sm"} ${isPositive ? "text-success" : "text-danger"}`}>
-              {isPositive ? "+" : ""}{changePercent.toFixed(2)}%
+              {formatPercent(changePercent, true)}
             </span>
             {!showRelativeChange && (
               <span className={`${compact ? "text-[10px]" : "text-xs"} text-muted-foreground font-mono`}>
@@ -660,7 +549,7 @@ export default function ChartCard({
         {/* Time period selector */}
         {ticker === "NIFTY50" && (
           <div className="flex flex-wrap gap-1 mt-2">
-            {(["1d", "5d", "1mo", "3mo", "6mo", "1y"] as ChartPeriod[]).map((p) => (
+            {CHART_PERIODS.map((p) => (
               <Button
                 key={p}
                 variant={selectedPeriod === p ? "default" : "outline"}
@@ -678,8 +567,9 @@ export default function ChartCard({
       <CardContent className={`${compact ? "p-0" : "p-1"}`}>
         <div className="w-full" style={{ height: `${height}px` }}>
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart
-              data={chartData || []}
+            <ComposedChart
+              data={plotData || []}
+              syncId={syncId}
               margin={{
                 top: compact ? 2 : 5,
                 right: compact ? 5 : 10,
@@ -688,10 +578,24 @@ export default function ChartCard({
               }}
             >
               <defs>
-                <linearGradient id={`colorGradient-${title.replace(/\s+/g, '')}`} x1="0" y1="0" x2="0" y2="1">
+                <linearGradient id={`colorGradient-${gradientId}`} x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor={finalChartColor} stopOpacity={0.3}/>
                   <stop offset="95%" stopColor={finalChartColor} stopOpacity={0}/>
                 </linearGradient>
+                {chartMode === "baseline" && (
+                  <>
+                    <linearGradient id={`baselineFill-${gradientId}`} x1="0" y1="0" x2="0" y2="1">
+                      <stop offset={0} stopColor="hsl(var(--success))" stopOpacity={0.35}/>
+                      <stop offset={baselineOffset} stopColor="hsl(var(--success))" stopOpacity={0.05}/>
+                      <stop offset={baselineOffset} stopColor="hsl(var(--danger))" stopOpacity={0.05}/>
+                      <stop offset={1} stopColor="hsl(var(--danger))" stopOpacity={0.35}/>
+                    </linearGradient>
+                    <linearGradient id={`baselineStroke-${gradientId}`} x1="0" y1="0" x2="0" y2="1">
+                      <stop offset={baselineOffset} stopColor="hsl(var(--success))"/>
+                      <stop offset={baselineOffset} stopColor="hsl(var(--danger))"/>
+                    </linearGradient>
+                  </>
+                )}
               </defs>
               
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} opacity={0.2} />
@@ -729,11 +633,25 @@ export default function ChartCard({
                 }}
                 itemStyle={{ color: textColor }}
                 labelStyle={{ color: textColor, marginBottom: compact ? "2px" : "4px" }}
-                formatter={(value: any) => {
-                  if (showRelativeChange) {
-                    return [`${parseFloat(value).toFixed(2)}%`, 'Change'];
+                labelFormatter={(label: string, payload: Array<{ payload?: ChartPoint }>) => {
+                  const horizon = payload?.[0]?.payload?.forecastHorizon;
+                  return horizon
+                    ? `${label} · ${horizon}-day forecast from ${forecastIssued}`
+                    : label;
+                }}
+                formatter={(value: number | number[], name: string, item: { dataKey?: string; payload?: ChartPoint }) => {
+                  if (item.dataKey === "forecastBand" && Array.isArray(value)) {
+                    return [`${formatValue(value[0])} – ${formatValue(value[1])}`, name];
+                  }
+                  // Bar modes plot a [low, high] range; show the whole bar instead
+                  if (Array.isArray(value)) {
+                    const bar = item.payload;
+                    return [
+                      `O ${formatValue(bar.open)}  H ${formatValue(bar.high)}  L ${formatValue(bar.low)}  C ${formatValue(bar.close)}`,
+                      name,
+                    ];
                   }
-                  return [`$${value}`, 'Price'];
+                  return [formatValue(value), name];
                 }}
                 animationDuration={200}
               />
@@ -757,21 +675,133 @@ export default function ChartCard({
                   opacity={0.5}
                 />
               )}
+
+              {plottedAlertLevels.map((level, i) => (
+                <ReferenceLine
+                  key={`alert-${i}`}
+                  y={level}
+                  stroke="hsl(var(--warning))"
+                  strokeDasharray="6 3"
+                  ifOverflow="extendDomain"
+                  label={{
+                    value: `Alert ${formatPrice(alertLevels[i])}`,
+                    position: "insideTopRight",
+                    fill: textColor,
+                    fontSize: compact ? 8 : 10,
+                  }}
+                />
+              ))}
               
-              <Line
-                type="monotone"
-                dataKey={yDataKey}
-                stroke={finalChartColor}
-                strokeWidth={compact ? 1.5 : 2}
-                dot={false}
-                activeDot={{ r: compact ? 3 : 5, stroke: tooltipBgColor, strokeWidth: compact ? 1 : 2 }}
-                isAnimationActive={true}
-                animationDuration={1000}
-                fill={`url(#colorGradient-${title.replace(/\s+/g, '')})`}
-              />
-            </LineChart>
+              {chartMode === "line" && (
+                <Line
+                  type="monotone"
+                  dataKey={yDataKey}
+                  name={showRelativeChange ? 'Change' : 'Price'}
+                  stroke={finalChartColor}
+                  strokeWidth={compact ? 1.5 : 2}
+                  dot={false}
+                  activeDot={{ r: compact ? 3 : 5, stroke: tooltipBgColor, strokeWidth: compact ? 1 : 2 }}
+                  isAnimationActive={true}
+                  animationDuration={1000}
+                  fill={`url(#colorGradient-${gradientId})`}
+                />
+              )}
+
+              {(chartMode === "area" || chartMode === "baseline") && (
+                <Area
+                  type="monotone"
+                  dataKey={yDataKey}
+                  name={showRelativeChange ? 'Change' : 'Price'}
+                  stroke={chartMode === "baseline" ? `url(#baselineStroke-${gradientId})` : finalChartColor}
+                  fill={chartMode === "baseline" ? `url(#baselineFill-${gradientId})` : `url(#colorGradient-${gradientId})`}
+                  baseValue={chartMode === "baseline" ? baselineValue : undefined}
+                  strokeWidth={compact ? 1.5 : 2}
+                  activeDot={{ r: compact ? 3 : 5, stroke: tooltipBgColor, strokeWidth: compact ? 1 : 2 }}
+                  isAnimationActive={true}
+                  animationDuration={1000}
+                />
+              )}
+
+              {isBarMode(chartMode) && (
+                <Bar
+                  dataKey="range"
+                  name={chartMode === "heikinAshi" ? "Heikin-Ashi" : "Price"}
+                  isAnimationActive={false}
+                  shape={(props: object) => chartMode === "ohlc"
+                    ? <OhlcShape {...props} upColor="hsl(var(--success))" downColor="hsl(var(--danger))" />
+                    : <CandleShape {...props} upColor="hsl(var(--success))" downColor="hsl(var(--danger))" />}
+                />
+              )}
+
+              {overlays.flatMap(({ definition }) => definition.lines.map(line => (
+                <Line
+                  key={indicatorDataKey(definition.id, line.key)}
+                  type="monotone"
+                  dataKey={indicatorDataKey(definition.id, line.key)}
+                  name={line.label}
+                  stroke={line.color}
+                  strokeWidth={1.25}
+                  strokeDasharray={line.dashed ? "4 2" : undefined}
+                  dot={false}
+                  activeDot={false}
+                  isAnimationActive={false}
+                />
+              )))}
+
+              {projection && (
+                <Area
+                  type="monotone"
+                  dataKey="forecastBand"
+                  name="80% range"
+                  stroke="none"
+                  fill={finalChartColor}
+                  fillOpacity={0.12}
+                  activeDot={false}
+                  isAnimationActive={false}
+                />
+              )}
+
+              {projection && (
+                <Line
+                  type="monotone"
+                  dataKey="forecast"
+                  name={`Forecast (${projection.modelVersion})`}
+                  stroke={finalChartColor}
+                  strokeWidth={compact ? 1.5 : 2}
+                  strokeDasharray="5 4"
+                  dot={{ r: compact ? 1.5 : 2.5, fill: finalChartColor, strokeWidth: 0 }}
+                  activeDot={{ r: compact ? 3 : 5, stroke: tooltipBgColor, strokeWidth: compact ? 1 : 2 }}
+                  isAnimationActive={false}
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
+
+        {plotData && volumeShown && (
+          <VolumePane
+            data={plotData}
+            height={compact ? 70 : 90}
+            syncId={syncId}
+            textColor={textColor}
+            tooltipBgColor={tooltipBgColor}
+            tooltipBorderColor={tooltipBorderColor}
+          />
+        )}
+
+        {plotData && panes.map(({ definition }) => (
+          <IndicatorPane
+            key={definition.id}
+            definition={definition}
+            data={plotData}
+            height={compact ? 80 : 110}
+            syncId={syncId}
+            textColor={textColor}
+            gridColor={gridColor}
+            tooltipBgColor={tooltipBgColor}
+            tooltipBorderColor={tooltipBorderColor}
+          />
+        ))}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowRight, Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from "@/components/ui/command";
+import { useSymbolSearch } from "@/hooks/use-market-data";
+import { Instrument, SymbolMatch } from "@/utils/marketData/model";
+import { resolveInstrument } from "@/utils/marketData/symbolDirectory";
+
+// Where a listing trades, e.g. "NASDAQ · USD"
+const describeListing = (match: SymbolMatch) =>
+  [match.exchange ?? match.region, match.currency].filter(Boolean).join(" · ");
+
+const isMac = typeof navigator !== "undefined" && /mac/i.test(navigator.platform);
+
+// Header search for any stock; opens with Ctrl+K / Cmd+K and goes to the stock's page
+export default function CommandPalette() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const { matches, searching } = useSymbolSearch(query);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setQuery("");
+  };
+
+  const handleSelect = (instrument: Instrument) => {
+    handleOpenChange(false);
+    navigate(`/stocks/${instrument.symbol.toLowerCase()}`);
+  };
+
+  // Let a well-formed ticker be opened even when no search result has it
+  const typed = resolveInstrument(query);
+  const offerTyped = typed && !matches.some(match => match.symbol === typed.symbol);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2 text-muted-foreground md:w-56 md:justify-start"
+        onClick={() => setOpen(true)}
+        aria-label="Search stocks"
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden md:inline">Search stocks...</span>
+        <kbd className="pointer-events-none ml-auto hidden rounded border bg-muted px-1.5 font-mono text-[10px] md:inline">
+          {isMac ? "⌘" : "Ctrl+"}K
+        </kbd>
+      </Button>
+      <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+        <CommandInput placeholder="Search by ticker or company name..." value={query} onValueChange={setQuery} />
+        <CommandList>
+          <CommandEmpty>
+            {!query.trim() ? "Type a ticker or company name" : searching ? "Searching..." : "No matching stocks"}
+          </CommandEmpty>
+          {matches.length > 0 && (
+            <CommandGroup heading="Stocks">
+              {matches.map(match => (
+                <CommandItem key={match.symbol} value={match.symbol} onSelect={() => handleSelect(match)}>
+                  <span className="font-mono font-semibold w-20 shrink-0">{match.symbol}</span>
+                  <span className="truncate">{match.name}</span>
+                  <span className="ml-auto pl-2 shrink-0 text-xs text-muted-foreground">{describeListing(match)}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+          {offerTyped && (
+            <CommandGroup heading="Go to">
+              <CommandItem value={`typed-${typed.symbol}`} onSelect={() => handleSelect(typed)}>
+                <ArrowRight className="mr-2 h-4 w-4" />
+                Open ticker <span className="ml-1 font-mono font-semibold">{typed.symbol}</span>
+              </CommandItem>
+            </CommandGroup>
+          )}
+          {searching && matches.length > 0 && (
+            <div className="flex items-center gap-2 px-4 py-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Searching more listings...
+            </div>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useResetMarketData } from "@/hooks/use-market-data";
+import {
+  CONNECTION_TARGETS,
+  ConnectionTarget,
+  ConnectionTestResult,
+  DataSourceConfig,
+  MarketDataCapability,
+  MarketDataProviderId,
+  PROVIDER_IDS,
+  ValidationError,
+  getDataSourceConfig,
+  getDefaultDataSourceConfig,
+  getProviders,
+  resetDataSourceConfig,
+  saveDataSourceConfig,
+  supports,
+  testConnection,
+  usesBrowserApiKey,
+  validateDataSourceConfig
+} from "@/utils/apiService";
+
+const CAPABILITY_LABELS: Record<MarketDataCapability, string> = {
+  quote: "Quotes",
+  overview: "Company overviews",
+  history: "Price history",
+  predictions: "Predictions",
+  marketVolatility: "Market volatility",
+  search: "Symbol search",
+};
+
+type EndpointField = "proxyBaseUrl" | "alphaVantageBaseUrl" | "alphaVantageApiKey" | "predictionApiBaseUrl" | "localJsonUrl";
+
+const ENDPOINT_FIELDS: Array<{ field: EndpointField; label: string; secret?: boolean }> = [
+  { field: "proxyBaseUrl", label: "Proxy URL" },
+  { field: "alphaVantageBaseUrl", label: "Alpha Vantage URL" },
+  { field: "alphaVantageApiKey", label: "Alpha Vantage Browser Key", secret: true },
+  { field: "predictionApiBaseUrl", label: "Prediction API URL" },
+  { field: "localJsonUrl", label: "Local JSON URL" },
+];
+
+const TARGET_LABELS: Record<ConnectionTarget, string> = {
+  proxy: "Proxy",
+  alphaVantage: "Alpha Vantage",
+  predictionBackend: "Prediction API",
+  localJson: "Local JSON",
+};
+
+// Providers and endpoints used by the data layer, editable at runtime
+export default function DataSourceSettings() {
+  const { toast } = useToast();
+  const resetMarketData = useResetMarketData();
+  const [draft, setDraft] = useState<DataSourceConfig>(getDataSourceConfig());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [testing, setTesting] = useState(false);
+  const [results, setResults] = useState<ConnectionTestResult[]>([]);
+  const providers = getProviders();
+
+  const updateField = (field: EndpointField, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const updateProvider = (capability: MarketDataCapability, id: MarketDataProviderId) => {
+    setDraft(prev => ({ ...prev, providers: { ...prev.providers, [capability]: id } }));
+  };
+
+  // Show validation issues next to their fields
+  const showValidation = (error: unknown) => {
+    if (!(error instanceof ValidationError)) throw error;
+    setErrors(Object.fromEntries(error.issues.map(issue => [issue.path.join("."), issue.message])));
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveDataSourceConfig(draft);
+      setDraft(saved);
+      setErrors({});
+      // Cached responses may have come from the previous providers
+      resetMarketData();
+      toast({
+        title: "Settings Saved",
+        description: "API configuration has been updated",
+      });
+    } catch (error) {
+      showValidation(error);
+      toast({
+        title: "Invalid Settings",
+        description: "Fix the highlighted fields and try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReset = () => {
+    resetDataSourceConfig();
+    setDraft(getDefaultDataSourceConfig());
+    setErrors({});
+    setResults([]);
+    resetMarketData();
+    toast({
+      title: "Settings Reset",
+      description: "API configuration restored to the defaults",
+    });
+  };
+
+  const handleTest = async () => {
+    // Test what is in the form, even before it is saved
+    let config: DataSourceConfig;
+    try {
+      config = validateDataSourceConfig(draft);
+      setErrors({});
+    } catch (error) {
+      showValidation(error);
+      return;
+    }
+
+    setTesting(true);
+    setResults([]);
+    try {
+      const outcomes = await Promise.all(CONNECTION_TARGETS.map(target => testConnection(target, config)));
+      setResults(outcomes);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {(Object.keys(CAPABILITY_LABELS) as MarketDataCapability[]).map((capability) => (
+          <div key={capability} className="flex items-center justify-between gap-2">
+            <Label className="text-sm">{CAPABILITY_LABELS[capability]}</Label>
+            <Select
+              value={draft.providers[capability]}
+              onValueChange={(value) => updateProvider(capability, value as MarketDataProviderId)}
+            >
+              <SelectTrigger className="w-[170px] h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDER_IDS.filter(id => supports(providers[id], capability)).map((id) => (
+                  <SelectItem key={id} value={id} className="text-xs">
+                    {providers[id].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {/* The key is only kept in the browser while a capability calls Alpha Vantage directly */}
+      {ENDPOINT_FIELDS.filter(({ secret }) => !secret || usesBrowserApiKey(draft)).map(({ field, label, secret }) => (
+        <div key={field}>
+          <Label htmlFor={field} className="text-sm">{label}</Label>
+          <Input
+            id={field}
+            type={secret ? "password" : "text"}
+            autoComplete="off"
+            value={draft[field]}
+            onChange={(e) => updateField(field, e.target.value)}
+            className={`mt-1.5 ${errors[field] ? "border-danger" : ""}`}
+          />
+          {errors[field] && (
+            <p className="mt-1 text-xs text-danger">{errors[field]}</p>
+          )}
+          {secret && (
+            <p className="mt-1 text-xs text-warning">
+              This key is saved in this browser's local storage, where any script on the site can read it.
+              Use the proxy to keep keys on the server.
+            </p>
+          )}
+        </div>
+      ))}
+
+      {results.length > 0 && (
+        <div className="rounded-md border divide-y text-sm">
+          {results.map((result) => (
+            <div key={result.target} className="flex items-center gap-2 px-3 py-2">
+              {result.ok ? (
+                <CheckCircle2 className="h-4 w-4 shrink-0 text-success" />
+              ) : (
+                <XCircle className="h-4 w-4 shrink-0 text-danger" />
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="font-medium">{TARGET_LABELS[result.target]}</div>
+                <div className="text-xs text-muted-foreground truncate" title={result.message}>{result.message}</div>
+              </div>
+              <div className="text-right text-xs text-muted-foreground font-mono">
+                <div>{result.status ?? "—"}</div>
+                <div>{result.latencyMs !== null ? `${result.latencyMs} ms` : "—"}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" onClick={handleTest} disabled={testing}>
+          {testing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Test Connection
+        </Button>
+        <Button variant="outline" onClick={handleReset}>
+          Reset to Defaults
+        </Button>
+      </div>
+
+      <Button className="w-full" onClick={handleSave}>
+        Save Settings
+      </Button>
+    </div>
+  );
+}
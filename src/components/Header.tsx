@@ -4,6 +4,8 @@ import { useTheme } from "@/providers/ThemeProvider";
 import { useMaintenance } from "@/providers/MaintenanceProvider";
 import { useAuth } from "@/providers/AuthProvider";
 import { Button } from "@/components/ui/button";
+import CommandPalette from "@/components/CommandPalette";
+import NotificationCenter from "@/components/NotificationCenter";
 import { Sun, Moon, User, LogOut } from "lucide-react";
 
 export default function Header() {
@@ -26,6 +28,22 @@ export default function Header() {
           </Link>
           
           <div className="flex items-center gap-4">
+            <CommandPalette />
+            <Link to="/portfolio" className="hidden md:block text-sm text-muted-foreground hover:text-foreground">
+              Portfolio
+            </Link>
+            <Link to="/paper-trading" className="hidden md:block text-sm text-muted-foreground hover:text-foreground">
+              Paper Trading
+            </Link>
+            <Link to="/screener" className="hidden md:block text-sm text-muted-foreground hover:text-foreground">
+              Screener
+            </Link>
+            <Link to="/predictions" className="hidden md:block text-sm text-muted-foreground hover:text-foreground">
+              Predictions
+            </Link>
+            <Link to="/alerts" className="hidden md:block text-sm text-muted-foreground hover:text-foreground">
+              Alerts
+            </Link>
             {user ? (
               <div className="flex items-center gap-4">
                 {isAdmin && (
@@ -54,6 +72,7 @@ export default function Header() {
               </Link>
             )}
             
+            <NotificationCenter />
             <Button
               variant="ghost"
               size="icon"
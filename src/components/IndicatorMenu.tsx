@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Activity } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useChartPreferences } from "@/providers/ChartPreferencesProvider";
+import { INDICATOR_IDS, INDICATORS, IndicatorId } from "@/utils/indicators";
+
+const GROUPS: Array<{ heading: string; placement: "overlay" | "pane" }> = [
+  { heading: "Overlays", placement: "overlay" },
+  { heading: "Oscillators", placement: "pane" },
+];
+
+interface ParamInputProps {
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onCommit: (value: number) => void;
+}
+
+// Number field that applies its value on blur or Enter, so partly typed
+// numbers aren't clamped while the user is still typing
+function ParamInput({ value, min, max, step, onCommit }: ParamInputProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() && Number.isFinite(parsed)) {
+      const clamped = Math.min(max, Math.max(min, Math.round(parsed / step) * step));
+      setDraft(String(clamped));
+      onCommit(clamped);
+    } else {
+      setDraft(String(value));
+    }
+  };
+
+  return (
+    <Input
+      type="number"
+      className="h-7 w-16 px-2 text-xs"
+      min={min}
+      max={max}
+      step={step}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+    />
+  );
+}
+
+interface IndicatorMenuProps {
+  compact?: boolean;
+}
+
+// Chart menu for switching indicators on and off and setting their parameters
+export default function IndicatorMenu({ compact = false }: IndicatorMenuProps) {
+  const { indicators, setIndicatorEnabled, setIndicatorParam, resetIndicators } = useChartPreferences();
+  const activeCount = INDICATOR_IDS.filter(id => indicators[id].enabled).length;
+
+  const renderIndicator = (id: IndicatorId) => {
+    const definition = INDICATORS[id];
+    const setting = indicators[id];
+    return (
+      <div key={id} className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor={`indicator-${id}`} className="text-sm font-normal">{definition.name}</Label>
+          <Switch
+            id={`indicator-${id}`}
+            checked={setting.enabled}
+            onCheckedChange={(checked) => setIndicatorEnabled(id, checked)}
+          />
+        </div>
+        {setting.enabled && definition.params.length > 0 && (
+          <div className="flex flex-wrap gap-2 pl-2">
+            {definition.params.map(param => (
+              <label key={param.key} className="flex items-center gap-1 text-xs text-muted-foreground">
+                {param.label}
+                <ParamInput
+                  value={setting.params[param.key]}
+                  min={param.min}
+                  max={param.max}
+                  step={param.step ?? 1}
+                  onCommit={(value) => setIndicatorParam(id, param.key, value)}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={`gap-1 ${compact ? "h-6 px-2 text-xs" : "h-8"}`}>
+          <Activity className={compact ? "h-3 w-3" : "h-4 w-4"} />
+          Indicators{activeCount > 0 && ` (${activeCount})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <div className="space-y-4">
+          {GROUPS.map(({ heading, placement }, index) => (
+            <div key={placement} className="space-y-3">
+              {index > 0 && <Separator />}
+              <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{heading}</h4>
+              {INDICATOR_IDS.filter(id => INDICATORS[id].placement === placement).map(renderIndicator)}
+            </div>
+          ))}
+          <Button variant="outline" size="sm" className="w-full" onClick={resetIndicators}>
+            Reset indicators
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
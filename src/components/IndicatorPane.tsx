@@ -0,0 +1,88 @@
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { IndicatorDefinition, indicatorDataKey } from "@/utils/indicators";
+
+interface IndicatorPaneProps {
+  definition: IndicatorDefinition;
+  // Chart points holding the indicator's lines, as built by ChartCard
+  data: Array<Record<string, unknown>>;
+  height: number;
+  // Shared with the price chart so their tooltips and cursors move together
+  syncId?: string;
+  textColor: string;
+  gridColor: string;
+  tooltipBgColor: string;
+  tooltipBorderColor: string;
+}
+
+// Oscillator drawn below the price chart, on its own value axis
+export default function IndicatorPane({
+  definition,
+  data,
+  height,
+  syncId,
+  textColor,
+  gridColor,
+  tooltipBgColor,
+  tooltipBorderColor,
+}: IndicatorPaneProps) {
+  return (
+    <div className="w-full border-t pt-1" style={{ height: `${height}px` }}>
+      <div className="px-2 text-[10px] font-medium text-muted-foreground">{definition.name}</div>
+      <ResponsiveContainer width="100%" height={height - 16}>
+        <ComposedChart data={data} syncId={syncId} margin={{ top: 2, right: 10, left: 5, bottom: 2 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} opacity={0.2} />
+          <XAxis dataKey="name" hide />
+          <YAxis
+            axisLine={false}
+            tickLine={false}
+            tick={{ fontSize: 9, fill: textColor }}
+            domain={definition.domain ?? ["auto", "auto"]}
+            ticks={definition.domain ? definition.levels : undefined}
+            tickFormatter={(value: number) => (Math.abs(value) >= 10 ? value.toFixed(0) : value.toFixed(2))}
+            width={40}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: tooltipBgColor,
+              border: `1px solid ${tooltipBorderColor}`,
+              borderRadius: "8px",
+              fontSize: "11px",
+              padding: "6px",
+            }}
+            itemStyle={{ color: textColor }}
+            labelStyle={{ color: textColor }}
+            formatter={(value: number, name: string) => [value.toFixed(2), name]}
+            animationDuration={200}
+          />
+          {definition.levels?.map(level => (
+            <ReferenceLine key={level} y={level} stroke={textColor} strokeDasharray="3 3" opacity={0.4} />
+          ))}
+          {definition.lines.map(line =>
+            line.histogram ? (
+              <Bar
+                key={line.key}
+                dataKey={indicatorDataKey(definition.id, line.key)}
+                name={line.label}
+                fill={line.color}
+                opacity={0.6}
+                isAnimationActive={false}
+              />
+            ) : (
+              <Line
+                key={line.key}
+                type="monotone"
+                dataKey={indicatorDataKey(definition.id, line.key)}
+                name={line.label}
+                stroke={line.color}
+                strokeWidth={1.25}
+                strokeDasharray={line.dashed ? "4 2" : undefined}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useClassifications, usePredictions, useQuotes } from "@/hooks/use-market-data";
+import { useTrackedStocks } from "@/hooks/use-tracked-stocks";
+import { CurrencyCode, DEFAULT_CURRENCY } from "@/utils/apiService";
+import { formatMarketCap, formatPercent } from "@/utils/formatters";
+import { getSector } from "@/utils/sectors";
+import { TreemapRect, squarify } from "@/utils/treemap";
+
+type ColorBy = "change" | "prediction";
+
+// Changes at or beyond this many percentage points get the strongest color
+const COLOR_SCALES: Record<ColorBy, number> = { change: 3, prediction: 5 };
+
+// Layout units; the map is drawn at a 16:9 aspect ratio, so tiles stay square
+const BOUNDS: TreemapRect = { x: 0, y: 0, width: 160, height: 90 };
+
+// Tiles smaller than this, in layout units, show no label
+const MIN_LABEL_SIZE = { width: 12, height: 7 };
+
+interface HeatmapStock {
+  symbol: string;
+  name: string;
+  sector: string;
+  marketCap: number;
+  currency: CurrencyCode;
+  // Percentage points used for the color; null until it has loaded
+  change: number | null;
+  // Set when the size or color comes from the simulator instead of live data
+  simulated: boolean;
+}
+
+interface HeatmapSector {
+  name: string;
+  stocks: HeatmapStock[];
+  marketCap: number;
+}
+
+const tileColor = (change: number | null, scale: number) => {
+  if (change === null || change === 0) return "hsl(var(--muted))";
+  const strength = 0.25 + 0.75 * Math.min(Math.abs(change) / scale, 1);
+  return change > 0 ? `hsl(var(--success) / ${strength})` : `hsl(var(--danger) / ${strength})`;
+};
+
+// Position within the parent as percentages of the layout rectangle
+const toStyle = (tile: TreemapRect, parent: TreemapRect) => ({
+  left: `${((tile.x - parent.x) / parent.width) * 100}%`,
+  top: `${((tile.y - parent.y) / parent.height) * 100}%`,
+  width: `${(tile.width / parent.width) * 100}%`,
+  height: `${(tile.height / parent.height) * 100}%`,
+});
+
+// Treemap of the tracked stocks, sized by market cap and grouped by sector
+export default function MarketHeatmap() {
+  const [colorBy, setColorBy] = useState<ColorBy>("change");
+  const stocks = useTrackedStocks();
+  const symbols = stocks.map(stock => stock.symbol);
+  const quotes = useQuotes(symbols);
+  // Predictions are only requested once they are needed for the colors
+  const predictions = usePredictions(symbols, { priority: "low", enabled: colorBy === "prediction" });
+  const classifications = useClassifications(symbols);
+
+  // Quotes that haven't loaded yet are simulated, as on the stock cards, and their tiles marked
+  const sized = stocks.map((stock, i): HeatmapStock => {
+    const quote = quotes[i].data ?? stock.quote;
+    const prediction = predictions[i].data;
+    return {
+      symbol: stock.symbol,
+      name: stock.name,
+      sector: getSector(classifications[i].data ?? stock),
+      marketCap: quote.marketCap ?? 0,
+      currency: quote.currency ?? DEFAULT_CURRENCY,
+      change: colorBy === "change" ? quote.changePercent : prediction?.percentChange ?? null,
+      simulated: !quotes[i].data || !!quote.simulated || (colorBy === "prediction" && !!prediction?.simulated),
+    };
+  });
+  const missingMarketCap = sized.filter(stock => !(stock.marketCap > 0)).length;
+  // Market caps in other currencies would be sized against dollar caps as if they were dollars
+  const otherCurrency = sized.filter(stock => stock.marketCap > 0 && stock.currency !== DEFAULT_CURRENCY).length;
+
+  const sectors = new Map<string, HeatmapSector>();
+  sized.filter(stock => stock.marketCap > 0 && stock.currency === DEFAULT_CURRENCY).forEach(stock => {
+    const sector = sectors.get(stock.sector) ?? { name: stock.sector, stocks: [], marketCap: 0 };
+    sector.stocks.push(stock);
+    sector.marketCap += stock.marketCap;
+    sectors.set(stock.sector, sector);
+  });
+
+  const sectorTiles = squarify([...sectors.values()], sector => sector.marketCap, BOUNDS);
+  const simulatedCount = [...sectors.values()].flatMap(sector => sector.stocks).filter(stock => stock.simulated).length;
+  const scale = COLOR_SCALES[colorBy];
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="text-sm text-muted-foreground">
+            Tiles sized by market cap and grouped by sector. Select a tile to open the stock.
+          </div>
+          <Select value={colorBy} onValueChange={value => setColorBy(value as ColorBy)}>
+            <SelectTrigger className="w-[180px]" aria-label="Color by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="change">Day change</SelectItem>
+              <SelectItem value="prediction">Predicted 5-day change</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {sectorTiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add stocks to a watchlist to see them on the heatmap.
+          </p>
+        ) : (
+          <div className="relative w-full aspect-video overflow-hidden rounded-md bg-background">
+            {sectorTiles.map(sectorTile => {
+              const sector = sectorTile.item;
+              const stockTiles = squarify(sector.stocks, stock => stock.marketCap, sectorTile);
+              return (
+                <div
+                  key={sector.name}
+                  className="absolute flex flex-col border-2 border-background"
+                  style={toStyle(sectorTile, BOUNDS)}
+                >
+                  <div className="truncate px-1 text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
+                    {sector.name}
+                  </div>
+                  <div className="relative flex-1">
+                    {stockTiles.map(({ item: stock, ...tile }) => {
+                      const labelled = tile.width >= MIN_LABEL_SIZE.width && tile.height >= MIN_LABEL_SIZE.height;
+                      const change = stock.change === null ? "—" : formatPercent(stock.change, true);
+                      return (
+                        <Link
+                          key={stock.symbol}
+                          to={`/stocks/${stock.symbol.toLowerCase()}`}
+                          className={`absolute flex flex-col items-center justify-center overflow-hidden border text-foreground transition-opacity hover:opacity-80 ${
+                            stock.simulated ? "border-dashed border-muted-foreground" : "border-background"
+                          }`}
+                          style={{ ...toStyle(tile, sectorTile), backgroundColor: tileColor(stock.change, scale) }}
+                          title={`${stock.symbol} · ${stock.name}\n${change} · Market cap ${formatMarketCap(stock.marketCap)}${
+                            stock.simulated ? "\nSimulated; live data hasn't loaded" : ""
+                          }`}
+                        >
+                          {labelled && (
+                            <>
+                              <span className="font-mono text-xs font-semibold">{stock.symbol}</span>
+                              <span className="font-mono text-[10px]">{change}</span>
+                              {stock.simulated && <span className="text-[9px] text-muted-foreground">simulated</span>}
+                            </>
+                          )}
+                        </Link>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+          <div className="flex items-center gap-2">
+            <span>{formatPercent(-scale, true)}</span>
+            <div
+              className="h-2 w-32 rounded-full"
+              style={{ background: "linear-gradient(to right, hsl(var(--danger)), hsl(var(--muted)), hsl(var(--success)))" }}
+            />
+            <span>{formatPercent(scale, true)}</span>
+          </div>
+          {simulatedCount > 0 && (
+            <span>
+              {simulatedCount} dashed {simulatedCount === 1 ? "tile uses" : "tiles use"} simulated data because live data hasn't loaded
+            </span>
+          )}
+          {(missingMarketCap > 0 || otherCurrency > 0) && (
+            <span>
+              {[
+                missingMarketCap > 0 && `${missingMarketCap} without a market cap`,
+                otherCurrency > 0 && `${otherCurrency} priced in other currencies`,
+              ].filter(Boolean).join(" and ")} not shown
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
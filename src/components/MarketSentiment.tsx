@@ -1,13 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Label } from "@/components/ui/label";
-import { fetchMarketVolatility, MarketVolatility } from "@/utils/apiService";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AlertTriangle, Database } from "lucide-react";
 import { toast } from "@/components/ui/sonner";
-import { getFromCache } from "@/utils/cacheUtils";
+import { useMarketVolatility } from "@/hooks/use-market-data";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { getSentimentValue } from "@/utils/sentimentHistory";
 
 interface MarketSentimentProps {
   initialValue?: number;
@@ -21,64 +21,26 @@ export default function MarketSentiment({
   onUpdate
 }: MarketSentimentProps) {
   const [value, setValue] = useState(initialValue);
-  const [marketData, setMarketData] = useState<MarketVolatility | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [usingCachedData, setUsingCachedData] = useState(false);
+  const { data: marketData, isLoading: loading, error, fromCache: usingCachedData } = useMarketVolatility();
+  
+  // Only report new market data, not every re-render of the parent
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
   
   useEffect(() => {
-    const loadMarketData = async () => {
-      setLoading(true);
-      setError(null);
-      
-      try {
-        // Check if data exists in cache before fetching
-        setUsingCachedData(!!getFromCache('market_volatility'));
-        
-        const data = await fetchMarketVolatility();
-        setMarketData(data);
-        
-        // Convert market sentiment to a value between 0-100
-        // Bearish: 0-30, Slightly Bearish: 30-45, Neutral: 45-55, Slightly Bullish: 55-70, Bullish: 70-100
-        let sentimentValue: number;
-        switch (data.market_sentiment) {
-          case "Bearish":
-            sentimentValue = 15 + (data.market_volatility_score * 3);
-            break;
-          case "Slightly Bearish":
-            sentimentValue = 37.5 + (data.market_volatility_score * 2);
-            break;
-          case "Neutral":
-            sentimentValue = 50 + (data.market_volatility_score * 1);
-            break;
-          case "Slightly Bullish":
-            sentimentValue = 62.5 + (data.market_volatility_score * 2);
-            break;
-          case "Bullish":
-            sentimentValue = 85 + (data.market_volatility_score * 3);
-            break;
-          default:
-            sentimentValue = 50; // Default to neutral
-        }
-        
-        // Ensure the value is within 0-100 range
-        sentimentValue = Math.max(0, Math.min(100, sentimentValue));
-        
-        setValue(sentimentValue);
-        if (onUpdate) {
-          onUpdate(sentimentValue);
-        }
-      } catch (err) {
-        console.error("Error loading market data:", err);
-        setError("Failed to load market data");
-        toast.error("Failed to load market data. Using simulated data.");
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (!marketData) return;
     
-    loadMarketData();
-  }, [onUpdate]);
+    const sentimentValue = getSentimentValue(marketData);
+    setValue(sentimentValue);
+    onUpdateRef.current?.(sentimentValue);
+  }, [marketData]);
+  
+  useEffect(() => {
+    if (error) {
+      console.error("Error loading market data:", error);
+      toast.error("Failed to load market data. Using simulated data.");
+    }
+  }, [error]);
   
   const getSentimentText = (val: number) => {
     if (marketData) {
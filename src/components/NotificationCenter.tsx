@@ -0,0 +1,129 @@
+import { Link } from "react-router-dom";
+import { AlertTriangle, Bell, BellRing, Megaphone, Wrench } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/components/ui/sonner";
+import { useNotifications } from "@/providers/NotificationsProvider";
+import { AppNotification, NotificationCategory } from "@/utils/notifications";
+import { cn } from "@/lib/utils";
+
+const CATEGORY_ICONS: Record<NotificationCategory, typeof Bell> = {
+  alert: BellRing,
+  data: AlertTriangle,
+  maintenance: Wrench,
+  broadcast: Megaphone,
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+function NotificationItem({ notification, onRead }: { notification: AppNotification; onRead: () => void }) {
+  const Icon = CATEGORY_ICONS[notification.category];
+  const content = (
+    <div className="flex gap-3">
+      <Icon size={16} className={cn("mt-0.5 shrink-0", notification.priority === "high" ? "text-warning" : "text-muted-foreground")} />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-start justify-between gap-2">
+          <p className={cn("text-sm", !notification.read && "font-medium")}>
+            {notification.title}
+            {notification.count > 1 && <span className="ml-1 text-xs text-muted-foreground">×{notification.count}</span>}
+          </p>
+          {!notification.read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />}
+        </div>
+        <p className="text-sm text-muted-foreground break-words">{notification.message}</p>
+        <p className="text-xs text-muted-foreground mt-1">{formatTime(notification.time)}</p>
+      </div>
+    </div>
+  );
+
+  const className = "block w-full rounded-md p-2 text-left hover:bg-muted";
+  return notification.link ? (
+    <Link to={notification.link} className={className} onClick={onRead}>
+      {content}
+    </Link>
+  ) : (
+    <button type="button" className={className} onClick={onRead}>
+      {content}
+    </button>
+  );
+}
+
+// Header bell with the current user's alert triggers, data failures and announcements
+export default function NotificationCenter() {
+  const {
+    notifications,
+    unreadCount,
+    markRead,
+    markAllRead,
+    clearAll,
+    browserNotifications,
+    setBrowserNotifications
+  } = useNotifications();
+
+  const handleBrowserNotificationsChange = async (enabled: boolean) => {
+    const error = await setBrowserNotifications(enabled);
+    if (error) toast.error(error);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative rounded-full"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+        >
+          <Bell size={18} />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="font-medium">Notifications</span>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" onClick={markAllRead} disabled={unreadCount === 0}>
+              Mark all read
+            </Button>
+            <Button variant="ghost" size="sm" onClick={clearAll} disabled={notifications.length === 0}>
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          <ScrollArea className="h-80">
+            <div className="space-y-1 p-2">
+              {notifications.map(notification => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onRead={() => markRead(notification.id)}
+                />
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex items-center justify-between border-t px-4 py-3">
+          <Label htmlFor="browser-notifications" className="text-sm font-normal">
+            Browser notifications for high-priority items
+          </Label>
+          <Switch
+            id="browser-notifications"
+            checked={browserNotifications}
+            onCheckedChange={handleBrowserNotificationsChange}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useQuote } from "@/hooks/use-market-data";
+import { usePaperTrading } from "@/providers/PaperTradingProvider";
+import { DEFAULT_CURRENCY, getStockFallbackData } from "@/utils/apiService";
+import { formatPrice } from "@/utils/formatters";
+import { OrderType } from "@/utils/paperTrading";
+import { TradeSide } from "@/utils/portfolio";
+
+interface OrderTicketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Ticker to fill in, e.g. on a stock's page
+  symbol?: string;
+}
+
+const ORDER_TYPE_HINTS: Record<OrderType, string> = {
+  market: "Fills at the next quote.",
+  limit: "Fills once the price is at or better than the limit.",
+  stop: "Becomes a market order once the price reaches the stop.",
+};
+
+// Order ticket for the paper trading account
+export default function OrderTicketDialog({ open, onOpenChange, symbol = "" }: OrderTicketDialogProps) {
+  const { cash, getPosition, placeOrder } = usePaperTrading();
+  const [side, setSide] = useState<TradeSide>("buy");
+  const [type, setType] = useState<OrderType>("market");
+  const [draft, setDraft] = useState({ symbol, quantity: "", price: "" });
+  const [error, setError] = useState<string | null>(null);
+
+  // Start each opening with a fresh ticket
+  useEffect(() => {
+    if (open) {
+      setSide("buy");
+      setType("market");
+      setDraft({ symbol, quantity: "", price: "" });
+      setError(null);
+    }
+  }, [open, symbol]);
+
+  const ticker = draft.symbol.trim().toUpperCase();
+  // Only quote the ticker once typing pauses
+  const quotedSymbol = useDebouncedValue(ticker);
+  const quote = useQuote(quotedSymbol, { enabled: open && quotedSymbol === ticker });
+  const lastPrice = quotedSymbol === ticker
+    ? quote.data?.price ?? (quote.isError ? getStockFallbackData(ticker).price : undefined)
+    : undefined;
+  const held = getPosition(ticker)?.quantity ?? 0;
+  const estimatePrice = type === "market" ? lastPrice : Number(draft.price) || lastPrice;
+  const estimate = estimatePrice !== undefined && Number(draft.quantity) > 0 ? estimatePrice * Number(draft.quantity) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const price = Number(draft.price);
+    const failure = placeOrder({
+      symbol: draft.symbol,
+      side,
+      type,
+      quantity: Number(draft.quantity),
+      limitPrice: type === "limit" ? price : undefined,
+      stopPrice: type === "stop" ? price : undefined,
+    });
+    if (failure) {
+      setError(failure);
+      return;
+    }
+
+    toast.success(`Placed ${type} order to ${side} ${draft.quantity} ${ticker}`, {
+      description: "Check the paper trading page for its fill.",
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Paper trade</DialogTitle>
+            <DialogDescription>
+              Orders use virtual cash from your <Link to="/paper-trading" className="underline">paper trading account</Link>.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 my-4">
+            <div className="space-y-2">
+              <Label htmlFor="order-symbol">Ticker</Label>
+              <Input
+                id="order-symbol"
+                value={draft.symbol}
+                onChange={(e) => setDraft(prev => ({ ...prev, symbol: e.target.value }))}
+                autoFocus={!symbol}
+                placeholder="AAPL"
+                className="uppercase"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order-side">Side</Label>
+              <Select value={side} onValueChange={(value) => setSide(value as TradeSide)}>
+                <SelectTrigger id="order-side">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="buy">Buy</SelectItem>
+                  <SelectItem value="sell">Sell</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order-type">Order type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as OrderType)}>
+                <SelectTrigger id="order-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="market">Market</SelectItem>
+                  <SelectItem value="limit">Limit</SelectItem>
+                  <SelectItem value="stop">Stop</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order-quantity">Shares</Label>
+              <Input
+                id="order-quantity"
+                value={draft.quantity}
+                onChange={(e) => setDraft(prev => ({ ...prev, quantity: e.target.value }))}
+                autoFocus={!!symbol}
+                type="number"
+                min={0}
+                step="any"
+              />
+            </div>
+            {type !== "market" && (
+              <div className="space-y-2">
+                <Label htmlFor="order-price">{type === "limit" ? "Limit price" : "Stop price"}</Label>
+                <Input
+                  id="order-price"
+                  value={draft.price}
+                  onChange={(e) => setDraft(prev => ({ ...prev, price: e.target.value }))}
+                  type="number"
+                  min={0}
+                  step="any"
+                />
+              </div>
+            )}
+            <p className="col-span-2 text-xs text-muted-foreground">{ORDER_TYPE_HINTS[type]}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-sm mb-4">
+            <span className="text-muted-foreground">Last price</span>
+            <span className="text-right font-mono">{lastPrice !== undefined ? formatPrice(lastPrice, DEFAULT_CURRENCY) : "—"}</span>
+            <span className="text-muted-foreground">Estimated {side === "buy" ? "cost" : "proceeds"}</span>
+            <span className="text-right font-mono">{estimate !== null ? formatPrice(estimate, DEFAULT_CURRENCY) : "—"}</span>
+            <span className="text-muted-foreground">Cash available</span>
+            <span className="text-right font-mono">{formatPrice(cash, DEFAULT_CURRENCY)}</span>
+            <span className="text-muted-foreground">Shares held</span>
+            <span className="text-right font-mono">{held}</span>
+          </div>
+
+          {error && <p className="text-sm text-danger mb-4">{error}</p>}
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={!ticker || !draft.quantity || (type !== "market" && !draft.price)}
+            >
+              Place {side} order
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
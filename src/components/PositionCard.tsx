@@ -0,0 +1,86 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CurrencyCode } from "@/utils/apiService";
+import { formatPercent, formatPrice, formatPriceChange } from "@/utils/formatters";
+import { PositionValuation } from "@/utils/portfolio";
+
+interface PositionCardProps {
+  valuation: PositionValuation;
+  currency: CurrencyCode;
+}
+
+const pnlClass = (value: number) => (value >= 0 ? "text-success" : "text-danger");
+
+// The user's holding in one ticker, with its open tax lots
+export default function PositionCard({ valuation, currency }: PositionCardProps) {
+  const averageCost = valuation.quantity > 0 ? valuation.costBasis / valuation.quantity : 0;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        {valuation.simulated && (
+          <p className="text-xs text-muted-foreground">
+            No live quote has loaded yet, so this position is valued at a simulated price.
+          </p>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          <div>
+            <div className="text-sm text-muted-foreground mb-1">Shares</div>
+            <div className="font-mono">{valuation.quantity}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground mb-1">Average Cost</div>
+            <div className="font-mono">{formatPrice(averageCost, currency)}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground mb-1">Market Value</div>
+            <div className="font-mono">{formatPrice(valuation.marketValue, currency)}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground mb-1">Day Change</div>
+            <div className={`font-mono ${pnlClass(valuation.dayChange)}`}>{formatPriceChange(valuation.dayChange, currency)}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground mb-1">Unrealized P&amp;L</div>
+            <div className={`font-mono ${pnlClass(valuation.unrealizedPnl)}`}>
+              {formatPriceChange(valuation.unrealizedPnl, currency)}
+              <span className="ml-1 text-xs">({formatPercent(valuation.unrealizedPercent, true)})</span>
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground mb-1">Realized P&amp;L</div>
+            <div className={`font-mono ${pnlClass(valuation.realizedPnl)}`}>{formatPriceChange(valuation.realizedPnl, currency)}</div>
+          </div>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lot bought</TableHead>
+                <TableHead className="text-right">Shares</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Cost basis</TableHead>
+                <TableHead className="text-right">Gain</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {valuation.lots.map(lot => {
+                const gain = lot.quantity * valuation.price - lot.costBasis;
+                return (
+                  <TableRow key={lot.tradeId}>
+                    <TableCell>{new Date(lot.date).toLocaleDateString(undefined, { timeZone: "UTC" })}</TableCell>
+                    <TableCell className="text-right font-mono">{lot.quantity}</TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(lot.price, currency)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(lot.costBasis, currency)}</TableCell>
+                    <TableCell className={`text-right font-mono ${pnlClass(gain)}`}>{formatPriceChange(gain, currency)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
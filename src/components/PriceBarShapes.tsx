@@ -0,0 +1,70 @@
+// Custom recharts shapes for drawing bars from a Bar series whose value is
+// each point's [low, high] range. The shape gets that range's pixel box,
+// and places the open and close inside it.
+
+interface PriceBarShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: {
+    open?: number;
+    high?: number;
+    low?: number;
+    close?: number;
+  };
+  upColor: string;
+  downColor: string;
+}
+
+// Convert a value to a pixel position within the bar's low-high box
+const toPixel = ({ y, height, payload }: PriceBarShapeProps, value: number) => {
+  const range = payload.high - payload.low;
+  return range > 0 ? y + ((payload.high - value) / range) * height : y + height / 2;
+};
+
+// Candle: a wick from low to high and a body from open to close
+export function CandleShape(props: PriceBarShapeProps) {
+  const { x, y, width, height, payload, upColor, downColor } = props;
+  if (!payload || payload.open === undefined) return null;
+
+  const color = payload.close >= payload.open ? upColor : downColor;
+  const center = x + width / 2;
+  const bodyTop = toPixel(props, Math.max(payload.open, payload.close));
+  const bodyBottom = toPixel(props, Math.min(payload.open, payload.close));
+  const bodyWidth = Math.max(1, width * 0.7);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect
+        x={center - bodyWidth / 2}
+        y={bodyTop}
+        width={bodyWidth}
+        height={Math.max(1, bodyBottom - bodyTop)}
+        fill={color}
+        stroke={color}
+      />
+    </g>
+  );
+}
+
+// OHLC bar: a line from low to high with the open ticked left and the close right
+export function OhlcShape(props: PriceBarShapeProps) {
+  const { x, y, width, height, payload, upColor, downColor } = props;
+  if (!payload || payload.open === undefined) return null;
+
+  const color = payload.close >= payload.open ? upColor : downColor;
+  const center = x + width / 2;
+  const tick = Math.max(2, width * 0.4);
+  const openY = toPixel(props, payload.open);
+  const closeY = toPixel(props, payload.close);
+
+  return (
+    <g stroke={color} strokeWidth={1.25}>
+      <line x1={center} x2={center} y1={y} y2={y + height} />
+      <line x1={center - tick} x2={center} y1={openY} y2={openY} />
+      <line x1={center} x2={center + tick} y1={closeY} y2={closeY} />
+    </g>
+  );
+}
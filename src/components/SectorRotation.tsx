@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useClassifications, usePriceHistories, useQuotes } from "@/hooks/use-market-data";
+import { useTrackedStocks } from "@/hooks/use-tracked-stocks";
+import { CHART_PERIODS, ChartPeriod } from "@/utils/apiService";
+import { formatPercent } from "@/utils/formatters";
+import { SectorMember, SectorPerformance, getPeriodChange, getSector, summarizeSectors } from "@/utils/sectors";
+
+type Weighting = "cap" | "equal";
+
+const WEIGHTING_LABELS: Record<Weighting, string> = { cap: "Cap-weighted", equal: "Equal-weighted" };
+
+// Cap-weighted sectors fall back to the plain average when no member has a market cap
+const getSectorChange = (performance: SectorPerformance, weighting: Weighting) =>
+  weighting === "cap" ? performance.capWeighted ?? performance.equalWeighted : performance.equalWeighted;
+
+// How the tracked stocks' sectors performed over a chart period, strongest first
+export default function SectorRotation() {
+  const [period, setPeriod] = useState<ChartPeriod>("1mo");
+  const [weighting, setWeighting] = useState<Weighting>("cap");
+  const stocks = useTrackedStocks();
+  const symbols = stocks.map(stock => stock.symbol);
+  const quotes = useQuotes(symbols);
+  const classifications = useClassifications(symbols);
+  const histories = usePriceHistories(symbols, period, { priority: "low" });
+
+  // Only live quotes weight sectors by market cap; simulated caps are left out, like caps in other currencies
+  const members = stocks.flatMap((stock, i): SectorMember[] => {
+    const change = getPeriodChange(histories[i].data?.bars ?? []);
+    if (change === null) return [];
+    const quote = quotes[i].data?.simulated ? undefined : quotes[i].data;
+    return [{
+      symbol: stock.symbol,
+      sector: getSector(classifications[i].data ?? stock),
+      marketCap: quote?.marketCap,
+      currency: quote?.currency,
+      change,
+    }];
+  });
+  const simulatedHistories = stocks.filter((_, i) => histories[i].data?.simulated).map(stock => stock.symbol);
+  const sectors = summarizeSectors(members)
+    .map(performance => ({ performance, change: getSectorChange(performance, weighting) }))
+    .sort((a, b) => b.change - a.change);
+  const largest = Math.max(...sectors.map(({ change }) => Math.abs(change)), 0.01);
+  const loading = histories.some(history => history.isLoading);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-md">Sector Rotation</CardTitle>
+        <div className="flex flex-wrap gap-1 pt-1">
+          {CHART_PERIODS.map(p => (
+            <Button
+              key={p}
+              variant={period === p ? "default" : "outline"}
+              size="sm"
+              className="h-6 text-xs px-2"
+              onClick={() => setPeriod(p)}
+            >
+              {p}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(WEIGHTING_LABELS) as Weighting[]).map(w => (
+            <Button
+              key={w}
+              variant={weighting === w ? "secondary" : "ghost"}
+              size="sm"
+              className="h-6 text-xs px-2"
+              onClick={() => setWeighting(w)}
+            >
+              {WEIGHTING_LABELS[w]}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {sectors.length === 0 ? (
+          loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 4 }, (_, i) => <Skeleton key={i} className="h-5 w-full" />)}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Add stocks to a watchlist to compare their sectors.</p>
+          )
+        ) : (
+          <div className="space-y-2">
+            {sectors.map(({ performance, change }) => {
+              const width = `${(Math.abs(change) / largest) * 50}%`;
+              return (
+                <div
+                  key={performance.sector}
+                  className="text-xs"
+                  title={`${performance.count} stocks · best ${performance.leader.symbol} ${formatPercent(performance.leader.change, true)} · worst ${performance.laggard.symbol} ${formatPercent(performance.laggard.change, true)}`}
+                >
+                  <div className="flex justify-between mb-0.5">
+                    <span className="truncate">{performance.sector}</span>
+                    <span className={`font-mono ${change >= 0 ? "text-success" : "text-danger"}`}>
+                      {formatPercent(change, true)}
+                    </span>
+                  </div>
+                  <div className="relative h-1.5 w-full rounded-full bg-secondary">
+                    <div
+                      className={`absolute h-full rounded-full ${change >= 0 ? "bg-success" : "bg-danger"}`}
+                      style={change >= 0 ? { left: "50%", width } : { right: "50%", width }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+            {simulatedHistories.length > 0 && (
+              <p className="pt-1 text-xs text-muted-foreground">
+                Uses simulated prices for {simulatedHistories.join(", ")}, whose history couldn't be loaded.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useSentimentHistory } from "@/hooks/use-market-data";
+import { useTheme } from "@/providers/ThemeProvider";
+import {
+  SENTIMENT_RANGES,
+  SentimentRange,
+  getSentimentChanges,
+  getSentimentValue,
+  getSnapshotsInRange
+} from "@/utils/sentimentHistory";
+
+const SYNC_ID = "sentiment-timeline";
+
+// Marker color for the category a change moved into
+const categoryColor = (sentiment: string) => {
+  if (sentiment.includes("Bearish")) return "hsl(var(--danger))";
+  if (sentiment.includes("Bullish")) return "hsl(var(--success))";
+  return "hsl(var(--warning))";
+};
+
+const formatTick = (time: number, range: SentimentRange) =>
+  range === "1d"
+    ? new Date(time).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+    : new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+// Recorded market sentiment over time: the gauge value and volatility score
+// above, the bullish/neutral/bearish split below, with category changes marked
+export default function SentimentTimeline() {
+  const [range, setRange] = useState<SentimentRange>("1w");
+  const { theme } = useTheme();
+  const history = useSentimentHistory();
+
+  const snapshots = getSnapshotsInRange(history.data ?? [], range);
+  const changes = getSentimentChanges(snapshots);
+  const points = snapshots.map(({ recordedAt, summary }) => ({
+    time: recordedAt,
+    sentiment: summary.market_sentiment,
+    value: getSentimentValue(summary),
+    score: summary.market_volatility_score,
+    bullish: summary.bullish_stocks,
+    neutral: summary.neutral_stocks,
+    bearish: summary.bearish_stocks,
+  }));
+
+  const isDarkMode = theme === "dark";
+  const textColor = isDarkMode ? "rgba(255, 255, 255, 0.8)" : "rgba(0, 0, 0, 0.8)";
+  const gridColor = isDarkMode ? "rgba(255, 255, 255, 0.1)" : "rgba(0, 0, 0, 0.1)";
+  const tooltipStyle = {
+    backgroundColor: isDarkMode ? "#1A1F2C" : "#FFFFFF",
+    border: `1px solid ${isDarkMode ? "#333" : "#ccc"}`,
+    borderRadius: "8px",
+    fontSize: "11px",
+    padding: "6px",
+  };
+  const xAxis = (hide: boolean) => (
+    <XAxis
+      dataKey="time"
+      type="number"
+      scale="time"
+      domain={["dataMin", "dataMax"]}
+      hide={hide}
+      axisLine={false}
+      tickLine={false}
+      tick={{ fontSize: 10, fill: textColor }}
+      tickFormatter={(time: number) => formatTick(time, range)}
+      minTickGap={30}
+    />
+  );
+  const tooltip = (
+    <Tooltip
+      contentStyle={tooltipStyle}
+      itemStyle={{ color: textColor }}
+      labelStyle={{ color: textColor }}
+      labelFormatter={(time: number) => formatTime(time)}
+      formatter={(value: number, name: string) => [Number.isInteger(value) ? value : value.toFixed(2), name]}
+      animationDuration={200}
+    />
+  );
+  // A lone snapshot has no line to draw, so show its dot instead
+  const dot = points.length === 1;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-md">Sentiment Timeline</CardTitle>
+          <div className="flex gap-1">
+            {SENTIMENT_RANGES.map(r => (
+              <Button
+                key={r}
+                variant={range === r ? "default" : "outline"}
+                size="sm"
+                className="h-6 text-xs px-2"
+                onClick={() => setRange(r)}
+              >
+                {r}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {history.isLoading ? (
+          <Skeleton className="h-[280px] w-full" />
+        ) : points.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No sentiment recorded in this range yet. A snapshot is saved on this device each time the
+            market summary loads from a live provider.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            <ResponsiveContainer width="100%" height={180}>
+              <ComposedChart data={points} syncId={SYNC_ID} margin={{ top: 16, right: 5, left: 5, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} opacity={0.2} />
+                {xAxis(true)}
+                <YAxis
+                  yAxisId="value"
+                  domain={[0, 100]}
+                  ticks={[0, 30, 45, 55, 70, 100]}
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 9, fill: textColor }}
+                  width={30}
+                />
+                <YAxis
+                  yAxisId="score"
+                  orientation="right"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 9, fill: textColor }}
+                  tickFormatter={(value: number) => value.toFixed(1)}
+                  width={30}
+                />
+                {tooltip}
+                {changes.map(change => (
+                  <ReferenceLine
+                    key={change.time}
+                    yAxisId="value"
+                    x={change.time}
+                    stroke={categoryColor(change.to)}
+                    strokeDasharray="3 3"
+                    label={{ value: change.to, position: "top", fontSize: 9, fill: categoryColor(change.to) }}
+                  />
+                ))}
+                <Line
+                  yAxisId="value"
+                  type="monotone"
+                  dataKey="value"
+                  name="Sentiment"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={1.5}
+                  dot={dot}
+                  isAnimationActive={false}
+                />
+                <Line
+                  yAxisId="score"
+                  type="monotone"
+                  dataKey="score"
+                  name="Volatility score"
+                  stroke="hsl(var(--warning))"
+                  strokeWidth={1.25}
+                  strokeDasharray="4 2"
+                  dot={dot}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+            <ResponsiveContainer width="100%" height={100}>
+              <ComposedChart data={points} syncId={SYNC_ID} margin={{ top: 0, right: 5, left: 5, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} opacity={0.2} />
+                {xAxis(false)}
+                <YAxis
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 9, fill: textColor }}
+                  width={30}
+                />
+                {tooltip}
+                <Area type="monotone" dataKey="bullish" name="Bullish" stackId="stocks" stroke="hsl(var(--success))" fill="hsl(var(--success))" fillOpacity={0.4} isAnimationActive={false} />
+                <Area type="monotone" dataKey="neutral" name="Neutral" stackId="stocks" stroke="hsl(var(--warning))" fill="hsl(var(--warning))" fillOpacity={0.4} isAnimationActive={false} />
+                <Area type="monotone" dataKey="bearish" name="Bearish" stackId="stocks" stroke="hsl(var(--danger))" fill="hsl(var(--danger))" fillOpacity={0.4} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+            <div className="flex flex-wrap justify-between gap-2 pt-1 text-xs text-muted-foreground">
+              <span>{points.length} snapshots · {changes.length} category {changes.length === 1 ? "change" : "changes"}</span>
+              <span>Since {formatTime(points[0].time)}</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
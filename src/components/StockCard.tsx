@@ -1,264 +1,189 @@
 
+import { useState } from "react";
 import { Link } from "react-router-dom";
 import { Card, CardContent } from "@/components/ui/card";
 import { Stock } from "@/providers/StockProvider";
-import { ChevronUp, ChevronDown, TrendingUp, Database, RefreshCw } from "lucide-react";
-import { useState, useEffect } from "react";
-import { 
-  fetchStockPredictions, 
-  StockPrediction, 
-  getVolatilityLevel,
-  fetchStockQuote,
-  AlphaVantageQuote,
-  formatVolume,
-  getStockFallbackData
-} from "@/utils/apiService";
+import { ChevronUp, ChevronDown, TrendingUp, Database, RefreshCw, ArrowLeftRight } from "lucide-react";
+import { getVolatilityLevel, getStockFallbackData } from "@/utils/apiService";
+import { formatPercent, formatPrice, formatPriceChange, formatVolume } from "@/utils/formatters";
+import { valuePosition } from "@/utils/portfolio";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Button } from "@/components/ui/button";
+import OrderTicketDialog from "@/components/OrderTicketDialog";
 import { toast } from "@/components/ui/sonner";
-import { 
-  getFromCache, 
-  clearCache, 
-  canRefresh, 
-  markRefreshed, 
-  getRemainingCooldown,
-  formatCooldown 
-} from "@/utils/cacheUtils";
+import { useInView } from "@/hooks/use-in-view";
+import { usePrediction, useQuote, useTickerRefresh } from "@/hooks/use-market-data";
+import { usePortfolio } from "@/providers/PortfolioProvider";
 
 interface StockCardProps {
   stock: Stock;
 }
 
 export default function StockCard({ stock }: StockCardProps) {
-  const [stockData, setStockData] = useState<AlphaVantageQuote | null>(null);
-  const [prediction, setPrediction] = useState<StockPrediction | null>(null);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [volatilityLevel, setVolatilityLevel] = useState<"Low" | "Medium" | "High">(stock.volatility as "Low" | "Medium" | "High");
-  const [usingCachedData, setUsingCachedData] = useState<boolean>(false);
-  const [canRefreshData, setCanRefreshData] = useState<boolean>(true);
-  const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [cooldownTime, setCooldownTime] = useState<string>("");
+  // Cards only request data once they are on screen, so visible cards load first
+  const { ref: cardRef, inView } = useInView<HTMLDivElement>();
+  const quote = useQuote(stock.symbol, { priority: 'normal', enabled: inView });
+  const { data: prediction, isLoading: predictionLoading } = usePrediction(stock.symbol, { enabled: inView });
+  const { refresh, refreshing, canRefresh: canRefreshData, cooldown: cooldownTime } = useTickerRefresh(stock.symbol);
+  const position = usePortfolio().getPosition(stock.symbol);
+  const [orderTicketOpen, setOrderTicketOpen] = useState(false);
   
-  // Define cache keys
-  const quoteKey = `quote_${stock.ticker.toUpperCase()}`;
-  const predictionKey = `predictions_${stock.ticker.toUpperCase()}`;
+  // Show the listing's quote until live data arrives, and simulated data if none can be loaded
+  const stockData = quote.data ?? (quote.isError ? getStockFallbackData(stock.symbol) : stock.quote);
+  const usingCachedData = quote.fromCache;
+  const volatilityLevel = prediction
+    ? getVolatilityLevel(prediction.volatilityScore)
+    : stock.volatility as "Low" | "Medium" | "High";
+  const loading = quote.isLoading || predictionLoading;
   
   const handleRefresh = async () => {
-    // Check if we can refresh
-    if (!canRefresh(quoteKey) || !canRefresh(predictionKey)) {
-      const quoteRemaining = getRemainingCooldown(quoteKey);
-      const predictionRemaining = getRemainingCooldown(predictionKey);
-      const remaining = Math.max(quoteRemaining, predictionRemaining);
-      
-      toast.error(`Please wait ${formatCooldown(remaining)} before refreshing again`);
+    if (!canRefreshData) {
+      toast.error(`Please wait ${cooldownTime} before refreshing again`);
       return;
     }
     
-    setRefreshing(true);
-    
-    try {
-      // Clear cache for this stock
-      clearCache(quoteKey);
-      clearCache(predictionKey);
-      
-      // Mark as refreshed to start cooldown
-      markRefreshed(quoteKey);
-      markRefreshed(predictionKey);
-      
-      // Set refresh cooldown
-      setCanRefreshData(false);
-      
-      // Fetch fresh data
-      await fetchData(true);
-      
-      toast.success(`${stock.ticker} data refreshed successfully`);
-    } catch (error) {
-      console.error(`Error refreshing ${stock.ticker} data:`, error);
-      toast.error(`Failed to refresh ${stock.ticker} data`);
-    } finally {
-      setRefreshing(false);
-    }
-  };
-  
-  const fetchData = async (isRefresh = false) => {
-    setLoading(true);
-    
     try {
-      // Check if data exists in cache
-      const quoteInCache = !!getFromCache(quoteKey);
-      const predictionInCache = !!getFromCache(predictionKey);
-      setUsingCachedData((quoteInCache || predictionInCache) && !isRefresh);
-      
-      // Fetch real-time stock data
-      console.log(`Fetching quote data for ${stock.ticker}...`);
-      const quoteData = await fetchStockQuote(stock.ticker);
-      
-      if (quoteData) {
-        console.log(`Successfully fetched data for ${stock.ticker}:`, quoteData);
-        setStockData(quoteData);
-      } else {
-        // Use fallback data if API fails
-        console.log(`Using fallback data for ${stock.ticker}`);
-        const fallbackData = getStockFallbackData(stock.ticker);
-        
-        // For META specifically, ensure it shows correct price (approximately $587)
-        if (stock.ticker === 'META') {
-          fallbackData.price = '587.31';
-          fallbackData.changePercent = '-1.99%';
-          fallbackData.volume = '10600650';
-          fallbackData.marketCap = '1.5T';
-        }
-        
-        setStockData(fallbackData);
-      }
-      
-      // Fetch prediction data
-      console.log(`Fetching prediction data for ${stock.ticker}...`);
-      const predictionData = await fetchStockPredictions(stock.ticker);
-      if (predictionData) {
-        console.log(`Successfully fetched predictions for ${stock.ticker}:`, predictionData);
-        setPrediction(predictionData);
-        // Calculate volatility level based on volatility score
-        setVolatilityLevel(getVolatilityLevel(predictionData.volatility_score));
-      }
+      await refresh();
+      toast.success(`${stock.symbol} data refreshed successfully`);
     } catch (error) {
-      console.error(`Failed to fetch data for ${stock.ticker}:`, error);
-    } finally {
-      setLoading(false);
+      console.error(`Error refreshing ${stock.symbol} data:`, error);
+      toast.error(`Failed to refresh ${stock.symbol} data`);
     }
   };
   
-  useEffect(() => {
-    fetchData();
-    
-    // Set up cooldown checks
-    const checkCooldown = () => {
-      const canRefreshQuote = canRefresh(quoteKey);
-      const canRefreshPrediction = canRefresh(predictionKey);
-      
-      setCanRefreshData(canRefreshQuote && canRefreshPrediction);
-      
-      if (!canRefreshQuote || !canRefreshPrediction) {
-        const quoteRemaining = getRemainingCooldown(quoteKey);
-        const predictionRemaining = getRemainingCooldown(predictionKey);
-        const remaining = Math.max(quoteRemaining, predictionRemaining);
-        setCooldownTime(formatCooldown(remaining));
-      } else {
-        setCooldownTime("");
-      }
-    };
-    
-    checkCooldown();
-    const interval = setInterval(checkCooldown, 1000);
-    
-    return () => clearInterval(interval);
-  }, [stock.ticker]);
-  
-  // Parse change percentage for consistent display
-  const changePercent = stockData ? 
-    parseFloat(stockData.changePercent.replace('%', '')) : 
-    stock.change;
+  const changePercent = stockData.changePercent;
   
   const isPositive = changePercent >= 0;
-  const isPredictionPositive = prediction ? prediction.percent_change >= 0 : false;
-  
-  // Format the price for display
-  const price = stockData ? 
-    parseFloat(stockData.price).toFixed(2) : 
-    stock.price.toFixed(2);
-  
-  // Format volume for display
-  const volume = stockData ? 
-    formatVolume(stockData.volume) : 
-    stock.volume;
+  const isPredictionPositive = prediction ? prediction.percentChange >= 0 : false;
+  // Valued like the portfolio: a holding priced without a live quote is labelled simulated
+  const holding = position && position.quantity > 0
+    ? valuePosition(position, stockData, !quote.data || !!quote.data.simulated)
+    : null;
   
   return (
-    <Link to={`/stocks/${stock.id}`}>
-      <Card className="hover:shadow-md transition-shadow">
-        <CardContent className="p-4">
-          <div className="flex justify-between items-start">
-            <div>
-              <div className="font-mono font-bold text-lg">{stock.ticker}</div>
-              <div className="text-sm text-muted-foreground">{stock.name}</div>
-            </div>
-            <div className="flex items-center gap-1">
-              {usingCachedData && (
+    <>
+      <Link to={`/stocks/${stock.id}`}>
+        <Card ref={cardRef} className="hover:shadow-md transition-shadow">
+          <CardContent className="p-4">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="font-mono font-bold text-lg">{stock.symbol}</div>
+                <div className="text-sm text-muted-foreground">{stock.name}</div>
+              </div>
+              <div className="flex items-center gap-1">
                 <TooltipProvider>
                   <Tooltip>
                     <TooltipTrigger asChild>
-                      <Button 
-                        variant="ghost" 
-                        size="icon" 
-                        className="h-6 w-6" 
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
                         onClick={(e) => {
                           e.preventDefault();
                           e.stopPropagation();
-                          handleRefresh();
+                          setOrderTicketOpen(true);
                         }}
-                        disabled={!canRefreshData || refreshing}
                       >
-                        <Database className={`h-3 w-3 ${!canRefreshData ? "text-muted-foreground" : ""}`} />
+                        <ArrowLeftRight className="h-3 w-3" />
                       </Button>
                     </TooltipTrigger>
-                    <TooltipContent>
-                      {canRefreshData 
-                        ? "Using cached data (click to refresh)" 
-                        : `Wait ${cooldownTime} to refresh`}
-                    </TooltipContent>
+                    <TooltipContent>Trade</TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
-              )}
-              <div className={isPositive ? "stock-change-positive" : "stock-change-negative"}>
-                {isPositive ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
-                {Math.abs(changePercent).toFixed(2)}%
+                {usingCachedData && (
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button 
+                          variant="ghost" 
+                          size="icon" 
+                          className="h-6 w-6" 
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            handleRefresh();
+                          }}
+                          disabled={!canRefreshData || refreshing}
+                        >
+                          <Database className={`h-3 w-3 ${!canRefreshData ? "text-muted-foreground" : ""}`} />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {canRefreshData 
+                          ? "Using cached data (click to refresh)" 
+                          : `Wait ${cooldownTime} to refresh`}
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                )}
+                <div className={isPositive ? "stock-change-positive" : "stock-change-negative"}>
+                  {isPositive ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                  {formatPercent(Math.abs(changePercent))}
+                </div>
               </div>
             </div>
-          </div>
           
-          <div className="mt-4 grid grid-cols-2 gap-2">
-            <div>
-              <div className="text-xs text-muted-foreground">Volume</div>
-              <div className="font-mono">{volume}</div>
-            </div>
-            <div>
-              <div className="text-xs text-muted-foreground">Price</div>
-              <div className="font-mono">${price}</div>
-            </div>
-            <div>
-              <div className="text-xs text-muted-foreground">Volatility</div>
+            <div className="mt-4 grid grid-cols-2 gap-2">
               <div>
-                <span className={`volatility-${volatilityLevel.toLowerCase()}`}>
-                  {volatilityLevel}
-                </span>
+                <div className="text-xs text-muted-foreground">Volume</div>
+                <div className="font-mono">{formatVolume(stockData.volume)}</div>
               </div>
-            </div>
-            <div>
-              <div className="flex items-center gap-1">
-                <div className="text-xs text-muted-foreground">Prediction</div>
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger>
-                      <TrendingUp className="h-3 w-3 text-muted-foreground" />
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>5-Day AI Prediction</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
+              <div>
+                <div className="text-xs text-muted-foreground">Price</div>
+                <div className="font-mono">{formatPrice(stockData.price, stockData.currency)}</div>
               </div>
-              {prediction ? (
-                <div className={isPredictionPositive ? "text-success text-sm font-medium" : "text-danger text-sm font-medium"}>
-                  {isPredictionPositive ? "+" : ""}{prediction.percent_change.toFixed(2)}%
+              <div>
+                <div className="text-xs text-muted-foreground">Volatility</div>
+                <div>
+                  <span className={`volatility-${volatilityLevel.toLowerCase()}`}>
+                    {volatilityLevel}
+                  </span>
                 </div>
-              ) : loading ? (
-                <div className="text-sm text-muted-foreground">Loading...</div>
-              ) : (
-                <div className="text-sm text-muted-foreground">N/A</div>
-              )}
+              </div>
+              <div>
+                <div className="flex items-center gap-1">
+                  <div className="text-xs text-muted-foreground">Prediction</div>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger>
+                        <TrendingUp className="h-3 w-3 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>5-Day AI Prediction</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+                {prediction ? (
+                  <div className={isPredictionPositive ? "text-success text-sm font-medium" : "text-danger text-sm font-medium"}>
+                    {formatPercent(prediction.percentChange, true)}
+                  </div>
+                ) : loading ? (
+                  <div className="text-sm text-muted-foreground">Loading...</div>
+                ) : (
+                  <div className="text-sm text-muted-foreground">N/A</div>
+                )}
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
-    </Link>
+
+            {holding && (
+              <div className="mt-3 pt-3 border-t flex items-baseline justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  {holding.quantity} {holding.quantity === 1 ? "share" : "shares"} · {formatPrice(holding.marketValue, stockData.currency)}
+                  {holding.simulated && (
+                    <span className="ml-1 text-[10px]" title="No live quote has loaded yet">simulated</span>
+                  )}
+                </span>
+                <span className={`font-mono ${holding.unrealizedPnl >= 0 ? "text-success" : "text-danger"}`}>
+                  {formatPriceChange(holding.unrealizedPnl, stockData.currency)} ({formatPercent(holding.unrealizedPercent, true)})
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </Link>
+      {/* Outside the link, so clicks in the ticket don't open the stock's page */}
+      <OrderTicketDialog open={orderTicketOpen} onOpenChange={setOrderTicketOpen} symbol={stock.symbol} />
+    </>
   );
 }
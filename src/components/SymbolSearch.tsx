@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Loader2, Plus, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useSymbolSearch } from "@/hooks/use-market-data";
+import { Instrument } from "@/utils/marketData/model";
+import { resolveInstrument } from "@/utils/marketData/symbolDirectory";
+
+interface SymbolSearchProps {
+  onSelect: (instrument: Instrument) => void;
+  // Tickers to leave out of the results, e.g. ones already in the list
+  exclude?: string[];
+  label?: string;
+}
+
+// Button that opens a ticker search; unknown but valid tickers can be picked too
+export default function SymbolSearch({ onSelect, exclude = [], label = "Add symbol" }: SymbolSearchProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const { matches, searching } = useSymbolSearch(query);
+  const results = matches.filter(instrument => !exclude.includes(instrument.symbol));
+
+  // Offer the typed ticker itself when no search result has it
+  const typed = resolveInstrument(query);
+  const offerTyped = typed && !exclude.includes(typed.symbol) && !results.some(r => r.symbol === typed.symbol);
+
+  const handleSelect = (instrument: Instrument) => {
+    onSelect(instrument);
+    setQuery("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <Search className="h-4 w-4" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="end">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Ticker or company..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>{!query ? "Type to search" : searching ? "Searching..." : "No matching symbols"}</CommandEmpty>
+            {results.length > 0 && (
+              <CommandGroup heading="Symbols">
+                {results.map(instrument => (
+                  <CommandItem key={instrument.symbol} value={instrument.symbol} onSelect={() => handleSelect(instrument)}>
+                    <span className="font-mono font-semibold w-16 shrink-0">{instrument.symbol}</span>
+                    <span className="truncate text-muted-foreground">{instrument.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {searching && results.length > 0 && (
+              <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Searching more listings...
+              </div>
+            )}
+            {offerTyped && (
+              <CommandGroup heading="Other">
+                <CommandItem value={`typed-${typed.symbol}`} onSelect={() => handleSelect(typed)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Use ticker <span className="ml-1 font-mono font-semibold">{typed.symbol}</span>
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import { usePortfolio } from "@/providers/PortfolioProvider";
+import { TradeSide } from "@/utils/portfolio";
+
+interface TradeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Ticker to fill in, e.g. on a stock's page
+  symbol?: string;
+}
+
+// Today as a date input value, in UTC to match how trade dates are stored
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Form for recording a buy or sell in the portfolio
+export default function TradeDialog({ open, onOpenChange, symbol = "" }: TradeDialogProps) {
+  const { addTrade } = usePortfolio();
+  const [side, setSide] = useState<TradeSide>("buy");
+  const [draft, setDraft] = useState({ symbol, quantity: "", price: "", fees: "0", date: today() });
+  const [error, setError] = useState<string | null>(null);
+
+  // Start each opening with a fresh form
+  useEffect(() => {
+    if (open) {
+      setSide("buy");
+      setDraft({ symbol, quantity: "", price: "", fees: "0", date: today() });
+      setError(null);
+    }
+  }, [open, symbol]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const date = Date.parse(draft.date);
+    if (Number.isNaN(date)) {
+      setError("Enter the trade date");
+      return;
+    }
+
+    const failure = addTrade({
+      symbol: draft.symbol,
+      side,
+      quantity: Number(draft.quantity),
+      price: Number(draft.price),
+      fees: Number(draft.fees || 0),
+      date,
+    });
+    if (failure) {
+      setError(failure);
+      return;
+    }
+
+    toast.success(`Recorded ${side} of ${draft.quantity} ${draft.symbol.trim().toUpperCase()}`);
+    onOpenChange(false);
+  };
+
+  const field = (key: keyof typeof draft) => ({
+    id: `trade-${key}`,
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setDraft(prev => ({ ...prev, [key]: e.target.value })),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Record trade</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 my-4">
+            <div className="space-y-2">
+              <Label htmlFor="trade-symbol">Ticker</Label>
+              <Input {...field("symbol")} autoFocus={!symbol} placeholder="AAPL" className="uppercase" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade-side">Side</Label>
+              <Select value={side} onValueChange={(value) => setSide(value as TradeSide)}>
+                <SelectTrigger id="trade-side">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="buy">Buy</SelectItem>
+                  <SelectItem value="sell">Sell</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade-quantity">Shares</Label>
+              <Input {...field("quantity")} autoFocus={!!symbol} type="number" min={0} step="any" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade-price">Price per share</Label>
+              <Input {...field("price")} type="number" min={0} step="any" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade-fees">Fees</Label>
+              <Input {...field("fees")} type="number" min={0} step="any" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade-date">Date</Label>
+              <Input {...field("date")} type="date" max={today()} />
+            </div>
+          </div>
+          {error && <p className="text-sm text-danger mb-4">{error}</p>}
+          <DialogFooter>
+            <Button type="submit" disabled={!draft.symbol.trim() || !draft.quantity || !draft.price}>
+              Record {side}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
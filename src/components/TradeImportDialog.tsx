@@ -0,0 +1,393 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useImportTemplates } from "@/hooks/use-import-templates";
+import { usePortfolio } from "@/providers/PortfolioProvider";
+import { formatPrice } from "@/utils/formatters";
+import { TradeInput, validateTrades } from "@/utils/portfolio";
+import {
+  ColumnMapping,
+  CsvTable,
+  DATE_FORMATS,
+  DateFormat,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRowStatus,
+  buildImportPreview,
+  detectTemplate,
+  guessMapping,
+  readCsvTable
+} from "@/utils/tradeImport";
+
+interface TradeImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = "source" | "mapping" | "preview";
+
+// Select value for a field that isn't read from any column
+const UNMAPPED = "__none__";
+// Template select value while the mapping doesn't come from a template
+const CUSTOM = "__custom__";
+
+const STATUS_BADGES: Record<ImportRowStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  ready: { label: "Ready", variant: "default" },
+  duplicate: { label: "Duplicate", variant: "secondary" },
+  skipped: { label: "Skipped", variant: "outline" },
+  error: { label: "Error", variant: "destructive" },
+};
+
+// Oldest first, with a day's buys before its sells; exports often list
+// newest first, which would sell same-day shares before they were bought
+const orderForLedger = (trades: TradeInput[]) =>
+  [...trades].sort((a, b) => a.date - b.date || (a.side === b.side ? 0 : a.side === "buy" ? -1 : 1));
+
+// Wizard that imports trades from a broker's CSV export: load the file, map
+// its columns, then review every row before anything is added
+export default function TradeImportDialog({ open, onOpenChange }: TradeImportDialogProps) {
+  const { trades, importTrades } = usePortfolio();
+  const { templates, saveTemplate, deleteTemplate } = useImportTemplates();
+  const [step, setStep] = useState<Step>("source");
+  const [text, setText] = useState("");
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [templateId, setTemplateId] = useState(CUSTOM);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<DateFormat>("MM/DD/YYYY");
+  const [templateName, setTemplateName] = useState("");
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start each opening with an empty wizard
+  useEffect(() => {
+    if (open) {
+      setStep("source");
+      setText("");
+      setTable(null);
+      setTemplateName("");
+      setIncludeDuplicates(false);
+      setError(null);
+    }
+  }, [open]);
+
+  const rows = useMemo(
+    () => (table && step === "preview" ? buildImportPreview(table, { mapping, dateFormat }, trades) : []),
+    [table, step, mapping, dateFormat, trades]
+  );
+  const counts = rows.reduce(
+    (totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }),
+    { ready: 0, duplicate: 0, skipped: 0, error: 0 } as Record<ImportRowStatus, number>
+  );
+  const toImport = orderForLedger(
+    rows
+      .filter(row => row.status === "ready" || (includeDuplicates && row.status === "duplicate"))
+      .map(row => row.trade)
+  );
+  // Checked here so the problem shows before the import is attempted
+  const ledgerError = toImport.length > 0
+    ? validateTrades([...trades, ...toImport.map((trade, i) => ({ ...trade, id: `import-${i}` }))])
+    : null;
+
+  const missingFields = IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field]);
+  const selectedTemplate = templates.find(template => template.id === templateId);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  const handleRead = () => {
+    const parsed = readCsvTable(text);
+    if (!parsed || parsed.rows.length === 0) {
+      setError("No header row followed by trades was found. Check that the file is a CSV export.");
+      return;
+    }
+
+    const template = detectTemplate(parsed.headers, templates);
+    setTable(parsed);
+    setTemplateId(template?.id ?? CUSTOM);
+    setMapping(template?.mapping ?? guessMapping(parsed.headers));
+    if (template) setDateFormat(template.dateFormat);
+    setError(null);
+    setStep("mapping");
+  };
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (template) {
+      setMapping(template.mapping);
+      setDateFormat(template.dateFormat);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header === UNMAPPED ? undefined : header }));
+    setTemplateId(CUSTOM);
+  };
+
+  const handleSaveTemplate = () => {
+    const saved = saveTemplate({ name: templateName, mapping, dateFormat });
+    setTemplateId(saved.id);
+    setTemplateName("");
+    toast.success(`Saved the "${saved.name}" template`);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!selectedTemplate || selectedTemplate.builtIn) return;
+    deleteTemplate(selectedTemplate.id);
+    setTemplateId(CUSTOM);
+    toast.success(`Deleted the "${selectedTemplate.name}" template`);
+  };
+
+  const handleImport = () => {
+    const failure = importTrades(toImport);
+    if (failure) {
+      setError(failure);
+      return;
+    }
+
+    toast.success(`Imported ${toImport.length} ${toImport.length === 1 ? "trade" : "trades"}`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import trades</DialogTitle>
+          <DialogDescription>
+            {step === "source" && "Step 1 of 3: choose a CSV export from your broker, or paste its contents."}
+            {step === "mapping" && "Step 2 of 3: match the file's columns to trade fields."}
+            {step === "preview" && "Step 3 of 3: review the trades before they are added."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "source" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV file</Label>
+              <Input id="import-file" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-text">Or paste CSV</Label>
+              <Textarea
+                id="import-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={"Date,Action,Symbol,Quantity,Price\n01/15/2024,Buy,AAPL,10,185.20"}
+                className="font-mono text-xs h-40"
+              />
+            </div>
+          </div>
+        )}
+
+        {step === "mapping" && table && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-template">Broker format</Label>
+                <Select value={templateId} onValueChange={handleTemplateChange}>
+                  <SelectTrigger id="import-template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CUSTOM}>Custom mapping</SelectItem>
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}{template.builtIn ? "" : " (saved)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-date-format">Date format</Label>
+                <Select
+                  value={dateFormat}
+                  onValueChange={(value) => {
+                    setDateFormat(value as DateFormat);
+                    setTemplateId(CUSTOM);
+                  }}
+                >
+                  <SelectTrigger id="import-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{format}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`import-field-${field}`}>
+                    {label}{required ? "" : " (optional)"}
+                  </Label>
+                  <Select
+                    value={mapping[field] && table.headers.includes(mapping[field]) ? mapping[field] : UNMAPPED}
+                    onValueChange={(header) => handleMappingChange(field, header)}
+                  >
+                    <SelectTrigger id={`import-field-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                      {table.headers.filter(Boolean).map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {!mapping.side && (
+              <p className="text-xs text-muted-foreground">
+                Without a buy/sell column, rows with a negative share quantity are imported as sells.
+              </p>
+            )}
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="import-template-name">Save this mapping as a template</Label>
+                <Input
+                  id="import-template-name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="e.g. My brokerage"
+                />
+              </div>
+              <Button variant="outline" onClick={handleSaveTemplate} disabled={!templateName.trim() || missingFields.length > 0}>
+                Save
+              </Button>
+              {selectedTemplate && !selectedTemplate.builtIn && (
+                <Button variant="ghost" onClick={handleDeleteTemplate}>
+                  Delete "{selectedTemplate.name}"
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge>{counts.ready} ready</Badge>
+              <Badge variant="secondary">{counts.duplicate} duplicates</Badge>
+              <Badge variant="outline">{counts.skipped} skipped</Badge>
+              <Badge variant="destructive">{counts.error} errors</Badge>
+            </div>
+
+            <div className="rounded-md border max-h-72 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Ticker</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Fees</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell className="font-mono text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[row.status].variant}>{STATUS_BADGES[row.status].label}</Badge>
+                      </TableCell>
+                      {row.trade ? (
+                        <>
+                          <TableCell>{new Date(row.trade.date).toLocaleDateString(undefined, { timeZone: "UTC" })}</TableCell>
+                          <TableCell className="font-mono">{row.trade.symbol}</TableCell>
+                          <TableCell className={row.trade.side === "buy" ? "text-success" : "text-danger"}>
+                            {row.trade.side === "buy" ? "Buy" : "Sell"}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{row.trade.quantity}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(row.trade.price)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(row.trade.fees)}</TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={6} className="text-muted-foreground">{row.message}</TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {counts.error > 0 && (
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Rows with errors won't be imported</div>
+                <ul className="text-sm text-danger max-h-24 overflow-auto">
+                  {rows.filter(row => row.status === "error").map(row => (
+                    <li key={row.line}>Line {row.line}: {row.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {counts.duplicate > 0 && (
+              <div className="flex items-center gap-2">
+                <Switch id="import-duplicates" checked={includeDuplicates} onCheckedChange={setIncludeDuplicates} />
+                <Label htmlFor="import-duplicates">
+                  Import duplicates anyway, e.g. two identical fills on the same day
+                </Label>
+              </div>
+            )}
+
+            {ledgerError && (
+              <p className="text-sm text-danger">
+                These trades can't be added to your portfolio: {ledgerError}. Import the earlier buys first.
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-danger">{error}</p>}
+
+        <DialogFooter>
+          {step !== "source" && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setError(null);
+                setStep(step === "preview" ? "mapping" : "source");
+              }}
+            >
+              Back
+            </Button>
+          )}
+          {step === "source" && (
+            <Button onClick={handleRead} disabled={!text.trim()}>Next</Button>
+          )}
+          {step === "mapping" && (
+            <Button onClick={() => setStep("preview")} disabled={missingFields.length > 0}>
+              {missingFields.length > 0 ? `Map ${missingFields.map(({ label }) => label).join(", ")}` : "Preview"}
+            </Button>
+          )}
+          {step === "preview" && (
+            <Button onClick={handleImport} disabled={toImport.length === 0 || !!ledgerError}>
+              Import {toImport.length} {toImport.length === 1 ? "trade" : "trades"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { formatVolume } from "@/utils/formatters";
+
+interface VolumePaneProps {
+  // Chart points with each bar's open, close and volume, as built by ChartCard
+  data: Array<{ name: string; open?: number; close?: number; volume?: number }>;
+  height: number;
+  // Shared with the price chart so their tooltips and cursors move together
+  syncId?: string;
+  textColor: string;
+  tooltipBgColor: string;
+  tooltipBorderColor: string;
+}
+
+// Traded volume per bar, colored by whether the bar closed up or down
+export default function VolumePane({
+  data,
+  height,
+  syncId,
+  textColor,
+  tooltipBgColor,
+  tooltipBorderColor,
+}: VolumePaneProps) {
+  return (
+    <div className="w-full border-t pt-1" style={{ height: `${height}px` }}>
+      <div className="px-2 text-[10px] font-medium text-muted-foreground">Volume</div>
+      <ResponsiveContainer width="100%" height={height - 16}>
+        <BarChart data={data} syncId={syncId} margin={{ top: 2, right: 10, left: 5, bottom: 2 }}>
+          <XAxis dataKey="name" hide />
+          <YAxis
+            axisLine={false}
+            tickLine={false}
+            tick={{ fontSize: 9, fill: textColor }}
+            tickFormatter={(value: number) => formatVolume(value)}
+            tickCount={3}
+            width={40}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: tooltipBgColor,
+              border: `1px solid ${tooltipBorderColor}`,
+              borderRadius: "8px",
+              fontSize: "11px",
+              padding: "6px",
+            }}
+            itemStyle={{ color: textColor }}
+            labelStyle={{ color: textColor }}
+            formatter={(value: number) => [formatVolume(value), "Volume"]}
+            animationDuration={200}
+          />
+          <Bar dataKey="volume" isAnimationActive={false}>
+            {data.map((point, index) => (
+              <Cell
+                key={index}
+                fill={point.close >= point.open ? "hsl(var(--success))" : "hsl(var(--danger))"}
+                fillOpacity={0.5}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { GripVertical, Pencil, Plus, Trash2, X } from "lucide-react";
+import StockCard from "@/components/StockCard";
+import SymbolSearch from "@/components/SymbolSearch";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import { useStocks } from "@/providers/StockProvider";
+import { useWatchlists } from "@/providers/WatchlistProvider";
+import { Instrument } from "@/utils/marketData/model";
+
+type NameDialog = { mode: "create" } | { mode: "rename"; id: string };
+
+// The dashboard's watchlist: pick a list, edit it, and drag cards to reorder
+export default function WatchlistPanel() {
+  const {
+    watchlists,
+    activeWatchlist,
+    setActiveWatchlist,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    addSymbol,
+    removeSymbol,
+    moveSymbol,
+  } = useWatchlists();
+  const { stocks } = useStocks();
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [nameDraft, setNameDraft] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const openNameDialog = (dialog: NameDialog) => {
+    setNameDraft(dialog.mode === "rename" ? activeWatchlist.name : "");
+    setNameDialog(dialog);
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = nameDraft.trim();
+    if (!name || !nameDialog) return;
+
+    if (nameDialog.mode === "create") {
+      createWatchlist(name);
+      toast.success(`Created watchlist "${name}"`);
+    } else {
+      renameWatchlist(nameDialog.id, name);
+    }
+    setNameDialog(null);
+  };
+
+  const handleDelete = () => {
+    const { name } = activeWatchlist;
+    deleteWatchlist(activeWatchlist.id);
+    setConfirmDelete(false);
+    toast.success(`Deleted watchlist "${name}"`);
+  };
+
+  const handleAdd = (instrument: Instrument) => {
+    if (addSymbol(instrument.symbol)) {
+      toast.success(`Added ${instrument.symbol} to ${activeWatchlist.name}`);
+    } else {
+      toast.error(`${instrument.symbol} is already in ${activeWatchlist.name}`);
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      moveSymbol(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={activeWatchlist.id} onValueChange={setActiveWatchlist}>
+          <SelectTrigger className="w-[200px] h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {watchlists.map(list => (
+              <SelectItem key={list.id} value={list.id}>
+                {list.name} ({list.symbols.length})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" className="h-9 w-9" title="New watchlist" onClick={() => openNameDialog({ mode: "create" })}>
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9"
+          title="Rename watchlist"
+          onClick={() => openNameDialog({ mode: "rename", id: activeWatchlist.id })}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9"
+          title={watchlists.length > 1 ? "Delete watchlist" : "The last watchlist can't be deleted"}
+          disabled={watchlists.length <= 1}
+          onClick={() => setConfirmDelete(true)}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+        <div className="ml-auto">
+          <SymbolSearch onSelect={handleAdd} exclude={activeWatchlist.symbols} />
+        </div>
+      </div>
+
+      {stocks.length === 0 ? (
+        <div className="rounded-md border border-dashed p-8 text-center text-sm text-muted-foreground">
+          This watchlist is empty. Use "Add symbol" to start tracking stocks.
+        </div>
+      ) : (
+        <div className="card-grid">
+          {stocks.map((stock) => {
+            const index = activeWatchlist.symbols.indexOf(stock.symbol);
+            return (
+              <div
+                key={stock.symbol}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                className={`group relative rounded-lg transition-opacity ${dragIndex === index ? "opacity-50" : ""} ${
+                  dropIndex === index && dragIndex !== index ? "ring-2 ring-primary" : ""
+                }`}
+              >
+                <StockCard stock={stock} />
+                <div className="absolute bottom-2 right-2 flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                  <GripVertical className="h-4 w-4 cursor-grab text-muted-foreground" aria-hidden="true" />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title={`Remove ${stock.symbol}`}
+                    onClick={() => removeSymbol(stock.symbol)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <form onSubmit={handleNameSubmit}>
+            <DialogHeader>
+              <DialogTitle>{nameDialog?.mode === "rename" ? "Rename watchlist" : "New watchlist"}</DialogTitle>
+            </DialogHeader>
+            <Input
+              autoFocus
+              className="my-4"
+              placeholder="Watchlist name"
+              maxLength={40}
+              value={nameDraft}
+              onChange={(e) => setNameDraft(e.target.value)}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!nameDraft.trim()}>
+                {nameDialog?.mode === "rename" ? "Rename" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{activeWatchlist.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The list and its {activeWatchlist.symbols.length} symbols will be removed. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+// Follow a value only once it has stopped changing for `delay` ms, e.g. so
+// a search box doesn't send a request for every keystroke
+export function useDebouncedValue<T>(value: T, delay = 300) {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(timeout)
+  }, [value, delay])
+
+  return debounced
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { useAuth } from "@/providers/AuthProvider";
+import { BUILT_IN_TEMPLATES, DATE_FORMATS, DateFormat, IMPORT_FIELDS, ImportField, ImportTemplate } from "@/utils/tradeImport";
+
+const TemplatesSchema = z.array(z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  mapping: z.record(z.string()),
+  dateFormat: z.enum(DATE_FORMATS as [DateFormat, ...DateFormat[]]),
+}));
+
+const FIELD_IDS = new Set<string>(IMPORT_FIELDS.map(({ field }) => field));
+
+// Each user keeps their own broker templates; signed-out visitors share a guest set
+const getStorageKey = (userId?: string) => `import_templates_${userId ?? "guest"}`;
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Saved templates that still validate; anything else is discarded
+const loadTemplates = (storageKey: string): ImportTemplate[] => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return [];
+
+    const result = TemplatesSchema.safeParse(JSON.parse(saved));
+    if (!result.success) throw new Error(result.error.message);
+
+    return result.data.map(template => ({
+      id: template.id,
+      name: template.name,
+      dateFormat: template.dateFormat as DateFormat,
+      mapping: Object.fromEntries(
+        Object.entries(template.mapping).filter(([field]) => FIELD_IDS.has(field))
+      ) as Partial<Record<ImportField, string>>,
+    }));
+  } catch (error) {
+    console.warn("Ignoring invalid saved import templates:", error);
+    localStorage.removeItem(storageKey);
+    return [];
+  }
+};
+
+/**
+ * Column mappings for broker CSV imports: the built-in broker formats
+ * followed by the ones the user has saved
+ */
+export function useImportTemplates() {
+  const { user } = useAuth();
+  const storageKey = getStorageKey(user?.id);
+  // Keep the key the templates were loaded from, so they are never saved under another user's key
+  const [stored, setStored] = useState(() => ({ key: storageKey, templates: loadTemplates(storageKey) }));
+
+  useEffect(() => {
+    if (stored.key !== storageKey) {
+      setStored({ key: storageKey, templates: loadTemplates(storageKey) });
+    }
+  }, [storageKey, stored.key]);
+
+  useEffect(() => {
+    localStorage.setItem(stored.key, JSON.stringify(stored.templates));
+  }, [stored]);
+
+  // Saving under an existing custom template's name replaces it
+  const saveTemplate = (template: Omit<ImportTemplate, "id" | "builtIn">): ImportTemplate => {
+    const name = template.name.trim();
+    const existing = stored.templates.find(saved => saved.name.toLowerCase() === name.toLowerCase());
+    const saved: ImportTemplate = { ...template, name, id: existing?.id ?? createId() };
+    setStored(prev => ({
+      ...prev,
+      templates: [...prev.templates.filter(t => t.id !== saved.id), saved],
+    }));
+    return saved;
+  };
+
+  const deleteTemplate = (id: string) => {
+    setStored(prev => ({ ...prev, templates: prev.templates.filter(template => template.id !== id) }));
+  };
+
+  return {
+    templates: [...BUILT_IN_TEMPLATES, ...stored.templates],
+    saveTemplate,
+    deleteTemplate,
+  };
+}
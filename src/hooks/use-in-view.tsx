@@ -0,0 +1,30 @@
+import * as React from "react"
+
+// Track whether an element has scrolled into the viewport. Once seen, it
+// stays "in view" so data loaded for it is not thrown away on scroll.
+export function useInView<T extends Element>(rootMargin = "100px") {
+  const ref = React.useRef<T>(null)
+  const [inView, setInView] = React.useState(false)
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!element || inView) return
+
+    if (typeof IntersectionObserver === "undefined") {
+      setInView(true)
+      return
+    }
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setInView(true)
+        observer.disconnect()
+      }
+    }, { rootMargin })
+
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [inView, rootMargin])
+
+  return { ref, inView }
+}
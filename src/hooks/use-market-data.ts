@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { QueryClient, QueryKey, useQueries, useQuery, useQueryClient, UseQueryResult } from "@tanstack/react-query";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import {
+  ChartPeriod,
+  Forecast,
+  MARKET_VOLATILITY_CACHE_KEY,
+  MarketVolatility,
+  PriceHistory,
+  Quote,
+  RequestPriority,
+  SymbolMatch,
+  clearTickerCache,
+  fetchClassification,
+  fetchMarketVolatility,
+  fetchPriceHistory,
+  fetchStockPredictions,
+  fetchStockQuote,
+  getHistoryCacheKey,
+  getPredictionCacheKey,
+  getQuoteCacheKey,
+  loadPredictionArchive,
+  searchSymbols
+} from "@/utils/apiService";
+import { clearCache, formatCooldown, getCacheAge, getRemainingCooldown, getRevalidation, markRefreshed } from "@/utils/cacheUtils";
+import { searchKnownInstruments } from "@/utils/marketData/symbolDirectory";
+import { loadSentimentHistory } from "@/utils/sentimentHistory";
+
+const MINUTE = 60 * 1000;
+
+// Refetch policy for every market data query. These match the persistent
+// cache's TTLs, so a query only goes back to the cache once its copy has expired.
+// When the cache answers with an expired copy, the query is refetched as soon as
+// the cache's background refresh lands (see readThrough).
+const STALE_TIMES = {
+  quote: 15 * MINUTE,
+  prediction: 30 * MINUTE,
+  marketVolatility: 30 * MINUTE,
+  intradayHistory: 15 * MINUTE,
+  dailyHistory: 6 * 60 * MINUTE,
+  search: 24 * 60 * MINUTE,
+  predictionArchive: 5 * MINUTE,
+  // Also refreshed whenever the market summary is fetched
+  sentimentHistory: 5 * MINUTE,
+  // Matches the overview cache; sectors and industries rarely change
+  classification: 24 * 60 * MINUTE,
+};
+
+/**
+ * Query keys for market data. Everything about one ticker shares the
+ * ticker prefix, so it can be invalidated in one call.
+ */
+export const marketDataKeys = {
+  all: ["marketData"] as const,
+  ticker: (symbol: string) => [...marketDataKeys.all, "ticker", symbol.toUpperCase()] as const,
+  quote: (symbol: string) => [...marketDataKeys.ticker(symbol), "quote"] as const,
+  prediction: (symbol: string) => [...marketDataKeys.ticker(symbol), "prediction"] as const,
+  history: (symbol: string, period: ChartPeriod) => [...marketDataKeys.ticker(symbol), "history", period] as const,
+  classification: (symbol: string) => [...marketDataKeys.ticker(symbol), "classification"] as const,
+  marketVolatility: () => [...marketDataKeys.all, "marketVolatility"] as const,
+  search: (query: string) => [...marketDataKeys.all, "search", query.trim().toLowerCase()] as const,
+  predictionArchive: () => [...marketDataKeys.all, "predictionArchive"] as const,
+  sentimentHistory: () => [...marketDataKeys.all, "sentimentHistory"] as const,
+};
+
+export interface MarketDataQueryOptions {
+  // Position in the provider's request queue
+  priority?: RequestPriority;
+  enabled?: boolean;
+  // Refetch this often in milliseconds, even while the tab is hidden
+  refetchInterval?: number;
+}
+
+interface CachedValue<T> {
+  value: T;
+  // Whether the persistent cache already held a copy when the query ran
+  fromCache: boolean;
+}
+
+export type MarketDataQuery<T> = Omit<UseQueryResult<CachedValue<T>>, "data"> & {
+  data: T | undefined;
+  fromCache: boolean;
+};
+
+const readThrough = async <T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  cacheKey: string,
+  load: () => Promise<T>
+): Promise<CachedValue<T>> => {
+  const fromCache = getCacheAge(cacheKey) !== null;
+  const value = await load();
+  // An expired copy was served while the cache refreshes it; the query would otherwise
+  // keep that copy for its whole staleTime, so refetch once the refresh is cached
+  getRevalidation(cacheKey)?.then(
+    () => queryClient.invalidateQueries({ queryKey, exact: true }),
+    () => undefined
+  );
+  return { value, fromCache };
+};
+
+const unwrap = <T>(query: UseQueryResult<CachedValue<T>>): MarketDataQuery<T> => ({
+  ...query,
+  data: query.data?.value,
+  fromCache: query.data?.fromCache ?? false,
+});
+
+const quoteQuery = (
+  queryClient: QueryClient,
+  symbol: string,
+  { priority = "normal", enabled = true, refetchInterval }: MarketDataQueryOptions
+) => ({
+  queryKey: marketDataKeys.quote(symbol),
+  queryFn: () => readThrough(queryClient, marketDataKeys.quote(symbol), getQuoteCacheKey(symbol), async (): Promise<Quote> => {
+    const quote = await fetchStockQuote(symbol, { priority });
+    if (!quote) {
+      throw new Error(`No quote available for ${symbol}`);
+    }
+    return quote;
+  }),
+  staleTime: STALE_TIMES.quote,
+  enabled: enabled && !!symbol,
+  refetchInterval,
+  refetchIntervalInBackground: true,
+});
+
+/**
+ * Latest quote for a ticker. Errors when no provider could supply one, so
+ * callers can fall back to simulated data.
+ */
+export function useQuote(symbol: string, options: MarketDataQueryOptions = {}) {
+  const queryClient = useQueryClient();
+  return unwrap(useQuery(quoteQuery(queryClient, symbol, options)));
+}
+
+/**
+ * Latest quotes for several tickers, in the same order
+ */
+export function useQuotes(symbols: string[], options: MarketDataQueryOptions = {}) {
+  const queryClient = useQueryClient();
+  return useQueries({ queries: symbols.map(symbol => quoteQuery(queryClient, symbol, options)) }).map(unwrap);
+}
+
+const predictionQuery = (
+  queryClient: QueryClient,
+  symbol: string,
+  { priority = "normal", enabled = true, refetchInterval }: MarketDataQueryOptions
+) => ({
+  queryKey: marketDataKeys.prediction(symbol),
+  queryFn: () => readThrough<Forecast>(
+    queryClient,
+    marketDataKeys.prediction(symbol),
+    getPredictionCacheKey(symbol),
+    () => fetchStockPredictions(symbol, { priority })
+  ),
+  staleTime: STALE_TIMES.prediction,
+  enabled: enabled && !!symbol,
+  refetchInterval,
+  refetchIntervalInBackground: true,
+});
+
+/**
+ * Five-day forecast for a ticker
+ */
+export function usePrediction(symbol: string, options: MarketDataQueryOptions = {}) {
+  const queryClient = useQueryClient();
+  return unwrap(useQuery(predictionQuery(queryClient, symbol, options)));
+}
+
+/**
+ * Five-day forecasts for several tickers, in the same order
+ */
+export function usePredictions(symbols: string[], options: MarketDataQueryOptions = {}) {
+  const queryClient = useQueryClient();
+  return useQueries({ queries: symbols.map(symbol => predictionQuery(queryClient, symbol, options)) }).map(unwrap);
+}
+
+/**
+ * Market-wide sentiment and volatility summary
+ */
+export function useMarketVolatility({ enabled = true, refetchInterval }: MarketDataQueryOptions = {}) {
+  const queryClient = useQueryClient();
+  return unwrap(useQuery({
+    queryKey: marketDataKeys.marketVolatility(),
+    queryFn: async () => {
+      const result = await readThrough<MarketVolatility>(
+        queryClient,
+        marketDataKeys.marketVolatility(),
+        MARKET_VOLATILITY_CACHE_KEY,
+        () => fetchMarketVolatility()
+      );
+      // A fresh summary has been added to the sentiment history by now
+      queryClient.invalidateQueries({ queryKey: marketDataKeys.sentimentHistory() });
+      return result;
+    },
+    staleTime: STALE_TIMES.marketVolatility,
+    enabled,
+    refetchInterval,
+    refetchIntervalInBackground: true,
+  }));
+}
+
+const historyQuery = (
+  queryClient: QueryClient,
+  symbol: string,
+  period: ChartPeriod,
+  { priority = "normal", enabled = true }: MarketDataQueryOptions
+) => {
+  const intraday = period === "1d" || period === "5d";
+  return {
+    queryKey: marketDataKeys.history(symbol, period),
+    queryFn: () => readThrough<PriceHistory>(
+      queryClient,
+      marketDataKeys.history(symbol, period),
+      getHistoryCacheKey(symbol, period),
+      () => fetchPriceHistory(symbol, period, { priority })
+    ),
+    staleTime: intraday ? STALE_TIMES.intradayHistory : STALE_TIMES.dailyHistory,
+    enabled: enabled && !!symbol,
+  };
+};
+
+/**
+ * OHLCV bars for a ticker over a chart period
+ */
+export function usePriceHistory(symbol: string, period: ChartPeriod, options: MarketDataQueryOptions = {}) {
+  const queryClient = useQueryClient();
+  return unwrap(useQuery(historyQuery(queryClient, symbol, period, options)));
+}
+
+/**
+ * OHLCV bars for several tickers over the same period, in the same order
+ */
+export function usePriceHistories(symbols: string[], period: ChartPeriod, options: MarketDataQueryOptions = {}) {
+  const queryClient = useQueryClient();
+  return useQueries({ queries: symbols.map(symbol => historyQuery(queryClient, symbol, period, options)) }).map(unwrap);
+}
+
+const classificationQuery = (symbol: string, { enabled = true }: MarketDataQueryOptions) => ({
+  queryKey: marketDataKeys.classification(symbol),
+  queryFn: () => fetchClassification(symbol),
+  staleTime: STALE_TIMES.classification,
+  enabled: enabled && !!symbol,
+});
+
+/**
+ * Sector and industry of a ticker. Never errors; tickers that can't be
+ * classified have neither.
+ */
+export function useClassification(symbol: string, options: MarketDataQueryOptions = {}) {
+  return useQuery(classificationQuery(symbol, options));
+}
+
+/**
+ * Sectors and industries of several tickers, in the same order
+ */
+export function useClassifications(symbols: string[], options: MarketDataQueryOptions = {}) {
+  return useQueries({ queries: symbols.map(symbol => classificationQuery(symbol, options)) });
+}
+
+/**
+ * Every archived forecast, settled against the closes known so far
+ */
+export function usePredictionArchive() {
+  return useQuery({
+    queryKey: marketDataKeys.predictionArchive(),
+    queryFn: loadPredictionArchive,
+    staleTime: STALE_TIMES.predictionArchive,
+  });
+}
+
+/**
+ * Market summaries recorded on this device, oldest first
+ */
+export function useSentimentHistory() {
+  return useQuery({
+    queryKey: marketDataKeys.sentimentHistory(),
+    queryFn: loadSentimentHistory,
+    staleTime: STALE_TIMES.sentimentHistory,
+  });
+}
+
+// Results shown by every symbol search box
+const SEARCH_LIMIT = 10;
+
+/**
+ * Instruments matching a search. The search provider is only asked once
+ * typing pauses; until it answers, matches come from the bundled symbol list.
+ * @param query - Search text as typed
+ * @returns The current matches, and whether a provider search is pending
+ */
+export function useSymbolSearch(query: string): { matches: SymbolMatch[]; searching: boolean } {
+  const text = query.trim().toLowerCase();
+  const settled = useDebouncedValue(text);
+  const search = useQuery({
+    queryKey: marketDataKeys.search(settled),
+    queryFn: () => searchSymbols(settled, SEARCH_LIMIT),
+    staleTime: STALE_TIMES.search,
+    enabled: settled.length > 0,
+  });
+  const offline = useMemo(() => searchKnownInstruments(text, SEARCH_LIMIT), [text]);
+
+  const current = settled === text && search.data;
+  return {
+    matches: current ? search.data : offline,
+    searching: text.length > 0 && !current && (settled !== text || search.isFetching),
+  };
+}
+
+// Every component showing a ticker shares its refresh cooldown
+const cooldownListeners = new Set<() => void>();
+
+/**
+ * Force-refresh everything shown for a ticker, limited by a cooldown so
+ * repeated clicks don't use up the provider's quota.
+ * @param symbol - Ticker to refresh
+ * @returns refresh(), plus the cooldown state for the refresh button
+ */
+export function useTickerRefresh(symbol: string) {
+  const queryClient = useQueryClient();
+  const cooldownKey = `refresh_${symbol?.toUpperCase()}`;
+  const [remaining, setRemaining] = useState(() => getRemainingCooldown(cooldownKey));
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Count down while a cooldown is running, and restart when any component refreshes
+  useEffect(() => {
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    const tick = () => {
+      const left = getRemainingCooldown(cooldownKey);
+      setRemaining(left);
+      if (left <= 0 && interval) {
+        clearInterval(interval);
+        interval = undefined;
+      }
+    };
+
+    const start = () => {
+      tick();
+      if (!interval && getRemainingCooldown(cooldownKey) > 0) {
+        interval = setInterval(tick, 1000);
+      }
+    };
+
+    start();
+    cooldownListeners.add(start);
+    return () => {
+      cooldownListeners.delete(start);
+      if (interval) clearInterval(interval);
+    };
+  }, [cooldownKey]);
+
+  const refresh = useCallback(async () => {
+    if (!symbol || getRemainingCooldown(cooldownKey) > 0) return;
+
+    setRefreshing(true);
+    markRefreshed(cooldownKey);
+    cooldownListeners.forEach(listener => listener());
+
+    try {
+      // Drop persisted copies first, or the refetch would be served from them
+      clearTickerCache(symbol);
+      await queryClient.invalidateQueries({ queryKey: marketDataKeys.ticker(symbol) });
+    } finally {
+      setRefreshing(false);
+    }
+  }, [symbol, cooldownKey, queryClient]);
+
+  return {
+    refresh,
+    refreshing,
+    canRefresh: remaining <= 0,
+    cooldown: remaining > 0 ? formatCooldown(remaining) : "",
+  };
+}
+
+/**
+ * Discard all cached market data, e.g. after switching providers
+ * @returns Function that clears the persistent cache and refetches active queries
+ */
+export function useResetMarketData() {
+  const queryClient = useQueryClient();
+  return useCallback(() => {
+    clearCache();
+    return queryClient.invalidateQueries({ queryKey: marketDataKeys.all });
+  }, [queryClient]);
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { useAuth } from "@/providers/AuthProvider";
+import { BUILT_IN_SCREENS, SCREEN_FIELD_IDS, SavedScreen, Screen, ScreenField, isFilterComplete } from "@/utils/screener";
+
+const ScreensSchema = z.array(z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  screen: z.object({
+    filters: z.array(z.object({
+      field: z.enum(SCREEN_FIELD_IDS as [ScreenField, ...ScreenField[]]),
+      operator: z.enum(["above", "below", "is"]),
+      value: z.union([z.number(), z.string()]),
+    })),
+    sort: z.object({
+      field: z.enum(SCREEN_FIELD_IDS as [ScreenField, ...ScreenField[]]),
+      direction: z.enum(["asc", "desc"]),
+    }),
+  }),
+}));
+
+// Each user keeps their own screens; signed-out visitors share a guest set
+const getStorageKey = (userId?: string) => `screens_${userId ?? "guest"}`;
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Saved screens that still validate; anything else is discarded
+const loadScreens = (storageKey: string): SavedScreen[] => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return [];
+
+    const result = ScreensSchema.safeParse(JSON.parse(saved));
+    if (!result.success) throw new Error(result.error.message);
+
+    return (result.data as SavedScreen[]).map(saved => ({
+      ...saved,
+      screen: { ...saved.screen, filters: saved.screen.filters.filter(isFilterComplete) },
+    }));
+  } catch (error) {
+    console.warn("Ignoring invalid saved screens:", error);
+    localStorage.removeItem(storageKey);
+    return [];
+  }
+};
+
+/**
+ * Stock screens to start from: the built-in screens followed by the ones
+ * the user has saved
+ */
+export function useSavedScreens() {
+  const { user } = useAuth();
+  const storageKey = getStorageKey(user?.id);
+  // Keep the key the screens were loaded from, so they are never saved under another user's key
+  const [stored, setStored] = useState(() => ({ key: storageKey, screens: loadScreens(storageKey) }));
+
+  useEffect(() => {
+    if (stored.key !== storageKey) {
+      setStored({ key: storageKey, screens: loadScreens(storageKey) });
+    }
+  }, [storageKey, stored.key]);
+
+  useEffect(() => {
+    localStorage.setItem(stored.key, JSON.stringify(stored.screens));
+  }, [stored]);
+
+  // Saving under an existing screen's name replaces it
+  const saveScreen = (name: string, screen: Screen): SavedScreen => {
+    const trimmed = name.trim();
+    const existing = stored.screens.find(saved => saved.name.toLowerCase() === trimmed.toLowerCase());
+    const saved: SavedScreen = {
+      id: existing?.id ?? createId(),
+      name: trimmed,
+      screen: { ...screen, filters: screen.filters.filter(isFilterComplete) },
+    };
+    setStored(prev => ({
+      ...prev,
+      screens: [...prev.screens.filter(s => s.id !== saved.id), saved],
+    }));
+    return saved;
+  };
+
+  const deleteScreen = (id: string) => {
+    setStored(prev => ({ ...prev, screens: prev.screens.filter(screen => screen.id !== id) }));
+  };
+
+  return {
+    screens: [...BUILT_IN_SCREENS, ...stored.screens],
+    saveScreen,
+    deleteScreen,
+  };
+}
@@ -0,0 +1,15 @@
+import { useMemo } from "react";
+import { Stock, useStocks } from "@/providers/StockProvider";
+import { useWatchlists } from "@/providers/WatchlistProvider";
+
+/**
+ * Every stock on any of the user's watchlists, each once, in watchlist order
+ */
+export function useTrackedStocks(): Stock[] {
+  const { watchlists } = useWatchlists();
+  const { getStockById } = useStocks();
+  return useMemo(
+    () => [...new Set(watchlists.flatMap(list => list.symbols))].map(getStockById).filter(Boolean),
+    [watchlists, getStockById]
+  );
+}
@@ -2,9 +2,15 @@
 import { useState } from "react";
 import Header from "@/components/Header";
 import MarketSentiment from "@/components/MarketSentiment";
+import ApiKeyManager from "@/components/ApiKeyManager";
+import DataSourceSettings from "@/components/DataSourceSettings";
+import BroadcastComposer from "@/components/BroadcastComposer";
 import { useStocks, Stock } from "@/providers/StockProvider";
 import { useMaintenance } from "@/providers/MaintenanceProvider";
 import { useToast } from "@/hooks/use-toast";
+import { useResetMarketData } from "@/hooks/use-market-data";
+import { formatPrice } from "@/utils/formatters";
+import { postBroadcast } from "@/utils/broadcasts";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
@@ -23,9 +29,28 @@ export default function AdminPanel() {
   const { maintenanceMode, toggleMaintenanceMode } = useMaintenance();
   const { stocks, fetchStocks } = useStocks();
   const { toast } = useToast();
+  const resetMarketData = useResetMarketData();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [stocksData, setStocksData] = useState<Stock[]>(stocks);
 
+  // Users hear about maintenance through their notifications as well as the banner
+  const handleMaintenanceModeChange = (enabled: boolean) => {
+    toggleMaintenanceMode();
+    postBroadcast(enabled
+      ? {
+        kind: "maintenance",
+        priority: "high",
+        title: "Maintenance started",
+        message: "Some features may be unavailable until maintenance is finished.",
+      }
+      : {
+        kind: "maintenance",
+        priority: "normal",
+        title: "Maintenance finished",
+        message: "All features are available again.",
+      });
+  };
+
   const handleVolatilityChange = (stockId: string, volatility: "Low" | "Medium" | "High") => {
     setStocksData(prevStocks => 
       prevStocks.map(stock => 
@@ -49,6 +74,7 @@ export default function AdminPanel() {
     setIsRefreshing(true);
     // Simulating API call
     setTimeout(() => {
+      resetMarketData();
       fetchStocks();
       setIsRefreshing(false);
       toast({
@@ -81,7 +107,7 @@ export default function AdminPanel() {
                     <Switch 
                       id="maintenance-mode" 
                       checked={maintenanceMode} 
-                      onCheckedChange={toggleMaintenanceMode} 
+                      onCheckedChange={handleMaintenanceModeChange} 
                     />
                   </div>
                   
@@ -118,9 +144,9 @@ export default function AdminPanel() {
                     <TableBody>
                       {stocksData.map((stock) => (
                         <TableRow key={stock.id}>
-                          <TableCell className="font-mono font-medium">{stock.ticker}</TableCell>
+                          <TableCell className="font-mono font-medium">{stock.symbol}</TableCell>
                           <TableCell>{stock.name}</TableCell>
-                          <TableCell>${stock.price.toFixed(2)}</TableCell>
+                          <TableCell>{formatPrice(stock.quote.price, stock.currency)}</TableCell>
                           <TableCell>
                             <Select 
                               defaultValue={stock.volatility}
@@ -158,58 +184,26 @@ export default function AdminPanel() {
               </CardContent>
             </Card>
             
+            <Card>
+              <CardHeader>
+                <CardTitle>Broadcast</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BroadcastComposer />
+              </CardContent>
+            </Card>
+            
             <Card>
               <CardHeader>
                 <CardTitle>API Configuration</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="api-key" className="text-sm">API Key</Label>
-                    <div className="flex mt-1.5">
-                      <input 
-                        id="api-key" 
-                        type="password" 
-                        value="••••••••••••••••" 
-                        readOnly
-                        className="flex-1 rounded-l-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                      />
-                      <Button 
-                        variant="outline" 
-                        className="rounded-l-none"
-                        onClick={() => {
-                          toast({
-                            title: "API Key Copied",
-                            description: "API key has been copied to clipboard",
-                          });
-                        }}
-                      >
-                        Copy
-                      </Button>
-                    </div>
-                  </div>
+                  <ApiKeyManager />
                   
-                  <div>
-                    <Label htmlFor="endpoint" className="text-sm">Endpoint URL</Label>
-                    <input 
-                      id="endpoint" 
-                      type="text" 
-                      defaultValue="https://api.example.com/v1/stocks"
-                      className="w-full mt-1.5 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                    />
-                  </div>
+                  <Separator />
                   
-                  <Button 
-                    className="w-full"
-                    onClick={() => {
-                      toast({
-                        title: "Settings Saved",
-                        description: "API configuration has been updated",
-                      });
-                    }}
-                  >
-                    Save Settings
-                  </Button>
+                  <DataSourceSettings />
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Plus, Trash2 } from "lucide-react";
+import AlertRuleDialog from "@/components/AlertRuleDialog";
+import Header from "@/components/Header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAlerts } from "@/providers/AlertsProvider";
+import { AlertRule, describeCondition, getConditionSymbol } from "@/utils/alertRules";
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+const formatCooldown = (minutes: number) => (minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`);
+
+// Whether a rule is watching, switched off or past its expiry
+const getRuleStatus = (rule: AlertRule): { label: string; variant: "default" | "secondary" | "outline" } => {
+  if (rule.expiresAt !== null && rule.expiresAt <= Date.now()) return { label: "Expired", variant: "outline" };
+  return rule.enabled ? { label: "Active", variant: "default" } : { label: "Paused", variant: "secondary" };
+};
+
+export default function Alerts() {
+  const { rules, history, setRuleEnabled, removeRule, clearHistory } = useAlerts();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6 md:px-6 md:py-10">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Alerts</h1>
+            <p className="text-muted-foreground">Rules checked against quotes, predictions and market sentiment as they load.</p>
+          </div>
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New alert
+          </Button>
+        </div>
+
+        <AlertRuleDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Rules</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {rules.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No alerts yet. Create one here or from a stock's page; price levels are drawn on its chart.
+                </p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Condition</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Cooldown</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead>Last triggered</TableHead>
+                        <TableHead className="w-24">Enabled</TableHead>
+                        <TableHead className="w-10" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rules.map(rule => {
+                        const status = getRuleStatus(rule);
+                        const symbol = getConditionSymbol(rule.condition);
+                        return (
+                          <TableRow key={rule.id}>
+                            <TableCell>
+                              {symbol ? (
+                                <Link to={`/stocks/${symbol.toLowerCase()}`} className="hover:underline">
+                                  {describeCondition(rule.condition)}
+                                </Link>
+                              ) : (
+                                describeCondition(rule.condition)
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={status.variant}>{status.label}</Badge>
+                            </TableCell>
+                            <TableCell className="font-mono">{formatCooldown(rule.cooldownMinutes)}</TableCell>
+                            <TableCell>
+                              {rule.expiresAt !== null
+                                ? new Date(rule.expiresAt - 1).toLocaleDateString(undefined, { timeZone: "UTC" })
+                                : "Never"}
+                            </TableCell>
+                            <TableCell>{rule.lastTriggeredAt ? formatTime(rule.lastTriggeredAt) : "—"}</TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={rule.enabled}
+                                onCheckedChange={(enabled) => setRuleEnabled(rule.id, enabled)}
+                                aria-label="Enabled"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                title="Delete alert"
+                                onClick={() => removeRule(rule.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Trigger History</CardTitle>
+                {history.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={clearHistory}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No alerts have triggered yet.</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-44">Time</TableHead>
+                        <TableHead>Alert</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {history.map(trigger => (
+                        <TableRow key={trigger.id}>
+                          <TableCell className="whitespace-nowrap">{formatTime(trigger.time)}</TableCell>
+                          <TableCell>{trigger.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,39 +1,20 @@
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import Header from "@/components/Header";
-import StockCard from "@/components/StockCard";
+import WatchlistPanel from "@/components/WatchlistPanel";
 import MarketSentiment from "@/components/MarketSentiment";
 import ChartCard from "@/components/ChartCard";
-import { useStocks } from "@/providers/StockProvider";
+import MarketHeatmap from "@/components/MarketHeatmap";
+import SectorRotation from "@/components/SectorRotation";
+import SentimentTimeline from "@/components/SentimentTimeline";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Skeleton } from "@/components/ui/skeleton";
-import { fetchMarketVolatility, MarketVolatility } from "@/utils/apiService";
+import { useMarketVolatility } from "@/hooks/use-market-data";
 import { ArrowUpIcon, ArrowDownIcon } from "lucide-react";
 
 export default function Dashboard() {
-  const { stocks, loadingStocks } = useStocks();
   const [activeTab, setActiveTab] = useState("watchlist");
-  const [marketVolatility, setMarketVolatility] = useState<MarketVolatility | null>(null);
-  const [loadingMarketData, setLoadingMarketData] = useState<boolean>(true);
-  
-  useEffect(() => {
-    const loadMarketData = async () => {
-      setLoadingMarketData(true);
-      try {
-        const data = await fetchMarketVolatility();
-        if (data) {
-          setMarketVolatility(data);
-        }
-      } catch (error) {
-        console.error("Error loading market volatility:", error);
-      } finally {
-        setLoadingMarketData(false);
-      }
-    };
-    
-    loadMarketData();
-  }, []);
+  const { data: marketVolatility, isLoading: loadingMarketData } = useMarketVolatility();
 
   return (
     <div className="min-h-screen">
@@ -91,48 +72,12 @@ export default function Dashboard() {
                 <TabsList>
                   <TabsTrigger value="watchlist">Watchlist</TabsTrigger>
                   <TabsTrigger value="nifty">Nifty 50</TabsTrigger>
+                  <TabsTrigger value="heatmap">Heatmap</TabsTrigger>
                 </TabsList>
               </div>
               
               <TabsContent value="watchlist" className="space-y-0">
-                <div className="card-grid">
-                  {loadingStocks ? (
-                    // Loading skeletons
-                    Array(6)
-                      .fill(0)
-                      .map((_, i) => (
-                        <Card key={i}>
-                          <CardContent className="p-4">
-                            <div className="flex justify-between items-start">
-                              <div>
-                                <Skeleton className="h-5 w-16 mb-2" />
-                                <Skeleton className="h-4 w-24" />
-                              </div>
-                              <Skeleton className="h-6 w-12 rounded" />
-                            </div>
-                            <div className="mt-4 grid grid-cols-2 gap-2">
-                              <div>
-                                <Skeleton className="h-3 w-12 mb-1" />
-                                <Skeleton className="h-4 w-16" />
-                              </div>
-                              <div>
-                                <Skeleton className="h-3 w-12 mb-1" />
-                                <Skeleton className="h-4 w-16" />
-                              </div>
-                              <div className="col-span-2">
-                                <Skeleton className="h-3 w-12 mb-1" />
-                                <Skeleton className="h-5 w-10 rounded-full" />
-                              </div>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))
-                  ) : (
-                    stocks.map((stock) => (
-                      <StockCard key={stock.id} stock={stock} />
-                    ))
-                  )}
-                </div>
+                <WatchlistPanel />
               </TabsContent>
               
               <TabsContent value="nifty">
@@ -145,7 +90,6 @@ export default function Dashboard() {
                         color="hsl(var(--primary))"
                         subtitle="May 09, 2025"
                         period="1d"
-                        cacheKey="nifty50_chart"
                         height={360}
                         showRelativeChange={false}
                         hideOverflow={true}
@@ -154,7 +98,13 @@ export default function Dashboard() {
                   </CardContent>
                 </Card>
               </TabsContent>
+              
+              <TabsContent value="heatmap">
+                <MarketHeatmap />
+              </TabsContent>
             </Tabs>
+            
+            <SentimentTimeline />
           </div>
           
           {/* Right column */}
@@ -194,6 +144,8 @@ export default function Dashboard() {
               </Card>
             )}
             
+            <SectorRotation />
+            
             <div className="h-auto">
               <ChartCard
                 title="Stock Volatility"
@@ -201,7 +153,6 @@ export default function Dashboard() {
                 color="hsl(var(--danger))"
                 subtitle="Last 5 days"
                 period="5d"
-                cacheKey="volatility_chart"
                 height={100}
                 showRelativeChange={true}
                 compact={true}
@@ -216,7 +167,6 @@ export default function Dashboard() {
                 color="hsl(var(--success))"
                 subtitle="Past month"
                 period="1mo"
-                cacheKey="market_overview_chart"
                 height={100}
                 showRelativeChange={true}
                 compact={true}
@@ -0,0 +1,367 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Plus, RotateCcw, X } from "lucide-react";
+import Header from "@/components/Header";
+import OrderTicketDialog from "@/components/OrderTicketDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "@/components/ui/sonner";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePriceHistories, useQuotes } from "@/hooks/use-market-data";
+import { usePaperTrading } from "@/providers/PaperTradingProvider";
+import { ChartPeriod, DEFAULT_CURRENCY, formatBarLabel, getStockFallbackData } from "@/utils/apiService";
+import { formatPercent, formatPrice, formatPriceChange } from "@/utils/formatters";
+import { DEFAULT_STARTING_CASH, OrderStatus, PaperOrder, getEquityHistory, getPaperTrades } from "@/utils/paperTrading";
+import { getPortfolioValueHistory, valuePosition } from "@/utils/portfolio";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const STATUS_BADGES: Record<OrderStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  open: { label: "Open", variant: "outline" },
+  filled: { label: "Filled", variant: "default" },
+  cancelled: { label: "Cancelled", variant: "secondary" },
+  rejected: { label: "Rejected", variant: "destructive" },
+};
+
+const pnlClass = (value: number) => (value >= 0 ? "text-success" : "text-danger");
+
+// Shortest daily chart period that covers the account's life
+const getEquityPeriod = (openedAt: number): ChartPeriod => {
+  const days = (Date.now() - openedAt) / DAY;
+  if (days <= 30) return "1mo";
+  if (days <= 90) return "3mo";
+  if (days <= 180) return "6mo";
+  return "1y";
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+// Limit or stop price of an order, when it has one
+const formatOrderPrice = (order: PaperOrder) => {
+  if (order.type === "limit") return `Limit ${formatPrice(order.limitPrice)}`;
+  if (order.type === "stop") return `Stop ${formatPrice(order.stopPrice)}`;
+  return "Market";
+};
+
+function SummaryCard({ label, value, detail, valueClassName = "" }: {
+  label: string;
+  value: string;
+  detail?: string;
+  valueClassName?: string;
+}) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="text-sm text-muted-foreground mb-1">{label}</div>
+        <div className={`text-xl font-semibold font-mono ${valueClassName}`}>{value}</div>
+        {detail && <div className={`text-xs font-mono mt-1 ${valueClassName}`}>{detail}</div>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PaperTrading() {
+  const { account, cash, positions, cancelOrder, resetAccount } = usePaperTrading();
+  const [orderTicketOpen, setOrderTicketOpen] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [startingCash, setStartingCash] = useState(String(DEFAULT_STARTING_CASH));
+
+  const period = getEquityPeriod(account.openedAt);
+  const symbols = useMemo(() => positions.map(position => position.symbol), [positions]);
+  const quotes = useQuotes(symbols);
+  const histories = usePriceHistories(symbols, period, { priority: "low" });
+
+  // Quotes that haven't loaded yet are simulated; paper trading already runs on simulated prices when offline
+  const valuations = positions.map((position, i) =>
+    valuePosition(position, quotes[i]?.data ?? getStockFallbackData(position.symbol))
+  );
+  const holdings = valuations.filter(valuation => valuation.quantity > 0).sort((a, b) => b.marketValue - a.marketValue);
+  const marketValue = holdings.reduce((total, holding) => total + holding.marketValue, 0);
+  const equity = cash + marketValue;
+  const totalReturn = equity - account.startingCash;
+
+  const historiesLoading = histories.some(history => history.isLoading);
+  const equityHistory = historiesLoading
+    ? []
+    : getEquityHistory(account, getPortfolioValueHistory(
+        getPaperTrades(account.orders),
+        Object.fromEntries(symbols.map((symbol, i) => [symbol, histories[i].data?.bars ?? []]))
+      ));
+
+  // End the curve at the latest quotes, in place of today's close if there is one
+  const today = Math.floor(Date.now() / DAY) * DAY;
+  const equityCurve = [
+    ...equityHistory.filter(point => point.time < today),
+    { time: Date.now(), cash, marketValue, equity },
+  ].map(point => ({ ...point, name: formatBarLabel(point.time, period) }));
+
+  const orders = [...account.orders].reverse();
+  const openOrderCount = account.orders.filter(order => order.status === "open").length;
+
+  const handleReset = () => {
+    const amount = Number(startingCash);
+    if (!(amount > 0)) {
+      toast.error("Starting cash must be greater than zero");
+      return;
+    }
+    resetAccount(amount);
+    toast.success(`Paper account reset with ${formatPrice(amount, DEFAULT_CURRENCY)}`);
+  };
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6 md:px-6 md:py-10">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Paper Trading</h1>
+            <p className="text-muted-foreground">
+              Try out ideas with virtual cash. Orders fill at the latest quote, or simulated prices when offline.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setConfirmReset(true)}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+            <Button onClick={() => setOrderTicketOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              New order
+            </Button>
+          </div>
+        </div>
+
+        <OrderTicketDialog open={orderTicketOpen} onOpenChange={setOrderTicketOpen} />
+
+        <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reset paper account?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Every order and position is cleared and the account starts again with only cash. This can't be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="paper-starting-cash">Starting cash</Label>
+              <Input
+                id="paper-starting-cash"
+                type="number"
+                min={0}
+                step="any"
+                value={startingCash}
+                onChange={(e) => setStartingCash(e.target.value)}
+              />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <SummaryCard label="Account Value" value={formatPrice(equity, DEFAULT_CURRENCY)} />
+            <SummaryCard
+              label="Total Return"
+              value={formatPriceChange(totalReturn, DEFAULT_CURRENCY)}
+              detail={formatPercent((totalReturn / account.startingCash) * 100, true)}
+              valueClassName={pnlClass(totalReturn)}
+            />
+            <SummaryCard label="Cash" value={formatPrice(cash, DEFAULT_CURRENCY)} />
+            <SummaryCard
+              label="Holdings"
+              value={formatPrice(marketValue, DEFAULT_CURRENCY)}
+              detail={`${holdings.length} ${holdings.length === 1 ? "position" : "positions"}`}
+            />
+          </div>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle>Equity Curve</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {historiesLoading ? (
+                <Skeleton className="h-[260px] w-full" />
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <ComposedChart data={equityCurve} margin={{ top: 5, right: 10, left: 5, bottom: 5 }}>
+                    <defs>
+                      <linearGradient id="paperEquityGradient" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
+                        <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.2} />
+                    <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                    <YAxis
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fontSize: 10 }}
+                      domain={["auto", "auto"]}
+                      tickFormatter={(value: number) => formatPrice(value, DEFAULT_CURRENCY)}
+                      width={80}
+                    />
+                    <Tooltip formatter={(value: number, name: string) => [formatPrice(value, DEFAULT_CURRENCY), name]} />
+                    <Area
+                      type="monotone"
+                      dataKey="equity"
+                      name="Account value"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      fill="url(#paperEquityGradient)"
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      type="stepAfter"
+                      dataKey="cash"
+                      name="Cash"
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="4 3"
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Positions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {holdings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No open positions. Place a buy order to open one.</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Ticker</TableHead>
+                        <TableHead className="text-right">Shares</TableHead>
+                        <TableHead className="text-right">Avg cost</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                        <TableHead className="text-right">Unrealized</TableHead>
+                        <TableHead className="text-right">Realized</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {holdings.map(holding => (
+                        <TableRow key={holding.symbol}>
+                          <TableCell>
+                            <Link to={`/stocks/${holding.symbol.toLowerCase()}`} className="font-mono font-medium hover:underline">
+                              {holding.symbol}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{holding.quantity}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(holding.costBasis / holding.quantity)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(holding.price)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(holding.marketValue)}</TableCell>
+                          <TableCell className={`text-right font-mono ${pnlClass(holding.unrealizedPnl)}`}>
+                            {formatPriceChange(holding.unrealizedPnl)} ({formatPercent(holding.unrealizedPercent, true)})
+                          </TableCell>
+                          <TableCell className={`text-right font-mono ${pnlClass(holding.realizedPnl)}`}>
+                            {formatPriceChange(holding.realizedPnl)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Orders{openOrderCount > 0 ? ` (${openOrderCount} open)` : ""}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {orders.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No orders yet.</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Placed</TableHead>
+                        <TableHead>Ticker</TableHead>
+                        <TableHead>Side</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead className="text-right">Shares</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Fill price</TableHead>
+                        <TableHead>Updated</TableHead>
+                        <TableHead className="w-10" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {orders.map(order => (
+                        <TableRow key={order.id}>
+                          <TableCell className="whitespace-nowrap">{formatTime(order.createdAt)}</TableCell>
+                          <TableCell className="font-mono">{order.symbol}</TableCell>
+                          <TableCell className={order.side === "buy" ? "text-success" : "text-danger"}>
+                            {order.side === "buy" ? "Buy" : "Sell"}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{formatOrderPrice(order)}</TableCell>
+                          <TableCell className="text-right font-mono">{order.quantity}</TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_BADGES[order.status].variant} title={order.reason}>
+                              {STATUS_BADGES[order.status].label}
+                            </Badge>
+                            {order.reason && <div className="text-xs text-muted-foreground mt-1">{order.reason}</div>}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {order.fillPrice !== undefined ? formatPrice(order.fillPrice) : "—"}
+                            {order.simulated && (
+                              <span className="block text-[10px] text-muted-foreground" title="Filled from the market simulator, not a live quote">
+                                simulated
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{order.closedAt ? formatTime(order.closedAt) : "—"}</TableCell>
+                          <TableCell>
+                            {order.status === "open" && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                title="Cancel order"
+                                onClick={() => cancelOrder(order.id)}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Plus, Trash2, Upload } from "lucide-react";
+import Header from "@/components/Header";
+import TradeDialog from "@/components/TradeDialog";
+import TradeImportDialog from "@/components/TradeImportDialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "@/components/ui/sonner";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePriceHistories, useQuotes } from "@/hooks/use-market-data";
+import { usePortfolio } from "@/providers/PortfolioProvider";
+import { ChartPeriod, DEFAULT_CURRENCY, formatBarLabel, getStockFallbackData } from "@/utils/apiService";
+import { formatPercent, formatPrice, formatPriceChange } from "@/utils/formatters";
+import { getPortfolioValueHistory, summarizePortfolio, valuePosition } from "@/utils/portfolio";
+
+// Periods offered for the value chart; 6M and 1Y are drawn from weekly bars
+const VALUE_PERIODS: Array<{ period: ChartPeriod; label: string }> = [
+  { period: "1mo", label: "1M" },
+  { period: "3mo", label: "3M" },
+  { period: "6mo", label: "6M" },
+  { period: "1y", label: "1Y" },
+];
+
+const pnlClass = (value: number) => (value >= 0 ? "text-success" : "text-danger");
+
+function SummaryCard({ label, value, detail, valueClassName = "" }: {
+  label: string;
+  value: string;
+  detail?: string;
+  valueClassName?: string;
+}) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="text-sm text-muted-foreground mb-1">{label}</div>
+        <div className={`text-xl font-semibold font-mono ${valueClassName}`}>{value}</div>
+        {detail && <div className={`text-xs font-mono mt-1 ${valueClassName}`}>{detail}</div>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Portfolio() {
+  const { trades, positions, removeTrade } = usePortfolio();
+  const [tradeDialogOpen, setTradeDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [valuePeriod, setValuePeriod] = useState<ChartPeriod>("3mo");
+
+  const symbols = useMemo(() => positions.map(position => position.symbol), [positions]);
+  const quotes = useQuotes(symbols);
+  const histories = usePriceHistories(symbols, valuePeriod, { priority: "low" });
+
+  // Quotes that haven't loaded yet are simulated, as on the stock cards, and left out of the totals
+  const valuations = positions.map((position, i) => {
+    const quote = quotes[i]?.data;
+    return valuePosition(position, quote ?? getStockFallbackData(position.symbol), !quote || !!quote.simulated);
+  });
+  const summary = summarizePortfolio(valuations);
+  const holdings = valuations.filter(valuation => valuation.quantity > 0).sort((a, b) => b.marketValue - a.marketValue);
+
+  const historiesLoading = histories.some(history => history.isLoading);
+  const valueHistory = historiesLoading
+    ? []
+    : getPortfolioValueHistory(
+        trades,
+        Object.fromEntries(symbols.map((symbol, i) => [symbol, histories[i].data?.bars ?? []]))
+      ).map(point => ({ ...point, name: formatBarLabel(point.time, valuePeriod) }));
+  const simulatedHistories = historiesLoading ? [] : symbols.filter((_, i) => histories[i].data?.simulated);
+
+  const handleRemoveTrade = (id: string) => {
+    const error = removeTrade(id);
+    if (error) {
+      toast.error(`Can't remove this trade: ${error}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6 md:px-6 md:py-10">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Portfolio</h1>
+            <p className="text-muted-foreground">Holdings built from your trades, with lots closed first in, first out.</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+              <Upload className="h-4 w-4 mr-1" />
+              Import CSV
+            </Button>
+            <Button onClick={() => setTradeDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Record trade
+            </Button>
+          </div>
+        </div>
+
+        <TradeDialog open={tradeDialogOpen} onOpenChange={setTradeDialogOpen} />
+        <TradeImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
+
+        {trades.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              No trades yet. Record a buy or import your broker's CSV export to start tracking positions.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <SummaryCard label="Market Value" value={formatPrice(summary.marketValue, DEFAULT_CURRENCY)} />
+              <SummaryCard
+                label="Day Change"
+                value={formatPriceChange(summary.dayChange, DEFAULT_CURRENCY)}
+                detail={formatPercent(summary.dayChangePercent, true)}
+                valueClassName={pnlClass(summary.dayChange)}
+              />
+              <SummaryCard
+                label="Unrealized P&L"
+                value={formatPriceChange(summary.unrealizedPnl, DEFAULT_CURRENCY)}
+                detail={formatPercent(summary.unrealizedPercent, true)}
+                valueClassName={pnlClass(summary.unrealizedPnl)}
+              />
+              <SummaryCard
+                label="Realized P&L"
+                value={formatPriceChange(summary.realizedPnl, DEFAULT_CURRENCY)}
+                valueClassName={pnlClass(summary.realizedPnl)}
+              />
+            </div>
+
+            {summary.unpriced.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Waiting for live quotes for {summary.unpriced.join(", ")}. Until they load, these holdings are shown at
+                simulated prices and left out of the market value, P&L and allocation.
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <Card className="lg:col-span-2">
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Value Over Time</CardTitle>
+                    <div className="flex gap-1">
+                      {VALUE_PERIODS.map(({ period, label }) => (
+                        <Button
+                          key={period}
+                          variant={valuePeriod === period ? "default" : "outline"}
+                          size="sm"
+                          className="h-6 text-xs px-2"
+                          onClick={() => setValuePeriod(period)}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {historiesLoading ? (
+                    <Skeleton className="h-[260px] w-full" />
+                  ) : (
+                    <ResponsiveContainer width="100%" height={260}>
+                      <ComposedChart data={valueHistory} margin={{ top: 5, right: 10, left: 5, bottom: 5 }}>
+                        <defs>
+                          <linearGradient id="portfolioValueGradient" x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
+                            <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                          </linearGradient>
+                        </defs>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.2} />
+                        <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                        <YAxis
+                          axisLine={false}
+                          tickLine={false}
+                          tick={{ fontSize: 10 }}
+                          domain={["auto", "auto"]}
+                          tickFormatter={(value: number) => formatPrice(value, DEFAULT_CURRENCY)}
+                          width={80}
+                        />
+                        <Tooltip formatter={(value: number, name: string) => [formatPrice(value, DEFAULT_CURRENCY), name]} />
+                        <Area
+                          type="monotone"
+                          dataKey="marketValue"
+                          name="Market value"
+                          stroke="hsl(var(--primary))"
+                          strokeWidth={2}
+                          fill="url(#portfolioValueGradient)"
+                          isAnimationActive={false}
+                        />
+                        <Line
+                          type="stepAfter"
+                          dataKey="costBasis"
+                          name="Cost basis"
+                          stroke="hsl(var(--muted-foreground))"
+                          strokeDasharray="4 3"
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  )}
+                  {simulatedHistories.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Uses simulated prices for {simulatedHistories.join(", ")}, whose history couldn't be loaded.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Allocation</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {summary.allocation.length === 0 && (
+                    <p className="text-sm text-muted-foreground">Every position has been sold.</p>
+                  )}
+                  {summary.allocation.map(({ symbol, weight }) => (
+                    <div key={symbol} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-mono font-medium">{symbol}</span>
+                        <span className="font-mono text-muted-foreground">{formatPercent(weight * 100)}</span>
+                      </div>
+                      <Progress value={weight * 100} className="h-2" />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Holdings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Ticker</TableHead>
+                        <TableHead className="text-right">Shares</TableHead>
+                        <TableHead className="text-right">Avg cost</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                        <TableHead className="text-right">Day change</TableHead>
+                        <TableHead className="text-right">Unrealized</TableHead>
+                        <TableHead className="text-right">Realized</TableHead>
+                        <TableHead className="text-right">Lots</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {holdings.map(holding => (
+                        <TableRow key={holding.symbol}>
+                          <TableCell>
+                            <Link to={`/stocks/${holding.symbol.toLowerCase()}`} className="font-mono font-medium hover:underline">
+                              {holding.symbol}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{holding.quantity}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(holding.costBasis / holding.quantity)}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatPrice(holding.price)}
+                            {holding.simulated && (
+                              <span className="block text-[10px] text-muted-foreground" title="No live quote has loaded yet">
+                                simulated
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(holding.marketValue)}</TableCell>
+                          <TableCell className={`text-right font-mono ${pnlClass(holding.dayChange)}`}>
+                            {formatPriceChange(holding.dayChange)}
+                          </TableCell>
+                          <TableCell className={`text-right font-mono ${pnlClass(holding.unrealizedPnl)}`}>
+                            {formatPriceChange(holding.unrealizedPnl)} ({formatPercent(holding.unrealizedPercent, true)})
+                          </TableCell>
+                          <TableCell className={`text-right font-mono ${pnlClass(holding.realizedPnl)}`}>
+                            {formatPriceChange(holding.realizedPnl)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{holding.lots.length}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Trades</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Ticker</TableHead>
+                        <TableHead>Side</TableHead>
+                        <TableHead className="text-right">Shares</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Fees</TableHead>
+                        <TableHead className="w-10" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...trades].sort((a, b) => b.date - a.date).map(trade => (
+                        <TableRow key={trade.id}>
+                          <TableCell>{new Date(trade.date).toLocaleDateString(undefined, { timeZone: "UTC" })}</TableCell>
+                          <TableCell className="font-mono">{trade.symbol}</TableCell>
+                          <TableCell className={trade.side === "buy" ? "text-success" : "text-danger"}>
+                            {trade.side === "buy" ? "Buy" : "Sell"}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{trade.quantity}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(trade.price)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPrice(trade.fees)}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              title="Remove trade"
+                              onClick={() => handleRemoveTrade(trade.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { ReactNode, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { RefreshCw } from "lucide-react";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePredictionArchive } from "@/hooks/use-market-data";
+import { formatPercent } from "@/utils/formatters";
+import {
+  AccuracySummary,
+  HIT_TOLERANCE,
+  getSettledPredictions,
+  summarizeAccuracy,
+  summarizeAccuracyBy
+} from "@/utils/predictionArchive";
+
+// Shares are stored as fractions and shown as percentages
+const formatShare = (share: number | null) => (share === null ? "—" : `${Math.round(share * 100)}%`);
+
+interface AccuracyTableProps {
+  groupLabel: string;
+  rows: Array<{ key: string | number; label: ReactNode; summary: AccuracySummary }>;
+}
+
+function AccuracyTable({ groupLabel, rows }: AccuracyTableProps) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{groupLabel}</TableHead>
+            <TableHead className="text-right">Predictions</TableHead>
+            <TableHead className="text-right">Hit rate</TableHead>
+            <TableHead className="text-right">MAE</TableHead>
+            <TableHead className="text-right">MAPE</TableHead>
+            <TableHead className="text-right">Direction</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ key, label, summary }) => (
+            <TableRow key={key}>
+              <TableCell className="font-medium">{label}</TableCell>
+              <TableCell className="text-right font-mono">{summary.count}</TableCell>
+              <TableCell className="text-right font-mono">{formatShare(summary.hitRate)}</TableCell>
+              <TableCell className="text-right font-mono">{summary.mae.toFixed(2)}</TableCell>
+              <TableCell className="text-right font-mono">{formatPercent(summary.mape)}</TableCell>
+              <TableCell className="text-right font-mono">{formatShare(summary.directionalAccuracy)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function MetricCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="text-sm text-muted-foreground mb-1">{label}</div>
+        <div className="text-xl font-semibold font-mono">{value}</div>
+        {detail && <div className="text-xs text-muted-foreground mt-1">{detail}</div>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Predictions() {
+  const archive = usePredictionArchive();
+  const records = useMemo(() => archive.data ?? [], [archive.data]);
+
+  const settled = useMemo(() => getSettledPredictions(records), [records]);
+  const overall = useMemo(() => summarizeAccuracy(settled), [settled]);
+  const byHorizon = useMemo(
+    () => summarizeAccuracyBy(settled, prediction => prediction.horizonDays).sort((a, b) => a.group - b.group),
+    [settled]
+  );
+  const byModel = useMemo(
+    () => summarizeAccuracyBy(settled, prediction => prediction.modelVersion).sort((a, b) => a.group.localeCompare(b.group)),
+    [settled]
+  );
+  const byTicker = useMemo(
+    () => summarizeAccuracyBy(settled, prediction => prediction.symbol).sort((a, b) => a.group.localeCompare(b.group)),
+    [settled]
+  );
+  const pending = records.reduce((count, record) => count + record.points.filter(point => point.actual === null).length, 0);
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6 md:px-6 md:py-10">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Prediction Accuracy</h1>
+            <p className="text-muted-foreground">
+              Forecasts archived on this device, scored against the closes that followed them.
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => archive.refetch()} disabled={archive.isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${archive.isFetching ? "animate-spin" : ""}`} />
+            Settle now
+          </Button>
+        </div>
+
+        {archive.isLoading && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {Array(5).fill(0).map((_, i) => (
+              <Skeleton key={i} className="h-24" />
+            ))}
+          </div>
+        )}
+
+        {!archive.isLoading && !overall && (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              {records.length === 0
+                ? "No forecasts archived yet. Forecasts are saved here whenever a stock's predictions load from a live provider."
+                : `${records.length} ${records.length === 1 ? "forecast is" : "forecasts are"} archived. Accuracy appears once their target days have closed.`}
+            </CardContent>
+          </Card>
+        )}
+
+        {overall && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <MetricCard
+                label="Settled predictions"
+                value={overall.count.toString()}
+                detail={`${records.length} forecasts, ${pending} predictions pending`}
+              />
+              <MetricCard
+                label="Hit rate"
+                value={formatShare(overall.hitRate)}
+                detail={`Within ${HIT_TOLERANCE * 100}% of the close`}
+              />
+              <MetricCard label="MAE" value={overall.mae.toFixed(2)} detail="Mean absolute error" />
+              <MetricCard label="MAPE" value={formatPercent(overall.mape)} detail="Mean absolute percentage error" />
+              <MetricCard
+                label="Directional accuracy"
+                value={formatShare(overall.directionalAccuracy)}
+                detail="Called the move from the issue-day close"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>By Horizon</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AccuracyTable
+                    groupLabel="Horizon"
+                    rows={byHorizon.map(({ group, summary }) => ({
+                      key: group,
+                      label: `${group} ${group === 1 ? "day" : "days"}`,
+                      summary,
+                    }))}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Calibration</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Share of closes inside the bands implied by each forecast's volatility score.
+                    A well calibrated model lands close to the expected share.
+                  </p>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Band</TableHead>
+                          <TableHead className="text-right">Expected</TableHead>
+                          <TableHead className="text-right">Observed</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {overall.calibration.map(({ level, observed }) => (
+                          <TableRow key={level}>
+                            <TableCell>{level * 100}% band</TableCell>
+                            <TableCell className="text-right font-mono">{formatShare(level)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatShare(observed)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Model Version</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AccuracyTable
+                  groupLabel="Model"
+                  rows={byModel.map(({ group, summary }) => ({ key: group, label: group, summary }))}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Ticker</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AccuracyTable
+                  groupLabel="Ticker"
+                  rows={byTicker.map(({ group, summary }) => ({
+                    key: group,
+                    label: (
+                      <Link to={`/stocks/${group.toLowerCase()}`} className="font-mono hover:underline">
+                        {group}
+                      </Link>
+                    ),
+                    summary,
+                  }))}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
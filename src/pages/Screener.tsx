@@ -0,0 +1,418 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { ArrowDown, ArrowUp, Download, Link2, Plus, Save, Trash2, X } from "lucide-react";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/sonner";
+import { usePredictions, usePriceHistories, useQuotes } from "@/hooks/use-market-data";
+import { useSavedScreens } from "@/hooks/use-saved-screens";
+import { useTrackedStocks } from "@/hooks/use-tracked-stocks";
+import { formatMarketCap, formatPercent, formatPrice, formatVolume } from "@/utils/formatters";
+import {
+  DEFAULT_SCREEN,
+  SCREEN_FIELDS,
+  SCREEN_FIELD_IDS,
+  SCREEN_HISTORY_PERIOD,
+  Screen,
+  ScreenField,
+  ScreenFilter,
+  ScreenerRow,
+  VOLATILITY_LEVELS,
+  VolatilityLevel,
+  createFilter,
+  getScreenFields,
+  getScreenValues,
+  runScreen,
+  screenFromSearchParams,
+  screenResultsToCsv,
+  screenToSearchParams,
+  usesIndicators
+} from "@/utils/screener";
+
+// Columns shown for every screen; indicator columns appear once a screen uses them
+const BASE_COLUMNS: ScreenField[] = ["price", "changePercent", "volume", "marketCap", "volatility", "volatilityScore", "predictedChange"];
+
+const signedClass = (value: number) => (value >= 0 ? "text-success" : "text-danger");
+
+function ScreenValue({ row, field }: { row: ScreenerRow; field: ScreenField }) {
+  const value = row.values[field];
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+
+  switch (field) {
+    case "price":
+      return <>{formatPrice(value as number, row.currency)}</>;
+    case "changePercent":
+    case "predictedChange":
+      return <span className={signedClass(value as number)}>{formatPercent(value as number, true)}</span>;
+    case "volume":
+      return <>{formatVolume(value as number)}</>;
+    case "marketCap":
+      return <>{formatMarketCap(value as number)}</>;
+    case "volatility":
+      return <span className={`volatility-${(value as string).toLowerCase()}`}>{value}</span>;
+    case "macd":
+      return <>{(value as number).toFixed(2)}</>;
+    default:
+      return <>{(value as number).toFixed(1)}</>;
+  }
+}
+
+interface FilterRowProps {
+  filter: ScreenFilter;
+  onChange: (filter: ScreenFilter) => void;
+  onRemove: () => void;
+}
+
+function FilterRow({ filter, onChange, onRemove }: FilterRowProps) {
+  const definition = SCREEN_FIELDS[filter.field];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={filter.field} onValueChange={field => onChange(createFilter(field as ScreenField))}>
+        <SelectTrigger className="w-[180px]" aria-label="Field">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SCREEN_FIELD_IDS.map(field => (
+            <SelectItem key={field} value={field}>{SCREEN_FIELDS[field].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {definition.kind === "level" ? (
+        <>
+          <span className="text-sm text-muted-foreground px-1">is</span>
+          <Select
+            value={filter.value as string}
+            onValueChange={value => onChange({ field: filter.field, operator: "is", value: value as VolatilityLevel })}
+          >
+            <SelectTrigger className="w-[120px]" aria-label="Level">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VOLATILITY_LEVELS.map(level => (
+                <SelectItem key={level} value={level}>{level}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      ) : (
+        <>
+          <Select
+            value={filter.operator}
+            onValueChange={operator => onChange({ ...filter, operator: operator as "above" | "below" } as ScreenFilter)}
+          >
+            <SelectTrigger className="w-[100px]" aria-label="Comparison">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="above">above</SelectItem>
+              <SelectItem value="below">below</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="any"
+            className="w-[120px]"
+            aria-label="Threshold"
+            value={Number.isFinite(filter.value) ? (filter.value as number) : ""}
+            onChange={e => onChange({
+              field: filter.field,
+              operator: filter.operator as "above" | "below",
+              value: e.target.value === "" ? NaN : Number(e.target.value),
+            })}
+          />
+          {definition.unit && <span className="text-sm text-muted-foreground">{definition.unit}</span>}
+        </>
+      )}
+
+      <Button variant="ghost" size="icon" onClick={onRemove} aria-label="Remove filter">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export default function Screener() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // A shared link opens its screen; edits are written back to the URL
+  const [screen, setScreen] = useState<Screen>(() => screenFromSearchParams(searchParams) ?? DEFAULT_SCREEN);
+  const [screenName, setScreenName] = useState("");
+  const { screens, saveScreen, deleteScreen } = useSavedScreens();
+
+  useEffect(() => {
+    const params = screenToSearchParams(screen);
+    if (params.toString() !== searchParams.toString()) {
+      setSearchParams(params, { replace: true });
+    }
+  }, [screen, searchParams, setSearchParams]);
+
+  const stocks = useTrackedStocks();
+  const symbols = stocks.map(stock => stock.symbol);
+
+  const quotes = useQuotes(symbols, { priority: "low" });
+  const predictions = usePredictions(symbols, { priority: "low" });
+  // Histories are only loaded once a screen filters or sorts on an indicator
+  const histories = usePriceHistories(symbols, SCREEN_HISTORY_PERIOD, { priority: "low", enabled: usesIndicators(screen) });
+
+  // Quotes that haven't loaded yet are simulated, as on the stock cards, and marked as such
+  const rows: ScreenerRow[] = stocks.map((stock, i) => {
+    const quote = quotes[i].data;
+    const prediction = predictions[i].data;
+    return {
+      symbol: stock.symbol,
+      name: stock.name,
+      currency: stock.currency,
+      exchange: stock.exchange,
+      values: getScreenValues(quote ?? stock.quote, stock.volatility, prediction, histories[i].data?.bars),
+      simulated: !quote || !!quote.simulated || !!prediction?.simulated,
+    };
+  });
+  const results = runScreen(rows, screen);
+  const simulatedCount = results.filter(row => row.simulated).length;
+  const loadingCount = [...quotes, ...predictions, ...histories].filter(query => query.isLoading).length;
+
+  const indicatorColumns = getScreenFields(screen).filter(field => SCREEN_FIELDS[field].source === "indicator");
+  const columns = [...BASE_COLUMNS, ...indicatorColumns];
+
+  const updateFilter = (index: number, filter: ScreenFilter) => {
+    setScreen(prev => ({ ...prev, filters: prev.filters.map((existing, i) => (i === index ? filter : existing)) }));
+  };
+
+  const removeFilter = (index: number) => {
+    setScreen(prev => ({ ...prev, filters: prev.filters.filter((_, i) => i !== index) }));
+  };
+
+  const addFilter = () => {
+    setScreen(prev => ({ ...prev, filters: [...prev.filters, createFilter("changePercent")] }));
+  };
+
+  // Clicking the sorted column flips its direction; another column sorts descending first
+  const sortBy = (field: ScreenField) => {
+    setScreen(prev => ({
+      ...prev,
+      sort: {
+        field,
+        direction: prev.sort.field === field && prev.sort.direction === "desc" ? "asc" : "desc",
+      },
+    }));
+  };
+
+  const loadScreen = (id: string) => {
+    const saved = screens.find(s => s.id === id);
+    if (!saved) return;
+    setScreen(saved.screen);
+    setScreenName(saved.builtIn ? "" : saved.name);
+  };
+
+  const handleSave = () => {
+    if (!screenName.trim()) return;
+    const saved = saveScreen(screenName, screen);
+    toast.success(`Saved screen "${saved.name}"`);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link to this screen copied");
+    } catch (error) {
+      console.error("Failed to copy screen link:", error);
+      toast.error("Couldn't copy the link; copy it from the address bar instead");
+    }
+  };
+
+  const handleExport = () => {
+    const csv = screenResultsToCsv(results, columns);
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `screen-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const customScreens = screens.filter(saved => !saved.builtIn);
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6 md:px-6 md:py-10">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Screener</h1>
+            <p className="text-muted-foreground">Filter and sort every ticker on your watchlists.</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCopyLink}>
+              <Link2 className="h-4 w-4 mr-1" />
+              Copy link
+            </Button>
+            <Button variant="outline" onClick={handleExport} disabled={results.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Filters</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {screen.filters.length === 0 && (
+                <p className="text-sm text-muted-foreground">No filters; every tracked ticker is shown.</p>
+              )}
+              {screen.filters.map((filter, i) => (
+                <FilterRow
+                  key={i}
+                  filter={filter}
+                  onChange={updated => updateFilter(i, updated)}
+                  onRemove={() => removeFilter(i)}
+                />
+              ))}
+              <Button variant="outline" size="sm" onClick={addFilter}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add filter
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Screens</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Select value="" onValueChange={loadScreen}>
+                <SelectTrigger aria-label="Load a screen">
+                  <SelectValue placeholder="Load a screen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {screens.map(saved => (
+                    <SelectItem key={saved.id} value={saved.id}>{saved.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Screen name"
+                  value={screenName}
+                  onChange={e => setScreenName(e.target.value)}
+                  onKeyDown={e => e.key === "Enter" && handleSave()}
+                />
+                <Button onClick={handleSave} disabled={!screenName.trim()}>
+                  <Save className="h-4 w-4 mr-1" />
+                  Save
+                </Button>
+              </div>
+              {customScreens.length > 0 && (
+                <ul className="space-y-1">
+                  {customScreens.map(saved => (
+                    <li key={saved.id} className="flex items-center justify-between text-sm">
+                      <button type="button" className="hover:underline text-left" onClick={() => loadScreen(saved.id)}>
+                        {saved.name}
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => deleteScreen(saved.id)}
+                        aria-label={`Delete ${saved.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {results.length} of {rows.length} tickers
+            </CardTitle>
+            {loadingCount > 0 && (
+              <p className="text-sm text-muted-foreground">Loading data; results update as it arrives.</p>
+            )}
+            {simulatedCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {simulatedCount} {simulatedCount === 1 ? "ticker uses" : "tickers use"} simulated prices or
+                forecasts because live data hasn't loaded. They are marked below and in the CSV export.
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Your watchlists are empty. Add tickers from the dashboard to screen them.
+              </p>
+            ) : (
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ticker</TableHead>
+                      {columns.map(field => (
+                        <TableHead key={field} className={SCREEN_FIELDS[field].kind === "number" ? "text-right" : ""}>
+                          <button
+                            type="button"
+                            className="inline-flex items-center gap-1 whitespace-nowrap hover:text-foreground"
+                            onClick={() => sortBy(field)}
+                          >
+                            {SCREEN_FIELDS[field].label}
+                            {screen.sort.field === field && (screen.sort.direction === "asc"
+                              ? <ArrowUp className="h-3 w-3" />
+                              : <ArrowDown className="h-3 w-3" />)}
+                          </button>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map(row => (
+                      <TableRow key={row.symbol}>
+                        <TableCell>
+                          <Link to={`/stocks/${row.symbol.toLowerCase()}`} className="hover:underline">
+                            <div className="font-mono font-medium">{row.symbol}</div>
+                            <div className="text-xs text-muted-foreground">{row.name}</div>
+                          </Link>
+                          {row.simulated && (
+                            <span className="block text-[10px] text-muted-foreground" title="No live quote or forecast has loaded yet">
+                              simulated
+                            </span>
+                          )}
+                        </TableCell>
+                        {columns.map(field => (
+                          <TableCell
+                            key={field}
+                            className={SCREEN_FIELDS[field].kind === "number" ? "text-right font-mono whitespace-nowrap" : ""}
+                          >
+                            <ScreenValue row={row} field={field} />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -2,181 +2,91 @@ import { useParams, Link } from "react-router-dom";
 import { useStocks } from "@/providers/StockProvider";
 import Header from "@/components/Header";
 import ChartCard from "@/components/ChartCard";
+import PositionCard from "@/components/PositionCard";
+import AlertRuleDialog from "@/components/AlertRuleDialog";
+import OrderTicketDialog from "@/components/OrderTicketDialog";
+import TradeDialog from "@/components/TradeDialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ChevronUp, ChevronDown, ArrowLeft, TrendingUp, Database, RefreshCw } from "lucide-react";
+import { ChevronUp, ChevronDown, ArrowLeft, TrendingUp, Database, RefreshCw, Plus, ArrowLeftRight, Bell } from "lucide-react";
 import { useState, useEffect } from "react";
 import { 
-  fetchStockPredictions, 
-  StockPrediction, 
   getVolatilityLevel,
-  fetchStockQuote,
-  AlphaVantageQuote,
-  formatVolume,
-  getStockFallbackData
+  getStockFallbackData,
+  ChartPeriod
 } from "@/utils/apiService";
+import { formatMarketCap, formatPercent, formatPrice, formatVolume } from "@/utils/formatters";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { toast } from "@/components/ui/sonner";
-import { 
-  getFromCache, 
-  clearCache, 
-  canRefresh, 
-  markRefreshed, 
-  getRemainingCooldown,
-  formatCooldown 
-} from "@/utils/cacheUtils";
+import { useClassification, usePrediction, useQuote, useTickerRefresh } from "@/hooks/use-market-data";
+import { usePortfolio } from "@/providers/PortfolioProvider";
+import { useAlerts } from "@/providers/AlertsProvider";
+import { valuePosition } from "@/utils/portfolio";
+
+// Forecast horizons shown in the predictions card, in trading days
+const DISPLAYED_HORIZONS = [1, 2, 3, 5];
 
 export default function StockDetail() {
   const { id } = useParams<{ id: string }>();
-  const { getStockById, loadingStocks } = useStocks();
+  const { getStockById } = useStocks();
   const stock = id ? getStockById(id) : undefined;
-  const [chartPeriod, setChartPeriod] = useState<string>("1d");
-  const [stockData, setStockData] = useState<AlphaVantageQuote | null>(null);
-  const [prediction, setPrediction] = useState<StockPrediction | null>(null);
-  const [loadingPrediction, setLoadingPrediction] = useState<boolean>(false);
-  const [loadingStockData, setLoadingStockData] = useState<boolean>(false);
-  const [volatilityLevel, setVolatilityLevel] = useState<"Low" | "Medium" | "High">(stock?.volatility as "Low" | "Medium" | "High" || "Medium");
-  const [usingCachedData, setUsingCachedData] = useState<boolean>(false);
-  const [canRefreshData, setCanRefreshData] = useState<boolean>(true);
-  const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [cooldownTime, setCooldownTime] = useState<string>("");
+  const ticker = stock?.symbol ?? "";
+  const [chartPeriod, setChartPeriod] = useState<ChartPeriod>("1d");
+  const [tradeDialogOpen, setTradeDialogOpen] = useState(false);
+  const [orderTicketOpen, setOrderTicketOpen] = useState(false);
+  const [alertDialogOpen, setAlertDialogOpen] = useState(false);
+  const { getPosition } = usePortfolio();
+  const { getPriceLevels } = useAlerts();
+  const position = ticker ? getPosition(ticker) : undefined;
+  
+  // The open detail page jumps ahead of dashboard cards in the request queue
+  const quote = useQuote(ticker, { priority: 'high' });
+  const predictionQuery = usePrediction(ticker, { priority: 'high' });
+  const classificationQuery = useClassification(ticker);
+  const { refresh, refreshing, canRefresh: canRefreshData, cooldown: cooldownTime } = useTickerRefresh(ticker);
   
-  // Define cache keys based on stock ticker
-  const quoteKey = stock ? `quote_${stock.ticker.toUpperCase()}` : '';
-  const predictionKey = stock ? `predictions_${stock.ticker.toUpperCase()}` : '';
-  const chartKey = stock ? `chart_${stock.ticker.toUpperCase()}_${chartPeriod}` : '';
+  // Show the listing's quote until live data arrives, and simulated data if none can be loaded
+  const stockData = quote.data ?? (quote.isError && stock ? getStockFallbackData(stock.symbol) : stock?.quote);
+  const prediction = predictionQuery.data;
+  const loadingStockData = quote.isLoading;
+  const loadingPrediction = predictionQuery.isLoading;
+  const usingCachedData = quote.fromCache;
+  const classification = classificationQuery.data ?? stock;
+  const volatilityLevel = prediction
+    ? getVolatilityLevel(prediction.volatilityScore)
+    : (stock?.volatility as "Low" | "Medium" | "High" || "Medium");
   
-  // Calculate change percentage for display
-  const changePercent = stockData ? 
-    parseFloat(stockData.changePercent.replace('%', '')) : 
-    (stock ? stock.change : 0);
+  const changePercent = stockData ? stockData.changePercent : 0;
   
   const isPositive = changePercent >= 0;
-  const isPredictionPositive = prediction ? prediction.percent_change >= 0 : false;
+  const isPredictionPositive = prediction ? prediction.percentChange >= 0 : false;
+
+  useEffect(() => {
+    if (predictionQuery.error) {
+      console.error(`Failed to fetch predictions for ${ticker}:`, predictionQuery.error);
+      toast.error(`Failed to load predictions for ${ticker}`);
+    }
+  }, [predictionQuery.error, ticker]);
 
   const handleRefresh = async () => {
     if (!stock) return;
     
-    // Check if we can refresh
-    if (!canRefresh(quoteKey) || !canRefresh(predictionKey)) {
-      const quoteRemaining = getRemainingCooldown(quoteKey);
-      const predictionRemaining = getRemainingCooldown(predictionKey);
-      const remaining = Math.max(quoteRemaining, predictionRemaining);
-      
-      toast.error(`Please wait ${formatCooldown(remaining)} before refreshing again`);
+    if (!canRefreshData) {
+      toast.error(`Please wait ${cooldownTime} before refreshing again`);
       return;
     }
     
-    setRefreshing(true);
-    
     try {
-      // Clear cache
-      clearCache(quoteKey);
-      clearCache(predictionKey);
-      clearCache(chartKey);
-      
-      // Mark as refreshed
-      markRefreshed(quoteKey);
-      markRefreshed(predictionKey);
-      markRefreshed(chartKey);
-      
-      // Set refresh cooldown
-      setCanRefreshData(false);
-      
-      // Fetch fresh data
-      await fetchStockData(true);
-      await fetchPredictionData(true);
-      
-      toast.success(`${stock.ticker} data refreshed successfully`);
+      await refresh();
+      toast.success(`${stock.symbol} data refreshed successfully`);
     } catch (error) {
-      console.error(`Error refreshing ${stock.ticker} data:`, error);
-      toast.error(`Failed to refresh ${stock.ticker} data`);
-    } finally {
-      setRefreshing(false);
+      console.error(`Error refreshing ${stock.symbol} data:`, error);
+      toast.error(`Failed to refresh ${stock.symbol} data`);
     }
   };
 
-  useEffect(() => {
-    if (stock) {
-      // Fetch real-time stock data
-      fetchStockData();
-      fetchPredictionData();
-      
-      // Set up cooldown checks
-      const checkCooldown = () => {
-        const canRefreshQuote = canRefresh(quoteKey);
-        const canRefreshPrediction = canRefresh(predictionKey);
-        
-        setCanRefreshData(canRefreshQuote && canRefreshPrediction);
-        
-        if (!canRefreshQuote || !canRefreshPrediction) {
-          const quoteRemaining = getRemainingCooldown(quoteKey);
-          const predictionRemaining = getRemainingCooldown(predictionKey);
-          const remaining = Math.max(quoteRemaining, predictionRemaining);
-          setCooldownTime(formatCooldown(remaining));
-        } else {
-          setCooldownTime("");
-        }
-      };
-      
-      checkCooldown();
-      const interval = setInterval(checkCooldown, 1000);
-      
-      return () => clearInterval(interval);
-    }
-  }, [stock, quoteKey, predictionKey]);
-  
-  const fetchStockData = async (isRefresh = false) => {
-    if (!stock) return;
-    
-    setLoadingStockData(true);
-    try {
-      // Check if data exists in cache
-      if (!isRefresh) {
-        const quoteInCache = !!getFromCache(quoteKey);
-        setUsingCachedData(quoteInCache);
-      }
-      
-      const data = await fetchStockQuote(stock.ticker);
-      
-      if (data) {
-        setStockData(data);
-      } else {
-        // Use fallback data if API fails
-        console.log(`Using fallback data for ${stock.ticker}`);
-        setStockData(getStockFallbackData(stock.ticker));
-      }
-    } catch (error) {
-      console.error(`Failed to fetch stock data for ${stock.ticker}:`, error);
-      toast.error(`Failed to load current stock data for ${stock.ticker}`);
-      // Use fallback data on error
-      setStockData(getStockFallbackData(stock.ticker));
-    } finally {
-      setLoadingStockData(false);
-    }
-  };
-  
-  const fetchPredictionData = async (isRefresh = false) => {
-    if (!stock) return;
-    
-    setLoadingPrediction(true);
-    try {
-      const data = await fetchStockPredictions(stock.ticker);
-      setPrediction(data);
-      
-      // Set volatility level based on the volatility score
-      setVolatilityLevel(getVolatilityLevel(data.volatility_score));
-      
-    } catch (error) {
-      console.error(`Failed to fetch predictions for ${stock.ticker}:`, error);
-      toast.error(`Failed to load predictions for ${stock.ticker}`);
-    } finally {
-      setLoadingPrediction(false);
-    }
-  };
-
-  if (loadingStocks) {
+  if (stock && loadingStockData) {
     return (
       <div className="min-h-screen">
         <Header />
@@ -195,7 +105,7 @@ export default function StockDetail() {
       </div>
     );
   }
-  
+
   if (!stock) {
     return (
       <div className="min-h-screen">
@@ -211,18 +121,9 @@ export default function StockDetail() {
     );
   }
 
-  // Format the current price for display
-  const currentPrice = stockData ? 
-    parseFloat(stockData.price).toFixed(2) : 
-    stock.price.toFixed(2);
-    
-  // Format the volume for display
-  const volume = stockData ? 
-    formatVolume(stockData.volume) : 
-    stock.volume;
-    
-  // Get market cap
-  const marketCap = stockData?.marketCap || stock.marketCap;
+  const currentPrice = formatPrice(stockData.price, stockData.currency);
+  const volume = formatVolume(stockData.volume);
+  const marketCap = stockData.marketCap ? formatMarketCap(stockData.marketCap) : "N/A";
 
   return (
     <div className="min-h-screen">
@@ -240,11 +141,11 @@ export default function StockDetail() {
           <div>
             <h1 className="text-3xl font-bold">{stock.name}</h1>
             <div className="flex items-center gap-2">
-              <span className="font-mono font-semibold">{stock.ticker}</span>
+              <span className="font-mono font-semibold">{stock.symbol}</span>
               {!loadingStockData && (
                 <div className={isPositive ? "stock-change-positive" : "stock-change-negative"}>
                   {isPositive ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
-                  {Math.abs(changePercent).toFixed(2)}%
+                  {formatPercent(Math.abs(changePercent))}
                 </div>
               )}
               {loadingStockData && <Skeleton className="h-6 w-16" />}
@@ -276,14 +177,32 @@ export default function StockDetail() {
             </div>
           </div>
           
-          <div className="text-2xl font-bold font-mono">
-            {!loadingStockData ? (
-              `$${currentPrice}`
-            ) : (
-              <Skeleton className="h-8 w-24" />
-            )}
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => setTradeDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Record trade
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setOrderTicketOpen(true)}>
+              <ArrowLeftRight className="h-4 w-4 mr-1" />
+              Trade
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAlertDialogOpen(true)}>
+              <Bell className="h-4 w-4 mr-1" />
+              Alert
+            </Button>
+            <div className="text-2xl font-bold font-mono">
+              {!loadingStockData ? (
+                currentPrice
+              ) : (
+                <Skeleton className="h-8 w-24" />
+              )}
+            </div>
           </div>
         </div>
+
+        <TradeDialog open={tradeDialogOpen} onOpenChange={setTradeDialogOpen} symbol={stock.symbol} />
+        <OrderTicketDialog open={orderTicketOpen} onOpenChange={setOrderTicketOpen} symbol={stock.symbol} />
+        <AlertRuleDialog open={alertDialogOpen} onOpenChange={setAlertDialogOpen} symbol={stock.symbol} />
         
         <div className="mb-4">
           <div className="flex space-x-2 mb-4">
@@ -326,19 +245,32 @@ export default function StockDetail() {
           
           <Card>
             <CardContent className="p-1 md:p-4">
-              <div className="h-[400px] w-full">
+              <div className="min-h-[400px] w-full">
                 <ChartCard
                   title=""
-                  ticker={stock.ticker}
+                  ticker={stock.symbol}
                   color={isPositive ? "hsl(var(--success))" : "hsl(var(--danger))"}
                   period={chartPeriod}
-                  cacheKey={chartKey}
+                  height={320}
+                  showTools
+                  forecast={prediction}
+                  alertLevels={getPriceLevels(stock.symbol)}
                 />
               </div>
             </CardContent>
           </Card>
         </div>
         
+        {position && position.quantity > 0 && (
+          <div className="mb-6">
+            <h2 className="text-xl font-semibold mb-4">Your Position</h2>
+            <PositionCard
+              valuation={valuePosition(position, stockData, !quote.data || !!quote.data.simulated)}
+              currency={stockData.currency}
+            />
+          </div>
+        )}
+
         {/* Predictions Section */}
         {prediction && (
           <div className="mb-6">
@@ -346,7 +278,7 @@ export default function StockDetail() {
               <TrendingUp className="h-5 w-5" />
               AI Predictions
               <span className="text-sm font-normal text-muted-foreground">
-                (Model: {prediction.model_version})
+                (Model: {prediction.modelVersion})
               </span>
             </h2>
             
@@ -356,32 +288,23 @@ export default function StockDetail() {
                   <div className="md:col-span-2">
                     <div className="text-sm text-muted-foreground mb-1">5-Day Prediction</div>
                     <div className={`text-lg font-bold ${isPredictionPositive ? "text-success" : "text-danger"}`}>
-                      {isPredictionPositive ? "+" : ""}{prediction.percent_change.toFixed(2)}%
+                      {formatPercent(prediction.percentChange, true)}
                     </div>
                     <div className="text-xs text-muted-foreground">
-                      Forecast as of {prediction.date}
+                      Forecast as of {new Date(prediction.issuedAt).toLocaleDateString(undefined, { timeZone: "UTC" })}
                     </div>
                   </div>
                   
-                  <div>
-                    <div className="text-sm text-muted-foreground mb-1">1 Day</div>
-                    <div className="font-mono">${prediction.pred_1d.toFixed(2)}</div>
-                  </div>
-                  
-                  <div>
-                    <div className="text-sm text-muted-foreground mb-1">2 Days</div>
-                    <div className="font-mono">${prediction.pred_2d.toFixed(2)}</div>
-                  </div>
-                  
-                  <div>
-                    <div className="text-sm text-muted-foreground mb-1">3 Days</div>
-                    <div className="font-mono">${prediction.pred_3d.toFixed(2)}</div>
-                  </div>
-                  
-                  <div>
-                    <div className="text-sm text-muted-foreground mb-1">5 Days</div>
-                    <div className="font-mono">${prediction.pred_5d.toFixed(2)}</div>
-                  </div>
+                  {prediction.points
+                    .filter(point => DISPLAYED_HORIZONS.includes(point.horizonDays))
+                    .map(point => (
+                      <div key={point.horizonDays}>
+                        <div className="text-sm text-muted-foreground mb-1">
+                          {point.horizonDays} {point.horizonDays === 1 ? "Day" : "Days"}
+                        </div>
+                        <div className="font-mono">{formatPrice(point.price, prediction.currency)}</div>
+                      </div>
+                    ))}
                 </div>
               </CardContent>
             </Card>
@@ -415,7 +338,7 @@ export default function StockDetail() {
           <div className="stats-grid">
             <StatsCard
               label="Current Price"
-              value={loadingStockData ? "Loading..." : `$${currentPrice}`}
+              value={loadingStockData ? "Loading..." : currentPrice}
               loading={loadingStockData}
             />
             <StatsCard
@@ -428,6 +351,16 @@ export default function StockDetail() {
               value={loadingStockData ? "Loading..." : marketCap}
               loading={loadingStockData}
             />
+            <StatsCard
+              label="Sector"
+              value={classification?.sector ?? "N/A"}
+              loading={classificationQuery.isLoading}
+            />
+            <StatsCard
+              label="Industry"
+              value={classification?.industry ?? "N/A"}
+              loading={classificationQuery.isLoading}
+            />
             <StatsCard
               label="Volatility"
               value={volatilityLevel}
@@ -437,8 +370,8 @@ export default function StockDetail() {
             {prediction && (
               <StatsCard
                 label="Volatility Score"
-                value={prediction.volatility_score.toString()}
-                valueClassName={prediction.volatility_score > 0 ? "text-success" : prediction.volatility_score < 0 ? "text-danger" : ""}
+                value={prediction.volatilityScore.toString()}
+                valueClassName={prediction.volatilityScore > 0 ? "text-success" : prediction.volatilityScore < 0 ? "text-danger" : ""}
               />
             )}
           </div>
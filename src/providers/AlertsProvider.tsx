@@ -0,0 +1,241 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import { QueryKey, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { toast } from "@/components/ui/sonner";
+import { marketDataKeys, useMarketVolatility, usePredictions, useQuotes } from "@/hooks/use-market-data";
+import { useAuth } from "@/providers/AuthProvider";
+import { useNotifications } from "@/providers/NotificationsProvider";
+import { Forecast, MarketVolatility, Quote } from "@/utils/apiService";
+import {
+  AlertObservation,
+  AlertRule,
+  AlertRuleInput,
+  AlertTrigger,
+  evaluateRules,
+  getConditionSymbol,
+  isRuleActive,
+  validateCondition
+} from "@/utils/alertRules";
+
+interface AlertsState {
+  rules: AlertRule[];
+  // Newest first
+  history: AlertTrigger[];
+}
+
+interface AlertsContextType extends AlertsState {
+  // Returns an error message when the rule is invalid
+  addRule: (rule: AlertRuleInput) => string | null;
+  setRuleEnabled: (id: string, enabled: boolean) => void;
+  removeRule: (id: string) => void;
+  clearHistory: () => void;
+  // Levels of the active price alerts on a ticker, for drawing on its chart
+  getPriceLevels: (symbol: string) => number[];
+}
+
+const AlertsContext = createContext<AlertsContextType | undefined>(undefined);
+
+// Older triggers are dropped once the history is this long
+const HISTORY_LIMIT = 200;
+
+// How often the data active rules watch is refetched, so rules on tickers that
+// aren't on screen are still evaluated. Requests that the persistent cache can
+// serve cost nothing, and the rest wait behind visible ones in the scheduler.
+const WATCH_INTERVAL = 5 * 60 * 1000;
+
+const ObservedValueSchema = z.union([z.number(), z.string()]);
+
+const AlertsSchema = z.object({
+  rules: z.array(z.object({
+    id: z.string().min(1),
+    condition: z.discriminatedUnion("type", [
+      z.object({ type: z.literal("priceCross"), symbol: z.string().min(1), direction: z.enum(["above", "below"]), level: z.number().positive() }),
+      z.object({ type: z.literal("percentChange"), symbol: z.string().min(1), threshold: z.number().positive() }),
+      z.object({ type: z.literal("volatilityHigh"), symbol: z.string().min(1) }),
+      z.object({ type: z.literal("predictionFlip"), symbol: z.string().min(1) }),
+      z.object({ type: z.literal("sentimentChange") }),
+    ]),
+    enabled: z.boolean(),
+    cooldownMinutes: z.number().nonnegative(),
+    expiresAt: z.number().nullable(),
+    createdAt: z.number(),
+    lastTriggeredAt: z.number().optional(),
+    lastValue: ObservedValueSchema.optional(),
+  })),
+  history: z.array(z.object({
+    id: z.string().min(1),
+    ruleId: z.string(),
+    symbol: z.string().optional(),
+    message: z.string(),
+    time: z.number(),
+  })),
+});
+
+// Each user has their own alerts; signed-out visitors share a guest set
+const getStorageKey = (userId?: string) => `alerts_${userId ?? "guest"}`;
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Saved alerts if they still validate; anything else starts with none
+const loadAlerts = (storageKey: string): AlertsState => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return { rules: [], history: [] };
+
+    const result = AlertsSchema.safeParse(JSON.parse(saved));
+    if (!result.success) throw new Error(result.error.message);
+    return result.data as AlertsState;
+  } catch (error) {
+    console.warn("Ignoring invalid saved alerts:", error);
+    localStorage.removeItem(storageKey);
+    return { rules: [], history: [] };
+  }
+};
+
+// Tickers whose quotes and forecasts the active rules watch, and whether any rule watches market sentiment
+const getWatchedData = (rules: AlertRule[]) => {
+  const active = rules.filter(rule => isRuleActive(rule));
+  const symbolsOf = (types: AlertRule["condition"]["type"][]) => [
+    ...new Set(active.flatMap(({ condition }) => (types.includes(condition.type) ? [getConditionSymbol(condition)] : []))),
+  ];
+  return {
+    quoteSymbols: symbolsOf(["priceCross", "percentChange"]),
+    predictionSymbols: symbolsOf(["volatilityHigh", "predictionFlip"]),
+    sentiment: active.some(rule => rule.condition.type === "sentimentChange"),
+  };
+};
+
+// The data a successful market data query loaded, as something rules can watch.
+// Simulated fallbacks served while a provider is down are not watched.
+const toObservation = (queryKey: QueryKey, data: unknown): AlertObservation | null => {
+  const value = (data as { value?: unknown } | undefined)?.value;
+  if (!value || queryKey[0] !== marketDataKeys.all[0]) return null;
+  if ((value as { simulated?: boolean }).simulated) return null;
+
+  const kind = queryKey[1] === "ticker" ? queryKey[3] : queryKey[1];
+  switch (kind) {
+    case "quote":
+      return { kind: "quote", quote: value as Quote };
+    case "prediction":
+      return { kind: "prediction", forecast: value as Forecast };
+    case "marketVolatility":
+      return { kind: "marketVolatility", summary: value as MarketVolatility };
+    default:
+      return null;
+  }
+};
+
+export function AlertsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { notify } = useNotifications();
+  const storageKey = getStorageKey(user?.id);
+  // Keep the key the alerts were loaded from, so they are never saved under another user's key
+  const [stored, setStored] = useState(() => ({ key: storageKey, ...loadAlerts(storageKey) }));
+  // Data can arrive several times between renders, and triggers are announced
+  // as they are found, so every change goes through this copy of the state
+  const latest = useRef(stored);
+  const update = (change: (prev: typeof stored) => typeof stored) => {
+    latest.current = change(latest.current);
+    setStored(latest.current);
+  };
+
+  useEffect(() => {
+    if (stored.key !== storageKey) {
+      latest.current = { key: storageKey, ...loadAlerts(storageKey) };
+      setStored(latest.current);
+    }
+  }, [storageKey, stored.key]);
+
+  // Results land in the query cache and are evaluated below like any other load
+  const watched = getWatchedData(stored.rules);
+  const polling = { priority: "low", refetchInterval: WATCH_INTERVAL } as const;
+  useQuotes(watched.quoteSymbols, polling);
+  usePredictions(watched.predictionSymbols, polling);
+  useMarketVolatility({ ...polling, enabled: watched.sentiment });
+
+  useEffect(() => {
+    localStorage.setItem(stored.key, JSON.stringify({ rules: stored.rules, history: stored.history }));
+  }, [stored]);
+
+  // Evaluate the rules whenever any market data query loads new data
+  useEffect(() => queryClient.getQueryCache().subscribe(event => {
+    if (event.type !== "updated" || event.action.type !== "success") return;
+    const observation = toObservation(event.query.queryKey, event.query.state.data);
+    if (!observation) return;
+
+    const { rules, triggers } = evaluateRules(latest.current.rules, observation, createId);
+    if (rules === latest.current.rules) return;
+
+    const history = [...triggers.reverse(), ...latest.current.history].slice(0, HISTORY_LIMIT);
+    latest.current = { ...latest.current, rules, history };
+    setStored(latest.current);
+    triggers.forEach(trigger => {
+      toast.info(trigger.message);
+      notify({
+        category: "alert",
+        priority: "high",
+        title: "Alert triggered",
+        message: trigger.message,
+        link: trigger.symbol ? `/stocks/${trigger.symbol.toLowerCase()}` : "/alerts",
+      });
+    });
+  }), [queryClient, notify]);
+
+  const addRule = (input: AlertRuleInput) => {
+    const condition = validateCondition(input.condition);
+    if (typeof condition === "string") return condition;
+    if (input.expiresAt !== null && input.expiresAt <= Date.now()) return "The expiry date has already passed";
+
+    const rule: AlertRule = { ...input, condition, id: createId(), enabled: true, createdAt: Date.now() };
+    update(prev => ({ ...prev, rules: [...prev.rules, rule] }));
+    return null;
+  };
+
+  const setRuleEnabled = (id: string, enabled: boolean) => {
+    update(prev => ({
+      ...prev,
+      // Re-enabled rules start watching afresh rather than comparing with a stale value
+      rules: prev.rules.map(rule => (rule.id === id ? { ...rule, enabled, lastValue: undefined } : rule)),
+    }));
+  };
+
+  const removeRule = (id: string) => {
+    update(prev => ({ ...prev, rules: prev.rules.filter(rule => rule.id !== id) }));
+  };
+
+  const clearHistory = () => {
+    update(prev => ({ ...prev, history: [] }));
+  };
+
+  const getPriceLevels = (symbol: string) =>
+    stored.rules.flatMap(rule =>
+      isRuleActive(rule) && rule.condition.type === "priceCross" && rule.condition.symbol === symbol.toUpperCase()
+        ? [rule.condition.level]
+        : []
+    );
+
+  return (
+    <AlertsContext.Provider
+      value={{
+        rules: stored.rules,
+        history: stored.history,
+        addRule,
+        setRuleEnabled,
+        removeRule,
+        clearHistory,
+        getPriceLevels,
+      }}
+    >
+      {children}
+    </AlertsContext.Provider>
+  );
+}
+
+export function useAlerts() {
+  const context = useContext(AlertsContext);
+  if (context === undefined) {
+    throw new Error("useAlerts must be used within an AlertsProvider");
+  }
+  return context;
+}
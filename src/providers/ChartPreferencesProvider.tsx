@@ -0,0 +1,150 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { z } from "zod";
+import { useAuth } from "@/providers/AuthProvider";
+import { CHART_MODE_IDS, ChartMode } from "@/utils/chartModes";
+import {
+  INDICATOR_IDS,
+  IndicatorId,
+  IndicatorSettings,
+  getDefaultIndicatorSettings,
+  normalizeIndicatorParams
+} from "@/utils/indicators";
+
+interface ChartPreferences {
+  chartMode: ChartMode;
+  showVolume: boolean;
+  indicators: IndicatorSettings;
+}
+
+interface ChartPreferencesContextType {
+  chartMode: ChartMode;
+  setChartMode: (mode: ChartMode) => void;
+  showVolume: boolean;
+  setShowVolume: (show: boolean) => void;
+  indicators: IndicatorSettings;
+  setIndicatorEnabled: (id: IndicatorId, enabled: boolean) => void;
+  // Values outside the parameter's range are clamped
+  setIndicatorParam: (id: IndicatorId, key: string, value: number) => void;
+  resetIndicators: () => void;
+}
+
+const ChartPreferencesContext = createContext<ChartPreferencesContextType | undefined>(undefined);
+
+const ChartPreferencesSchema = z.object({
+  // Added after indicators; older saved preferences lack them
+  chartMode: z.enum(CHART_MODE_IDS as [ChartMode, ...ChartMode[]]).optional(),
+  showVolume: z.boolean().optional(),
+  indicators: z.record(z.object({
+    enabled: z.boolean(),
+    params: z.record(z.number()),
+  })),
+});
+
+// Each user has their own chart setup; signed-out visitors share a guest one
+const getStorageKey = (userId?: string) => `chart_preferences_${userId ?? "guest"}`;
+
+const createDefaultPreferences = (): ChartPreferences => ({
+  chartMode: "line",
+  showVolume: true,
+  indicators: getDefaultIndicatorSettings(),
+});
+
+// Saved preferences that still validate, merged over the defaults so new
+// indicators show up switched off; anything invalid is discarded
+const loadPreferences = (storageKey: string): ChartPreferences => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return createDefaultPreferences();
+
+    const result = ChartPreferencesSchema.safeParse(JSON.parse(saved));
+    if (!result.success) throw new Error(result.error.message);
+
+    const preferences = createDefaultPreferences();
+    INDICATOR_IDS.forEach(id => {
+      const setting = result.data.indicators[id];
+      if (setting) {
+        preferences.indicators[id] = { enabled: setting.enabled, params: normalizeIndicatorParams(id, setting.params) };
+      }
+    });
+    return {
+      ...preferences,
+      chartMode: (result.data.chartMode as ChartMode) ?? preferences.chartMode,
+      showVolume: result.data.showVolume ?? preferences.showVolume,
+    };
+  } catch (error) {
+    console.warn("Ignoring invalid saved chart preferences:", error);
+    localStorage.removeItem(storageKey);
+    return createDefaultPreferences();
+  }
+};
+
+export function ChartPreferencesProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const storageKey = getStorageKey(user?.id);
+  // Keep the key the preferences were loaded from, so they are never saved under another user's key
+  const [stored, setStored] = useState(() => ({ key: storageKey, preferences: loadPreferences(storageKey) }));
+
+  useEffect(() => {
+    if (stored.key !== storageKey) {
+      setStored({ key: storageKey, preferences: loadPreferences(storageKey) });
+    }
+  }, [storageKey, stored.key]);
+
+  useEffect(() => {
+    localStorage.setItem(stored.key, JSON.stringify(stored.preferences));
+  }, [stored]);
+
+  const update = (change: Partial<ChartPreferences>) => {
+    setStored(prev => ({ ...prev, preferences: { ...prev.preferences, ...change } }));
+  };
+
+  const updateIndicator = (id: IndicatorId, change: (setting: IndicatorSettings[IndicatorId]) => IndicatorSettings[IndicatorId]) => {
+    setStored(prev => ({
+      ...prev,
+      preferences: {
+        ...prev.preferences,
+        indicators: { ...prev.preferences.indicators, [id]: change(prev.preferences.indicators[id]) },
+      },
+    }));
+  };
+
+  const setIndicatorEnabled = (id: IndicatorId, enabled: boolean) => {
+    updateIndicator(id, setting => ({ ...setting, enabled }));
+  };
+
+  const setIndicatorParam = (id: IndicatorId, key: string, value: number) => {
+    updateIndicator(id, setting => ({
+      ...setting,
+      params: normalizeIndicatorParams(id, { ...setting.params, [key]: value }),
+    }));
+  };
+
+  const resetIndicators = () => {
+    update({ indicators: getDefaultIndicatorSettings() });
+  };
+
+  return (
+    <ChartPreferencesContext.Provider
+      value={{
+        chartMode: stored.preferences.chartMode,
+        setChartMode: (chartMode) => update({ chartMode }),
+        showVolume: stored.preferences.showVolume,
+        setShowVolume: (showVolume) => update({ showVolume }),
+        indicators: stored.preferences.indicators,
+        setIndicatorEnabled,
+        setIndicatorParam,
+        resetIndicators,
+      }}
+    >
+      {children}
+    </ChartPreferencesContext.Provider>
+  );
+}
+
+export function useChartPreferences() {
+  const context = useContext(ChartPreferencesContext);
+  if (context === undefined) {
+    throw new Error("useChartPreferences must be used within a ChartPreferencesProvider");
+  }
+  return context;
+}
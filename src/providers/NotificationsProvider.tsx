@@ -0,0 +1,217 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { useAuth } from "@/providers/AuthProvider";
+import { DataErrorEvent, DataErrorKind, onDataError } from "@/utils/apiService";
+import { Broadcast, loadBroadcasts, onBroadcast } from "@/utils/broadcasts";
+import {
+  AppNotification,
+  NotificationInput,
+  addNotification,
+  isBrowserNotificationSupported,
+  requestBrowserNotificationPermission,
+  showBrowserNotification
+} from "@/utils/notifications";
+
+interface NotificationsState {
+  // Newest first
+  notifications: AppNotification[];
+  // Whether high-priority notifications are also shown by the browser
+  browserNotifications: boolean;
+  // Broadcasts already turned into notifications
+  seenBroadcasts: string[];
+}
+
+interface NotificationsContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  notify: (notification: NotificationInput) => void;
+  markRead: (id: string) => void;
+  markAllRead: () => void;
+  clearAll: () => void;
+  browserNotifications: boolean;
+  // Asks the browser for permission when enabling; returns an error message when it is refused
+  setBrowserNotifications: (enabled: boolean) => Promise<string | null>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+// Older notifications are dropped once there are this many
+const NOTIFICATION_LIMIT = 100;
+
+// Enough seen broadcast ids to cover every broadcast still stored
+const SEEN_BROADCAST_LIMIT = 50;
+
+const DATA_ERROR_TITLES: Record<DataErrorKind, string> = {
+  network: "Market data couldn't be loaded",
+  "rate-limit": "Market data provider rate limit reached",
+  validation: "Market data provider sent invalid data",
+  auth: "Market data provider rejected the API key",
+  unsupported: "Market data isn't available on the provider's current plan",
+  unknown: "Market data couldn't be loaded",
+};
+
+const NotificationsSchema = z.object({
+  notifications: z.array(z.object({
+    id: z.string().min(1),
+    category: z.enum(["alert", "data", "maintenance", "broadcast"]),
+    priority: z.enum(["normal", "high"]),
+    title: z.string(),
+    message: z.string(),
+    time: z.number(),
+    read: z.boolean(),
+    link: z.string().optional(),
+    dedupeKey: z.string().optional(),
+    count: z.number().int().positive(),
+  })),
+  browserNotifications: z.boolean(),
+  seenBroadcasts: z.array(z.string()),
+});
+
+// Each user has their own notifications; signed-out visitors share a guest set
+const getStorageKey = (userId?: string) => `notifications_${userId ?? "guest"}`;
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const createEmptyState = (): NotificationsState => ({ notifications: [], browserNotifications: false, seenBroadcasts: [] });
+
+// Saved notifications if they still validate; anything else starts empty
+const loadNotifications = (storageKey: string): NotificationsState => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return createEmptyState();
+
+    const result = NotificationsSchema.safeParse(JSON.parse(saved));
+    if (!result.success) throw new Error(result.error.message);
+    return result.data as NotificationsState;
+  } catch (error) {
+    console.warn("Ignoring invalid saved notifications:", error);
+    localStorage.removeItem(storageKey);
+    return createEmptyState();
+  }
+};
+
+const fromBroadcast = (broadcast: Broadcast): NotificationInput => ({
+  category: broadcast.kind === "maintenance" ? "maintenance" : "broadcast",
+  priority: broadcast.priority,
+  title: broadcast.title,
+  message: broadcast.message,
+});
+
+// Failures of the same kind are folded into one notification until it is read
+const fromDataError = (event: DataErrorEvent): NotificationInput => ({
+  category: "data",
+  priority: "normal",
+  title: DATA_ERROR_TITLES[event.kind],
+  message: `Last failure: ${event.resource}. Cached or simulated data is shown instead.`,
+  dedupeKey: `data-${event.kind}`,
+});
+
+export function NotificationsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const storageKey = getStorageKey(user?.id);
+  // Keep the key the notifications were loaded from, so they are never saved under another user's key
+  const [stored, setStored] = useState(() => ({ key: storageKey, ...loadNotifications(storageKey) }));
+  // Events can arrive several times between renders, so every change goes
+  // through this copy of the state
+  const latest = useRef(stored);
+
+  useEffect(() => {
+    if (stored.key !== storageKey) {
+      latest.current = { key: storageKey, ...loadNotifications(storageKey) };
+      setStored(latest.current);
+    }
+  }, [storageKey, stored.key]);
+
+  useEffect(() => {
+    const { key, ...state } = stored;
+    localStorage.setItem(key, JSON.stringify(state));
+  }, [stored]);
+
+  // Held in a ref so the subscriptions below always add to the current user's notifications
+  const notifyRef = useRef((input: NotificationInput, seenBroadcast?: string) => {
+    const current = latest.current;
+    const notifications = addNotification(current.notifications, input, createId(), NOTIFICATION_LIMIT);
+    latest.current = {
+      ...current,
+      notifications,
+      seenBroadcasts: seenBroadcast
+        ? [...current.seenBroadcasts, seenBroadcast].slice(-SEEN_BROADCAST_LIMIT)
+        : current.seenBroadcasts,
+    };
+    setStored(latest.current);
+
+    if (input.priority === "high" && current.browserNotifications) {
+      showBrowserNotification(notifications[0]);
+    }
+  });
+
+  const notify = useCallback((input: NotificationInput) => notifyRef.current(input), []);
+
+  useEffect(() => onDataError(event => notify(fromDataError(event))), [notify]);
+
+  // Deliver broadcasts this user hasn't seen, now and whenever one is sent
+  useEffect(() => {
+    const deliver = (broadcasts: Broadcast[]) => {
+      broadcasts
+        .filter(broadcast => !latest.current.seenBroadcasts.includes(broadcast.id))
+        .forEach(broadcast => notifyRef.current(fromBroadcast(broadcast), broadcast.id));
+    };
+    deliver(loadBroadcasts());
+    return onBroadcast(deliver);
+  }, [stored.key]);
+
+  const update = (change: (prev: typeof stored) => typeof stored) => {
+    latest.current = change(latest.current);
+    setStored(latest.current);
+  };
+
+  const markRead = (id: string) => {
+    update(prev => ({
+      ...prev,
+      notifications: prev.notifications.map(notification => (notification.id === id ? { ...notification, read: true } : notification)),
+    }));
+  };
+
+  const markAllRead = () => {
+    update(prev => ({ ...prev, notifications: prev.notifications.map(notification => ({ ...notification, read: true })) }));
+  };
+
+  const clearAll = () => {
+    update(prev => ({ ...prev, notifications: [] }));
+  };
+
+  const setBrowserNotifications = async (enabled: boolean) => {
+    if (enabled) {
+      if (!isBrowserNotificationSupported()) return "This browser doesn't support notifications";
+      const permission = await requestBrowserNotificationPermission();
+      if (permission !== "granted") return "Notifications are blocked for this site in the browser's settings";
+    }
+    update(prev => ({ ...prev, browserNotifications: enabled }));
+    return null;
+  };
+
+  return (
+    <NotificationsContext.Provider
+      value={{
+        notifications: stored.notifications,
+        unreadCount: stored.notifications.filter(notification => !notification.read).length,
+        notify,
+        markRead,
+        markAllRead,
+        clearAll,
+        browserNotifications: stored.browserNotifications,
+        setBrowserNotifications,
+      }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error("useNotifications must be used within a NotificationsProvider");
+  }
+  return context;
+}
@@ -0,0 +1,189 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { z } from "zod";
+import { useAuth } from "@/providers/AuthProvider";
+import { fetchStockQuote, getStockFallbackData } from "@/utils/apiService";
+import { normalizeSymbol } from "@/utils/marketData/symbolDirectory";
+import {
+  OrderInput,
+  PaperAccount,
+  PaperOrder,
+  applyQuote,
+  createPaperAccount,
+  getCashBalance,
+  getPaperPositions,
+  validateOrder
+} from "@/utils/paperTrading";
+import { Position } from "@/utils/portfolio";
+
+interface PaperTradingContextType {
+  account: PaperAccount;
+  cash: number;
+  // Every symbol traded, including ones since sold out
+  positions: Position[];
+  getPosition: (symbol: string) => Position | undefined;
+  // Queues the order to be worked against the next quote; returns an error message when it is invalid
+  placeOrder: (order: OrderInput) => string | null;
+  cancelOrder: (id: string) => void;
+  // Clears every order and position
+  resetAccount: (startingCash: number) => void;
+}
+
+const PaperTradingContext = createContext<PaperTradingContextType | undefined>(undefined);
+
+// How often open orders are checked against fresh quotes
+const ORDER_CHECK_INTERVAL = 60 * 1000;
+
+const PaperAccountSchema = z.object({
+  startingCash: z.number().positive(),
+  openedAt: z.number(),
+  orders: z.array(z.object({
+    id: z.string().min(1),
+    symbol: z.string().min(1),
+    side: z.enum(["buy", "sell"]),
+    type: z.enum(["market", "limit", "stop"]),
+    quantity: z.number().positive(),
+    limitPrice: z.number().positive().optional(),
+    stopPrice: z.number().positive().optional(),
+    status: z.enum(["open", "filled", "cancelled", "rejected"]),
+    createdAt: z.number(),
+    closedAt: z.number().optional(),
+    fillPrice: z.number().nonnegative().optional(),
+    simulated: z.boolean().optional(),
+    reason: z.string().optional(),
+  })),
+});
+
+// Each user has their own account; signed-out visitors share a guest one
+const getStorageKey = (userId?: string) => `paper_account_${userId ?? "guest"}`;
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// The saved account if it still validates; anything else opens a new one
+const loadAccount = (storageKey: string): PaperAccount => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return createPaperAccount();
+
+    const result = PaperAccountSchema.safeParse(JSON.parse(saved));
+    if (!result.success) throw new Error(result.error.message);
+    return result.data as PaperAccount;
+  } catch (error) {
+    console.warn("Ignoring invalid saved paper trading account:", error);
+    localStorage.removeItem(storageKey);
+    return createPaperAccount();
+  }
+};
+
+export function PaperTradingProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const storageKey = getStorageKey(user?.id);
+  // Keep the key the account was loaded from, so it is never saved under another user's key
+  const [stored, setStored] = useState(() => ({ key: storageKey, account: loadAccount(storageKey) }));
+
+  useEffect(() => {
+    if (stored.key !== storageKey) {
+      setStored({ key: storageKey, account: loadAccount(storageKey) });
+    }
+  }, [storageKey, stored.key]);
+
+  useEffect(() => {
+    localStorage.setItem(stored.key, JSON.stringify(stored.account));
+  }, [stored]);
+
+  const { account } = stored;
+  const positionsBySymbol = useMemo(() => getPaperPositions(account), [account]);
+
+  // Changes whenever an order opens or closes, so new orders are worked straight away
+  const openOrders = account.orders
+    .filter(order => order.status === "open")
+    .map(order => `${order.symbol}:${order.id}`)
+    .join(",");
+
+  useEffect(() => {
+    if (!openOrders) return;
+    const symbols = [...new Set(openOrders.split(",").map(entry => entry.split(":")[0]))];
+    let cancelled = false;
+
+    // Quotes come from the configured provider. The simulator only stands in while the
+    // browser is offline; any other failure, such as a rate limit, leaves orders pending.
+    // A stale cached quote is refreshed in the background and picked up on the next check.
+    const checkOrders = async () => {
+      for (const symbol of symbols) {
+        const live = await fetchStockQuote(symbol);
+        if (cancelled) return;
+        if (!live && navigator.onLine !== false) continue;
+
+        const quote = live ?? getStockFallbackData(symbol);
+        setStored(prev => (prev.key === stored.key ? { ...prev, account: applyQuote(prev.account, quote) } : prev));
+      }
+    };
+
+    checkOrders();
+    const timer = setInterval(checkOrders, ORDER_CHECK_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [openOrders, stored.key]);
+
+  const placeOrder = (input: OrderInput) => {
+    const symbol = normalizeSymbol(input.symbol);
+    if (!symbol) return `"${input.symbol}" is not a valid ticker`;
+    const error = validateOrder(input);
+    if (error) return error;
+
+    const order: PaperOrder = {
+      symbol,
+      side: input.side,
+      type: input.type,
+      quantity: input.quantity,
+      limitPrice: input.type === "limit" ? input.limitPrice : undefined,
+      stopPrice: input.type === "stop" ? input.stopPrice : undefined,
+      id: createId(),
+      status: "open",
+      createdAt: Date.now(),
+    };
+    setStored(prev => ({ ...prev, account: { ...prev.account, orders: [...prev.account.orders, order] } }));
+    return null;
+  };
+
+  const cancelOrder = (id: string) => {
+    setStored(prev => ({
+      ...prev,
+      account: {
+        ...prev.account,
+        orders: prev.account.orders.map(order =>
+          order.id === id && order.status === "open" ? { ...order, status: "cancelled", closedAt: Date.now() } : order
+        ),
+      },
+    }));
+  };
+
+  const resetAccount = (startingCash: number) => {
+    setStored(prev => ({ ...prev, account: createPaperAccount(startingCash) }));
+  };
+
+  return (
+    <PaperTradingContext.Provider
+      value={{
+        account,
+        cash: getCashBalance(account),
+        positions: [...positionsBySymbol.values()],
+        getPosition: (symbol) => positionsBySymbol.get(symbol.toUpperCase()),
+        placeOrder,
+        cancelOrder,
+        resetAccount,
+      }}
+    >
+      {children}
+    </PaperTradingContext.Provider>
+  );
+}
+
+export function usePaperTrading() {
+  const context = useContext(PaperTradingContext);
+  if (context === undefined) {
+    throw new Error("usePaperTrading must be used within a PaperTradingProvider");
+  }
+  return context;
+}
@@ -0,0 +1,135 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { z } from "zod";
+import { useAuth } from "@/providers/AuthProvider";
+import { normalizeSymbol } from "@/utils/marketData/symbolDirectory";
+import { Position, Trade, TradeInput, buildPositions, validateTrades } from "@/utils/portfolio";
+
+interface PortfolioContextType {
+  // Trades as entered
+  trades: Trade[];
+  // Every traded symbol, including ones since sold out
+  positions: Position[];
+  // The position in a ticker, or undefined when it was never traded
+  getPosition: (symbol: string) => Position | undefined;
+  // Returns an error message when the trade is invalid, e.g. sells shares that weren't held
+  addTrade: (trade: TradeInput) => string | null;
+  // Adds every trade or none; returns an error message like addTrade
+  importTrades: (trades: TradeInput[]) => string | null;
+  // Returns an error message when later sells would no longer be covered
+  removeTrade: (id: string) => string | null;
+}
+
+const PortfolioContext = createContext<PortfolioContextType | undefined>(undefined);
+
+const TradesSchema = z.array(z.object({
+  id: z.string().min(1),
+  symbol: z.string().min(1),
+  side: z.enum(["buy", "sell"]),
+  quantity: z.number().positive(),
+  price: z.number().nonnegative(),
+  fees: z.number().nonnegative(),
+  date: z.number(),
+}));
+
+// Each user has their own portfolio; signed-out visitors share a guest one
+const getStorageKey = (userId?: string) => `portfolio_${userId ?? "guest"}`;
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Give a trade an id and its normalized ticker, or explain why it is invalid
+const createTrade = (input: TradeInput): Trade | string => {
+  const symbol = normalizeSymbol(input.symbol);
+  if (!symbol) return `"${input.symbol}" is not a valid ticker`;
+  if (!(input.quantity > 0)) return "Quantity must be greater than zero";
+  if (!(input.price >= 0) || !(input.fees >= 0)) return "Price and fees can't be negative";
+  return { ...input, symbol, id: createId() };
+};
+
+// Saved trades that still validate; anything else starts an empty portfolio
+const loadTrades = (storageKey: string): Trade[] => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return [];
+
+    const result = TradesSchema.safeParse(JSON.parse(saved));
+    if (!result.success) throw new Error(result.error.message);
+
+    const trades = result.data as Trade[];
+    const error = validateTrades(trades);
+    if (error) throw new Error(error);
+    return trades;
+  } catch (error) {
+    console.warn("Ignoring invalid saved portfolio:", error);
+    localStorage.removeItem(storageKey);
+    return [];
+  }
+};
+
+export function PortfolioProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const storageKey = getStorageKey(user?.id);
+  // Keep the key the trades were loaded from, so they are never saved under another user's key
+  const [stored, setStored] = useState(() => ({ key: storageKey, trades: loadTrades(storageKey) }));
+
+  useEffect(() => {
+    if (stored.key !== storageKey) {
+      setStored({ key: storageKey, trades: loadTrades(storageKey) });
+    }
+  }, [storageKey, stored.key]);
+
+  useEffect(() => {
+    localStorage.setItem(stored.key, JSON.stringify(stored.trades));
+  }, [stored]);
+
+  const { trades } = stored;
+  const positionsBySymbol = useMemo(() => buildPositions(trades), [trades]);
+
+  const importTrades = (inputs: TradeInput[]) => {
+    const added: Trade[] = [];
+    for (const input of inputs) {
+      const trade = createTrade(input);
+      if (typeof trade === "string") return trade;
+      added.push(trade);
+    }
+
+    const error = validateTrades([...trades, ...added]);
+    if (error) return error;
+
+    setStored(prev => ({ ...prev, trades: [...prev.trades, ...added] }));
+    return null;
+  };
+
+  const addTrade = (input: TradeInput) => importTrades([input]);
+
+  const removeTrade = (id: string) => {
+    const remaining = trades.filter(trade => trade.id !== id);
+    const error = validateTrades(remaining);
+    if (error) return error;
+
+    setStored(prev => ({ ...prev, trades: prev.trades.filter(trade => trade.id !== id) }));
+    return null;
+  };
+
+  return (
+    <PortfolioContext.Provider
+      value={{
+        trades,
+        positions: [...positionsBySymbol.values()],
+        getPosition: (symbol) => positionsBySymbol.get(symbol.toUpperCase()),
+        addTrade,
+        importTrades,
+        removeTrade,
+      }}
+    >
+      {children}
+    </PortfolioContext.Provider>
+  );
+}
+
+export function usePortfolio() {
+  const context = useContext(PortfolioContext);
+  if (context === undefined) {
+    throw new Error("usePortfolio must be used within a PortfolioProvider");
+  }
+  return context;
+}
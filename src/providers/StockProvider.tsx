@@ -1,132 +1,82 @@
 
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { useWatchlists } from "@/providers/WatchlistProvider";
+import { Instrument, Quote } from "@/utils/marketData/model";
+import { getInstrumentProfile, simulateQuote } from "@/utils/marketData/simulator";
+import { resolveInstrument } from "@/utils/marketData/symbolDirectory";
 
-export interface Stock {
+// A watched instrument with the quote shown until live data arrives
+export interface Stock extends Instrument {
   id: string;
-  ticker: string;
-  name: string;
-  price: number;
-  previousPrice: number;
-  change: number;
-  volume: string;
-  buyPrice: number;
+  quote: Quote;
   volatility: "Low" | "Medium" | "High";
-  marketCap: string;
 }
 
 export interface StockContextType {
+  // Stocks in the active watchlist, in display order
   stocks: Stock[];
-  loadingStocks: boolean;
+  // Resolves any well-formed ticker, whether or not it is watched
   getStockById: (id: string) => Stock | undefined;
   fetchStocks: () => void;
 }
 
 const StockContext = createContext<StockContextType | undefined>(undefined);
 
-const mockStocks: Stock[] = [
-  {
-    id: "aapl",
-    ticker: "AAPL",
-    name: "Apple Inc.",
-    price: 182.52,
-    previousPrice: 180.75,
-    change: 0.98,
-    volume: "58.9M",
-    buyPrice: 180.75,
-    volatility: "Low",
-    marketCap: "2.86T"
-  },
-  {
-    id: "msft",
-    ticker: "MSFT",
-    name: "Microsoft Corp.",
-    price: 328.79,
-    previousPrice: 332.42,
-    change: -1.09,
-    volume: "21.2M",
-    buyPrice: 332.42,
-    volatility: "Low",
-    marketCap: "2.44T"
-  },
-  {
-    id: "googl",
-    ticker: "GOOGL",
-    name: "Alphabet Inc.",
-    price: 132.73,
-    previousPrice: 131.86,
-    change: 0.66,
-    volume: "23.1M",
-    buyPrice: 131.86,
-    volatility: "Medium",
-    marketCap: "1.68T"
-  },
-  {
-    id: "amzn",
-    ticker: "AMZN",
-    name: "Amazon.com Inc.",
-    price: 169.51,
-    previousPrice: 167.08,
-    change: 1.45,
-    volume: "34.6M",
-    buyPrice: 167.08,
-    volatility: "Medium",
-    marketCap: "1.75T"
-  },
-  {
-    id: "meta",
-    ticker: "META",
-    name: "Meta Platforms Inc.",
-    price: 347.56,
-    previousPrice: 351.73,
-    change: -1.19,
-    volume: "15.3M",
-    buyPrice: 351.73,
-    volatility: "Medium",
-    marketCap: "891.5B"
-  },
-  {
-    id: "tsla",
-    ticker: "TSLA",
-    name: "Tesla Inc.",
-    price: 248.98,
-    previousPrice: 257.22,
-    change: -3.20,
-    volume: "51.7M",
-    buyPrice: 257.22,
-    volatility: "High",
-    marketCap: "789.2B"
-  }
-];
+// Bucket an annualized volatility into the levels shown on stock cards
+const getVolatilityBucket = (volatility: number): Stock["volatility"] => {
+  if (volatility < 0.3) return "Low";
+  if (volatility < 0.45) return "Medium";
+  return "High";
+};
+
+// Prices come from the market simulator so they match the simulated
+// quotes and charts shown elsewhere until live data loads
+const createSimulatedStock = (instrument: Instrument, snapshotAt: number): Stock => {
+  const quote = simulateQuote(instrument.symbol, snapshotAt);
+  return {
+    ...instrument,
+    id: instrument.symbol.toLowerCase(),
+    quote,
+    volatility: getVolatilityBucket(getInstrumentProfile(instrument.symbol).volatility)
+  };
+};
 
 export function StockProvider({ children }: { children: React.ReactNode }) {
-  const [stocks, setStocks] = useState<Stock[]>([]);
-  const [loadingStocks, setLoadingStocks] = useState<boolean>(true);
+  const { watchlists, activeWatchlist } = useWatchlists();
+  // Every stock is simulated at the same moment, so every page sees the same
+  // quote for a ticker; fetchStocks starts a new snapshot
+  const [snapshotAt, setSnapshotAt] = useState(() => Date.now());
 
-  const fetchStocks = async () => {
-    setLoadingStocks(true);
-    try {
-      // In a real app, this would be an actual API call
-      // For now, we'll use our mock data with a simulated delay
-      setTimeout(() => {
-        setStocks(mockStocks);
-        setLoadingStocks(false);
-      }, 800);
-    } catch (error) {
-      console.error("Error fetching stocks:", error);
-      setLoadingStocks(false);
-    }
-  };
-  
-  useEffect(() => {
-    fetchStocks();
+  // Watched stocks are built once per snapshot and shared by every caller
+  const watched = useMemo(() => {
+    const map = new Map<string, Stock>();
+    watchlists.forEach(list => list.symbols.forEach(symbol => {
+      const instrument = resolveInstrument(symbol);
+      if (instrument && !map.has(instrument.symbol)) {
+        map.set(instrument.symbol, createSimulatedStock(instrument, snapshotAt));
+      }
+    }));
+    return map;
+  }, [watchlists, snapshotAt]);
+
+  // Stock ids are lower-case tickers; unwatched ones are built on demand from the same snapshot
+  const getStockById = useCallback((id: string): Stock | undefined => {
+    const instrument = resolveInstrument(id);
+    if (!instrument) return undefined;
+    return watched.get(instrument.symbol) ?? createSimulatedStock(instrument, snapshotAt);
+  }, [watched, snapshotAt]);
+
+  const stocks = useMemo(
+    () => activeWatchlist.symbols.map(getStockById).filter(Boolean),
+    [activeWatchlist.symbols, getStockById]
+  );
+
+  const fetchStocks = useCallback(() => {
+    setSnapshotAt(Date.now());
   }, []);
-  
-  const getStockById = (id: string) => {
-    return stocks.find(stock => stock.id === id);
-  };
 
   return (
-    <StockContext.Provider value={{ stocks, loadingStocks, getStockById, fetchStocks }}>
+    <StockContext.Provider value={{ stocks, getStockById, fetchStocks }}>
       {children}
     </StockContext.Provider>
   );
@@ -0,0 +1,182 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { z } from "zod";
+import { useAuth } from "@/providers/AuthProvider";
+import { normalizeSymbol } from "@/utils/marketData/symbolDirectory";
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  // Tickers in display order
+  symbols: string[];
+}
+
+interface WatchlistState {
+  watchlists: Watchlist[];
+  activeId: string;
+}
+
+interface WatchlistContextType {
+  watchlists: Watchlist[];
+  activeWatchlist: Watchlist;
+  setActiveWatchlist: (id: string) => void;
+  createWatchlist: (name: string) => Watchlist;
+  renameWatchlist: (id: string, name: string) => void;
+  // The last remaining watchlist can't be deleted
+  deleteWatchlist: (id: string) => void;
+  // Returns false when the ticker is invalid or already in the list
+  addSymbol: (symbol: string, watchlistId?: string) => boolean;
+  removeSymbol: (symbol: string, watchlistId?: string) => void;
+  moveSymbol: (fromIndex: number, toIndex: number, watchlistId?: string) => void;
+}
+
+const WatchlistContext = createContext<WatchlistContextType | undefined>(undefined);
+
+// New users start with the stocks the dashboard used to show
+const DEFAULT_SYMBOLS = ["AAPL", "MSFT", "GOOGL", "AMZN", "META", "TSLA"];
+
+const WatchlistStateSchema = z.object({
+  watchlists: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    symbols: z.array(z.string()),
+  })).min(1),
+  activeId: z.string(),
+});
+
+// Each user has their own lists; signed-out visitors share a guest set
+const getStorageKey = (userId?: string) => `watchlists_${userId ?? "guest"}`;
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const createDefaultState = (): WatchlistState => {
+  const watchlist = { id: createId(), name: "My Watchlist", symbols: [...DEFAULT_SYMBOLS] };
+  return { watchlists: [watchlist], activeId: watchlist.id };
+};
+
+// Saved watchlists that still validate; anything else is replaced by the defaults
+const loadState = (storageKey: string): WatchlistState => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return createDefaultState();
+
+    const result = WatchlistStateSchema.safeParse(JSON.parse(saved));
+    if (!result.success) throw new Error(result.error.message);
+
+    const state = result.data as WatchlistState;
+    const activeExists = state.watchlists.some(list => list.id === state.activeId);
+    return activeExists ? state : { ...state, activeId: state.watchlists[0].id };
+  } catch (error) {
+    console.warn("Ignoring invalid saved watchlists:", error);
+    localStorage.removeItem(storageKey);
+    return createDefaultState();
+  }
+};
+
+export function WatchlistProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const storageKey = getStorageKey(user?.id);
+  // Remember which key the state was loaded from, so one user's lists are never saved under another's key
+  const [stored, setStored] = useState(() => ({ key: storageKey, state: loadState(storageKey) }));
+
+  useEffect(() => {
+    if (stored.key !== storageKey) {
+      setStored({ key: storageKey, state: loadState(storageKey) });
+    }
+  }, [storageKey, stored.key]);
+
+  useEffect(() => {
+    localStorage.setItem(stored.key, JSON.stringify(stored.state));
+  }, [stored]);
+
+  const { watchlists, activeId } = stored.state;
+  const activeWatchlist = watchlists.find(list => list.id === activeId) ?? watchlists[0];
+
+  const update = (change: (state: WatchlistState) => WatchlistState) => {
+    setStored(prev => ({ ...prev, state: change(prev.state) }));
+  };
+
+  // Apply a change to one list, defaulting to the active one
+  const updateList = (watchlistId: string | undefined, change: (list: Watchlist) => Watchlist) => {
+    update(state => {
+      const id = watchlistId ?? state.activeId;
+      return { ...state, watchlists: state.watchlists.map(list => (list.id === id ? change(list) : list)) };
+    });
+  };
+
+  const setActiveWatchlist = (id: string) => {
+    update(state => (state.watchlists.some(list => list.id === id) ? { ...state, activeId: id } : state));
+  };
+
+  const createWatchlist = (name: string) => {
+    const watchlist: Watchlist = { id: createId(), name: name.trim() || "Untitled", symbols: [] };
+    update(state => ({ watchlists: [...state.watchlists, watchlist], activeId: watchlist.id }));
+    return watchlist;
+  };
+
+  const renameWatchlist = (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updateList(id, list => ({ ...list, name: trimmed }));
+  };
+
+  const deleteWatchlist = (id: string) => {
+    update(state => {
+      if (state.watchlists.length <= 1) return state;
+      const remaining = state.watchlists.filter(list => list.id !== id);
+      return {
+        watchlists: remaining,
+        activeId: state.activeId === id ? remaining[0].id : state.activeId,
+      };
+    });
+  };
+
+  const addSymbol = (input: string, watchlistId?: string) => {
+    const symbol = normalizeSymbol(input);
+    const target = watchlists.find(list => list.id === (watchlistId ?? activeWatchlist.id));
+    if (!symbol || !target || target.symbols.includes(symbol)) return false;
+
+    updateList(target.id, list => ({ ...list, symbols: [...list.symbols, symbol] }));
+    return true;
+  };
+
+  const removeSymbol = (symbol: string, watchlistId?: string) => {
+    const upper = symbol.toUpperCase();
+    updateList(watchlistId, list => ({ ...list, symbols: list.symbols.filter(s => s !== upper) }));
+  };
+
+  const moveSymbol = (fromIndex: number, toIndex: number, watchlistId?: string) => {
+    updateList(watchlistId, list => {
+      if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= list.symbols.length) return list;
+      const symbols = [...list.symbols];
+      const [moved] = symbols.splice(fromIndex, 1);
+      symbols.splice(Math.max(0, Math.min(toIndex, symbols.length)), 0, moved);
+      return { ...list, symbols };
+    });
+  };
+
+  return (
+    <WatchlistContext.Provider
+      value={{
+        watchlists,
+        activeWatchlist,
+        setActiveWatchlist,
+        createWatchlist,
+        renameWatchlist,
+        deleteWatchlist,
+        addSymbol,
+        removeSymbol,
+        moveSymbol,
+      }}
+    >
+      {children}
+    </WatchlistContext.Provider>
+  );
+}
+
+export function useWatchlists() {
+  const context = useContext(WatchlistContext);
+  if (context === undefined) {
+    throw new Error("useWatchlists must be used within a WatchlistProvider");
+  }
+  return context;
+}
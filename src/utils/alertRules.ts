@@ -0,0 +1,214 @@
+// User-defined alerts on market data. A rule watches one value, such as a
+// ticker's price or the market's sentiment, and fires when that value
+// changes in the way the rule describes between two observations.
+import { getVolatilityLevel } from './apiService';
+import { formatPercent, formatPrice } from './formatters';
+import { Forecast, Quote } from './marketData/model';
+import { normalizeSymbol } from './marketData/symbolDirectory';
+import { MarketVolatility } from './marketData/types';
+
+export type AlertCondition =
+  | { type: "priceCross"; symbol: string; direction: "above" | "below"; level: number }
+  // Day change, in either direction, reaching a number of percentage points
+  | { type: "percentChange"; symbol: string; threshold: number }
+  | { type: "volatilityHigh"; symbol: string }
+  | { type: "predictionFlip"; symbol: string }
+  | { type: "sentimentChange" };
+
+export type AlertConditionType = AlertCondition["type"];
+
+export const ALERT_CONDITION_LABELS: Record<AlertConditionType, string> = {
+  priceCross: "Price crosses a level",
+  percentChange: "Day change exceeds a threshold",
+  volatilityHigh: "Volatility turns High",
+  predictionFlip: "Prediction changes direction",
+  sentimentChange: "Market sentiment changes",
+};
+
+export interface AlertRule {
+  id: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  // Minimum time between two triggers
+  cooldownMinutes: number;
+  // When the rule stops being evaluated, in epoch milliseconds; null never expires
+  expiresAt: number | null;
+  createdAt: number;
+  lastTriggeredAt?: number;
+  // The watched value at the last observation, compared with the next one
+  lastValue?: number | string;
+}
+
+export type AlertRuleInput = Pick<AlertRule, "condition" | "cooldownMinutes" | "expiresAt">;
+
+export interface AlertTrigger {
+  id: string;
+  ruleId: string;
+  // Ticker the rule watches, absent for market-wide rules
+  symbol?: string;
+  message: string;
+  time: number;
+}
+
+// New data that rules are evaluated against
+export type AlertObservation =
+  | { kind: "quote"; quote: Quote }
+  | { kind: "prediction"; forecast: Forecast }
+  | { kind: "marketVolatility"; summary: MarketVolatility };
+
+/**
+ * Ticker a condition watches
+ * @param condition - Alert condition
+ * @returns The symbol, or null for market-wide conditions
+ */
+export function getConditionSymbol(condition: AlertCondition): string | null {
+  return condition.type === "sentimentChange" ? null : condition.symbol;
+}
+
+/**
+ * Describe a condition for lists and notifications
+ * @param condition - Alert condition
+ */
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case "priceCross":
+      return `${condition.symbol} crosses ${condition.direction} ${formatPrice(condition.level)}`;
+    case "percentChange":
+      return `${condition.symbol} moves ${formatPercent(condition.threshold)} or more in a day`;
+    case "volatilityHigh":
+      return `${condition.symbol} volatility turns High`;
+    case "predictionFlip":
+      return `${condition.symbol} prediction changes direction`;
+    case "sentimentChange":
+      return "Market sentiment changes";
+  }
+}
+
+/**
+ * Check a condition before a rule is created, normalizing its ticker
+ * @param condition - Alert condition as entered
+ * @returns The condition to save, or an error message
+ */
+export function validateCondition(condition: AlertCondition): AlertCondition | string {
+  if (condition.type === "sentimentChange") return condition;
+
+  const symbol = normalizeSymbol(condition.symbol);
+  if (!symbol) return `"${condition.symbol}" is not a valid ticker`;
+  if (condition.type === "priceCross" && !(condition.level > 0)) return "Enter a price level above zero";
+  if (condition.type === "percentChange" && !(condition.threshold > 0)) return "Enter a threshold above zero";
+  return { ...condition, symbol };
+}
+
+/**
+ * Whether a rule is evaluated at a given time
+ * @param rule - Alert rule
+ * @param now - Time to check, in epoch milliseconds
+ */
+export function isRuleActive(rule: AlertRule, now = Date.now()): boolean {
+  return rule.enabled && (rule.expiresAt === null || rule.expiresAt > now);
+}
+
+// The value a condition watches in an observation, or null when the
+// observation is about something else
+const observe = (condition: AlertCondition, observation: AlertObservation): number | string | null => {
+  switch (condition.type) {
+    case "priceCross":
+      return observation.kind === "quote" && observation.quote.symbol.toUpperCase() === condition.symbol
+        ? observation.quote.price
+        : null;
+    case "percentChange":
+      return observation.kind === "quote" && observation.quote.symbol.toUpperCase() === condition.symbol
+        ? observation.quote.changePercent
+        : null;
+    case "volatilityHigh":
+      return observation.kind === "prediction" && observation.forecast.symbol.toUpperCase() === condition.symbol
+        ? getVolatilityLevel(observation.forecast.volatilityScore)
+        : null;
+    case "predictionFlip":
+      return observation.kind === "prediction" && observation.forecast.symbol.toUpperCase() === condition.symbol
+        ? observation.forecast.percentChange
+        : null;
+    case "sentimentChange":
+      return observation.kind === "marketVolatility" ? observation.summary.market_sentiment : null;
+  }
+};
+
+// Whether the change from the previous value to the current one fires the
+// condition. Nothing fires on a rule's first observation, since there is
+// no earlier value to have changed from.
+const fires = (condition: AlertCondition, previous: number | string | undefined, current: number | string) => {
+  if (previous === undefined) return false;
+  switch (condition.type) {
+    case "priceCross":
+      return condition.direction === "above"
+        ? (previous as number) < condition.level && (current as number) >= condition.level
+        : (previous as number) > condition.level && (current as number) <= condition.level;
+    case "percentChange":
+      return Math.abs(previous as number) < condition.threshold && Math.abs(current as number) >= condition.threshold;
+    case "volatilityHigh":
+      return previous !== "High" && current === "High";
+    case "predictionFlip":
+      return Math.sign(previous as number) * Math.sign(current as number) < 0;
+    case "sentimentChange":
+      return previous !== current;
+  }
+};
+
+// What happened, for the trigger history
+const describeTrigger = (condition: AlertCondition, previous: number | string, current: number | string): string => {
+  switch (condition.type) {
+    case "priceCross":
+      return `${condition.symbol} crossed ${condition.direction} ${formatPrice(condition.level)} at ${formatPrice(current as number)}`;
+    case "percentChange":
+      return `${condition.symbol} is ${formatPercent(current as number, true)} today`;
+    case "volatilityHigh":
+      return `${condition.symbol} volatility rose from ${previous} to High`;
+    case "predictionFlip":
+      return `${condition.symbol} prediction flipped from ${formatPercent(previous as number, true)} to ${formatPercent(current as number, true)}`;
+    case "sentimentChange":
+      return `Market sentiment changed from ${previous} to ${current}`;
+  }
+};
+
+/**
+ * Evaluate every active rule against new data. Each rule remembers the
+ * value it observed, and a rule that fires again within its cooldown is
+ * not triggered.
+ * @param rules - Alert rules
+ * @param observation - Data that just arrived
+ * @param createId - Id for each new trigger
+ * @param now - Current time, in epoch milliseconds
+ * @returns The rules, the same array when no rule observed anything, and the triggers fired
+ */
+export function evaluateRules(
+  rules: AlertRule[],
+  observation: AlertObservation,
+  createId: () => string,
+  now = Date.now()
+): { rules: AlertRule[]; triggers: AlertTrigger[] } {
+  const triggers: AlertTrigger[] = [];
+  let changed = false;
+
+  const evaluated = rules.map(rule => {
+    if (!isRuleActive(rule, now)) return rule;
+    const current = observe(rule.condition, observation);
+    if (current === null || current === rule.lastValue) return rule;
+
+    changed = true;
+    const coolingDown = rule.lastTriggeredAt !== undefined && now - rule.lastTriggeredAt < rule.cooldownMinutes * 60 * 1000;
+    if (!fires(rule.condition, rule.lastValue, current) || coolingDown) {
+      return { ...rule, lastValue: current };
+    }
+
+    triggers.push({
+      id: createId(),
+      ruleId: rule.id,
+      symbol: getConditionSymbol(rule.condition) ?? undefined,
+      message: describeTrigger(rule.condition, rule.lastValue, current),
+      time: now,
+    });
+    return { ...rule, lastValue: current, lastTriggeredAt: now };
+  });
+
+  return { rules: changed ? evaluated : rules, triggers };
+}
@@ -0,0 +1,56 @@
+// Manage the upstream API keys held by the market data proxy
+import { proxyRequest } from './marketData/proxyProvider';
+import { ApiKeyProvider, ApiKeyStatus, ProxyHealth, UpdateApiKeyRequest, proxyRoutes } from './marketData/proxyApi';
+
+export type { ApiKeyProvider, ApiKeyStatus, ProxyHealth };
+
+// Session-scoped so the admin token is forgotten when the browser closes
+const ADMIN_TOKEN_KEY = 'proxy_admin_token';
+
+export const API_KEY_LABELS: Record<ApiKeyProvider, string> = {
+  alphaVantage: 'Alpha Vantage',
+  predictionBackend: 'Prediction backend',
+};
+
+export const getAdminToken = (): string => sessionStorage.getItem(ADMIN_TOKEN_KEY) || '';
+
+export const setAdminToken = (token: string): void => {
+  if (token) {
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+};
+
+const adminHeaders = (): HeadersInit => {
+  const token = getAdminToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+};
+
+// Check that the proxy is reachable and see which keys it holds
+export const fetchProxyHealth = async (): Promise<ProxyHealth> => {
+  return (await proxyRequest(proxyRoutes.health(), 'proxy health check', { cache: 'no-store' })) as ProxyHealth;
+};
+
+export const fetchApiKeyStatuses = async (): Promise<ApiKeyStatus[]> => {
+  return (await proxyRequest(proxyRoutes.keys(), 'proxy key list', { headers: adminHeaders() })) as ApiKeyStatus[];
+};
+
+export const updateApiKey = async (provider: ApiKeyProvider, key: string): Promise<ApiKeyStatus[]> => {
+  const body: UpdateApiKeyRequest = { key };
+  return (await proxyRequest(proxyRoutes.key(provider), `proxy key update for ${provider}`, {
+    method: 'PUT',
+    headers: adminHeaders(),
+    body: JSON.stringify(body),
+  })) as ApiKeyStatus[];
+};
+
+export const removeApiKey = async (provider: ApiKeyProvider): Promise<ApiKeyStatus[]> => {
+  return (await proxyRequest(proxyRoutes.key(provider), `proxy key removal for ${provider}`, {
+    method: 'DELETE',
+    headers: adminHeaders(),
+  })) as ApiKeyStatus[];
+};
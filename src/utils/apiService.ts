@@ -1,178 +1,177 @@
 // API service for fetching stock predictions and market volatility data
-import { getFromCache, saveToCache } from './cacheUtils';
-
-export interface StockPrediction {
-  date: string;
-  model_version: string;
-  percent_change: number;
-  pred_1d: number;
-  pred_2d: number;
-  pred_3d: number;
-  pred_4d: number;
-  pred_5d: number;
-  stock_name: string;
-  volatility_score: number;
-}
+import { cachedFetch, clearCache, saveToCache } from './cacheUtils';
+import { classificationFromOverview, currencyFromOverview, marketCapFromOverview } from './marketData/adapters';
+import { DataErrorKind, ValidationError, getDataErrorKind } from './marketData/errors';
+import { CHART_PERIODS, getBarResolution, isIntradayPeriod } from './marketData/history';
+import { generateMockHistory } from './marketData/mockProvider';
+import {
+  getListingCurrency,
+  mergeSymbolMatches,
+  rememberInstrument,
+  resolveInstrument,
+  searchKnownInstruments,
+} from './marketData/symbolDirectory';
+import {
+  ArchivedForecast,
+  archiveForecast,
+  getUnsettledSymbols,
+  loadArchivedForecasts,
+  settleArchivedForecasts,
+} from './predictionArchive';
+import { recordSentimentSnapshot } from './sentimentHistory';
+import {
+  ChartPeriod,
+  CompanyOverview,
+  Forecast,
+  Instrument,
+  MarketVolatility,
+  PriceBar,
+  Quote,
+  RequestOptions,
+  SymbolMatch,
+  getProvider,
+  mockProvider,
+} from './marketData';
 
-export interface MostActiveStock {
-  percent_change: number;
-  score: number;
-  stock: string;
-}
+export type {
+  ChartPeriod,
+  CompanyOverview,
+  CurrencyCode,
+  Forecast,
+  ForecastPoint,
+  Instrument,
+  MarketVolatility,
+  MostActiveStock,
+  PriceBar,
+  Quote,
+  SymbolMatch,
+} from './marketData';
+export { DEFAULT_CURRENCY } from './marketData';
+export { CHART_PERIODS, formatBarLabel } from './marketData/history';
+export { getStockFallbackData } from './marketData/mockProvider';
+export { NetworkError, ProviderAccessError, RateLimitError, ValidationError, getDataErrorKind } from './marketData/errors';
+export type { DataErrorKind } from './marketData/errors';
+export type { RequestPriority } from './requestScheduler';
+export {
+  PROVIDER_IDS,
+  getDataSourceConfig,
+  getDefaultDataSourceConfig,
+  getProviders,
+  resetDataSourceConfig,
+  saveDataSourceConfig,
+  supports,
+  usesBrowserApiKey,
+  validateDataSourceConfig,
+} from './marketData';
+export type { DataSourceConfig, MarketDataCapability, MarketDataProviderId } from './marketData';
+export { CONNECTION_TARGETS, testConnection } from './marketData/connectionTest';
+export type { ConnectionTarget, ConnectionTestResult } from './marketData/connectionTest';
 
-export interface MarketVolatility {
-  bearish_stocks: number;
-  bullish_stocks: number;
-  market_percent_change: number;
-  market_sentiment: string;
-  market_strength: string;
-  market_volatility_score: number;
-  most_bearish: MostActiveStock;
-  most_bullish: MostActiveStock;
-  neutral_stocks: number;
-  total_stocks_analyzed: number;
+export interface DataErrorEvent {
+  kind: DataErrorKind;
+  // What was being loaded, e.g. "quote AAPL"
+  resource: string;
+  error: unknown;
+  timestamp: number;
 }
 
-// Alpha Vantage API types
-export interface AlphaVantageQuote {
-  symbol: string;
-  open: string;
-  high: string;
-  low: string;
-  price: string;
-  volume: string;
-  previousClose: string;
-  change: string;
-  changePercent: string;
-  marketCap?: string;
-}
+type DataErrorListener = (event: DataErrorEvent) => void;
 
-// Alpha Vantage API key
-const ALPHA_VANTAGE_API_KEY = 'AOLSJAPIQOALFSKT6QLOYGNLKL8468QA'; // This is a demo key with limited usage
+const dataErrorListeners = new Set<DataErrorListener>();
 
-// Mock data for when API is unavailable
-const getMockStockPrediction = (stockCode: string): StockPrediction => {
-  const seedValue = stockCode.split("").reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  const isPositive = seedValue % 2 === 0;
-  const percentChange = parseFloat((Math.random() * 5 * (isPositive ? 1 : -1)).toFixed(2));
-  const basePrice = (seedValue % 200) + 100;
-  
-  return {
-    date: new Date().toISOString().split('T')[0],
-    model_version: "v1-fallback",
-    percent_change: percentChange,
-    pred_1d: basePrice * (1 + percentChange * 0.2 / 100),
-    pred_2d: basePrice * (1 + percentChange * 0.4 / 100),
-    pred_3d: basePrice * (1 + percentChange * 0.6 / 100),
-    pred_4d: basePrice * (1 + percentChange * 0.8 / 100),
-    pred_5d: basePrice * (1 + percentChange / 100),
-    stock_name: stockCode,
-    volatility_score: isPositive ? Math.floor(Math.random() * 3) : -Math.floor(Math.random() * 3) - 1
+/**
+ * Subscribe to failures while loading market data
+ * @param listener - Called with each failure
+ * @returns Function that removes the listener
+ */
+export const onDataError = (listener: DataErrorListener): (() => void) => {
+  dataErrorListeners.add(listener);
+  return () => {
+    dataErrorListeners.delete(listener);
   };
 };
 
-const mockMarketVolatility: MarketVolatility = {
-  bearish_stocks: 3,
-  bullish_stocks: 2,
-  market_percent_change: -2.84,
-  market_sentiment: "Slightly Bearish",
-  market_strength: "Moderate",
-  market_volatility_score: -0.83,
-  most_bearish: {
-    percent_change: -8.45,
-    score: -3,
-    stock: "MSFT"
-  },
-  most_bullish: {
-    percent_change: 3.27,
-    score: 2,
-    stock: "AAPL"
-  },
-  neutral_stocks: 1,
-  total_stocks_analyzed: 6
+// Log a failure by category and notify listeners
+const reportDataError = (resource: string, error: unknown) => {
+  const kind = getDataErrorKind(error);
+
+  if (error instanceof ValidationError) {
+    console.error(`Validation failed for ${resource}:`, error.message, error.issues);
+  } else if (kind === 'rate-limit') {
+    console.warn(`Rate limited while fetching ${resource}:`, error);
+  } else if (kind === 'auth' || kind === 'unsupported') {
+    console.error(`Provider refused ${resource}:`, error);
+  } else {
+    console.error(`Network error while fetching ${resource}:`, error);
+  }
+
+  const event: DataErrorEvent = { kind, resource, error, timestamp: Date.now() };
+  dataErrorListeners.forEach(listener => listener(event));
 };
 
-// Fetch stock predictions from the API
-export const fetchStockPredictions = async (stockCode: string): Promise<StockPrediction> => {
+/**
+ * Get the cache key for a symbol's quote
+ * @param symbol - Ticker symbol
+ */
+export const getQuoteCacheKey = (symbol: string): string => `quote_${symbol.toUpperCase()}`;
+
+/**
+ * Get the cache key for a symbol's predictions
+ * @param symbol - Ticker symbol
+ */
+export const getPredictionCacheKey = (symbol: string): string => `predictions_${symbol.toUpperCase()}`;
+
+export const MARKET_VOLATILITY_CACHE_KEY = 'market_volatility';
+
+// Fetch the stock's forecast from the configured prediction provider
+export const fetchStockPredictions = async (stockCode: string, options?: RequestOptions): Promise<Forecast> => {
   try {
-    // Check cache first
-    const cacheKey = `predictions_${stockCode.toUpperCase()}`;
-    const cachedData = getFromCache(cacheKey);
-    
-    if (cachedData) {
-      console.log(`Using cached prediction data for ${stockCode}`);
-      return cachedData;
-    }
-    
-    console.log(`Cache miss for ${stockCode} predictions, fetching from API...`);
-    const response = await fetch(`https://govind2121.pythonanywhere.com/get_predictions?stock=${stockCode}`, {
-      // Add some query parameters to prevent caching
-      cache: 'no-cache',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    // Serve from cache when possible; stale entries are refreshed in the background
+    const data = await cachedFetch(getPredictionCacheKey(stockCode), async () => {
+      const provider = getProvider('predictions');
+      console.log(`Fetching ${stockCode} predictions from ${provider.name}...`);
+      const forecast = await provider.fetchPredictions(stockCode, options);
+      // Keep real forecasts for accuracy tracking; simulated ones would skew it
+      if (provider.id !== 'mock') {
+        archiveForecast(forecast).catch(error => console.warn(`Failed to archive ${stockCode} forecast:`, error));
+      }
+      return forecast;
     });
-    
-    if (!response.ok) {
-      console.warn(`API response not OK for ${stockCode}: ${response.status}`);
-      throw new Error(`Failed to fetch predictions for ${stockCode}: ${response.status}`);
-    }
-    
-    const data: StockPrediction = await response.json();
     console.log(`Predictions for ${stockCode}:`, data);
     
-    // Save to cache
-    saveToCache(cacheKey, data);
-    
     return data;
   } catch (error) {
-    console.error("Error fetching stock predictions:", error);
+    reportDataError(`predictions ${stockCode}`, error);
     // Return mock data when API is unavailable
     console.log(`Using fallback data for ${stockCode}`);
-    const mockData = getMockStockPrediction(stockCode);
-    return mockData;
+    return mockProvider.fetchPredictions(stockCode);
   }
 };
 
-// Fetch market volatility data from the API
+// Fetch market volatility data from the configured provider
 export const fetchMarketVolatility = async (): Promise<MarketVolatility> => {
   try {
-    // Check cache first
-    const cacheKey = 'market_volatility';
-    const cachedData = getFromCache(cacheKey);
-    
-    if (cachedData) {
-      console.log('Using cached market volatility data');
-      return cachedData;
-    }
-    
-    console.log('Cache miss for market volatility, fetching from API...');
-    // Since the API endpoint is provided as "/market_volatility", we'll assume it's on the same server
-    const response = await fetch('https://govind2121.pythonanywhere.com/market_volatility', {
-      // Add some query parameters to prevent caching
-      cache: 'no-cache',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    // Serve from cache when possible; stale entries are refreshed in the background
+    const data = await cachedFetch(MARKET_VOLATILITY_CACHE_KEY, async () => {
+      const provider = getProvider('marketVolatility');
+      console.log(`Fetching market volatility from ${provider.name}...`);
+      const summary = await provider.fetchMarketVolatility();
+      // Only live summaries go into the sentiment history. It is written before
+      // returning so the timeline can reload as soon as the summary arrives.
+      if (provider.id !== 'mock') {
+        await recordSentimentSnapshot(summary)
+          .catch(error => console.warn("Failed to record sentiment snapshot:", error));
+      }
+      return summary;
     });
-    
-    if (!response.ok) {
-      console.warn(`API response not OK for market volatility: ${response.status}`);
-      throw new Error(`Failed to fetch market volatility: ${response.status}`);
-    }
-    
-    const data: MarketVolatility = await response.json();
     console.log("Market volatility data:", data);
     
-    // Save to cache
-    saveToCache(cacheKey, data);
-    
     return data;
   } catch (error) {
-    console.error("Error fetching market volatility:", error);
+    reportDataError('market volatility', error);
     // Return mock data when API is unavailable
     console.log("Using fallback market volatility data");
-    return mockMarketVolatility;
+    return mockProvider.fetchMarketVolatility();
   }
 };
 
@@ -184,248 +183,195 @@ export const getVolatilityLevel = (score: number): "Low" | "Medium" | "High" =>
   return "High";
 };
 
-// Fetch real-time stock data from Alpha Vantage API
-export const fetchStockQuote = async (symbol: string): Promise<AlphaVantageQuote | null> => {
+// Company overviews only fill in the market cap and classification, so they queue behind quotes
+const fetchOverview = (symbol: string): Promise<CompanyOverview> =>
+  cachedFetch<CompanyOverview>(`overview_${symbol.toUpperCase()}`, () => {
+    console.log(`Fetching ${symbol} overview...`);
+    return getProvider('overview').fetchOverview(symbol, { priority: 'low' });
+  });
+
+
+/**
+ * Sector and industry of a ticker, read from its company overview. Falls
+ * back to the bundled symbol list when the overview can't be loaded or has
+ * no classification.
+ * @param symbol - Ticker symbol
+ */
+export const fetchClassification = async (symbol: string): Promise<Pick<Instrument, 'sector' | 'industry'>> => {
+  const known = resolveInstrument(symbol);
+  const fallback = { sector: known?.sector, industry: known?.industry };
   try {
-    // Check cache first
-    const cacheKey = `quote_${symbol.toUpperCase()}`;
-    const cachedData = getFromCache(cacheKey);
-    
-    if (cachedData) {
-      console.log(`Using cached quote data for ${symbol}`);
-      return cachedData;
-    }
-    
-    console.log(`Cache miss for ${symbol} quote, fetching from API...`);
-    // Construct Alpha Vantage API URL for global quote
-    const url = `https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${ALPHA_VANTAGE_API_KEY}`;
-    
-    console.log(`Fetching stock data for ${symbol} from Alpha Vantage...`);
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Alpha Vantage API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    // Check if we received the expected data structure
-    if (!data || !data['Global Quote']) {
-      console.warn(`Invalid data structure from Alpha Vantage for ${symbol}:`, data);
-      throw new Error('Invalid data structure from Alpha Vantage');
-    }
-    
-    const quote = data['Global Quote'];
-    
-    // Extract and format the data
-    const formattedQuote: AlphaVantageQuote = {
-      symbol: quote['01. symbol'] || symbol,
-      open: quote['02. open'] || '0',
-      high: quote['03. high'] || '0',
-      low: quote['04. low'] || '0',
-      price: quote['05. price'] || '0',
-      volume: quote['06. volume'] || '0',
-      previousClose: quote['08. previous close'] || '0',
-      change: quote['09. change'] || '0',
-      changePercent: quote['10. change percent'] || '0%',
-    };
-    
-    // Get the market cap using a second API call
-    try {
-      // Check cache for company overview data
-      const overviewCacheKey = `overview_${symbol.toUpperCase()}`;
-      const cachedOverview = getFromCache(overviewCacheKey);
-      
-      let marketCap = null;
+    const classification = classificationFromOverview(await fetchOverview(symbol));
+    return classification.sector ? classification : fallback;
+  } catch (error) {
+    console.warn(`Failed to fetch classification for ${symbol}:`, error);
+    return fallback;
+  }
+};
+
+// Fetch real-time stock data from the configured quote provider
+export const fetchStockQuote = async (symbol: string, options?: RequestOptions): Promise<Quote | null> => {
+  try {
+    // Serve from cache when possible; stale entries are refreshed in the background
+    const quote = await cachedFetch(getQuoteCacheKey(symbol), async () => {
+      console.log(`Fetching ${symbol} quote...`);
+      const formattedQuote = await getProvider('quote').fetchQuote(symbol, options);
+      let listingCurrency = getListingCurrency(symbol);
       
-      if (cachedOverview) {
-        console.log(`Using cached overview data for ${symbol}`);
-        marketCap = cachedOverview.MarketCapitalization;
-      } else {
-        console.log(`Cache miss for ${symbol} overview, fetching from API...`);
-        const overviewUrl = `https://www.alphavantage.co/query?function=OVERVIEW&symbol=${symbol}&apikey=${ALPHA_VANTAGE_API_KEY}`;
-        const overviewResponse = await fetch(overviewUrl);
-        
-        if (overviewResponse.ok) {
-          const overviewData = await overviewResponse.json();
-          if (overviewData && overviewData.MarketCapitalization) {
-            marketCap = overviewData.MarketCapitalization;
-            // Save overview data to cache
-            saveToCache(overviewCacheKey, overviewData);
+      // Get the market cap using a second request if the quote lacks it. Quotes without one
+      // come from Alpha Vantage, which doesn't say their currency either; the overview does.
+      if (!formattedQuote.marketCap) {
+        try {
+          const overview = await fetchOverview(symbol);
+          const marketCap = marketCapFromOverview(overview);
+          if (marketCap) {
+            formattedQuote.marketCap = marketCap;
           }
+          listingCurrency = currencyFromOverview(overview) ?? listingCurrency;
+        } catch (error) {
+          console.warn(`Failed to fetch market cap for ${symbol}:`, error);
         }
       }
       
-      if (marketCap) {
-        formattedQuote.marketCap = formatMarketCap(parseInt(marketCap));
+      if (listingCurrency) {
+        formattedQuote.currency = listingCurrency;
       }
-    } catch (error) {
-      console.warn(`Failed to fetch market cap for ${symbol}:`, error);
-    }
-    
-    console.log(`Alpha Vantage data for ${symbol}:`, formattedQuote);
-    
-    // Save to cache
-    saveToCache(cacheKey, formattedQuote);
+      return formattedQuote;
+    });
     
-    return formattedQuote;
+    console.log(`Quote data for ${symbol}:`, quote);
+    return quote;
   } catch (error) {
-    console.error(`Error fetching stock quote for ${symbol}:`, error);
+    reportDataError(`quote ${symbol}`, error);
     return null;
   }
 };
 
-// Format large numbers into human-readable format (e.g., 1.2T, 456.7B, 789.1M)
-export const formatMarketCap = (value: number): string => {
-  if (value >= 1e12) {
-    return `${(value / 1e12).toFixed(2)}T`;
-  } else if (value >= 1e9) {
-    return `${(value / 1e9).toFixed(1)}B`;
-  } else if (value >= 1e6) {
-    return `${(value / 1e6).toFixed(1)}M`;
-  } else {
-    return value.toString();
-  }
-};
+export interface PriceHistory {
+  bars: PriceBar[];
+  // True when real history was unavailable and the bars were generated
+  simulated: boolean;
+}
 
-// Format volume to human-readable format
-export const formatVolume = (volume: string | number): string => {
-  const numVolume = typeof volume === 'string' ? parseInt(volume) : volume;
+// Intraday history goes stale quickly; daily and weekly series don't
+const INTRADAY_HISTORY_TTL = 15 * 60 * 1000;
+const DAILY_HISTORY_TTL = 6 * 60 * 60 * 1000;
+
+// Simulated fallbacks are cached briefly so failing symbols aren't retried on every render
+const SIMULATED_HISTORY_TTL = 15 * 60 * 1000;
+
+/**
+ * Get the cache key for a symbol's price history
+ * @param symbol - Ticker symbol
+ * @param period - Chart period
+ */
+export const getHistoryCacheKey = (symbol: string, period: ChartPeriod): string =>
+  `history_${symbol.toUpperCase()}_${period}`;
+
+// Fetch OHLCV price history from the configured provider, falling back to simulated bars
+export const fetchPriceHistory = async (
+  symbol: string,
+  period: ChartPeriod,
+  options?: RequestOptions
+): Promise<PriceHistory> => {
+  const cacheKey = getHistoryCacheKey(symbol, period);
+  const ttl = isIntradayPeriod(period) ? INTRADAY_HISTORY_TTL : DAILY_HISTORY_TTL;
   
-  if (numVolume >= 1e9) {
-    return `${(numVolume / 1e9).toFixed(1)}B`;
-  } else if (numVolume >= 1e6) {
-    return `${(numVolume / 1e6).toFixed(1)}M`;
-  } else if (numVolume >= 1e3) {
-    return `${(numVolume / 1e3).toFixed(1)}K`;
-  } else {
-    return numVolume.toString();
+  try {
+    const history = await cachedFetch<PriceHistory>(cacheKey, async () => {
+      const provider = getProvider('history');
+      console.log(`Fetching ${period} history for ${symbol} from ${provider.name}...`);
+      const bars = await provider.fetchHistory(symbol, period, options);
+      if (bars.length === 0) {
+        throw new Error(`${provider.name} returned no ${period} history for ${symbol}`);
+      }
+      if (provider.id !== 'mock') {
+        settleArchivedForecasts(symbol, bars, getBarResolution(period))
+          .catch(error => console.warn(`Failed to settle archived ${symbol} forecasts:`, error));
+      }
+      return { bars, simulated: provider.id === 'mock' };
+    }, ttl);
+    
+    return history;
+  } catch (error) {
+    reportDataError(`${period} history ${symbol}`, error);
+    
+    console.log(`Using simulated ${period} history for ${symbol}`);
+    const fallback: PriceHistory = { bars: generateMockHistory(symbol, period), simulated: true };
+    saveToCache(cacheKey, fallback, SIMULATED_HISTORY_TTL);
+    return fallback;
   }
 };
 
-// Generate fallback data for when API is unavailable
-export const getStockFallbackData = (stockCode: string): AlphaVantageQuote => {
-  // For specific stocks, use more accurate estimates
-  if (stockCode.toUpperCase() === 'META') {
-    return {
-      symbol: 'META',
-      open: '595.25',
-      high: '596.03',
-      low: '586.58',
-      price: '587.31',
-      volume: '10600650',
-      previousClose: '599.27',
-      change: '-11.96',
-      changePercent: '-1.99%',
-      marketCap: '1.51T'
-    };
-  } else if (stockCode.toUpperCase() === 'AAPL') {
-    return {
-      symbol: 'AAPL',
-      open: '195.89',
-      high: '199.62',
-      low: '195.76',
-      price: '198.52',
-      volume: '48257300',
-      previousClose: '197.57',
-      change: '0.95',
-      changePercent: '0.48%',
-      marketCap: '3.08T'
-    };
-  } else if (stockCode.toUpperCase() === 'MSFT') {
-    return {
-      symbol: 'MSFT',
-      open: '415.25',
-      high: '420.82',
-      low: '413.85',
-      price: '417.52',
-      volume: '19879800',
-      previousClose: '415.42',
-      change: '2.10',
-      changePercent: '0.51%',
-      marketCap: '3.24T'
-    };
-  } else if (stockCode.toUpperCase() === 'GOOGL') {
-    return {
-      symbol: 'GOOGL',
-      open: '162.21',
-      high: '164.68',
-      low: '161.95',
-      price: '164.32',
-      volume: '22702400',
-      previousClose: '163.02',
-      change: '1.30',
-      changePercent: '0.80%',
-      marketCap: '2.04T'
-    };
-  } else if (stockCode.toUpperCase() === 'AMZN') {
-    return {
-      symbol: 'AMZN',
-      open: '178.35',
-      high: '182.63',
-      low: '177.86',
-      price: '181.22',
-      volume: '36421500',
-      previousClose: '179.62',
-      change: '1.60',
-      changePercent: '0.89%',
-      marketCap: '1.87T'
-    };
-  } else if (stockCode.toUpperCase() === 'TSLA') {
-    return {
-      symbol: 'TSLA',
-      open: '273.10',
-      high: '277.73',
-      low: '271.35',
-      price: '275.35',
-      volume: '76715792',
-      previousClose: '280.26',
-      change: '-4.91',
-      changePercent: '-1.75%',
-      marketCap: '876.5B'
-    };
-  }
+// Periods served as daily bars, shortest first, with the days of history each one is sure to cover.
+// Longer periods come as weekly bars, which can't settle a daily target.
+const SETTLEMENT_PERIODS: Array<[ChartPeriod, number]> = [['1mo', 28], ['3mo', 88]];
 
-  const seedValue = stockCode.split("").reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  const isPositive = seedValue % 2 === 0;
-  
-  // Base price depends on the ticker (just for simulation)
-  const basePrice = (seedValue % 500) + 50;
-  
-  // Add some randomness to the price
-  const price = parseFloat((basePrice + (Math.sin(seedValue / 10) * 5)).toFixed(2));
-  
-  // Calculate previous close
-  const prevClose = price - (isPositive ? -2 : 2) - (Math.random() * 5);
-  
-  // Calculate change
-  const change = price - prevClose;
-  const changePercent = ((change / prevClose) * 100).toFixed(2) + '%';
-  
-  // Generate volume
-  const volumeBase = seedValue % 100;
-  let volume: string;
-  if (volumeBase < 30) {
-    volume = `${(volumeBase + 5) * 100000}`;
-  } else if (volumeBase < 70) {
-    volume = `${(volumeBase + 10) * 1000000}`;
-  } else {
-    volume = `${(volumeBase / 10 + 5) * 10000000}`;
+/**
+ * Load daily history for every archived forecast still waiting on closes,
+ * settle them, and return the whole archive. Each symbol is loaded over the
+ * shortest period reaching back to its oldest unsettled forecast; forecasts
+ * older than the longest daily period only settle the closes it still covers.
+ * @returns Archived forecasts, newest first
+ */
+export const loadPredictionArchive = async (): Promise<ArchivedForecast[]> => {
+  const unsettled = getUnsettledSymbols(await loadArchivedForecasts());
+
+  await Promise.all([...unsettled].map(async ([symbol, oldestIssuedAt]) => {
+    const days = (Date.now() - oldestIssuedAt) / (24 * 60 * 60 * 1000);
+    const [period] = SETTLEMENT_PERIODS.find(([, covered]) => covered > days) ?? SETTLEMENT_PERIODS[SETTLEMENT_PERIODS.length - 1];
+    const history = await fetchPriceHistory(symbol, period, { priority: 'low' });
+    // Fresh fetches settle as they arrive; cached history has to be applied here
+    if (!history.simulated) {
+      await settleArchivedForecasts(symbol, history.bars, getBarResolution(period));
+    }
+  }));
+
+  return loadArchivedForecasts();
+};
+
+/**
+ * Drop every cached response for a ticker so the next fetch goes to the provider.
+ * Company overviews are kept; they change rarely and cost a request each.
+ * @param symbol - Ticker symbol
+ */
+export const clearTickerCache = (symbol: string): void => {
+  clearCache(getQuoteCacheKey(symbol));
+  clearCache(getPredictionCacheKey(symbol));
+  CHART_PERIODS.forEach(period => clearCache(getHistoryCacheKey(symbol, period)));
+};
+
+/**
+ * Get the cache key for a symbol search
+ * @param query - Search text
+ */
+export const getSearchCacheKey = (query: string): string => `search_${query.trim().toLowerCase()}`;
+
+/**
+ * Find instruments by ticker or company name. The bundled symbol list is
+ * always searched, so results still come back when the search provider fails.
+ * @param query - Search text
+ * @param limit - Maximum number of results
+ * @returns Matches from the provider and the bundled list, best first
+ */
+export const searchSymbols = async (query: string, limit = 10): Promise<SymbolMatch[]> => {
+  const text = query.trim().toLowerCase();
+  if (!text) return [];
+
+  const offline = searchKnownInstruments(text, limit);
+  const provider = getProvider('search');
+  if (provider.id === 'mock') return offline;
+
+  try {
+    const remote = await cachedFetch(getSearchCacheKey(text), () => {
+      console.log(`Searching ${provider.name} for "${text}"...`);
+      return provider.searchSymbols(text, { priority: 'high' });
+    });
+    // Let ticker lookups elsewhere show the names found here
+    remote.forEach(rememberInstrument);
+    return mergeSymbolMatches([offline, remote], limit);
+  } catch (error) {
+    reportDataError(`symbol search "${text}"`, error);
+    return offline;
   }
-  
-  // Generate market cap
-  const marketCap = price * parseInt(volume) * 10;
-  
-  return {
-    symbol: stockCode,
-    open: prevClose.toFixed(2),
-    high: (price * 1.01).toFixed(2),
-    low: (price * 0.98).toFixed(2),
-    price: price.toString(),
-    volume: volume,
-    previousClose: prevClose.toFixed(2),
-    change: change.toFixed(2),
-    changePercent: changePercent,
-    marketCap: formatMarketCap(marketCap)
-  };
 };
@@ -0,0 +1,89 @@
+// Announcements from admins to every user. Accounts are local to the
+// browser, so broadcasts are kept in shared localStorage and reach other
+// tabs through its storage event.
+import { z } from 'zod';
+import { NotificationPriority } from './notifications';
+
+export type BroadcastKind = "announcement" | "maintenance";
+
+export interface Broadcast {
+  id: string;
+  kind: BroadcastKind;
+  priority: NotificationPriority;
+  title: string;
+  message: string;
+  sentAt: number;
+}
+
+export type BroadcastInput = Omit<Broadcast, "id" | "sentAt">;
+
+const STORAGE_KEY = 'broadcasts';
+
+// Only the latest broadcasts are kept for users who haven't seen them yet
+const BROADCAST_LIMIT = 20;
+
+const BroadcastsSchema = z.array(z.object({
+  id: z.string().min(1),
+  kind: z.enum(["announcement", "maintenance"]),
+  priority: z.enum(["normal", "high"]),
+  title: z.string().min(1),
+  message: z.string(),
+  sentAt: z.number(),
+}));
+
+type BroadcastListener = (broadcasts: Broadcast[]) => void;
+
+const listeners = new Set<BroadcastListener>();
+
+/**
+ * Every stored broadcast, oldest first
+ */
+export const loadBroadcasts = (): Broadcast[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+
+    const result = BroadcastsSchema.safeParse(JSON.parse(saved));
+    if (!result.success) throw new Error(result.error.message);
+    return result.data as Broadcast[];
+  } catch (error) {
+    console.warn("Ignoring invalid saved broadcasts:", error);
+    localStorage.removeItem(STORAGE_KEY);
+    return [];
+  }
+};
+
+/**
+ * Send a broadcast to every user
+ * @param input - What to announce
+ * @returns The stored broadcast
+ */
+export const postBroadcast = (input: BroadcastInput): Broadcast => {
+  const broadcast: Broadcast = {
+    ...input,
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    sentAt: Date.now(),
+  };
+  const broadcasts = [...loadBroadcasts(), broadcast].slice(-BROADCAST_LIMIT);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(broadcasts));
+  // The storage event only fires in other tabs
+  listeners.forEach(listener => listener(broadcasts));
+  return broadcast;
+};
+
+/**
+ * Subscribe to broadcasts sent from this tab or another
+ * @param listener - Called with every stored broadcast after each change
+ * @returns Function that removes the listener
+ */
+export const onBroadcast = (listener: BroadcastListener): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener(loadBroadcasts());
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
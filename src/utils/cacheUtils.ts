@@ -1,16 +1,50 @@
+// Persistent cache for API responses
+// Entries live in memory for synchronous reads and are written through to
+// IndexedDB so they survive reloads and are shared between tabs.
+import { createKeyValueStore, isIndexedDbAvailable } from './indexedDbStore';
 
-// Simple cache implementation for API responses
-
-interface CacheItem {
-  data: any;
+interface CacheItem<T = unknown> {
+  data: T;
   timestamp: number;
+  ttl: number;
+  version?: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  revalidations: number;
+  entries: number;
+  hitRate: number;
 }
 
+// Messages exchanged between tabs to keep their memory caches in sync
+type CacheMessage =
+  | { type: 'set'; key: string; item: CacheItem }
+  | { type: 'delete'; key: string }
+  | { type: 'clear' };
+
 // Cache storage
 const cache: Record<string, CacheItem> = {};
 
-// Cache duration in milliseconds (30 minutes)
-const CACHE_DURATION = 30 * 60 * 1000;
+// Bump when the shape of cached data changes; older persisted entries are dropped
+const CACHE_VERSION = 4;
+
+// Default cache duration in milliseconds (30 minutes)
+const DEFAULT_TTL = 30 * 60 * 1000;
+
+// Cache durations by key prefix; the first matching prefix wins
+const TTL_BY_PREFIX: Array<[string, number]> = [
+  ['quote_', 15 * 60 * 1000],
+  ['overview_', 24 * 60 * 60 * 1000],
+  ['predictions_', 30 * 60 * 1000],
+  ['market_volatility', 30 * 60 * 1000],
+  ['search_', 24 * 60 * 60 * 1000],
+];
+
+// Stale entries older than this are dropped instead of being served (7 days)
+const MAX_STALE_AGE = 7 * 24 * 60 * 60 * 1000;
 
 // Refresh cooldown in milliseconds (10 minutes)
 export const REFRESH_COOLDOWN = 10 * 60 * 1000;
@@ -18,38 +52,174 @@ export const REFRESH_COOLDOWN = 10 * 60 * 1000;
 // Last refresh timestamps for each cache key
 const lastRefreshes: Record<string, number> = {};
 
+// Background revalidations currently running, by key
+const revalidating: Record<string, Promise<unknown>> = {};
+
+const stats = { hits: 0, staleHits: 0, misses: 0, revalidations: 0 };
+
+const store = isIndexedDbAvailable() ? createKeyValueStore<CacheItem>('cache') : null;
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('stock-vision-cache') : null;
+
+// Write-through helpers; persistence failures only cost us the reload cache
+const persist = (key: string, item: CacheItem) => {
+  store?.set(key, item).catch(error => console.warn(`Failed to persist cache entry ${key}:`, error));
+};
+
+const unpersist = (key?: string) => {
+  const pending = key ? store?.delete(key) : store?.clear();
+  pending?.catch(error => console.warn('Failed to remove persisted cache entries:', error));
+};
+
+const broadcast = (message: CacheMessage) => {
+  channel?.postMessage(message);
+};
+
+channel?.addEventListener('message', (event: MessageEvent<CacheMessage>) => {
+  const message = event.data;
+  if (message.type === 'set') {
+    cache[message.key] = message.item;
+  } else if (message.type === 'delete') {
+    delete cache[message.key];
+  } else {
+    Object.keys(cache).forEach(k => delete cache[k]);
+  }
+});
+
+// Load persisted entries into memory, skipping ones too old to serve
+const hydrate = async (): Promise<void> => {
+  if (!store) return;
+
+  try {
+    const now = Date.now();
+    const entries = await store.entries();
+    entries.forEach(([key, item]) => {
+      if (item.version !== CACHE_VERSION || now - item.timestamp > item.ttl + MAX_STALE_AGE) {
+        unpersist(key);
+      } else if (!cache[key] || cache[key].timestamp < item.timestamp) {
+        cache[key] = item;
+      }
+    });
+  } catch (error) {
+    console.warn('Failed to load persisted cache, continuing with memory only:', error);
+  }
+};
+
+/**
+ * Resolves once persisted entries have been loaded into memory
+ */
+export const cacheReady: Promise<void> = hydrate();
+
+/**
+ * Get the time-to-live for a cache key
+ * @param key - Cache key
+ * @returns TTL in milliseconds
+ */
+export function getTtlForKey(key: string): number {
+  const match = TTL_BY_PREFIX.find(([prefix]) => key.startsWith(prefix));
+  return match ? match[1] : DEFAULT_TTL;
+}
+
+const isFresh = (item: CacheItem) => Date.now() - item.timestamp <= item.ttl;
+
 /**
  * Get item from cache
  * @param key - Unique cache key
  * @returns Cached data or null if expired/not found
  */
-export function getFromCache(key: string): any | null {
+export function getFromCache<T = unknown>(key: string): T | null {
   const item = cache[key];
-  
-  // Return null if item doesn't exist
-  if (!item) return null;
-  
-  // Check if item is expired
-  const now = Date.now();
-  if (now - item.timestamp > CACHE_DURATION) {
-    // Remove expired item
-    delete cache[key];
+
+  if (!item || !isFresh(item)) {
+    stats.misses++;
     return null;
   }
-  
-  return item.data;
+
+  stats.hits++;
+  return item.data as T;
+}
+
+/**
+ * Get item from cache even if it has expired
+ * @param key - Unique cache key
+ * @returns Cached data or null if not found
+ */
+export function getStaleFromCache<T = unknown>(key: string): T | null {
+  const item = cache[key];
+  return item ? (item.data as T) : null;
 }
 
 /**
  * Save item to cache
  * @param key - Unique cache key
  * @param data - Data to cache
+ * @param ttl - Optional time-to-live in milliseconds; defaults to the key's policy
  */
-export function saveToCache(key: string, data: any): void {
-  cache[key] = {
+export function saveToCache<T>(key: string, data: T, ttl: number = getTtlForKey(key)): void {
+  const item: CacheItem = {
     data,
-    timestamp: Date.now()
+    timestamp: Date.now(),
+    ttl,
+    version: CACHE_VERSION,
   };
+  cache[key] = item;
+  persist(key, item);
+  broadcast({ type: 'set', key, item });
+}
+
+// Run a fetcher and store its result, sharing one request per key
+const revalidate = <T>(key: string, fetcher: () => Promise<T>, ttl?: number): Promise<T> => {
+  if (!revalidating[key]) {
+    stats.revalidations++;
+    revalidating[key] = fetcher()
+      .then(data => {
+        saveToCache(key, data, ttl);
+        return data;
+      })
+      .finally(() => {
+        delete revalidating[key];
+      });
+  }
+  return revalidating[key] as Promise<T>;
+};
+
+/**
+ * Read through the cache with stale-while-revalidate semantics. Fresh data
+ * is returned directly; stale data is returned immediately while a
+ * background request refreshes it; otherwise the fetcher is awaited.
+ * @param key - Unique cache key
+ * @param fetcher - Loads the data when the cache cannot serve it
+ * @param ttl - Optional time-to-live in milliseconds
+ * @returns Cached or freshly fetched data
+ */
+export async function cachedFetch<T>(key: string, fetcher: () => Promise<T>, ttl?: number): Promise<T> {
+  await cacheReady;
+
+  const item = cache[key];
+  if (item && isFresh(item)) {
+    stats.hits++;
+    return item.data as T;
+  }
+
+  if (item) {
+    stats.staleHits++;
+    revalidate(key, fetcher, ttl).catch(error => {
+      console.warn(`Background revalidation failed for ${key}:`, error);
+    });
+    return item.data as T;
+  }
+
+  stats.misses++;
+  return revalidate(key, fetcher, ttl);
+}
+
+/**
+ * The background request refreshing a key's stale entry, if one is running
+ * @param key - Cache key
+ * @returns Resolves once the fresh data is cached
+ */
+export function getRevalidation(key: string): Promise<unknown> | undefined {
+  return revalidating[key];
 }
 
 /**
@@ -59,10 +229,13 @@ export function saveToCache(key: string, data: any): void {
 export function clearCache(key?: string): void {
   if (key) {
     delete cache[key];
+    broadcast({ type: 'delete', key });
   } else {
     // Clear all cache
     Object.keys(cache).forEach(k => delete cache[k]);
+    broadcast({ type: 'clear' });
   }
+  unpersist(key);
 }
 
 /**
@@ -73,10 +246,23 @@ export function clearCache(key?: string): void {
 export function getCacheAge(key: string): number | null {
   const item = cache[key];
   if (!item) return null;
-  
+
   return Date.now() - item.timestamp;
 }
 
+/**
+ * Get hit/miss statistics for this tab
+ * @returns Counters and the fraction of reads served from cache
+ */
+export function getCacheStats(): CacheStats {
+  const reads = stats.hits + stats.staleHits + stats.misses;
+  return {
+    ...stats,
+    entries: Object.keys(cache).length,
+    hitRate: reads > 0 ? (stats.hits + stats.staleHits) / reads : 0,
+  };
+}
+
 /**
  * Check if refresh is allowed for this key
  * @param key - Cache key
@@ -115,6 +301,6 @@ export function formatCooldown(ms: number): string {
   const totalSeconds = Math.ceil(ms / 1000);
   const minutes = Math.floor(totalSeconds / 60);
   const seconds = totalSeconds % 60;
-  
+
   return `${minutes}m ${seconds}s`;
 }
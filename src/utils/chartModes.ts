@@ -0,0 +1,23 @@
+// Ways a price chart can draw its series
+
+export type ChartMode = "line" | "area" | "baseline" | "candlestick" | "ohlc" | "heikinAshi";
+
+export const CHART_MODES: Array<{ id: ChartMode; label: string }> = [
+  { id: "line", label: "Line" },
+  { id: "area", label: "Area" },
+  { id: "baseline", label: "Baseline" },
+  { id: "candlestick", label: "Candlestick" },
+  { id: "ohlc", label: "OHLC bars" },
+  { id: "heikinAshi", label: "Heikin-Ashi" },
+];
+
+export const CHART_MODE_IDS = CHART_MODES.map(mode => mode.id);
+
+/**
+ * Whether a mode draws each bar's open, high, low and close rather than a
+ * single line through the closes
+ * @param mode - Chart mode
+ */
+export function isBarMode(mode: ChartMode): boolean {
+  return mode === "candlestick" || mode === "ohlc" || mode === "heikinAshi";
+}
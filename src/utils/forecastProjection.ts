@@ -0,0 +1,117 @@
+// Places a model forecast on the price chart's timeline, with an uncertainty
+// band around each predicted price
+import { Forecast, PriceBar } from "./marketData/model";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// Length of a regular US trading session
+const SESSION_LENGTH = 6.5 * HOUR;
+
+// Two-sided z-score for an 80% band
+const BAND_Z_SCORE = 1.2816;
+
+// Fewest returns worth measuring volatility from
+const MIN_RETURNS = 10;
+
+export interface ProjectedForecastPoint {
+  horizonDays: number;
+  // Start of the trading day the price is predicted for, in epoch milliseconds (UTC)
+  time: number;
+  price: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastProjection {
+  modelVersion: string;
+  issuedAt: number;
+  // Where the band's width came from
+  volatilitySource: "realized" | "model";
+  points: ProjectedForecastPoint[];
+}
+
+/**
+ * Move forward a number of trading days, skipping weekends
+ * @param time - Epoch milliseconds
+ * @param days - Trading days to add
+ */
+export function addTradingDays(time: number, days: number): number {
+  let result = time;
+  let remaining = days;
+  while (remaining > 0) {
+    result += DAY;
+    const weekday = new Date(result).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) remaining--;
+  }
+  return result;
+}
+
+/**
+ * Standard deviation of daily log returns, measured from bars of any
+ * spacing and scaled to one trading day
+ * @param bars - Bars in ascending time order
+ * @returns Daily volatility as a fraction, or null with too few bars
+ */
+export function realizedDailyVolatility(bars: PriceBar[]): number | null {
+  const returns: number[] = [];
+  const gaps: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    if (bars[i - 1].close > 0 && bars[i].close > 0) {
+      returns.push(Math.log(bars[i].close / bars[i - 1].close));
+      gaps.push(bars[i].time - bars[i - 1].time);
+    }
+  }
+  if (returns.length < MIN_RETURNS) return null;
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+
+  // The median gap ignores overnight and weekend jumps between bars
+  const sortedGaps = [...gaps].sort((a, b) => a - b);
+  const gap = sortedGaps[Math.floor(sortedGaps.length / 2)];
+  const tradingDaysPerBar = gap < DAY ? gap / SESSION_LENGTH : (gap / DAY) * (5 / 7);
+
+  return Math.sqrt(variance / tradingDaysPerBar);
+}
+
+/**
+ * Daily volatility implied by a forecast, treating the size of its
+ * volatility score as the percent move expected by its longest horizon
+ * @param forecast - Model forecast
+ * @returns Daily volatility as a fraction
+ */
+export function impliedDailyVolatility(forecast: Forecast): number {
+  const longestHorizon = forecast.points.length > 0
+    ? forecast.points[forecast.points.length - 1].horizonDays
+    : 1;
+  return Math.max(1, Math.abs(forecast.volatilityScore)) / 100 / Math.sqrt(longestHorizon);
+}
+
+/**
+ * Project a forecast's points onto trading days after it was issued, each
+ * with an 80% band that widens with the square root of its horizon. The
+ * band uses the realized volatility of the bars when there are enough of
+ * them, and the forecast's implied volatility otherwise.
+ * @param forecast - Model forecast
+ * @param bars - Recent bars for the instrument
+ */
+export function projectForecast(forecast: Forecast, bars: PriceBar[]): ForecastProjection {
+  const realized = realizedDailyVolatility(bars);
+  const dailyVolatility = realized ?? impliedDailyVolatility(forecast);
+
+  return {
+    modelVersion: forecast.modelVersion,
+    issuedAt: forecast.issuedAt,
+    volatilitySource: realized !== null ? "realized" : "model",
+    points: forecast.points.map(point => {
+      const spread = BAND_Z_SCORE * dailyVolatility * Math.sqrt(point.horizonDays);
+      return {
+        horizonDays: point.horizonDays,
+        time: addTradingDays(forecast.issuedAt, point.horizonDays),
+        price: point.price,
+        lower: point.price * Math.exp(-spread),
+        upper: point.price * Math.exp(spread),
+      };
+    }),
+  };
+}
@@ -0,0 +1,61 @@
+// Display formatting for domain values; the data layer keeps raw numbers
+
+// Format large numbers into human-readable format (e.g., 1.2T, 456.7B, 789.1M)
+export const formatMarketCap = (value: number): string => {
+  if (value >= 1e12) {
+    return `${(value / 1e12).toFixed(2)}T`;
+  } else if (value >= 1e9) {
+    return `${(value / 1e9).toFixed(1)}B`;
+  } else if (value >= 1e6) {
+    return `${(value / 1e6).toFixed(1)}M`;
+  } else {
+    return value.toString();
+  }
+};
+
+// Format volume to human-readable format
+export const formatVolume = (volume: number): string => {
+  if (volume >= 1e9) {
+    return `${(volume / 1e9).toFixed(1)}B`;
+  } else if (volume >= 1e6) {
+    return `${(volume / 1e6).toFixed(1)}M`;
+  } else if (volume >= 1e3) {
+    return `${(volume / 1e3).toFixed(1)}K`;
+  } else {
+    return volume.toString();
+  }
+};
+
+// Currency formatters are costly to create, so keep one per currency
+const priceFormats = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Format a price in its currency, e.g. $198.52
+ * @param value - Price
+ * @param currency - ISO 4217 code
+ * @returns Price with currency symbol and two decimals
+ */
+export const formatPrice = (value: number, currency = "USD"): string => {
+  let format = priceFormats.get(currency);
+  if (!format) {
+    format = new Intl.NumberFormat("en-US", { style: "currency", currency });
+    priceFormats.set(currency, format);
+  }
+  return format.format(value);
+};
+
+/**
+ * Format a gain or loss with its sign, e.g. -12.5 as -$12.50
+ * @param value - Amount in the currency
+ * @param currency - ISO 4217 code
+ */
+export const formatPriceChange = (value: number, currency = "USD"): string =>
+  `${value >= 0 ? "+" : "-"}${formatPrice(Math.abs(value), currency)}`;
+
+/**
+ * Format percentage points, e.g. 0.48 as +0.48%
+ * @param value - Percentage points
+ * @param signed - Whether to prefix positive values with "+"
+ */
+export const formatPercent = (value: number, signed = false): string =>
+  `${signed && value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
@@ -0,0 +1,137 @@
+// Minimal promise-based key-value wrapper around IndexedDB
+
+const DB_NAME = 'stock-vision';
+const DB_VERSION = 3;
+
+// Object stores created in the database; add new stores here and bump DB_VERSION
+const STORE_NAMES = ['cache', 'predictions', 'sentiment'] as const;
+
+export type StoreName = typeof STORE_NAMES[number];
+
+export interface KeyValueStore<T> {
+  get: (key: string) => Promise<T | undefined>;
+  set: (key: string, value: T) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+  entries: () => Promise<Array<[string, T]>>;
+}
+
+// How long to wait for the database to open before giving up on it
+const OPEN_TIMEOUT = 5000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB can be used in this environment
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// Open the database once and share the connection
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let settled = false;
+
+      const fail = (error: unknown) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        reject(error);
+      };
+
+      // A tab still holding an older version can stall the open indefinitely
+      const timeout = setTimeout(() => fail(new Error('Timed out opening IndexedDB')), OPEN_TIMEOUT);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORE_NAMES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when another tab upgrades the database; the next call reopens it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        if (settled) {
+          db.close();
+          return;
+        }
+        settled = true;
+        clearTimeout(timeout);
+        resolve(db);
+      };
+      request.onerror = () => fail(request.error);
+      // Other tabs close their connection on versionchange and the upgrade then goes
+      // ahead, so keep waiting for success; the timeout covers tabs that never do
+      request.onblocked = () => console.warn('IndexedDB upgrade is waiting for other tabs to close the database');
+    });
+
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+// Run a single request inside a transaction on the given store
+const withStore = async <R>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Create a key-value store backed by an IndexedDB object store
+ * @param storeName - Object store to use
+ * @returns Store accessors
+ */
+export function createKeyValueStore<T>(storeName: StoreName): KeyValueStore<T> {
+  return {
+    get: (key) => withStore<T | undefined>(storeName, 'readonly', store => store.get(key)),
+    set: async (key, value) => {
+      await withStore(storeName, 'readwrite', store => store.put(value, key));
+    },
+    delete: async (key) => {
+      await withStore(storeName, 'readwrite', store => store.delete(key));
+    },
+    clear: async () => {
+      await withStore(storeName, 'readwrite', store => store.clear());
+    },
+    entries: async () => {
+      const db = await openDatabase();
+      return new Promise((resolve, reject) => {
+        const result: Array<[string, T]> = [];
+        const transaction = db.transaction(storeName, 'readonly');
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            result.push([String(cursor.key), cursor.value as T]);
+            cursor.continue();
+          }
+        };
+        transaction.oncomplete = () => resolve(result);
+        transaction.onerror = () => reject(transaction.error);
+      });
+    },
+  };
+}
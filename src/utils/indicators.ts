@@ -0,0 +1,385 @@
+// Technical indicators computed from price bars
+// Every series lines up with its input: one value per bar, null until
+// enough bars have been seen for the indicator to be defined.
+import { PriceBar } from './marketData/model';
+
+export type IndicatorValue = number | null;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Apply a calculation to the part of a series after its leading nulls,
+ * e.g. to smooth another indicator's output
+ */
+const afterWarmup = (
+  values: IndicatorValue[],
+  calculate: (defined: number[]) => IndicatorValue[]
+): IndicatorValue[] => {
+  const start = values.findIndex(value => value !== null);
+  if (start < 0) return values.map(() => null);
+  return [...values.slice(0, start).map(() => null), ...calculate(values.slice(start) as number[])];
+};
+
+/**
+ * Simple moving average
+ * @param values - Input series
+ * @param period - Number of values averaged
+ * @returns Average of each trailing window
+ */
+export function sma(values: IndicatorValue[], period: number): IndicatorValue[] {
+  return afterWarmup(values, defined => {
+    let sum = 0;
+    return defined.map((value, i) => {
+      sum += value;
+      if (i >= period) sum -= defined[i - period];
+      return i >= period - 1 ? sum / period : null;
+    });
+  });
+}
+
+/**
+ * Exponential moving average, seeded with the simple average of the first window
+ * @param values - Input series
+ * @param period - Smoothing period; weight is 2 / (period + 1)
+ * @returns Smoothed series
+ */
+export function ema(values: IndicatorValue[], period: number): IndicatorValue[] {
+  const alpha = 2 / (period + 1);
+  return afterWarmup(values, defined => {
+    let previous: number | null = null;
+    let seed = 0;
+    return defined.map((value, i) => {
+      if (i < period - 1) {
+        seed += value;
+        return null;
+      }
+      previous = previous === null ? (seed + value) / period : previous + alpha * (value - previous);
+      return previous;
+    });
+  });
+}
+
+export interface BollingerBands {
+  middle: IndicatorValue[];
+  upper: IndicatorValue[];
+  lower: IndicatorValue[];
+}
+
+/**
+ * Bollinger Bands: a moving average with bands a number of standard deviations away
+ * @param values - Input series
+ * @param period - Window length
+ * @param width - Band distance in standard deviations
+ */
+export function bollingerBands(values: number[], period: number, width: number): BollingerBands {
+  const middle = sma(values, period);
+  const deviation = middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    return Math.sqrt(variance);
+  });
+  return {
+    middle,
+    upper: middle.map((mean, i) => (mean === null ? null : mean + width * deviation[i])),
+    lower: middle.map((mean, i) => (mean === null ? null : mean - width * deviation[i])),
+  };
+}
+
+/**
+ * Volume-weighted average price of the typical price (high + low + close) / 3.
+ * Intraday bars start over at each trading day; daily and longer bars are
+ * anchored to the first bar.
+ * @param bars - Bars in ascending time order
+ * @returns VWAP, or null while no volume has traded
+ */
+export function vwap(bars: PriceBar[]): IndicatorValue[] {
+  const intraday = bars.length > 1 && bars[1].time - bars[0].time < DAY;
+  let session = "";
+  let priceVolume = 0;
+  let volume = 0;
+
+  return bars.map(bar => {
+    const day = new Date(bar.time).toDateString();
+    if (intraday && day !== session) {
+      session = day;
+      priceVolume = 0;
+      volume = 0;
+    }
+    priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    volume += bar.volume;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+}
+
+/**
+ * Relative strength index with Wilder's smoothing
+ * @param values - Input series
+ * @param period - Smoothing period
+ * @returns RSI from 0 to 100
+ */
+export function rsi(values: number[], period: number): IndicatorValue[] {
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  return values.map((value, i) => {
+    if (i === 0) return null;
+    const change = value - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (i <= period) {
+      averageGain += gain / period;
+      averageLoss += loss / period;
+      if (i < period) return null;
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+
+    if (averageLoss === 0) return averageGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + averageGain / averageLoss);
+  });
+}
+
+export interface Macd {
+  macd: IndicatorValue[];
+  signal: IndicatorValue[];
+  histogram: IndicatorValue[];
+}
+
+/**
+ * Moving average convergence/divergence
+ * @param values - Input series
+ * @param fast - Fast EMA period
+ * @param slow - Slow EMA period
+ * @param signalPeriod - EMA period of the signal line
+ */
+export function macd(values: number[], fast: number, slow: number, signalPeriod: number): Macd {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = fastEma.map((value, i) => (value === null || slowEma[i] === null ? null : value - slowEma[i]));
+  const signal = ema(line, signalPeriod);
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((value, i) => (value === null || signal[i] === null ? null : value - signal[i])),
+  };
+}
+
+export interface Stochastic {
+  k: IndicatorValue[];
+  d: IndicatorValue[];
+}
+
+/**
+ * Stochastic oscillator: where the close sits within the recent high-low range
+ * @param bars - Bars in ascending time order
+ * @param period - Look-back window for %K
+ * @param smoothing - Moving average period for %D
+ * @returns %K and %D from 0 to 100
+ */
+export function stochastic(bars: PriceBar[], period: number, smoothing: number): Stochastic {
+  const k = bars.map((bar, i) => {
+    if (i < period - 1) return null;
+    const window = bars.slice(i - period + 1, i + 1);
+    const highest = Math.max(...window.map(b => b.high));
+    const lowest = Math.min(...window.map(b => b.low));
+    return highest === lowest ? 50 : ((bar.close - lowest) / (highest - lowest)) * 100;
+  });
+  return { k, d: sma(k, smoothing) };
+}
+
+export type IndicatorId = "sma" | "ema" | "bollinger" | "vwap" | "rsi" | "macd" | "stochastic";
+
+export interface IndicatorParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+  defaultValue: number;
+}
+
+export interface IndicatorLine {
+  key: string;
+  label: string;
+  color: string;
+  dashed?: boolean;
+  // Drawn as bars around zero instead of a line
+  histogram?: boolean;
+}
+
+export interface IndicatorDefinition {
+  id: IndicatorId;
+  name: string;
+  // Overlays share the price axis; oscillators get a pane of their own
+  placement: "overlay" | "pane";
+  params: IndicatorParam[];
+  lines: IndicatorLine[];
+  // Fixed value range and guide levels for oscillator panes
+  domain?: [number, number];
+  levels?: number[];
+  compute: (bars: PriceBar[], params: IndicatorParams) => Record<string, IndicatorValue[]>;
+}
+
+export type IndicatorParams = Record<string, number>;
+
+const closes = (bars: PriceBar[]) => bars.map(bar => bar.close);
+
+const periodParam = (defaultValue: number, max = 200): IndicatorParam =>
+  ({ key: "period", label: "Period", min: 2, max, defaultValue });
+
+export const INDICATORS: Record<IndicatorId, IndicatorDefinition> = {
+  sma: {
+    id: "sma",
+    name: "Simple moving average",
+    placement: "overlay",
+    params: [periodParam(20)],
+    lines: [{ key: "value", label: "SMA", color: "#f59e0b" }],
+    compute: (bars, { period }) => ({ value: sma(closes(bars), period) }),
+  },
+  ema: {
+    id: "ema",
+    name: "Exponential moving average",
+    placement: "overlay",
+    params: [periodParam(50)],
+    lines: [{ key: "value", label: "EMA", color: "#8b5cf6" }],
+    compute: (bars, { period }) => ({ value: ema(closes(bars), period) }),
+  },
+  bollinger: {
+    id: "bollinger",
+    name: "Bollinger Bands",
+    placement: "overlay",
+    params: [periodParam(20, 100), { key: "width", label: "Std. dev.", min: 0.5, max: 4, step: 0.5, defaultValue: 2 }],
+    lines: [
+      { key: "upper", label: "BB upper", color: "#64748b", dashed: true },
+      { key: "middle", label: "BB middle", color: "#94a3b8" },
+      { key: "lower", label: "BB lower", color: "#64748b", dashed: true },
+    ],
+    compute: (bars, { period, width }) => {
+      const bands = bollingerBands(closes(bars), period, width);
+      return { upper: bands.upper, middle: bands.middle, lower: bands.lower };
+    },
+  },
+  vwap: {
+    id: "vwap",
+    name: "VWAP",
+    placement: "overlay",
+    params: [],
+    lines: [{ key: "value", label: "VWAP", color: "#06b6d4" }],
+    compute: bars => ({ value: vwap(bars) }),
+  },
+  rsi: {
+    id: "rsi",
+    name: "Relative strength index",
+    placement: "pane",
+    params: [periodParam(14, 100)],
+    lines: [{ key: "value", label: "RSI", color: "#8b5cf6" }],
+    domain: [0, 100],
+    levels: [30, 70],
+    compute: (bars, { period }) => ({ value: rsi(closes(bars), period) }),
+  },
+  macd: {
+    id: "macd",
+    name: "MACD",
+    placement: "pane",
+    params: [
+      { key: "fast", label: "Fast", min: 2, max: 100, defaultValue: 12 },
+      { key: "slow", label: "Slow", min: 3, max: 200, defaultValue: 26 },
+      { key: "signal", label: "Signal", min: 2, max: 100, defaultValue: 9 },
+    ],
+    lines: [
+      { key: "histogram", label: "Histogram", color: "#94a3b8", histogram: true },
+      { key: "macd", label: "MACD", color: "#3b82f6" },
+      { key: "signal", label: "Signal", color: "#f97316" },
+    ],
+    levels: [0],
+    compute: (bars, { fast, slow, signal }) => {
+      const result = macd(closes(bars), fast, slow, signal);
+      return { macd: result.macd, signal: result.signal, histogram: result.histogram };
+    },
+  },
+  stochastic: {
+    id: "stochastic",
+    name: "Stochastic oscillator",
+    placement: "pane",
+    params: [
+      { key: "period", label: "%K period", min: 2, max: 100, defaultValue: 14 },
+      { key: "smoothing", label: "%D period", min: 1, max: 20, defaultValue: 3 },
+    ],
+    lines: [
+      { key: "k", label: "%K", color: "#3b82f6" },
+      { key: "d", label: "%D", color: "#f97316" },
+    ],
+    domain: [0, 100],
+    levels: [20, 80],
+    compute: (bars, { period, smoothing }) => {
+      const result = stochastic(bars, period, smoothing);
+      return { k: result.k, d: result.d };
+    },
+  },
+};
+
+export const INDICATOR_IDS = Object.keys(INDICATORS) as IndicatorId[];
+
+export interface IndicatorSetting {
+  enabled: boolean;
+  params: IndicatorParams;
+}
+
+export type IndicatorSettings = Record<IndicatorId, IndicatorSetting>;
+
+/**
+ * Bring parameters within their allowed range, filling in defaults for
+ * missing ones and dropping unknown ones
+ * @param id - Indicator
+ * @param params - Parameters to check
+ * @returns Usable parameters
+ */
+export function normalizeIndicatorParams(id: IndicatorId, params: Partial<IndicatorParams> = {}): IndicatorParams {
+  return Object.fromEntries(INDICATORS[id].params.map(param => {
+    const value = Number(params[param.key]);
+    if (!Number.isFinite(value)) return [param.key, param.defaultValue];
+    const step = param.step ?? 1;
+    const stepped = Math.round(value / step) * step;
+    return [param.key, Math.min(param.max, Math.max(param.min, stepped))];
+  }));
+}
+
+/**
+ * Every indicator switched off, with default parameters
+ */
+export function getDefaultIndicatorSettings(): IndicatorSettings {
+  return Object.fromEntries(
+    INDICATOR_IDS.map(id => [id, { enabled: false, params: normalizeIndicatorParams(id) }])
+  ) as IndicatorSettings;
+}
+
+export interface IndicatorResult {
+  definition: IndicatorDefinition;
+  // Values for each of the definition's lines, keyed by line
+  series: Record<string, IndicatorValue[]>;
+}
+
+/**
+ * Compute every enabled indicator for a price history
+ * @param bars - Bars in ascending time order
+ * @param settings - Which indicators are on, and their parameters
+ * @returns Results in definition order
+ */
+export function computeIndicators(bars: PriceBar[], settings: IndicatorSettings): IndicatorResult[] {
+  return INDICATOR_IDS
+    .filter(id => settings[id]?.enabled)
+    .map(id => ({
+      definition: INDICATORS[id],
+      series: INDICATORS[id].compute(bars, normalizeIndicatorParams(id, settings[id].params)),
+    }));
+}
+
+/**
+ * Field that holds an indicator line's value in chart data points
+ * @param id - Indicator
+ * @param line - Line key from the definition
+ */
+export const indicatorDataKey = (id: IndicatorId, line: string): string => `${id}_${line}`;
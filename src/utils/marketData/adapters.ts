@@ -0,0 +1,180 @@
+// Adapters from provider payloads to the domain model
+import { CurrencyCode, DEFAULT_CURRENCY, Forecast, Instrument, Quote, SymbolMatch } from './model';
+import {
+  AlphaVantageGlobalQuote,
+  AlphaVantageSymbolMatch,
+  CompanyOverview,
+  QuotePayload,
+  StockPrediction,
+} from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Prediction backend fields holding the price N trading days ahead
+const PREDICTION_HORIZONS: Array<[number, keyof StockPrediction]> = [
+  [1, 'pred_1d'],
+  [2, 'pred_2d'],
+  [3, 'pred_3d'],
+  [4, 'pred_4d'],
+  [5, 'pred_5d'],
+];
+
+// Exchanges named by Alpha Vantage's ticker suffixes; unsuffixed tickers are US listings
+const EXCHANGE_SUFFIXES: Record<string, string> = {
+  LON: 'LSE',
+  TRT: 'TSX',
+  TRV: 'TSXV',
+  DEX: 'XETRA',
+  FRK: 'FRA',
+  PAR: 'EPA',
+  AMS: 'AMS',
+  BSE: 'BSE',
+  NSE: 'NSE',
+  SHH: 'SSE',
+  SHZ: 'SZSE',
+  SAO: 'B3',
+};
+
+/**
+ * Convert an Alpha Vantage GLOBAL_QUOTE into a quote. GLOBAL_QUOTE prices
+ * are in the listing's own currency (pence for "TSCO.LON") but don't say
+ * which; callers correct it from the listing's OVERVIEW or symbol search match.
+ * @param quote - Parsed GLOBAL_QUOTE fields
+ * @param currency - Currency of the listing, when already known
+ * @param fetchedAt - When the response arrived, defaults to now
+ * @returns Quote, in US dollars unless another currency is given
+ */
+export function quoteFromAlphaVantage(
+  quote: AlphaVantageGlobalQuote,
+  currency: CurrencyCode = DEFAULT_CURRENCY,
+  fetchedAt: number = Date.now()
+): Quote {
+  return {
+    symbol: quote.symbol.toUpperCase(),
+    currency,
+    price: quote.price,
+    open: quote.open,
+    high: quote.high,
+    low: quote.low,
+    previousClose: quote.previousClose,
+    change: quote.change,
+    changePercent: quote.changePercent,
+    volume: quote.volume,
+    asOf: fetchedAt,
+  };
+}
+
+/**
+ * Complete a quote that is already in the app's shape
+ * @param payload - Quote from a file or the proxy
+ * @param fetchedAt - Timestamp to use when the payload has none
+ * @returns Quote with currency and timestamp filled in
+ */
+export function quoteFromPayload(payload: QuotePayload, fetchedAt: number = Date.now()): Quote {
+  return {
+    ...payload,
+    symbol: payload.symbol.toUpperCase(),
+    currency: payload.currency ?? DEFAULT_CURRENCY,
+    asOf: payload.asOf ?? fetchedAt,
+  };
+}
+
+/**
+ * Convert a prediction backend payload into a forecast
+ * @param prediction - Parsed prediction
+ * @param currency - Currency the predicted prices are in
+ * @returns Forecast with one point per predicted day
+ */
+export function forecastFromPrediction(prediction: StockPrediction, currency: string = DEFAULT_CURRENCY): Forecast {
+  // The backend sends the forecast date as YYYY-MM-DD, which parses as UTC midnight
+  const issuedAt = Date.parse(prediction.date);
+
+  return {
+    symbol: prediction.stock_name.toUpperCase(),
+    currency,
+    modelVersion: prediction.model_version,
+    issuedAt: Number.isFinite(issuedAt) ? issuedAt : Math.floor(Date.now() / DAY) * DAY,
+    points: PREDICTION_HORIZONS.map(([horizonDays, field]) => ({
+      horizonDays,
+      price: prediction[field] as number,
+    })),
+    percentChange: prediction.percent_change,
+    volatilityScore: prediction.volatility_score,
+  };
+}
+
+/**
+ * Describe the instrument an Alpha Vantage OVERVIEW is about
+ * @param overview - Parsed overview
+ * @returns Instrument, named after its symbol when the overview has no name
+ */
+export function instrumentFromOverview(overview: CompanyOverview): Instrument {
+  return {
+    symbol: overview.Symbol.toUpperCase(),
+    name: overview.Name || overview.Symbol.toUpperCase(),
+    currency: overview.Currency || DEFAULT_CURRENCY,
+    exchange: overview.Exchange,
+    ...classificationFromOverview(overview),
+  };
+}
+
+// Alpha Vantage writes classifications in capitals, e.g. "TRADE & SERVICES";
+// "None" and empty values mean unknown
+const toClassificationName = (value?: string): string | undefined => {
+  const trimmed = value?.trim();
+  if (!trimmed || trimmed.toLowerCase() === "none") return undefined;
+  return trimmed === trimmed.toUpperCase()
+    ? trimmed.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase())
+    : trimmed;
+};
+
+/**
+ * Read the sector and industry from an Alpha Vantage OVERVIEW
+ * @param overview - Parsed overview
+ * @returns Classification; fields are left out when the overview has no value
+ */
+export function classificationFromOverview(overview: CompanyOverview): Pick<Instrument, "sector" | "industry"> {
+  const sector = toClassificationName(overview.Sector);
+  const industry = toClassificationName(overview.Industry);
+  return {
+    ...(sector && { sector }),
+    ...(industry && { industry }),
+  };
+}
+
+/**
+ * Read the listing currency from an Alpha Vantage OVERVIEW
+ * @param overview - Parsed overview
+ * @returns Upper-case currency code, or undefined when missing or "None"
+ */
+export function currencyFromOverview(overview: CompanyOverview): CurrencyCode | undefined {
+  const currency = overview.Currency?.trim().toUpperCase();
+  return currency && currency !== "NONE" ? currency : undefined;
+}
+
+/**
+ * Read the market capitalization from an Alpha Vantage OVERVIEW
+ * @param overview - Parsed overview
+ * @returns Market cap, or undefined when missing or "None"
+ */
+export function marketCapFromOverview(overview: CompanyOverview): number | undefined {
+  const marketCap = Number(overview.MarketCapitalization);
+  return Number.isFinite(marketCap) && marketCap > 0 ? marketCap : undefined;
+}
+
+/**
+ * Convert an Alpha Vantage SYMBOL_SEARCH result into a search match
+ * @param match - Parsed search result
+ * @returns Match scored by Alpha Vantage's own relevance
+ */
+export function symbolMatchFromAlphaVantage(match: AlphaVantageSymbolMatch): SymbolMatch {
+  const suffix = match.symbol.includes('.') ? match.symbol.split('.').pop().toUpperCase() : undefined;
+  return {
+    symbol: match.symbol.toUpperCase(),
+    name: match.name,
+    currency: match.currency.toUpperCase() || DEFAULT_CURRENCY,
+    exchange: suffix ? EXCHANGE_SUFFIXES[suffix] : undefined,
+    region: match.region,
+    score: match.matchScore,
+  };
+}
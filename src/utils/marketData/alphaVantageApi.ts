@@ -0,0 +1,58 @@
+// Alpha Vantage request details shared by the browser adapter and the proxy server
+import { ProviderAccessError, RateLimitError } from './errors';
+import { ChartPeriod } from './types';
+
+/**
+ * Build an Alpha Vantage query URL
+ * @param baseUrl - Alpha Vantage query endpoint
+ * @param apiKey - API key to send
+ * @param fn - Alpha Vantage function, e.g. GLOBAL_QUOTE
+ * @param symbol - Stock ticker; left out when empty, as for SYMBOL_SEARCH
+ * @param params - Extra query parameters
+ * @returns Request URL
+ */
+export function buildAlphaVantageUrl(
+  baseUrl: string,
+  apiKey: string,
+  fn: string,
+  symbol: string,
+  params: Record<string, string> = {}
+): string {
+  const extra = Object.entries(params).map(([name, value]) => `&${name}=${encodeURIComponent(value)}`).join('');
+  const symbolParam = symbol ? `&symbol=${encodeURIComponent(symbol)}` : '';
+  return `${baseUrl}?function=${fn}${symbolParam}${extra}&apikey=${encodeURIComponent(apiKey)}`;
+}
+
+// Time series used for each chart period
+export const HISTORY_SERIES: Record<ChartPeriod, { fn: string; params?: Record<string, string> }> = {
+  "1d": { fn: 'TIME_SERIES_INTRADAY', params: { interval: '15min' } },
+  "5d": { fn: 'TIME_SERIES_INTRADAY', params: { interval: '60min' } },
+  "1mo": { fn: 'TIME_SERIES_DAILY' },
+  "3mo": { fn: 'TIME_SERIES_DAILY' },
+  "6mo": { fn: 'TIME_SERIES_WEEKLY' },
+  "1y": { fn: 'TIME_SERIES_WEEKLY' },
+};
+
+// Wording Alpha Vantage uses when a request is over the rate limit
+const RATE_LIMIT_PATTERN = /rate limit|call frequency|requests? per (second|minute|day)|calls per (minute|day)|spreading out/i;
+
+const INVALID_KEY_PATTERN = /api ?key|apikey/i;
+
+/**
+ * Alpha Vantage answers some requests with HTTP 200 and a "Note" or
+ * "Information" message instead of data. Rate-limit messages become a
+ * RateLimitError, so the request is retried later. Anything else, such as an
+ * invalid key or a premium-only endpoint, becomes a ProviderAccessError.
+ * @param data - Parsed response body
+ */
+export function checkAlphaVantageMessage(data: unknown): void {
+  const body = (data ?? {}) as Record<string, unknown>;
+  const message = body.Note || body.Information;
+  if (typeof message !== 'string') return;
+
+  if (RATE_LIMIT_PATTERN.test(message)) {
+    const daily = /per day|daily/i.test(message);
+    throw new RateLimitError('alphaVantage', message, daily);
+  }
+  throw new ProviderAccessError('alphaVantage', message, INVALID_KEY_PATTERN.test(message) ? 'auth' : 'unsupported');
+}
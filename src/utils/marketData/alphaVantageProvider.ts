@@ -0,0 +1,86 @@
+// Alpha Vantage adapter: real-time quotes, company overviews, history and symbol search
+import { scheduleRequest } from '../requestScheduler';
+import { quoteFromAlphaVantage, symbolMatchFromAlphaVantage } from './adapters';
+import { HISTORY_SERIES, buildAlphaVantageUrl, checkAlphaVantageMessage } from './alphaVantageApi';
+import { getDataSourceConfig } from './config';
+import { NetworkError } from './errors';
+import { fetchJson } from './http';
+import { filterBarsToPeriod } from './history';
+import {
+  CompanyOverviewSchema,
+  GlobalQuoteResponseSchema,
+  SymbolSearchResponseSchema,
+  TimeSeriesResponseSchema,
+  parseResponse,
+} from './schemas';
+import { PriceBar, Quote, SymbolMatch } from './model';
+import {
+  AlphaVantageGlobalQuote,
+  AlphaVantageSymbolMatch,
+  ChartPeriod,
+  CompanyOverview,
+  MarketDataProvider,
+  RequestOptions,
+} from './types';
+
+// Build an Alpha Vantage query URL from the active configuration
+const buildUrl = (fn: string, symbol: string, params?: Record<string, string>): string => {
+  const { alphaVantageBaseUrl, alphaVantageApiKey } = getDataSourceConfig();
+  return buildAlphaVantageUrl(alphaVantageBaseUrl, alphaVantageApiKey, fn, symbol, params);
+};
+
+// Run an Alpha Vantage query through the request scheduler
+const query = (
+  fn: string,
+  symbol: string,
+  options?: RequestOptions,
+  params?: Record<string, string>
+): Promise<unknown> =>
+  scheduleRequest({
+    provider: 'alphaVantage',
+    key: [fn, symbol.toUpperCase(), ...Object.values(params || {})].join(':'),
+    priority: options?.priority,
+    run: async () => {
+      if (!getDataSourceConfig().alphaVantageApiKey) {
+        throw new NetworkError(`Alpha Vantage ${fn}`, 'No Alpha Vantage API key configured; set VITE_ALPHA_VANTAGE_API_KEY or use the proxy provider');
+      }
+      const data = await fetchJson(buildUrl(fn, symbol, params), `Alpha Vantage ${fn}`);
+      checkAlphaVantageMessage(data);
+      return data;
+    },
+  });
+
+const fetchQuote = async (symbol: string, options?: RequestOptions): Promise<Quote> => {
+  console.log(`Fetching stock data for ${symbol} from Alpha Vantage...`);
+  const data = await query('GLOBAL_QUOTE', symbol, options);
+  return quoteFromAlphaVantage(
+    parseResponse<AlphaVantageGlobalQuote>(GlobalQuoteResponseSchema, data, `Alpha Vantage GLOBAL_QUOTE for ${symbol}`)
+  );
+};
+
+const fetchOverview = async (symbol: string, options?: RequestOptions): Promise<CompanyOverview> => {
+  const data = await query('OVERVIEW', symbol, options);
+  return parseResponse<CompanyOverview>(CompanyOverviewSchema, data, `Alpha Vantage OVERVIEW for ${symbol}`);
+};
+
+const fetchHistory = async (symbol: string, period: ChartPeriod, options?: RequestOptions): Promise<PriceBar[]> => {
+  const { fn, params } = HISTORY_SERIES[period];
+  const data = await query(fn, symbol, options, params);
+  const bars = parseResponse<PriceBar[]>(TimeSeriesResponseSchema, data, `Alpha Vantage ${fn} for ${symbol}`);
+  return filterBarsToPeriod(bars, period);
+};
+
+const searchSymbols = async (keywords: string, options?: RequestOptions): Promise<SymbolMatch[]> => {
+  const data = await query('SYMBOL_SEARCH', '', options, { keywords });
+  const matches = parseResponse<AlphaVantageSymbolMatch[]>(SymbolSearchResponseSchema, data, `Alpha Vantage SYMBOL_SEARCH for "${keywords}"`);
+  return matches.map(symbolMatchFromAlphaVantage);
+};
+
+export const alphaVantageProvider: MarketDataProvider = {
+  id: "alphaVantage",
+  name: "Alpha Vantage",
+  fetchQuote,
+  fetchOverview,
+  fetchHistory,
+  searchSymbols,
+};
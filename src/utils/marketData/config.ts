@@ -0,0 +1,184 @@
+// Configuration for choosing market data providers
+// Defaults come from the build environment; changes made in the admin panel
+// are validated and saved in localStorage, layered over those defaults.
+import { z } from 'zod';
+import { ValidationError } from './errors';
+import { MarketDataCapability, MarketDataProviderId } from './types';
+
+export interface DataSourceConfig {
+  providers: Record<MarketDataCapability, MarketDataProviderId>;
+  proxyBaseUrl: string;
+  alphaVantageBaseUrl: string;
+  alphaVantageApiKey: string;
+  predictionApiBaseUrl: string;
+  localJsonUrl: string;
+}
+
+export const PROVIDER_IDS: MarketDataProviderId[] = ["proxy", "alphaVantage", "predictionBackend", "mock", "localJson"];
+
+const STORAGE_KEY = "data_source_config";
+
+// Read a provider id from the environment, ignoring unknown values
+const envProvider = (value: string | undefined, fallback: MarketDataProviderId): MarketDataProviderId => {
+  if (value && PROVIDER_IDS.includes(value as MarketDataProviderId)) {
+    return value as MarketDataProviderId;
+  }
+  if (value) {
+    console.warn(`Unknown market data provider "${value}", using "${fallback}"`);
+  }
+  return fallback;
+};
+
+const env = import.meta.env;
+
+const defaultConfig: DataSourceConfig = {
+  providers: {
+    quote: envProvider(env.VITE_QUOTE_PROVIDER, "proxy"),
+    overview: envProvider(env.VITE_OVERVIEW_PROVIDER, "proxy"),
+    history: envProvider(env.VITE_HISTORY_PROVIDER, "proxy"),
+    predictions: envProvider(env.VITE_PREDICTION_PROVIDER, "proxy"),
+    marketVolatility: envProvider(env.VITE_VOLATILITY_PROVIDER, "proxy"),
+    search: envProvider(env.VITE_SEARCH_PROVIDER, "proxy"),
+  },
+  proxyBaseUrl: env.VITE_PROXY_URL || "/api",
+  alphaVantageBaseUrl: env.VITE_ALPHA_VANTAGE_URL || "https://www.alphavantage.co/query",
+  // Only used when calling Alpha Vantage directly; the proxy holds its own key
+  alphaVantageApiKey: env.VITE_ALPHA_VANTAGE_API_KEY || "",
+  predictionApiBaseUrl: env.VITE_PREDICTION_API_URL || "https://govind2121.pythonanywhere.com",
+  localJsonUrl: env.VITE_LOCAL_DATA_URL || "/market-data.json",
+};
+
+// Absolute http(s) URL, or a path on this site such as "/api"
+const endpoint = z.string().trim().refine(
+  value => value.startsWith("/") || /^https?:\/\/[^\s/]+/i.test(value),
+  { message: "Must be an http(s) URL or a path starting with /" }
+).transform(value => value.replace(/\/+$/, "") || "/");
+
+const providerId = z.enum(PROVIDER_IDS as [MarketDataProviderId, ...MarketDataProviderId[]]);
+
+export const DataSourceConfigSchema = z.object({
+  providers: z.object({
+    quote: providerId,
+    overview: providerId,
+    history: providerId,
+    predictions: providerId,
+    marketVolatility: providerId,
+    search: providerId,
+  }),
+  proxyBaseUrl: endpoint,
+  alphaVantageBaseUrl: endpoint,
+  alphaVantageApiKey: z.string().trim().regex(/^[A-Za-z0-9]*$/, "Keys only contain letters and digits"),
+  predictionApiBaseUrl: endpoint,
+  localJsonUrl: endpoint,
+});
+
+/**
+ * Check a configuration, normalizing URLs and trimming whitespace
+ * @param config - Configuration to check
+ * @returns The normalized configuration
+ * @throws ValidationError listing every invalid field
+ */
+export function validateDataSourceConfig(config: DataSourceConfig): DataSourceConfig {
+  const result = DataSourceConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new ValidationError("data source configuration", result.error.issues);
+  }
+  return result.data as DataSourceConfig;
+}
+
+/**
+ * Whether any capability calls Alpha Vantage from the browser, and so needs a
+ * key there. Otherwise the proxy holds the key and none is kept in the browser.
+ * @param config - Configuration to check
+ */
+export function usesBrowserApiKey(config: DataSourceConfig): boolean {
+  return Object.values(config.providers).includes("alphaVantage");
+}
+
+const merge = (base: DataSourceConfig, overrides: Partial<DataSourceConfig>): DataSourceConfig => ({
+  ...base,
+  ...overrides,
+  providers: { ...base.providers, ...overrides.providers },
+});
+
+// Saved overrides that still validate; anything else is discarded
+const loadSavedConfig = (): Partial<DataSourceConfig> => {
+  if (typeof localStorage === "undefined") return {};
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    const config = validateDataSourceConfig(merge(defaultConfig, saved));
+    // Drop keys saved before the browser stopped keeping them for the proxy
+    if (saved.alphaVantageApiKey !== undefined && !usesBrowserApiKey(config)) {
+      delete saved.alphaVantageApiKey;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    }
+    return saved;
+  } catch (error) {
+    console.warn("Ignoring invalid saved data source configuration:", error);
+    localStorage.removeItem(STORAGE_KEY);
+    return {};
+  }
+};
+
+let currentConfig: DataSourceConfig = merge(defaultConfig, loadSavedConfig());
+
+/**
+ * Get the configuration built into this deployment, ignoring saved changes
+ * @returns Default configuration
+ */
+export function getDefaultDataSourceConfig(): DataSourceConfig {
+  return defaultConfig;
+}
+
+/**
+ * Get the active data source configuration
+ * @returns Current configuration
+ */
+export function getDataSourceConfig(): DataSourceConfig {
+  return currentConfig;
+}
+
+/**
+ * Override parts of the data source configuration at runtime
+ * @param overrides - Fields to replace
+ */
+export function setDataSourceConfig(overrides: Partial<DataSourceConfig>): void {
+  currentConfig = merge(currentConfig, overrides);
+}
+
+/**
+ * Validate, apply and persist a configuration. Only fields that differ from
+ * the defaults are stored, so later changes to the defaults still apply. The
+ * Alpha Vantage key is only kept while a capability calls Alpha Vantage directly.
+ * @param config - Complete configuration to use
+ * @returns The normalized configuration now in effect
+ * @throws ValidationError when a field is invalid
+ */
+export function saveDataSourceConfig(config: DataSourceConfig): DataSourceConfig {
+  const valid = validateDataSourceConfig(
+    usesBrowserApiKey(config) ? config : { ...config, alphaVantageApiKey: defaultConfig.alphaVantageApiKey }
+  );
+
+  const changedProviders = Object.fromEntries(
+    Object.entries(valid.providers).filter(([capability, id]) => defaultConfig.providers[capability] !== id)
+  );
+  const changed: Partial<DataSourceConfig> = Object.fromEntries(
+    Object.entries(valid).filter(([field, value]) => field !== "providers" && defaultConfig[field] !== value)
+  );
+  if (Object.keys(changedProviders).length > 0) {
+    changed.providers = changedProviders as DataSourceConfig["providers"];
+  }
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(changed));
+  currentConfig = valid;
+  return valid;
+}
+
+/**
+ * Forget saved changes and go back to the default configuration
+ */
+export function resetDataSourceConfig(): void {
+  localStorage.removeItem(STORAGE_KEY);
+  currentConfig = defaultConfig;
+}
@@ -0,0 +1,116 @@
+// Connectivity checks for the configured market data endpoints
+import { scheduleRequest } from '../requestScheduler';
+import { buildAlphaVantageUrl, checkAlphaVantageMessage } from './alphaVantageApi';
+import { DataSourceConfig, getDataSourceConfig } from './config';
+import { ProxyHealth, proxyRoutes } from './proxyApi';
+import { MarketVolatilitySchema, parseResponse } from './schemas';
+
+export type ConnectionTarget = "proxy" | "alphaVantage" | "predictionBackend" | "localJson";
+
+export const CONNECTION_TARGETS: ConnectionTarget[] = ["proxy", "alphaVantage", "predictionBackend", "localJson"];
+
+export interface ConnectionTestResult {
+  target: ConnectionTarget;
+  ok: boolean;
+  // HTTP status, or null when no response arrived
+  status: number | null;
+  latencyMs: number | null;
+  message: string;
+}
+
+interface TimedResponse {
+  status: number;
+  latencyMs: number;
+  body: unknown;
+}
+
+// Fetch a URL, measuring the time until the body has been read
+const timedFetch = async (url: string): Promise<TimedResponse> => {
+  const started = performance.now();
+  const response = await fetch(url, { cache: 'no-store' });
+  const body = await response.json().catch(() => null);
+  return { status: response.status, latencyMs: Math.round(performance.now() - started), body };
+};
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Turn a successful HTTP exchange into a result, running an extra check on the body
+const evaluate = (
+  target: ConnectionTarget,
+  { status, latencyMs, body }: TimedResponse,
+  check: (body: unknown) => string
+): ConnectionTestResult => {
+  if (status < 200 || status >= 300) {
+    return { target, ok: false, status, latencyMs, message: `Responded with ${status}` };
+  }
+  if (body === null) {
+    return { target, ok: false, status, latencyMs, message: 'Response is not JSON' };
+  }
+  try {
+    return { target, ok: true, status, latencyMs, message: check(body) };
+  } catch (error) {
+    return { target, ok: false, status, latencyMs, message: describeError(error) };
+  }
+};
+
+const testProxy = async (config: DataSourceConfig) =>
+  evaluate("proxy", await timedFetch(`${config.proxyBaseUrl}${proxyRoutes.health()}`), body => {
+    const health = body as ProxyHealth;
+    if (health.status !== "ok") throw new Error('Health check did not report "ok"');
+    const missing = health.keys.filter(key => !key.configured).map(key => key.provider);
+    return missing.length > 0 ? `Connected; no key for ${missing.join(", ")}` : "Connected";
+  });
+
+const testAlphaVantage = async (config: DataSourceConfig): Promise<ConnectionTestResult> => {
+  if (!config.alphaVantageApiKey) {
+    return { target: "alphaVantage", ok: false, status: null, latencyMs: null, message: "No browser API key set" };
+  }
+
+  // One quote request; it counts against the same quota as regular requests
+  const response = await scheduleRequest({
+    provider: 'alphaVantage',
+    key: 'connection-test',
+    priority: 'high',
+    run: () => timedFetch(buildAlphaVantageUrl(config.alphaVantageBaseUrl, config.alphaVantageApiKey, 'GLOBAL_QUOTE', 'IBM')),
+  });
+
+  return evaluate("alphaVantage", response, body => {
+    checkAlphaVantageMessage(body);
+    const error = (body as Record<string, unknown>)["Error Message"];
+    if (typeof error === 'string') throw new Error(error);
+    return "Connected";
+  });
+};
+
+const testPredictionBackend = async (config: DataSourceConfig) =>
+  evaluate("predictionBackend", await timedFetch(`${config.predictionApiBaseUrl}/market_volatility`), body => {
+    parseResponse(MarketVolatilitySchema, body, 'prediction backend');
+    return "Connected";
+  });
+
+const testLocalJson = async (config: DataSourceConfig) =>
+  evaluate("localJson", await timedFetch(config.localJsonUrl), () => "File loaded");
+
+const TESTS: Record<ConnectionTarget, (config: DataSourceConfig) => Promise<ConnectionTestResult>> = {
+  proxy: testProxy,
+  alphaVantage: testAlphaVantage,
+  predictionBackend: testPredictionBackend,
+  localJson: testLocalJson,
+};
+
+/**
+ * Check that an endpoint answers with usable data
+ * @param target - Endpoint to test
+ * @param config - Configuration to test, defaults to the active one
+ * @returns Outcome with HTTP status and latency
+ */
+export async function testConnection(
+  target: ConnectionTarget,
+  config: DataSourceConfig = getDataSourceConfig()
+): Promise<ConnectionTestResult> {
+  try {
+    return await TESTS[target](config);
+  } catch (error) {
+    return { target, ok: false, status: null, latencyMs: null, message: describeError(error) };
+  }
+}
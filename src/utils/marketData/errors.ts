@@ -0,0 +1,84 @@
+// Error types raised by market data providers
+import type { ZodIssue } from 'zod';
+
+/**
+ * The request never produced a usable HTTP response, or the server answered
+ * with an error status
+ */
+export class NetworkError extends Error {
+  source: string;
+  status?: number;
+
+  constructor(source: string, message: string, status?: number) {
+    super(message);
+    this.name = 'NetworkError';
+    this.source = source;
+    this.status = status;
+  }
+}
+
+/**
+ * The response arrived but did not match the expected schema
+ */
+export class ValidationError extends Error {
+  source: string;
+  issues: ZodIssue[];
+
+  constructor(source: string, issues: ZodIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(`Invalid response from ${source}: ${summary}`);
+    this.name = 'ValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+/**
+ * The provider refused the request because a usage limit was reached
+ */
+export class RateLimitError extends Error {
+  provider: string;
+  /** Whether the daily allowance is exhausted, not just the per-minute one */
+  daily: boolean;
+
+  constructor(provider: string, message: string, daily = false) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.provider = provider;
+    this.daily = daily;
+  }
+}
+
+/**
+ * The provider refused the request for a reason waiting won't fix: the API
+ * key was rejected, or the data isn't available on the key's plan
+ */
+export class ProviderAccessError extends Error {
+  provider: string;
+  reason: 'auth' | 'unsupported';
+
+  constructor(provider: string, message: string, reason: 'auth' | 'unsupported') {
+    super(message);
+    this.name = 'ProviderAccessError';
+    this.provider = provider;
+    this.reason = reason;
+  }
+}
+
+export type DataErrorKind = 'network' | 'validation' | 'rate-limit' | 'auth' | 'unsupported' | 'unknown';
+
+/**
+ * Classify an error thrown while loading market data
+ * @param error - Caught error
+ * @returns Error category
+ */
+export function getDataErrorKind(error: unknown): DataErrorKind {
+  if (error instanceof ValidationError) return 'validation';
+  if (error instanceof RateLimitError) return 'rate-limit';
+  if (error instanceof ProviderAccessError) return error.reason;
+  if (error instanceof NetworkError) return 'network';
+  return 'unknown';
+}
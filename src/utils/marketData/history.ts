@@ -0,0 +1,111 @@
+// Helpers for working with price histories
+import { PriceBar } from './model';
+import { ChartPeriod } from './types';
+
+export const CHART_PERIODS: ChartPeriod[] = ["1d", "5d", "1mo", "3mo", "6mo", "1y"];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Calendar span covered by each period
+const PERIOD_SPANS: Record<ChartPeriod, number> = {
+  "1d": DAY,
+  "5d": 7 * DAY,
+  "1mo": 31 * DAY,
+  "3mo": 92 * DAY,
+  "6mo": 183 * DAY,
+  "1y": 366 * DAY,
+};
+
+export type BarResolution = "intraday" | "daily" | "weekly";
+
+// Size of the bars each period is served in. Alpha Vantage's compact daily
+// series only reaches back about 100 sessions, so longer periods are weekly.
+const PERIOD_RESOLUTIONS: Record<ChartPeriod, BarResolution> = {
+  "1d": "intraday",
+  "5d": "intraday",
+  "1mo": "daily",
+  "3mo": "daily",
+  "6mo": "weekly",
+  "1y": "weekly",
+};
+
+/**
+ * Size of the bars a period's history is made of
+ * @param period - Chart period
+ */
+export function getBarResolution(period: ChartPeriod): BarResolution {
+  return PERIOD_RESOLUTIONS[period];
+}
+
+/**
+ * Whether a period is drawn from intraday bars
+ * @param period - Chart period
+ */
+export function isIntradayPeriod(period: ChartPeriod): boolean {
+  return PERIOD_RESOLUTIONS[period] === "intraday";
+}
+
+/**
+ * Keep only the bars that fall inside a period, measured back from the
+ * latest bar so weekends and holidays don't leave the chart empty
+ * @param bars - Bars in ascending time order
+ * @param period - Chart period
+ * @returns Bars within the period
+ */
+export function filterBarsToPeriod(bars: PriceBar[], period: ChartPeriod): PriceBar[] {
+  if (bars.length === 0) return bars;
+
+  const last = bars[bars.length - 1].time;
+
+  if (period === "1d") {
+    // The most recent trading session only
+    const lastDay = new Date(last).toDateString();
+    return bars.filter(bar => new Date(bar.time).toDateString() === lastDay);
+  }
+
+  return bars.filter(bar => bar.time > last - PERIOD_SPANS[period]);
+}
+
+/**
+ * Format a bar's time as an axis label suited to the period
+ * @param time - Epoch milliseconds
+ * @param period - Chart period
+ */
+export function formatBarLabel(time: number, period: ChartPeriod): string {
+  const date = new Date(time);
+  const hour = date.getHours();
+  const formattedHour = `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? 'AM' : 'PM'}`;
+
+  if (period === "1d") {
+    return formattedHour;
+  }
+  if (period === "5d") {
+    return `${date.toLocaleDateString('en-US', { weekday: 'short' })} ${formattedHour}`;
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Convert bars to Heikin-Ashi bars, which average each bar with the one
+ * before it to smooth out noise. Volume and time are unchanged.
+ * @param bars - Bars in ascending time order
+ * @returns Heikin-Ashi bars, one per input bar
+ */
+export function toHeikinAshi(bars: PriceBar[]): PriceBar[] {
+  const result: PriceBar[] = [];
+  bars.forEach((bar, i) => {
+    const close = (bar.open + bar.high + bar.low + bar.close) / 4;
+    const open = i === 0
+      ? (bar.open + bar.close) / 2
+      : (result[i - 1].open + result[i - 1].close) / 2;
+    result.push({
+      time: bar.time,
+      open,
+      high: Math.max(bar.high, open, close),
+      low: Math.min(bar.low, open, close),
+      close,
+      volume: bar.volume,
+    });
+  });
+  return result;
+}
@@ -0,0 +1,29 @@
+// HTTP helper shared by the provider adapters
+import { NetworkError } from './errors';
+
+/**
+ * Fetch and parse a JSON document, turning transport failures, error
+ * statuses and unparseable bodies into NetworkError
+ * @param url - Address to fetch
+ * @param source - Description of the request, for error messages
+ * @param init - Optional fetch options
+ * @returns Parsed JSON body, not yet validated
+ */
+export async function fetchJson(url: string, source: string, init?: RequestInit): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new NetworkError(source, `Request to ${source} failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!response.ok) {
+    throw new NetworkError(source, `${source} responded with ${response.status}`, response.status);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new NetworkError(source, `${source} returned a body that is not JSON`, response.status);
+  }
+}
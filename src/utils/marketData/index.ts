@@ -0,0 +1,76 @@
+// Registry of market data providers
+import { alphaVantageProvider } from './alphaVantageProvider';
+import { getDataSourceConfig } from './config';
+import { localJsonProvider } from './localJsonProvider';
+import { mockProvider } from './mockProvider';
+import { predictionBackendProvider } from './predictionBackendProvider';
+import { proxyProvider } from './proxyProvider';
+import { MarketDataCapability, MarketDataProvider, MarketDataProviderId } from './types';
+
+export * from './model';
+export * from './types';
+export {
+  PROVIDER_IDS,
+  getDataSourceConfig,
+  getDefaultDataSourceConfig,
+  resetDataSourceConfig,
+  saveDataSourceConfig,
+  setDataSourceConfig,
+  usesBrowserApiKey,
+  validateDataSourceConfig,
+} from './config';
+export type { DataSourceConfig } from './config';
+
+const providers: Record<MarketDataProviderId, MarketDataProvider> = {
+  proxy: proxyProvider,
+  alphaVantage: alphaVantageProvider,
+  predictionBackend: predictionBackendProvider,
+  mock: mockProvider,
+  localJson: localJsonProvider,
+};
+
+const capabilityMethods: Record<MarketDataCapability, keyof MarketDataProvider> = {
+  quote: "fetchQuote",
+  overview: "fetchOverview",
+  history: "fetchHistory",
+  predictions: "fetchPredictions",
+  marketVolatility: "fetchMarketVolatility",
+  search: "searchSymbols",
+};
+
+/**
+ * Get all registered providers
+ * @returns Providers keyed by id
+ */
+export function getProviders(): Record<MarketDataProviderId, MarketDataProvider> {
+  return providers;
+}
+
+/**
+ * Check whether a provider supports a capability
+ * @param provider - Provider to check
+ * @param capability - Requested data type
+ */
+export function supports(provider: MarketDataProvider, capability: MarketDataCapability): boolean {
+  return typeof provider[capabilityMethods[capability]] === "function";
+}
+
+/**
+ * Get the configured provider for a capability. Falls back to the mock
+ * provider when the configured one does not support the capability.
+ * @param capability - Requested data type
+ * @returns Provider to use
+ */
+export function getProvider(capability: MarketDataCapability): MarketDataProvider {
+  const id = getDataSourceConfig().providers[capability];
+  const provider = providers[id];
+
+  if (!provider || !supports(provider, capability)) {
+    console.warn(`Provider "${id}" does not support ${capability}, using mock data`);
+    return mockProvider;
+  }
+
+  return provider;
+}
+
+export { mockProvider };
@@ -0,0 +1,89 @@
+// Local JSON adapter: serves data from a static file, e.g. a stand-in for tests
+import { z } from 'zod';
+import { forecastFromPrediction, quoteFromPayload } from './adapters';
+import { getDataSourceConfig } from './config';
+import { fetchJson } from './http';
+import { filterBarsToPeriod } from './history';
+import {
+  CompanyOverviewSchema,
+  PriceBarSchema,
+  MarketVolatilitySchema,
+  QuoteSchema,
+  StockPredictionSchema,
+  parseResponse,
+} from './schemas';
+import { PriceBar } from './model';
+import {
+  ChartPeriod,
+  CompanyOverview,
+  MarketDataProvider,
+  MarketVolatility,
+  QuotePayload,
+  StockPrediction,
+} from './types';
+
+// Shape of the JSON document; every section is optional
+interface LocalMarketData {
+  quotes?: Record<string, QuotePayload>;
+  overviews?: Record<string, CompanyOverview>;
+  // Bars in ascending time order; each period shows its trailing slice
+  histories?: Record<string, PriceBar[]>;
+  predictions?: Record<string, StockPrediction>;
+  marketVolatility?: MarketVolatility;
+}
+
+const LocalMarketDataSchema = z.object({
+  quotes: z.record(QuoteSchema).optional(),
+  overviews: z.record(CompanyOverviewSchema).optional(),
+  histories: z.record(z.array(PriceBarSchema)).optional(),
+  predictions: z.record(StockPredictionSchema).optional(),
+  marketVolatility: MarketVolatilitySchema.optional(),
+});
+
+// The file is loaded once per URL and shared by all requests
+let loaded: { url: string; data: Promise<LocalMarketData> } | null = null;
+
+const loadData = (): Promise<LocalMarketData> => {
+  const { localJsonUrl } = getDataSourceConfig();
+
+  if (!loaded || loaded.url !== localJsonUrl) {
+    const source = `local market data (${localJsonUrl})`;
+    const data = fetchJson(localJsonUrl, source)
+      .then(json => parseResponse<LocalMarketData>(LocalMarketDataSchema, json, source));
+    // Forget failed loads so the next request retries
+    data.catch(() => {
+      loaded = null;
+    });
+    loaded = { url: localJsonUrl, data };
+  }
+
+  return loaded.data;
+};
+
+// Look up a symbol in one section of the file
+const lookup = async <T>(section: "quotes" | "overviews" | "histories" | "predictions", symbol: string): Promise<T> => {
+  const data = await loadData();
+  const entry = data[section]?.[symbol.toUpperCase()];
+  if (!entry) {
+    throw new Error(`No local ${section} entry for ${symbol}`);
+  }
+  return entry as T;
+};
+
+export const localJsonProvider: MarketDataProvider = {
+  id: "localJson",
+  name: "Local JSON file",
+  fetchQuote: async (symbol: string) => quoteFromPayload(await lookup<QuotePayload>("quotes", symbol)),
+  fetchOverview: (symbol: string) => lookup<CompanyOverview>("overviews", symbol),
+  fetchHistory: async (symbol: string, period: ChartPeriod) =>
+    filterBarsToPeriod(await lookup<PriceBar[]>("histories", symbol), period),
+  fetchPredictions: async (stockCode: string) =>
+    forecastFromPrediction(await lookup<StockPrediction>("predictions", stockCode)),
+  fetchMarketVolatility: async () => {
+    const data = await loadData();
+    if (!data.marketVolatility) {
+      throw new Error('No local market volatility entry');
+    }
+    return data.marketVolatility;
+  },
+};
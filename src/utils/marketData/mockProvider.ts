@@ -0,0 +1,42 @@
+// Mock adapter: simulated data for when real APIs are unavailable
+import { forecastFromPrediction } from './adapters';
+import { Forecast, PriceBar, Quote } from './model';
+import { simulateHistory, simulateMarketVolatility, simulatePrediction, simulateQuote } from './simulator';
+import { resolveInstrument, searchKnownInstruments } from './symbolDirectory';
+import { ChartPeriod, CompanyOverview, MarketDataProvider, MarketVolatility } from './types';
+
+// Simulated forecast for when the prediction API is unavailable
+export const getMockForecast = (stockCode: string): Forecast => ({
+  ...forecastFromPrediction(simulatePrediction(stockCode)),
+  simulated: true,
+});
+
+// Simulated market summary for when the prediction API is unavailable
+export const getMockMarketVolatility = (): MarketVolatility => ({ ...simulateMarketVolatility(), simulated: true });
+
+// Simulated quote for when the quote API is unavailable
+export const getStockFallbackData = (stockCode: string): Quote => ({ ...simulateQuote(stockCode), simulated: true });
+
+// Simulated price bars for when no real history is available
+export const generateMockHistory = (ticker: string, period: ChartPeriod): PriceBar[] => simulateHistory(ticker, period);
+
+export const mockProvider: MarketDataProvider = {
+  id: "mock",
+  name: "Simulated market data",
+  fetchQuote: async (symbol: string) => getStockFallbackData(symbol),
+  fetchOverview: async (symbol: string): Promise<CompanyOverview> => {
+    // Bundled listings carry a classification; other tickers have none
+    const instrument = resolveInstrument(symbol);
+    return {
+      Symbol: symbol.toUpperCase(),
+      MarketCapitalization: String(simulateQuote(symbol).marketCap),
+      Sector: instrument?.sector,
+      Industry: instrument?.industry,
+    };
+  },
+  fetchHistory: async (symbol: string, period: ChartPeriod) => generateMockHistory(symbol, period),
+  fetchPredictions: async (stockCode: string) => getMockForecast(stockCode),
+  fetchMarketVolatility: async () => getMockMarketVolatility(),
+  // The bundled symbol list, so search works offline
+  searchSymbols: async (query: string) => searchKnownInstruments(query),
+};
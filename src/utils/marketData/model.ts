@@ -0,0 +1,82 @@
+// Domain model for market data. Every provider payload is converted into
+// these shapes by the adapters in ./adapters, so the rest of the app works
+// with plain numbers and epoch-millisecond timestamps; formatting happens
+// only when values are rendered.
+
+// ISO 4217 code, e.g. "USD"
+export type CurrencyCode = string;
+
+// Currency of US listings, and of any listing whose currency isn't known
+export const DEFAULT_CURRENCY: CurrencyCode = "USD";
+
+// A tradable security
+export interface Instrument {
+  symbol: string;
+  name: string;
+  currency: CurrencyCode;
+  exchange?: string;
+  // Classification, e.g. "Information Technology" / "Semiconductors"; absent until known
+  sector?: string;
+  industry?: string;
+}
+
+// An instrument returned by a symbol search
+export interface SymbolMatch extends Instrument {
+  // Relevance from 0 to 1, higher is better
+  score: number;
+  // Market the listing trades in, e.g. "United States"
+  region?: string;
+}
+
+// Latest trading snapshot for an instrument
+export interface Quote {
+  symbol: string;
+  currency: CurrencyCode;
+  price: number;
+  open: number;
+  high: number;
+  low: number;
+  previousClose: number;
+  change: number;
+  // Percentage points, e.g. 0.48 for +0.48%
+  changePercent: number;
+  volume: number;
+  marketCap?: number;
+  // When the quote was observed, in epoch milliseconds
+  asOf: number;
+  // Set when the quote was generated by the simulator instead of a quote provider
+  simulated?: boolean;
+}
+
+// One OHLCV bar of a price history; time is the bar's start in epoch milliseconds
+export interface PriceBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Predicted price a number of trading days after the forecast was issued
+export interface ForecastPoint {
+  horizonDays: number;
+  price: number;
+}
+
+// Model forecast for an instrument
+export interface Forecast {
+  symbol: string;
+  currency: CurrencyCode;
+  modelVersion: string;
+  // Start of the day the forecast was made for, in epoch milliseconds (UTC)
+  issuedAt: number;
+  // Ascending by horizon
+  points: ForecastPoint[];
+  // Predicted change at the longest horizon, in percentage points
+  percentChange: number;
+  // Signed score from -5 (strongly bearish) to 5 (strongly bullish)
+  volatilityScore: number;
+  // Set when the forecast was generated by the simulator instead of a prediction provider
+  simulated?: boolean;
+}
@@ -0,0 +1,31 @@
+// Prediction backend adapter: AI forecasts and market volatility summaries
+import { forecastFromPrediction } from './adapters';
+import { getDataSourceConfig } from './config';
+import { fetchJson } from './http';
+import { MarketVolatilitySchema, StockPredictionSchema, parseResponse } from './schemas';
+import { MarketDataProvider, MarketVolatility, StockPrediction } from './types';
+
+// Fetch a JSON document from the prediction backend
+const fetchBackend = (path: string, description: string): Promise<unknown> =>
+  fetchJson(`${getDataSourceConfig().predictionApiBaseUrl}${path}`, description, {
+    // Bypass the browser's HTTP cache; the app keeps its own
+    cache: 'no-cache',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+export const predictionBackendProvider: MarketDataProvider = {
+  id: "predictionBackend",
+  name: "Prediction backend",
+  fetchPredictions: async (stockCode: string) => {
+    const source = `prediction backend for ${stockCode}`;
+    const data = await fetchBackend(`/get_predictions?stock=${encodeURIComponent(stockCode)}`, source);
+    return forecastFromPrediction(parseResponse<StockPrediction>(StockPredictionSchema, data, source));
+  },
+  fetchMarketVolatility: async () => {
+    const source = 'prediction backend market volatility';
+    const data = await fetchBackend('/market_volatility', source);
+    return parseResponse<MarketVolatility>(MarketVolatilitySchema, data, source);
+  },
+};
@@ -0,0 +1,64 @@
+// REST contract between the frontend and the market data proxy server in server/
+// Shared by both sides, so keep this file free of browser- and Node-only APIs.
+import type { DataErrorKind } from './errors';
+
+// Upstream services whose credentials the proxy holds
+export type ApiKeyProvider = "alphaVantage" | "predictionBackend";
+
+export const API_KEY_PROVIDERS: ApiKeyProvider[] = ["alphaVantage", "predictionBackend"];
+
+export interface ApiKeyStatus {
+  provider: ApiKeyProvider;
+  configured: boolean;
+  // Last characters of the key, e.g. "••••8QA"; the full key never leaves the server
+  masked: string | null;
+  // Where the active key came from
+  source: "env" | "admin" | null;
+  updatedAt: number | null;
+}
+
+export interface ProxyHealth {
+  status: "ok";
+  uptime: number;
+  cache: {
+    entries: number;
+    hits: number;
+    misses: number;
+    staleHits: number;
+  };
+  keys: ApiKeyStatus[];
+}
+
+// Body sent with every non-2xx response
+export interface ProxyErrorBody {
+  error: {
+    kind: DataErrorKind | "not-found" | "bad-request" | "unauthorized";
+    message: string;
+    // Set for rate-limit errors
+    daily?: boolean;
+  };
+}
+
+export interface UpdateApiKeyRequest {
+  key: string;
+}
+
+// Request paths, relative to the proxy's base URL
+export const proxyRoutes = {
+  health: () => "/health",
+  quote: (symbol: string) => `/quote/${encodeURIComponent(symbol.toUpperCase())}`,
+  overview: (symbol: string) => `/overview/${encodeURIComponent(symbol.toUpperCase())}`,
+  history: (symbol: string, period: string) =>
+    `/history/${encodeURIComponent(symbol.toUpperCase())}?period=${encodeURIComponent(period)}`,
+  predictions: (symbol: string) => `/predictions/${encodeURIComponent(symbol.toUpperCase())}`,
+  marketVolatility: () => "/market-volatility",
+  search: (query: string) => `/search?q=${encodeURIComponent(query)}`,
+  keys: () => "/admin/keys",
+  key: (provider: ApiKeyProvider) => `/admin/keys/${provider}`,
+};
+
+// Header the proxy uses to report how a response was served
+export const CACHE_STATUS_HEADER = "X-Cache";
+
+// Header carrying a request's priority, used to order the proxy's upstream queue
+export const PRIORITY_HEADER = "X-Request-Priority";
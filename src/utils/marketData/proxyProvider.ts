@@ -0,0 +1,101 @@
+// Proxy adapter: all market data through the server in server/, which holds the API keys
+import { z } from 'zod';
+import { quoteFromPayload } from './adapters';
+import { getDataSourceConfig } from './config';
+import { NetworkError, ProviderAccessError, RateLimitError } from './errors';
+import { PRIORITY_HEADER, ProxyErrorBody, proxyRoutes } from './proxyApi';
+import { Forecast, PriceBar, SymbolMatch } from './model';
+import {
+  CompanyOverviewSchema,
+  ForecastSchema,
+  MarketVolatilitySchema,
+  PriceBarSchema,
+  QuoteSchema,
+  SymbolMatchSchema,
+  parseResponse,
+} from './schemas';
+import {
+  ChartPeriod,
+  CompanyOverview,
+  MarketDataProvider,
+  MarketVolatility,
+  QuotePayload,
+  RequestOptions,
+} from './types';
+
+/**
+ * Send a request to the proxy and parse its JSON reply. Error responses are
+ * turned into RateLimitError, ProviderAccessError or NetworkError using the
+ * proxy's error body.
+ * @param path - Route from proxyRoutes
+ * @param source - Description of the request, for error messages
+ * @param init - Optional fetch options
+ * @returns Parsed JSON body
+ */
+export async function proxyRequest(path: string, source: string, init?: RequestInit): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(`${getDataSourceConfig().proxyBaseUrl}${path}`, init);
+  } catch (error) {
+    throw new NetworkError(source, `Request to ${source} failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const { error } = (body ?? {}) as Partial<ProxyErrorBody>;
+    const message = error?.message || `${source} responded with ${response.status}`;
+    if (error?.kind === 'rate-limit') {
+      throw new RateLimitError('proxy', message, error.daily);
+    }
+    if (error?.kind === 'auth' || error?.kind === 'unsupported') {
+      throw new ProviderAccessError('proxy', message, error.kind);
+    }
+    throw new NetworkError(source, message, response.status);
+  }
+
+  if (body === null) {
+    throw new NetworkError(source, `${source} returned a body that is not JSON`, response.status);
+  }
+
+  return body;
+}
+
+// Pass the caller's priority on, so the proxy queues upstream requests the same way
+const withPriority = (options?: RequestOptions): RequestInit | undefined =>
+  options?.priority ? { headers: { [PRIORITY_HEADER]: options.priority } } : undefined;
+
+export const proxyProvider: MarketDataProvider = {
+  id: "proxy",
+  name: "Market data proxy",
+  fetchQuote: async (symbol: string, options?: RequestOptions) => {
+    const source = `proxy quote for ${symbol}`;
+    const data = await proxyRequest(proxyRoutes.quote(symbol), source, withPriority(options));
+    return quoteFromPayload(parseResponse<QuotePayload>(QuoteSchema, data, source));
+  },
+  fetchOverview: async (symbol: string, options?: RequestOptions) => {
+    const source = `proxy overview for ${symbol}`;
+    const data = await proxyRequest(proxyRoutes.overview(symbol), source, withPriority(options));
+    return parseResponse<CompanyOverview>(CompanyOverviewSchema, data, source);
+  },
+  fetchHistory: async (symbol: string, period: ChartPeriod, options?: RequestOptions) => {
+    const source = `proxy ${period} history for ${symbol}`;
+    const data = await proxyRequest(proxyRoutes.history(symbol, period), source, withPriority(options));
+    return parseResponse<PriceBar[]>(z.array(PriceBarSchema), data, source);
+  },
+  fetchPredictions: async (stockCode: string, options?: RequestOptions) => {
+    const source = `proxy predictions for ${stockCode}`;
+    const data = await proxyRequest(proxyRoutes.predictions(stockCode), source, withPriority(options));
+    return parseResponse<Forecast>(ForecastSchema, data, source);
+  },
+  fetchMarketVolatility: async () => {
+    const source = 'proxy market volatility';
+    const data = await proxyRequest(proxyRoutes.marketVolatility(), source);
+    return parseResponse<MarketVolatility>(MarketVolatilitySchema, data, source);
+  },
+  searchSymbols: async (query: string, options?: RequestOptions) => {
+    const source = `proxy symbol search for "${query}"`;
+    const data = await proxyRequest(proxyRoutes.search(query), source, withPriority(options));
+    return parseResponse<SymbolMatch[]>(z.array(SymbolMatchSchema), data, source);
+  },
+};
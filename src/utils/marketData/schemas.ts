@@ -0,0 +1,215 @@
+// Runtime schemas for every response the market data layer consumes
+// The project compiles without strictNullChecks, which makes zod's inferred
+// types all-optional, so parsed values are typed by the caller instead.
+import { z } from 'zod';
+import { ValidationError } from './errors';
+
+/**
+ * A number that may arrive as a string, as Alpha Vantage sends all values.
+ * A trailing "%" is dropped; empty strings and "None" are rejected.
+ */
+const numeric = z.union([
+  z.number(),
+  z.string()
+    .trim()
+    .transform(value => value.replace(/%$/, ''))
+    .pipe(z.string().regex(/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i, 'Expected a numeric string'))
+    .transform(Number),
+]).pipe(z.number().finite());
+
+export const StockPredictionSchema = z.object({
+  date: z.string(),
+  model_version: z.string(),
+  percent_change: numeric,
+  pred_1d: numeric,
+  pred_2d: numeric,
+  pred_3d: numeric,
+  pred_4d: numeric,
+  pred_5d: numeric,
+  stock_name: z.string(),
+  volatility_score: numeric,
+});
+
+const MostActiveStockSchema = z.object({
+  percent_change: numeric,
+  score: numeric,
+  stock: z.string(),
+});
+
+export const MarketVolatilitySchema = z.object({
+  bearish_stocks: numeric,
+  bullish_stocks: numeric,
+  market_percent_change: numeric,
+  market_sentiment: z.string(),
+  market_strength: z.string(),
+  market_volatility_score: numeric,
+  most_bearish: MostActiveStockSchema,
+  most_bullish: MostActiveStockSchema,
+  neutral_stocks: numeric,
+  total_stocks_analyzed: numeric,
+});
+
+// A quote already in the app's shape, e.g. from the local JSON file
+export const QuoteSchema = z.object({
+  symbol: z.string(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code').optional(),
+  open: numeric,
+  high: numeric,
+  low: numeric,
+  price: numeric,
+  volume: numeric,
+  previousClose: numeric,
+  change: numeric,
+  changePercent: numeric,
+  marketCap: numeric.optional(),
+  asOf: numeric.optional(),
+});
+
+// Alpha Vantage GLOBAL_QUOTE response, with its numbered keys renamed
+export const GlobalQuoteResponseSchema = z.object({
+  'Global Quote': z.object({
+    '01. symbol': z.string(),
+    '02. open': numeric,
+    '03. high': numeric,
+    '04. low': numeric,
+    '05. price': numeric,
+    '06. volume': numeric,
+    '07. latest trading day': z.string(),
+    '08. previous close': numeric,
+    '09. change': numeric,
+    '10. change percent': numeric,
+  }),
+}).transform(({ 'Global Quote': quote }) => ({
+  symbol: quote['01. symbol'],
+  open: quote['02. open'],
+  high: quote['03. high'],
+  low: quote['04. low'],
+  price: quote['05. price'],
+  volume: quote['06. volume'],
+  latestTradingDay: quote['07. latest trading day'],
+  previousClose: quote['08. previous close'],
+  change: quote['09. change'],
+  changePercent: quote['10. change percent'],
+}));
+
+// Alpha Vantage SYMBOL_SEARCH response, with its numbered keys renamed
+export const SymbolSearchResponseSchema = z.object({
+  bestMatches: z.array(z.object({
+    '1. symbol': z.string(),
+    '2. name': z.string(),
+    '3. type': z.string(),
+    '4. region': z.string(),
+    '8. currency': z.string(),
+    '9. matchScore': numeric,
+  })),
+}).transform(({ bestMatches }) => bestMatches.map(match => ({
+  symbol: match['1. symbol'],
+  name: match['2. name'],
+  type: match['3. type'],
+  region: match['4. region'],
+  currency: match['8. currency'],
+  matchScore: match['9. matchScore'],
+})));
+
+// A search result already in the app's shape, as sent by the proxy
+export const SymbolMatchSchema = z.object({
+  symbol: z.string(),
+  name: z.string(),
+  currency: z.string(),
+  exchange: z.string().optional(),
+  region: z.string().optional(),
+  score: numeric,
+});
+
+// A forecast already in the app's shape, as sent by the proxy
+export const ForecastSchema = z.object({
+  symbol: z.string(),
+  currency: z.string(),
+  modelVersion: z.string(),
+  issuedAt: numeric,
+  points: z.array(z.object({
+    horizonDays: numeric,
+    price: numeric,
+  })),
+  percentChange: numeric,
+  volatilityScore: numeric,
+});
+
+// Alpha Vantage OVERVIEW response; unknown fields are kept as-is
+export const CompanyOverviewSchema = z.object({
+  Symbol: z.string(),
+  Name: z.string().optional(),
+  MarketCapitalization: z.string().optional(),
+}).catchall(z.string().optional());
+
+/**
+ * Validate a response against a schema
+ * @param schema - Expected shape
+ * @param data - Parsed JSON body
+ * @param source - Description of where the data came from, for error messages
+ * @returns The parsed value, with string numbers coerced
+ * @throws ValidationError when the data doesn't match
+ */
+export function parseResponse<T>(schema: z.ZodTypeAny, data: unknown, source: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ValidationError(source, result.error.issues);
+  }
+  return result.data as T;
+}
+
+// One bar of an Alpha Vantage TIME_SERIES_* response
+const AlphaVantageBarSchema = z.object({
+  '1. open': numeric,
+  '2. high': numeric,
+  '3. low': numeric,
+  '4. close': numeric,
+  '5. volume': numeric,
+});
+
+/**
+ * Alpha Vantage TIME_SERIES_* response, mapped to bars in ascending time
+ * order. The series key varies by function ("Time Series (60min)",
+ * "Time Series (Daily)", "Weekly Time Series"), so it is matched by name.
+ */
+// Daily and weekly series are keyed by date alone ("2025-05-09"); those are
+// read as UTC midnight, so a bar lands on the same trading day in every
+// timezone. Intraday timestamps ("2025-05-09 16:00:00") are exchange-local and
+// parsed as local time.
+const parseSeriesTimestamp = (timestamp: string): number => {
+  const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(timestamp);
+  return date
+    ? Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3]))
+    : new Date(timestamp.replace(' ', 'T')).getTime();
+};
+
+export const TimeSeriesResponseSchema = z.record(z.unknown())
+  .transform((body, ctx) => {
+    const seriesKey = Object.keys(body).find(key => /time series/i.test(key));
+    if (!seriesKey) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Missing time series' });
+      return z.NEVER;
+    }
+    return body[seriesKey];
+  })
+  .pipe(z.record(AlphaVantageBarSchema))
+  .transform(series => Object.entries(series)
+    .map(([timestamp, bar]) => ({
+      time: parseSeriesTimestamp(timestamp),
+      open: bar['1. open'],
+      high: bar['2. high'],
+      low: bar['3. low'],
+      close: bar['4. close'],
+      volume: bar['5. volume'],
+    }))
+    .sort((a, b) => a.time - b.time));
+
+// A bar already in the app's shape
+export const PriceBarSchema = z.object({
+  time: numeric,
+  open: numeric,
+  high: numeric,
+  low: numeric,
+  close: numeric,
+  volume: numeric,
+});
@@ -0,0 +1,383 @@
+// Deterministic market simulator used for demo and offline mode
+// Every ticker follows a geometric Brownian motion driven by a seeded PRNG,
+// so quotes, histories and predictions for the same ticker and time always
+// agree with each other, across components and across reloads.
+import { DEFAULT_CURRENCY, PriceBar, Quote } from './model';
+import { ChartPeriod, MarketVolatility, MostActiveStock, StockPrediction } from './types';
+
+export interface InstrumentProfile {
+  symbol: string;
+  // Price on the anchor date; the path is simulated forwards and backwards from it
+  anchorPrice: number;
+  // Annualized drift and volatility
+  drift: number;
+  volatility: number;
+  averageVolume: number;
+  sharesOutstanding: number;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Each simulated day is split into 96 fifteen-minute steps
+const STEP = 15 * MINUTE;
+const STEPS_PER_DAY = DAY / STEP;
+
+// Date all simulated paths pass through their anchor price
+const ANCHOR_DAY = Math.floor(Date.UTC(2025, 0, 2) / DAY);
+
+// Prices are simulated around the clock, so a year has 365 steps of one day
+const DAYS_PER_YEAR = 365;
+
+// Tickers shown in the default watchlist, also used for market summaries
+export const SIMULATED_UNIVERSE = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'META', 'TSLA'];
+
+// Real-world calibration for well-known tickers
+const KNOWN_PROFILES: Record<string, Omit<InstrumentProfile, 'symbol'>> = {
+  AAPL: { anchorPrice: 198.52, drift: 0.12, volatility: 0.24, averageVolume: 48e6, sharesOutstanding: 15.5e9 },
+  MSFT: { anchorPrice: 417.52, drift: 0.14, volatility: 0.22, averageVolume: 20e6, sharesOutstanding: 7.76e9 },
+  GOOGL: { anchorPrice: 164.32, drift: 0.1, volatility: 0.28, averageVolume: 23e6, sharesOutstanding: 12.4e9 },
+  AMZN: { anchorPrice: 181.22, drift: 0.13, volatility: 0.32, averageVolume: 36e6, sharesOutstanding: 10.3e9 },
+  META: { anchorPrice: 587.31, drift: 0.15, volatility: 0.36, averageVolume: 11e6, sharesOutstanding: 2.57e9 },
+  TSLA: { anchorPrice: 275.35, drift: 0.08, volatility: 0.6, averageVolume: 77e6, sharesOutstanding: 3.18e9 },
+};
+
+/**
+ * Hash a string into a 32-bit seed
+ * @param value - String to hash
+ * @returns Unsigned 32-bit integer
+ */
+export function hashSeed(value: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * @param seed - 32-bit seed
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal sample using the Box-Muller transform
+const gaussian = (rng: () => number): number => {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Independent generator for one ticker, one purpose and one day
+const rngFor = (symbol: string, stream: string, day: number) => createRng(hashSeed(`${symbol}:${stream}:${day}`));
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+const profiles: Record<string, InstrumentProfile> = {};
+
+/**
+ * Get the simulation parameters for a ticker. Well-known tickers use
+ * calibrated values; any other ticker gets stable parameters derived from its name.
+ * @param symbol - Stock ticker
+ * @returns Instrument profile
+ */
+export function getInstrumentProfile(symbol: string): InstrumentProfile {
+  const key = symbol.toUpperCase();
+  if (profiles[key]) return profiles[key];
+
+  const known = KNOWN_PROFILES[key];
+  if (known) {
+    profiles[key] = { symbol: key, ...known };
+    return profiles[key];
+  }
+
+  const rng = createRng(hashSeed(key));
+  const anchorPrice = round(20 + rng() * 480);
+  const averageVolume = Math.round(Math.pow(10, 5.5 + rng() * 2.5));
+  profiles[key] = {
+    symbol: key,
+    anchorPrice,
+    drift: -0.05 + rng() * 0.2,
+    volatility: 0.15 + rng() * 0.45,
+    averageVolume,
+    sharesOutstanding: Math.round(averageVolume * (20 + rng() * 180)),
+  };
+  return profiles[key];
+}
+
+// Log closing prices by ticker and day, filled outwards from the anchor day
+const closeCache: Record<string, Map<number, number>> = {};
+
+// Change in log price over one day
+const dailyLogReturn = (profile: InstrumentProfile, day: number): number => {
+  const dt = 1 / DAYS_PER_YEAR;
+  const { drift, volatility } = profile;
+  return (drift - (volatility * volatility) / 2) * dt + volatility * Math.sqrt(dt) * gaussian(rngFor(profile.symbol, 'day', day));
+};
+
+// Log price at the end of the given day
+const logClose = (profile: InstrumentProfile, day: number): number => {
+  const closes = closeCache[profile.symbol] || (closeCache[profile.symbol] = new Map([[ANCHOR_DAY, Math.log(profile.anchorPrice)]]));
+
+  if (!closes.has(day)) {
+    const direction = day > ANCHOR_DAY ? 1 : -1;
+    let current = ANCHOR_DAY;
+    while (closes.has(current + direction)) current += direction;
+
+    let value = closes.get(current);
+    while (current !== day) {
+      if (direction > 0) {
+        current++;
+        value += dailyLogReturn(profile, current);
+      } else {
+        value -= dailyLogReturn(profile, current);
+        current--;
+      }
+      closes.set(current, value);
+    }
+  }
+
+  return closes.get(day);
+};
+
+const intradayCache: Record<string, number[]> = {};
+
+// Prices at every step of a day, from the previous close to the day's close.
+// A Brownian bridge keeps intraday moves consistent with the daily path.
+const intradayPath = (profile: InstrumentProfile, day: number): number[] => {
+  const key = `${profile.symbol}:${day}`;
+  if (intradayCache[key]) return intradayCache[key];
+
+  const start = logClose(profile, day - 1);
+  const end = logClose(profile, day);
+  const rng = rngFor(profile.symbol, 'intraday', day);
+  const stepVolatility = profile.volatility * Math.sqrt(1 / DAYS_PER_YEAR / STEPS_PER_DAY);
+
+  const walk = [0];
+  for (let i = 1; i <= STEPS_PER_DAY; i++) {
+    walk.push(walk[i - 1] + stepVolatility * gaussian(rng));
+  }
+
+  const path = walk.map((w, i) => {
+    const progress = i / STEPS_PER_DAY;
+    return Math.exp(start + (end - start) * progress + w - progress * walk[STEPS_PER_DAY]);
+  });
+
+  intradayCache[key] = path;
+  return path;
+};
+
+/**
+ * Get the simulated price at a point in time
+ * @param symbol - Stock ticker
+ * @param time - Timestamp in milliseconds
+ * @returns Price at the end of the 15-minute step containing the time,
+ * which is the close of that step's bar
+ */
+export function getSimulatedPrice(symbol: string, time: number = Date.now()): number {
+  const profile = getInstrumentProfile(symbol);
+  const day = Math.floor(time / DAY);
+  const step = Math.floor((time - day * DAY) / STEP);
+  return round(intradayPath(profile, day)[step + 1]);
+}
+
+// Trading volume for one step; quieter overnight, busier around midday
+const stepVolume = (profile: InstrumentProfile, step: number, rng: () => number): number => {
+  const hour = (step * STEP) / (60 * MINUTE);
+  const activity = 1 + 0.6 * (Math.sin((Math.PI * hour) / 24) - 2 / Math.PI);
+  return (profile.averageVolume / STEPS_PER_DAY) * activity * Math.exp(0.35 * gaussian(rng));
+};
+
+// Build bars covering [from, to) at a fixed bar size that is a multiple of a step
+const buildBars = (profile: InstrumentProfile, from: number, to: number, barSize: number): PriceBar[] => {
+  const bars: PriceBar[] = [];
+  const stepsPerBar = barSize / STEP;
+
+  for (let barStart = from; barStart < to; barStart += barSize) {
+    let open: number;
+    let close: number;
+    let high = -Infinity;
+    let low = Infinity;
+    let volume = 0;
+
+    for (let i = 0; i < stepsPerBar; i++) {
+      const time = barStart + i * STEP;
+      if (time >= to) break;
+
+      const day = Math.floor(time / DAY);
+      const step = Math.floor((time - day * DAY) / STEP);
+      const path = intradayPath(profile, day);
+      const volumeRng = rngFor(profile.symbol, 'volume', day * STEPS_PER_DAY + step);
+
+      if (open === undefined) open = path[step];
+      close = path[step + 1];
+      high = Math.max(high, path[step], path[step + 1]);
+      low = Math.min(low, path[step], path[step + 1]);
+      volume += stepVolume(profile, step, volumeRng);
+    }
+
+    bars.push({
+      time: barStart,
+      open: round(open),
+      high: round(high),
+      low: round(low),
+      close: round(close),
+      volume: Math.round(volume),
+    });
+  }
+
+  return bars;
+};
+
+// Bar size and span for each chart period
+const HISTORY_LAYOUT: Record<ChartPeriod, { barSize: number; span: number }> = {
+  "1d": { barSize: STEP, span: DAY },
+  "5d": { barSize: 4 * STEP, span: 5 * DAY },
+  "1mo": { barSize: DAY, span: 30 * DAY },
+  "3mo": { barSize: DAY, span: 90 * DAY },
+  "6mo": { barSize: 7 * DAY, span: 182 * DAY },
+  "1y": { barSize: 7 * DAY, span: 364 * DAY },
+};
+
+/**
+ * Simulate price history for a ticker. The last bar ends at the current
+ * 15-minute step, so its close matches the simulated quote.
+ * @param symbol - Stock ticker
+ * @param period - Chart period
+ * @param now - Reference time, defaults to the current time
+ * @returns Bars ordered oldest first
+ */
+export function simulateHistory(symbol: string, period: ChartPeriod, now: number = Date.now()): PriceBar[] {
+  const profile = getInstrumentProfile(symbol);
+  const { barSize, span } = HISTORY_LAYOUT[period];
+
+  // End after the step that is in progress, aligned so the final bar contains it
+  const end = Math.floor(now / STEP) * STEP + STEP;
+  const start = end - Math.ceil(span / barSize) * barSize;
+
+  return buildBars(profile, start, end, barSize);
+}
+
+/**
+ * Simulate a quote for a ticker
+ * @param symbol - Stock ticker
+ * @param now - Reference time, defaults to the current time
+ * @returns Quote for the current trading day
+ */
+export function simulateQuote(symbol: string, now: number = Date.now()): Quote {
+  const profile = getInstrumentProfile(symbol);
+  const dayStart = Math.floor(now / DAY) * DAY;
+  const [today] = buildBars(profile, dayStart, Math.floor(now / STEP) * STEP + STEP, DAY);
+
+  const previousClose = round(Math.exp(logClose(profile, Math.floor(now / DAY) - 1)));
+  const price = today.close;
+  const change = price - previousClose;
+
+  return {
+    symbol: symbol.toUpperCase(),
+    currency: DEFAULT_CURRENCY,
+    open: today.open,
+    high: today.high,
+    low: today.low,
+    price,
+    volume: today.volume,
+    previousClose,
+    change: round(change),
+    changePercent: round((change / previousClose) * 100),
+    marketCap: Math.round(price * profile.sharesOutstanding),
+    asOf: now,
+  };
+}
+
+/**
+ * Simulate a five-day prediction for a ticker. The forecast is the expected
+ * drift plus model error, so it does not simply reveal the future path.
+ * @param symbol - Stock ticker
+ * @param now - Reference time, defaults to the current time
+ * @returns Prediction in the prediction backend's format
+ */
+export function simulatePrediction(symbol: string, now: number = Date.now()): StockPrediction {
+  const profile = getInstrumentProfile(symbol);
+  const day = Math.floor(now / DAY);
+  const rng = rngFor(profile.symbol, 'prediction', day);
+  const price = getSimulatedPrice(symbol, now);
+
+  // Daily expected move with a persistent model bias for the day
+  const dailyVolatility = profile.volatility / Math.sqrt(DAYS_PER_YEAR);
+  const bias = 0.5 * dailyVolatility * gaussian(rng);
+  const dailyMove = profile.drift / DAYS_PER_YEAR + bias;
+
+  const predictions: number[] = [];
+  let predicted = price;
+  for (let i = 1; i <= 5; i++) {
+    predicted *= Math.exp(dailyMove + 0.15 * dailyVolatility * gaussian(rng));
+    predictions.push(round(predicted));
+  }
+
+  const percentChange = round(((predictions[4] - price) / price) * 100);
+
+  return {
+    date: new Date(day * DAY).toISOString().split('T')[0],
+    model_version: "sim-gbm-1",
+    percent_change: percentChange,
+    pred_1d: predictions[0],
+    pred_2d: predictions[1],
+    pred_3d: predictions[2],
+    pred_4d: predictions[3],
+    pred_5d: predictions[4],
+    stock_name: symbol.toUpperCase(),
+    volatility_score: Math.max(-5, Math.min(5, Math.round(percentChange))),
+  };
+}
+
+// Sentiment label for an average volatility score
+const sentimentFor = (score: number): string => {
+  if (score <= -1.5) return "Bearish";
+  if (score <= -0.5) return "Slightly Bearish";
+  if (score < 0.5) return "Neutral";
+  if (score < 1.5) return "Slightly Bullish";
+  return "Bullish";
+};
+
+/**
+ * Summarize simulated predictions across a set of tickers
+ * @param symbols - Tickers to analyze, defaults to the simulated universe
+ * @param now - Reference time, defaults to the current time
+ * @returns Market volatility summary in the prediction backend's format
+ */
+export function simulateMarketVolatility(symbols: string[] = SIMULATED_UNIVERSE, now: number = Date.now()): MarketVolatility {
+  const entries: MostActiveStock[] = symbols.map(symbol => {
+    const prediction = simulatePrediction(symbol, now);
+    return { stock: prediction.stock_name, percent_change: prediction.percent_change, score: prediction.volatility_score };
+  });
+
+  const sorted = [...entries].sort((a, b) => b.percent_change - a.percent_change);
+  const averageScore = entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length;
+  const averageChange = entries.reduce((sum, entry) => sum + entry.percent_change, 0) / entries.length;
+  const spread = sorted[0].percent_change - sorted[sorted.length - 1].percent_change;
+
+  return {
+    bearish_stocks: entries.filter(entry => entry.score < 0).length,
+    bullish_stocks: entries.filter(entry => entry.score > 0).length,
+    market_percent_change: round(averageChange),
+    market_sentiment: sentimentFor(averageScore),
+    market_strength: spread > 8 ? "Strong" : spread > 3 ? "Moderate" : "Weak",
+    market_volatility_score: round(averageScore),
+    most_bearish: sorted[sorted.length - 1],
+    most_bullish: sorted[0],
+    neutral_stocks: entries.filter(entry => entry.score === 0).length,
+    total_stocks_analyzed: entries.length,
+  };
+}
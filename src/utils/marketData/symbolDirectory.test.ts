@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { normalizeSymbol, rememberInstrument, resolveInstrument } from "./symbolDirectory";
+
+describe("normalizeSymbol", () => {
+  it("accepts US share classes", () => {
+    expect(normalizeSymbol(" brk.b ")).toBe("BRK.B");
+    expect(normalizeSymbol("rds-a")).toBe("RDS-A");
+  });
+
+  it("accepts listings outside the US as symbol search returns them", () => {
+    expect(normalizeSymbol("reliance.bse")).toBe("RELIANCE.BSE");
+    expect(normalizeSymbol("0700.HKG")).toBe("0700.HKG");
+  });
+
+  it("rejects text that can't be a ticker", () => {
+    expect(normalizeSymbol("")).toBeNull();
+    expect(normalizeSymbol("APPLE INC")).toBeNull();
+    expect(normalizeSymbol("A".repeat(21))).toBeNull();
+  });
+});
+
+describe("resolveInstrument", () => {
+  it("resolves search results on foreign exchanges with their details", () => {
+    rememberInstrument({ symbol: "RELIANCE.BSE", name: "Reliance Industries Ltd", currency: "INR", exchange: "BSE" });
+    rememberInstrument({ symbol: "0700.HKG", name: "Tencent Holdings Ltd", currency: "HKD", exchange: "HKEX" });
+
+    expect(resolveInstrument("reliance.bse")).toMatchObject({ symbol: "RELIANCE.BSE", name: "Reliance Industries Ltd", currency: "INR" });
+    expect(resolveInstrument("0700.hkg")).toMatchObject({ symbol: "0700.HKG", name: "Tencent Holdings Ltd", currency: "HKD" });
+  });
+});
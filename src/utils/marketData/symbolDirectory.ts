@@ -0,0 +1,276 @@
+// Directory of known instruments, used to look up names and search by ticker or company.
+// The bundled list keeps search working offline; instruments found through a
+// provider's symbol search are remembered for the rest of the session.
+import { CurrencyCode, DEFAULT_CURRENCY, Instrument, SymbolMatch } from './model';
+
+// Ticker symbols as providers list them, e.g. "BRK.B", "RDS-A", "RELIANCE.BSE",
+// "0700.HKG" or "^GSPC". The proxy server accepts the same symbols.
+export const SYMBOL_PATTERN = /^[A-Z0-9.\-^=]{1,20}$/;
+
+const listing = (symbol: string, name: string, exchange: string, sector: string, industry: string): Instrument =>
+  ({ symbol, name, currency: DEFAULT_CURRENCY, exchange, sector, industry });
+
+export const KNOWN_INSTRUMENTS: Instrument[] = [
+  listing("AAPL", "Apple Inc.", "NASDAQ", "Information Technology", "Technology Hardware"),
+  listing("MSFT", "Microsoft Corp.", "NASDAQ", "Information Technology", "Software"),
+  listing("GOOGL", "Alphabet Inc.", "NASDAQ", "Communication Services", "Interactive Media"),
+  listing("AMZN", "Amazon.com Inc.", "NASDAQ", "Consumer Discretionary", "Broadline Retail"),
+  listing("META", "Meta Platforms Inc.", "NASDAQ", "Communication Services", "Interactive Media"),
+  listing("TSLA", "Tesla Inc.", "NASDAQ", "Consumer Discretionary", "Automobiles"),
+  listing("NVDA", "NVIDIA Corp.", "NASDAQ", "Information Technology", "Semiconductors"),
+  listing("NFLX", "Netflix Inc.", "NASDAQ", "Communication Services", "Entertainment"),
+  listing("AMD", "Advanced Micro Devices Inc.", "NASDAQ", "Information Technology", "Semiconductors"),
+  listing("INTC", "Intel Corp.", "NASDAQ", "Information Technology", "Semiconductors"),
+  listing("ADBE", "Adobe Inc.", "NASDAQ", "Information Technology", "Software"),
+  listing("CSCO", "Cisco Systems Inc.", "NASDAQ", "Information Technology", "Communications Equipment"),
+  listing("PEP", "PepsiCo Inc.", "NASDAQ", "Consumer Staples", "Beverages"),
+  listing("COST", "Costco Wholesale Corp.", "NASDAQ", "Consumer Staples", "Consumer Staples Retail"),
+  listing("AVGO", "Broadcom Inc.", "NASDAQ", "Information Technology", "Semiconductors"),
+  listing("ORCL", "Oracle Corp.", "NYSE", "Information Technology", "Software"),
+  listing("CRM", "Salesforce Inc.", "NYSE", "Information Technology", "Software"),
+  listing("IBM", "International Business Machines Corp.", "NYSE", "Information Technology", "IT Services"),
+  listing("JPM", "JPMorgan Chase & Co.", "NYSE", "Financials", "Banks"),
+  listing("BAC", "Bank of America Corp.", "NYSE", "Financials", "Banks"),
+  listing("GS", "Goldman Sachs Group Inc.", "NYSE", "Financials", "Capital Markets"),
+  listing("V", "Visa Inc.", "NYSE", "Financials", "Financial Services"),
+  listing("MA", "Mastercard Inc.", "NYSE", "Financials", "Financial Services"),
+  listing("BRK.B", "Berkshire Hathaway Inc. Class B", "NYSE", "Financials", "Financial Services"),
+  listing("JNJ", "Johnson & Johnson", "NYSE", "Health Care", "Pharmaceuticals"),
+  listing("PFE", "Pfizer Inc.", "NYSE", "Health Care", "Pharmaceuticals"),
+  listing("UNH", "UnitedHealth Group Inc.", "NYSE", "Health Care", "Health Care Providers & Services"),
+  listing("LLY", "Eli Lilly and Co.", "NYSE", "Health Care", "Pharmaceuticals"),
+  listing("WMT", "Walmart Inc.", "NYSE", "Consumer Staples", "Consumer Staples Retail"),
+  listing("KO", "Coca-Cola Co.", "NYSE", "Consumer Staples", "Beverages"),
+  listing("MCD", "McDonald's Corp.", "NYSE", "Consumer Discretionary", "Hotels, Restaurants & Leisure"),
+  listing("NKE", "Nike Inc.", "NYSE", "Consumer Discretionary", "Textiles & Apparel"),
+  listing("DIS", "Walt Disney Co.", "NYSE", "Communication Services", "Entertainment"),
+  listing("XOM", "Exxon Mobil Corp.", "NYSE", "Energy", "Oil, Gas & Consumable Fuels"),
+  listing("CVX", "Chevron Corp.", "NYSE", "Energy", "Oil, Gas & Consumable Fuels"),
+  listing("BA", "Boeing Co.", "NYSE", "Industrials", "Aerospace & Defense"),
+  listing("CAT", "Caterpillar Inc.", "NYSE", "Industrials", "Machinery"),
+  listing("GE", "General Electric Co.", "NYSE", "Industrials", "Industrial Conglomerates"),
+  listing("F", "Ford Motor Co.", "NYSE", "Consumer Discretionary", "Automobiles"),
+  listing("T", "AT&T Inc.", "NYSE", "Communication Services", "Telecommunication Services"),
+  listing("GOOG", "Alphabet Inc. Class C", "NASDAQ", "Communication Services", "Interactive Media"),
+  listing("QCOM", "Qualcomm Inc.", "NASDAQ", "Information Technology", "Semiconductors"),
+  listing("TXN", "Texas Instruments Inc.", "NASDAQ", "Information Technology", "Semiconductors"),
+  listing("MU", "Micron Technology Inc.", "NASDAQ", "Information Technology", "Semiconductors"),
+  listing("AMAT", "Applied Materials Inc.", "NASDAQ", "Information Technology", "Semiconductors"),
+  listing("INTU", "Intuit Inc.", "NASDAQ", "Information Technology", "Software"),
+  listing("PYPL", "PayPal Holdings Inc.", "NASDAQ", "Financials", "Financial Services"),
+  listing("SBUX", "Starbucks Corp.", "NASDAQ", "Consumer Discretionary", "Hotels, Restaurants & Leisure"),
+  listing("BKNG", "Booking Holdings Inc.", "NASDAQ", "Consumer Discretionary", "Hotels, Restaurants & Leisure"),
+  listing("ABNB", "Airbnb Inc.", "NASDAQ", "Consumer Discretionary", "Hotels, Restaurants & Leisure"),
+  listing("PDD", "PDD Holdings Inc.", "NASDAQ", "Consumer Discretionary", "Broadline Retail"),
+  listing("TMUS", "T-Mobile US Inc.", "NASDAQ", "Communication Services", "Telecommunication Services"),
+  listing("CMCSA", "Comcast Corp.", "NASDAQ", "Communication Services", "Media"),
+  listing("GILD", "Gilead Sciences Inc.", "NASDAQ", "Health Care", "Biotechnology"),
+  listing("AMGN", "Amgen Inc.", "NASDAQ", "Health Care", "Biotechnology"),
+  listing("MRNA", "Moderna Inc.", "NASDAQ", "Health Care", "Biotechnology"),
+  listing("PANW", "Palo Alto Networks Inc.", "NASDAQ", "Information Technology", "Software"),
+  listing("CRWD", "CrowdStrike Holdings Inc.", "NASDAQ", "Information Technology", "Software"),
+  listing("ZM", "Zoom Video Communications Inc.", "NASDAQ", "Information Technology", "Software"),
+  listing("COIN", "Coinbase Global Inc.", "NASDAQ", "Financials", "Capital Markets"),
+  listing("PLTR", "Palantir Technologies Inc.", "NASDAQ", "Information Technology", "Software"),
+  listing("RIVN", "Rivian Automotive Inc.", "NASDAQ", "Consumer Discretionary", "Automobiles"),
+  listing("LCID", "Lucid Group Inc.", "NASDAQ", "Consumer Discretionary", "Automobiles"),
+  listing("HOOD", "Robinhood Markets Inc.", "NASDAQ", "Financials", "Capital Markets"),
+  listing("QQQ", "Invesco QQQ Trust", "NASDAQ", "Funds", "Exchange-Traded Funds"),
+  listing("SPY", "SPDR S&P 500 ETF Trust", "NYSE", "Funds", "Exchange-Traded Funds"),
+  listing("DIA", "SPDR Dow Jones Industrial Average ETF", "NYSE", "Funds", "Exchange-Traded Funds"),
+  listing("IWM", "iShares Russell 2000 ETF", "NYSE", "Funds", "Exchange-Traded Funds"),
+  listing("WFC", "Wells Fargo & Co.", "NYSE", "Financials", "Banks"),
+  listing("C", "Citigroup Inc.", "NYSE", "Financials", "Banks"),
+  listing("MS", "Morgan Stanley", "NYSE", "Financials", "Capital Markets"),
+  listing("AXP", "American Express Co.", "NYSE", "Financials", "Consumer Finance"),
+  listing("BLK", "BlackRock Inc.", "NYSE", "Financials", "Capital Markets"),
+  listing("SCHW", "Charles Schwab Corp.", "NYSE", "Financials", "Capital Markets"),
+  listing("HD", "Home Depot Inc.", "NYSE", "Consumer Discretionary", "Specialty Retail"),
+  listing("LOW", "Lowe's Cos. Inc.", "NYSE", "Consumer Discretionary", "Specialty Retail"),
+  listing("TGT", "Target Corp.", "NYSE", "Consumer Staples", "Consumer Staples Retail"),
+  listing("PG", "Procter & Gamble Co.", "NYSE", "Consumer Staples", "Household Products"),
+  listing("MRK", "Merck & Co. Inc.", "NYSE", "Health Care", "Pharmaceuticals"),
+  listing("ABBV", "AbbVie Inc.", "NYSE", "Health Care", "Biotechnology"),
+  listing("TMO", "Thermo Fisher Scientific Inc.", "NYSE", "Health Care", "Life Sciences Tools & Services"),
+  listing("CVS", "CVS Health Corp.", "NYSE", "Health Care", "Health Care Providers & Services"),
+  listing("VZ", "Verizon Communications Inc.", "NYSE", "Communication Services", "Telecommunication Services"),
+  listing("UBER", "Uber Technologies Inc.", "NYSE", "Industrials", "Ground Transportation"),
+  listing("SHOP", "Shopify Inc.", "NYSE", "Information Technology", "Software"),
+  listing("SNOW", "Snowflake Inc.", "NYSE", "Information Technology", "Software"),
+  listing("NOW", "ServiceNow Inc.", "NYSE", "Information Technology", "Software"),
+  listing("SQ", "Block Inc.", "NYSE", "Financials", "Financial Services"),
+  listing("SPOT", "Spotify Technology S.A.", "NYSE", "Communication Services", "Entertainment"),
+  listing("BABA", "Alibaba Group Holding Ltd.", "NYSE", "Consumer Discretionary", "Broadline Retail"),
+  listing("TSM", "Taiwan Semiconductor Manufacturing Co.", "NYSE", "Information Technology", "Semiconductors"),
+  listing("GM", "General Motors Co.", "NYSE", "Consumer Discretionary", "Automobiles"),
+  listing("UPS", "United Parcel Service Inc.", "NYSE", "Industrials", "Air Freight & Logistics"),
+  listing("LMT", "Lockheed Martin Corp.", "NYSE", "Industrials", "Aerospace & Defense"),
+  listing("RTX", "RTX Corp.", "NYSE", "Industrials", "Aerospace & Defense"),
+  listing("DE", "Deere & Co.", "NYSE", "Industrials", "Machinery"),
+  listing("MMM", "3M Co.", "NYSE", "Industrials", "Industrial Conglomerates"),
+  listing("COP", "ConocoPhillips", "NYSE", "Energy", "Oil, Gas & Consumable Fuels"),
+  listing("NEE", "NextEra Energy Inc.", "NYSE", "Utilities", "Electric Utilities"),
+];
+
+const bySymbol = new Map(KNOWN_INSTRUMENTS.map(instrument => [instrument.symbol, instrument]));
+
+// Instruments learned from search results, by symbol
+const discovered = new Map<string, Instrument>();
+
+/**
+ * Normalize user input into a ticker symbol
+ * @param input - Text typed by the user or taken from a URL
+ * @returns Upper-case symbol, or null when it can't be a ticker
+ */
+export function normalizeSymbol(input: string): string | null {
+  const symbol = input.trim().toUpperCase();
+  return SYMBOL_PATTERN.test(symbol) ? symbol : null;
+}
+
+/**
+ * Look up an instrument by ticker. Unknown but well-formed tickers are
+ * still resolved, named after their symbol.
+ * @param input - Ticker symbol, any case
+ * @returns Instrument, or null when the input isn't a valid ticker
+ */
+export function resolveInstrument(input: string): Instrument | null {
+  const symbol = normalizeSymbol(input);
+  if (!symbol) return null;
+  return bySymbol.get(symbol) ?? discovered.get(symbol) ?? { symbol, name: symbol, currency: DEFAULT_CURRENCY };
+}
+
+/**
+ * Currency a ticker is listed in, when it is bundled or was found by a
+ * provider's search
+ * @param input - Ticker symbol, any case
+ * @returns Currency code, or undefined when the listing isn't known
+ */
+export function getListingCurrency(input: string): CurrencyCode | undefined {
+  const symbol = normalizeSymbol(input);
+  return symbol ? (bySymbol.get(symbol) ?? discovered.get(symbol))?.currency : undefined;
+}
+
+/**
+ * Remember an instrument found through a provider's search, so later
+ * lookups of its ticker show its name, exchange and currency
+ * @param instrument - Instrument to remember
+ */
+export function rememberInstrument({ symbol, name, currency, exchange, sector, industry }: Instrument): void {
+  const key = normalizeSymbol(symbol);
+  if (key && !bySymbol.has(key)) {
+    discovered.set(key, { symbol: key, name, currency, exchange, sector, industry });
+  }
+}
+
+/**
+ * Edit distance between two short strings, counting a swap of adjacent
+ * characters as one edit; gives up early once it exceeds max
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    if (Math.min(...current) > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How tightly the query's characters appear in order within the text:
+ * 1 when they are adjacent, approaching 0 as they spread out
+ */
+const subsequenceScore = (query: string, text: string): number => {
+  let position = -1;
+  let first = -1;
+  for (const char of query) {
+    position = text.indexOf(char, position + 1);
+    if (position < 0) return 0;
+    if (first < 0) first = position;
+  }
+  return query.length / (position - first + 1);
+};
+
+/**
+ * Score how well an instrument matches a search. Exact and prefix ticker
+ * matches rank highest, then company-name word matches, then tickers one
+ * typo away and loose in-order matches on either field.
+ * @param query - Lower-case search text
+ * @param instrument - Candidate
+ * @returns Relevance from 0 (no match) to 1
+ */
+export function scoreInstrument(query: string, instrument: Instrument): number {
+  const symbol = instrument.symbol.toLowerCase();
+  const name = instrument.name.toLowerCase();
+  if (symbol === query) return 1;
+  // Prefix matches rank higher the more of the field the query covers
+  if (symbol.startsWith(query)) return 0.8 + 0.15 * (query.length / symbol.length);
+
+  const words = name.split(/[^a-z0-9&]+/).filter(Boolean);
+  if (name.startsWith(query)) return 0.7 + 0.1 * (query.length / name.length);
+  if (words.some(word => word.startsWith(query))) return 0.6 + 0.1 * (query.length / name.length);
+  if (query.length >= 2 && name.includes(query)) return 0.5;
+
+  if (query.length >= 3 && editDistance(query, symbol, 1) <= 1) return 0.45;
+
+  const loose = Math.max(subsequenceScore(query, symbol), subsequenceScore(query, name));
+  return query.length >= 2 && loose >= 0.5 ? 0.4 * loose : 0;
+}
+
+// Best score first; ties in ticker order
+const compareMatches = (a: SymbolMatch, b: SymbolMatch) => b.score - a.score || a.symbol.localeCompare(b.symbol);
+
+/**
+ * Search the bundled and remembered instruments by ticker or company name,
+ * tolerating typos and abbreviations
+ * @param query - Search text
+ * @param limit - Maximum number of results
+ * @returns Matching instruments, best first
+ */
+export function searchKnownInstruments(query: string, limit = 8): SymbolMatch[] {
+  const text = query.trim().toLowerCase();
+  if (!text) return [];
+
+  return [...KNOWN_INSTRUMENTS, ...discovered.values()]
+    .map(instrument => ({ ...instrument, score: scoreInstrument(text, instrument) }))
+    .filter(match => match.score > 0)
+    .sort(compareMatches)
+    .slice(0, limit);
+}
+
+/**
+ * Combine results from several searches. A ticker found more than once keeps
+ * its best score, with missing exchange or region details filled in from the
+ * other results.
+ * @param lists - Results from each source
+ * @param limit - Maximum number of results
+ * @returns Merged matches, best first
+ */
+export function mergeSymbolMatches(lists: SymbolMatch[][], limit = 8): SymbolMatch[] {
+  const merged = new Map<string, SymbolMatch>();
+  lists.flat().forEach(match => {
+    const existing = merged.get(match.symbol);
+    if (!existing) {
+      merged.set(match.symbol, match);
+      return;
+    }
+    const [best, other] = match.score > existing.score ? [match, existing] : [existing, match];
+    merged.set(match.symbol, {
+      ...best,
+      exchange: best.exchange ?? other.exchange,
+      region: best.region ?? other.region,
+    });
+  });
+  return [...merged.values()].sort(compareMatches).slice(0, limit);
+}
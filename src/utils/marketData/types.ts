@@ -0,0 +1,114 @@
+// Shared types for the market data provider layer
+import type { RequestPriority } from '../requestScheduler';
+import type { Forecast, PriceBar, Quote, SymbolMatch } from './model';
+
+// Prediction backend payload; adapted to a Forecast before use
+export interface StockPrediction {
+  date: string;
+  model_version: string;
+  percent_change: number;
+  pred_1d: number;
+  pred_2d: number;
+  pred_3d: number;
+  pred_4d: number;
+  pred_5d: number;
+  stock_name: string;
+  volatility_score: number;
+}
+
+export interface MostActiveStock {
+  percent_change: number;
+  score: number;
+  stock: string;
+}
+
+export interface MarketVolatility {
+  bearish_stocks: number;
+  bullish_stocks: number;
+  market_percent_change: number;
+  market_sentiment: string;
+  market_strength: string;
+  market_volatility_score: number;
+  most_bearish: MostActiveStock;
+  most_bullish: MostActiveStock;
+  neutral_stocks: number;
+  total_stocks_analyzed: number;
+  // Set when the summary was generated by the simulator instead of the backend
+  simulated?: boolean;
+}
+
+// Alpha Vantage GLOBAL_QUOTE fields, with string values coerced to numbers
+export interface AlphaVantageGlobalQuote {
+  symbol: string;
+  open: number;
+  high: number;
+  low: number;
+  price: number;
+  volume: number;
+  // YYYY-MM-DD
+  latestTradingDay: string;
+  previousClose: number;
+  change: number;
+  // Percentage points, e.g. 0.48 for +0.48%
+  changePercent: number;
+}
+
+// One Alpha Vantage SYMBOL_SEARCH result, with its numbered keys renamed
+export interface AlphaVantageSymbolMatch {
+  symbol: string;
+  name: string;
+  // e.g. "Equity" or "ETF"
+  type: string;
+  region: string;
+  currency: string;
+  // 0 to 1
+  matchScore: number;
+}
+
+// Quote in the app's shape as stored in files or sent by the proxy;
+// currency and timestamp may be left out
+export type QuotePayload = Omit<Quote, "currency" | "asOf"> & Partial<Pick<Quote, "currency" | "asOf">>;
+
+// Time ranges the price charts can show
+export type ChartPeriod = "1d" | "5d" | "1mo" | "3mo" | "6mo" | "1y";
+
+// Subset of the Alpha Vantage OVERVIEW response that the app reads
+export interface CompanyOverview {
+  Symbol: string;
+  Name?: string;
+  MarketCapitalization?: string;
+  Currency?: string;
+  Exchange?: string;
+  Sector?: string;
+  Industry?: string;
+  [field: string]: string | undefined;
+}
+
+// Per-request options passed through to providers
+export interface RequestOptions {
+  // Providers with quotas serve higher-priority requests first
+  priority?: RequestPriority;
+}
+
+// Identifiers used to select a provider in configuration
+export type MarketDataProviderId = "proxy" | "alphaVantage" | "predictionBackend" | "mock" | "localJson";
+
+// Data a provider can be asked for
+export type MarketDataCapability = "quote" | "overview" | "history" | "predictions" | "marketVolatility" | "search";
+
+/**
+ * A source of market data. Adapters implement only the capabilities their
+ * vendor supports; the service layer picks one adapter per capability.
+ */
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  name: string;
+  fetchQuote?: (symbol: string, options?: RequestOptions) => Promise<Quote>;
+  fetchOverview?: (symbol: string, options?: RequestOptions) => Promise<CompanyOverview>;
+  // Bars in ascending time order covering the requested period
+  fetchHistory?: (symbol: string, period: ChartPeriod, options?: RequestOptions) => Promise<PriceBar[]>;
+  fetchPredictions?: (symbol: string, options?: RequestOptions) => Promise<Forecast>;
+  fetchMarketVolatility?: (options?: RequestOptions) => Promise<MarketVolatility>;
+  // Instruments whose ticker or name matches the query, best first
+  searchSymbols?: (query: string, options?: RequestOptions) => Promise<SymbolMatch[]>;
+}
@@ -0,0 +1,81 @@
+// Notifications collected for the header's notification center, and the
+// browser Notification API used to show high-priority ones outside the page.
+
+export type NotificationCategory = "alert" | "data" | "maintenance" | "broadcast";
+
+export type NotificationPriority = "normal" | "high";
+
+export interface AppNotification {
+  id: string;
+  category: NotificationCategory;
+  priority: NotificationPriority;
+  title: string;
+  message: string;
+  // When it last happened, in epoch milliseconds
+  time: number;
+  read: boolean;
+  // Page to open from the notification
+  link?: string;
+  // Repeats of the same event are folded into one notification while it is unread
+  dedupeKey?: string;
+  // How many times it happened while unread
+  count: number;
+}
+
+export type NotificationInput = Pick<AppNotification, "category" | "priority" | "title" | "message" | "link" | "dedupeKey">;
+
+/**
+ * Add a notification to a list, newest first. An unread notification with
+ * the same dedupe key is moved to the top and updated instead of repeated.
+ * @param notifications - Current notifications, newest first
+ * @param input - What happened
+ * @param id - Id for a new notification
+ * @param limit - Oldest notifications beyond this many are dropped
+ * @param now - Current time, in epoch milliseconds
+ */
+export function addNotification(
+  notifications: AppNotification[],
+  input: NotificationInput,
+  id: string,
+  limit: number,
+  now = Date.now()
+): AppNotification[] {
+  const existing = input.dedupeKey
+    ? notifications.find(notification => !notification.read && notification.dedupeKey === input.dedupeKey)
+    : undefined;
+  const notification: AppNotification = existing
+    ? { ...existing, ...input, time: now, count: existing.count + 1 }
+    : { ...input, id, time: now, read: false, count: 1 };
+
+  return [notification, ...notifications.filter(other => other !== existing)].slice(0, limit);
+}
+
+/**
+ * Whether this browser has the Notification API
+ */
+export const isBrowserNotificationSupported = (): boolean => typeof window !== "undefined" && "Notification" in window;
+
+/**
+ * Ask for permission to show browser notifications
+ * @returns The resulting permission; "denied" when the API isn't available
+ */
+export const requestBrowserNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!isBrowserNotificationSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+};
+
+/**
+ * Show a notification through the browser, if permission was granted
+ * @param notification - Notification to show
+ */
+export const showBrowserNotification = (notification: AppNotification): void => {
+  if (!isBrowserNotificationSupported() || Notification.permission !== "granted") return;
+  try {
+    // The tag replaces an earlier browser notification for the same event
+    new Notification(notification.title, { body: notification.message, tag: notification.dedupeKey ?? notification.id });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn("Failed to show browser notification:", error);
+  }
+};
@@ -0,0 +1,186 @@
+// Paper trading: orders against a virtual cash account, filled at quoted
+// prices. Filled orders become trades, so holdings use the portfolio's
+// FIFO lot accounting.
+import { Quote } from './marketData/model';
+import { Position, PortfolioValuePoint, Trade, TradeSide, buildPositions } from './portfolio';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_STARTING_CASH = 100_000;
+
+// Orders only fill from quotes fetched this recently (the quote cache's TTL). Older
+// ones can still be served from the cache while it revalidates, and would fill at
+// a price the market has left behind.
+export const MAX_QUOTE_AGE = 15 * 60 * 1000;
+
+export type OrderType = "market" | "limit" | "stop";
+
+export type OrderStatus = "open" | "filled" | "cancelled" | "rejected";
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: TradeSide;
+  type: OrderType;
+  quantity: number;
+  // Worst price a limit order accepts
+  limitPrice?: number;
+  // Price at which a stop order becomes a market order
+  stopPrice?: number;
+  status: OrderStatus;
+  createdAt: number;
+  // When the order was filled, cancelled or rejected
+  closedAt?: number;
+  fillPrice?: number;
+  // Set when the fill price came from the simulator instead of a live quote
+  simulated?: boolean;
+  // Why the order was rejected
+  reason?: string;
+}
+
+export type OrderInput = Pick<PaperOrder, "symbol" | "side" | "type" | "quantity" | "limitPrice" | "stopPrice">;
+
+export interface PaperAccount {
+  startingCash: number;
+  openedAt: number;
+  // Every order placed, oldest first
+  orders: PaperOrder[];
+}
+
+export interface EquityPoint {
+  time: number;
+  cash: number;
+  marketValue: number;
+  equity: number;
+}
+
+/**
+ * Start an account with only cash
+ * @param startingCash - Virtual cash to trade with
+ * @param time - When the account is opened, in epoch milliseconds
+ */
+export function createPaperAccount(startingCash = DEFAULT_STARTING_CASH, time = Date.now()): PaperAccount {
+  return { startingCash, openedAt: time, orders: [] };
+}
+
+/**
+ * Check an order before it is placed
+ * @param input - Order details
+ * @returns An error message, or null when the order can be placed
+ */
+export function validateOrder(input: OrderInput): string | null {
+  if (!(input.quantity > 0)) return "Quantity must be greater than zero";
+  if (input.type === "limit" && !(input.limitPrice > 0)) return "Enter a limit price";
+  if (input.type === "stop" && !(input.stopPrice > 0)) return "Enter a stop price";
+  return null;
+}
+
+/**
+ * Filled orders as trades, in the order they were filled. Paper trades are
+ * commission-free.
+ * @param orders - Orders in any state
+ */
+export function getPaperTrades(orders: PaperOrder[]): Trade[] {
+  return orders
+    .filter(order => order.status === "filled")
+    .sort((a, b) => a.closedAt - b.closedAt)
+    .map(order => ({
+      id: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      price: order.fillPrice,
+      fees: 0,
+      date: Math.floor(order.closedAt / DAY) * DAY,
+    }));
+}
+
+/**
+ * Cash left after the account's fills
+ * @param account - Paper account
+ * @param until - Only count fills before this time, in epoch milliseconds
+ */
+export function getCashBalance(account: PaperAccount, until = Infinity): number {
+  return account.orders.reduce((cash, order) => {
+    if (order.status !== "filled" || order.closedAt >= until) return cash;
+    const amount = order.quantity * order.fillPrice;
+    return order.side === "buy" ? cash - amount : cash + amount;
+  }, account.startingCash);
+}
+
+/**
+ * Open positions and closed ones' realized P&L, from the account's fills
+ * @param account - Paper account
+ */
+export function getPaperPositions(account: PaperAccount): Map<string, Position> {
+  return buildPositions(getPaperTrades(account.orders));
+}
+
+// Whether an order executes at this price
+const isTriggered = (order: PaperOrder, price: number) => {
+  switch (order.type) {
+    case "market":
+      return true;
+    case "limit":
+      return order.side === "buy" ? price <= order.limitPrice : price >= order.limitPrice;
+    case "stop":
+      return order.side === "buy" ? price >= order.stopPrice : price <= order.stopPrice;
+  }
+};
+
+/**
+ * Work the account's open orders for a symbol against a quote. Quotes
+ * older than MAX_QUOTE_AGE leave every order pending. Market orders fill at
+ * the quoted price. Limit and stop orders only react to quotes observed after
+ * they were placed, and fill at the quoted price once it reaches theirs.
+ * Fills from simulated quotes are marked simulated. Buys that cost more
+ * than the cash available and sells of shares that aren't held are
+ * rejected, so the account can't borrow or go short.
+ * @param account - Paper account
+ * @param quote - Latest quote for one symbol
+ * @param time - Current time, in epoch milliseconds
+ * @returns The account with any orders that filled or were rejected closed
+ */
+export function applyQuote(account: PaperAccount, quote: Pick<Quote, "symbol" | "price" | "asOf" | "simulated">, time = Date.now()): PaperAccount {
+  const symbol = quote.symbol.toUpperCase();
+  if (time - quote.asOf > MAX_QUOTE_AGE) return account;
+  let changed = false;
+  let current = account;
+
+  account.orders.forEach((order, index) => {
+    if (order.status !== "open" || order.symbol !== symbol) return;
+    if (order.type !== "market" && quote.asOf < order.createdAt) return;
+    if (!isTriggered(order, quote.price)) return;
+
+    let closed: PaperOrder;
+    const cost = order.quantity * quote.price;
+    const cash = getCashBalance(current);
+    const held = getPaperPositions(current).get(symbol)?.quantity ?? 0;
+    if (order.side === "buy" && cost > cash) {
+      closed = { ...order, status: "rejected", closedAt: time, reason: `Needs ${cost.toFixed(2)} but only ${cash.toFixed(2)} cash is available` };
+    } else if (order.side === "sell" && order.quantity > held) {
+      closed = { ...order, status: "rejected", closedAt: time, reason: `Only ${held} ${symbol} shares are held` };
+    } else {
+      closed = { ...order, status: "filled", closedAt: time, fillPrice: quote.price, simulated: quote.simulated };
+    }
+
+    const orders = [...current.orders];
+    orders[index] = closed;
+    current = { ...current, orders };
+    changed = true;
+  });
+
+  return changed ? current : account;
+}
+
+/**
+ * Daily account value: cash plus holdings at each day's close
+ * @param account - Paper account
+ * @param holdingsHistory - Daily holdings value, from getPortfolioValueHistory over the account's trades
+ */
+export function getEquityHistory(account: PaperAccount, holdingsHistory: PortfolioValuePoint[]): EquityPoint[] {
+  return holdingsHistory.map(point => {
+    const cash = getCashBalance(account, point.time + DAY);
+    return { time: point.time, cash, marketValue: point.marketValue, equity: cash + point.marketValue };
+  });
+}
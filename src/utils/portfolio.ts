@@ -0,0 +1,242 @@
+// Portfolio accounting. Holdings are derived from the user's trades: buys
+// open tax lots and sells close them first-in, first-out.
+import { PriceBar, Quote } from './marketData/model';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type TradeSide = "buy" | "sell";
+
+export interface Trade {
+  id: string;
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  // Price per share, in the instrument's currency
+  price: number;
+  // Commissions and other costs of the trade
+  fees: number;
+  // Start of the day the trade was made, in epoch milliseconds (UTC)
+  date: number;
+}
+
+// A trade before it is given an id
+export type TradeInput = Omit<Trade, "id">;
+
+// Shares still held from one buy
+export interface TaxLot {
+  tradeId: string;
+  date: number;
+  quantity: number;
+  price: number;
+  // Purchase cost of the remaining shares, their share of fees included
+  costBasis: number;
+}
+
+export interface Position {
+  symbol: string;
+  // Open lots, oldest first
+  lots: TaxLot[];
+  quantity: number;
+  costBasis: number;
+  // Gains from closed lots, net of fees
+  realizedPnl: number;
+}
+
+export interface PositionValuation extends Position {
+  price: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  // Percentage points of cost basis
+  unrealizedPercent: number;
+  dayChange: number;
+  // Valued at a simulated quote because no live one has loaded
+  simulated: boolean;
+}
+
+export interface PortfolioSummary {
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  unrealizedPercent: number;
+  realizedPnl: number;
+  dayChange: number;
+  // Percentage points of the previous close's value
+  dayChangePercent: number;
+  // Fraction of market value in each open position
+  allocation: Array<{ symbol: string; weight: number }>;
+  // Open positions left out of the value, P&L and allocation for lack of a live quote
+  unpriced: string[];
+}
+
+export interface PortfolioValuePoint {
+  time: number;
+  marketValue: number;
+  costBasis: number;
+}
+
+// Trades in the order they are applied; same-day trades keep their entry order
+const sortTrades = (trades: Trade[]) =>
+  trades
+    .map((trade, index) => ({ trade, index }))
+    .sort((a, b) => a.trade.date - b.trade.date || a.index - b.index)
+    .map(({ trade }) => trade);
+
+// Positions built from trades, or the first sell that exceeds the shares held
+const applyTrades = (trades: Trade[]): { positions: Map<string, Position>; oversold?: Trade } => {
+  const positions = new Map<string, Position>();
+
+  for (const trade of sortTrades(trades)) {
+    let position = positions.get(trade.symbol);
+    if (!position) {
+      position = { symbol: trade.symbol, lots: [], quantity: 0, costBasis: 0, realizedPnl: 0 };
+      positions.set(trade.symbol, position);
+    }
+
+    if (trade.side === "buy") {
+      position.lots.push({
+        tradeId: trade.id,
+        date: trade.date,
+        quantity: trade.quantity,
+        price: trade.price,
+        costBasis: trade.quantity * trade.price + trade.fees,
+      });
+    } else {
+      if (trade.quantity > position.quantity + 1e-9) {
+        return { positions, oversold: trade };
+      }
+      let remaining = trade.quantity;
+      let closedCost = 0;
+      while (remaining > 1e-9) {
+        const lot = position.lots[0];
+        const sold = Math.min(lot.quantity, remaining);
+        const cost = lot.costBasis * (sold / lot.quantity);
+        closedCost += cost;
+        lot.costBasis -= cost;
+        lot.quantity -= sold;
+        remaining -= sold;
+        if (lot.quantity <= 1e-9) position.lots.shift();
+      }
+      position.realizedPnl += trade.quantity * trade.price - trade.fees - closedCost;
+    }
+
+    position.quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    position.costBasis = position.lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+  }
+
+  return { positions };
+};
+
+/**
+ * Build positions from trades. Symbols that have been sold out are kept
+ * for their realized gains.
+ * @param trades - Trades in any order
+ * @returns Positions by symbol
+ */
+export function buildPositions(trades: Trade[]): Map<string, Position> {
+  return applyTrades(trades).positions;
+}
+
+/**
+ * Check that a set of trades never sells shares that aren't held
+ * @param trades - Trades in any order
+ * @returns A message describing the first oversold sale, or null when the trades are valid
+ */
+export function validateTrades(trades: Trade[]): string | null {
+  const { positions, oversold } = applyTrades(trades);
+  if (!oversold) return null;
+  const held = positions.get(oversold.symbol)?.quantity ?? 0;
+  return `Only ${held} ${oversold.symbol} shares were held on ${new Date(oversold.date).toLocaleDateString(undefined, { timeZone: "UTC" })}`;
+}
+
+/**
+ * Value a position at the latest quote
+ * @param position - Position to value
+ * @param quote - Latest quote for its symbol
+ * @param simulated - Whether the quote is a simulated stand-in
+ */
+export function valuePosition(position: Position, quote: Pick<Quote, "price" | "change">, simulated = false): PositionValuation {
+  const marketValue = position.quantity * quote.price;
+  const unrealizedPnl = marketValue - position.costBasis;
+  return {
+    ...position,
+    price: quote.price,
+    marketValue,
+    unrealizedPnl,
+    unrealizedPercent: position.costBasis > 0 ? (unrealizedPnl / position.costBasis) * 100 : 0,
+    dayChange: position.quantity * quote.change,
+    simulated,
+  };
+}
+
+/**
+ * Totals and allocation across valued positions. Values are added as they
+ * are, so holdings are assumed to share one currency. Open positions valued
+ * at a simulated quote only count towards realized P&L.
+ * @param valuations - Valued positions, closed ones included
+ */
+export function summarizePortfolio(valuations: PositionValuation[]): PortfolioSummary {
+  const unpriced = valuations.filter(valuation => valuation.simulated && valuation.quantity > 0);
+  const priced = valuations.filter(valuation => !unpriced.includes(valuation));
+  const sum = (pick: (valuation: PositionValuation) => number, from = priced) =>
+    from.reduce((total, valuation) => total + pick(valuation), 0);
+
+  const marketValue = sum(valuation => valuation.marketValue);
+  const costBasis = sum(valuation => valuation.costBasis);
+  const dayChange = sum(valuation => valuation.dayChange);
+  const previousValue = marketValue - dayChange;
+
+  return {
+    marketValue,
+    costBasis,
+    unrealizedPnl: marketValue - costBasis,
+    unrealizedPercent: costBasis > 0 ? ((marketValue - costBasis) / costBasis) * 100 : 0,
+    realizedPnl: sum(valuation => valuation.realizedPnl, valuations),
+    dayChange,
+    dayChangePercent: previousValue > 0 ? (dayChange / previousValue) * 100 : 0,
+    allocation: priced
+      .filter(valuation => valuation.quantity > 0)
+      .map(valuation => ({ symbol: valuation.symbol, weight: marketValue > 0 ? valuation.marketValue / marketValue : 0 }))
+      .sort((a, b) => b.weight - a.weight),
+    unpriced: unpriced.map(valuation => valuation.symbol),
+  };
+}
+
+/**
+ * Daily market value and cost basis of the holdings, replaying trades
+ * against each symbol's closes. Days before a symbol's first known close
+ * value it at cost.
+ * @param trades - Trades in any order
+ * @param histories - Daily bars for each traded symbol, in ascending time order
+ * @returns One point per day with a close for any symbol, from the first trade on
+ */
+export function getPortfolioValueHistory(trades: Trade[], histories: Record<string, PriceBar[]>): PortfolioValuePoint[] {
+  const sorted = sortTrades(trades);
+  if (sorted.length === 0) return [];
+
+  const firstDay = Math.floor(sorted[0].date / DAY);
+  const days = [...new Set(Object.values(histories).flatMap(bars => bars.map(bar => Math.floor(bar.time / DAY))))]
+    .filter(day => day >= firstDay)
+    .sort((a, b) => a - b);
+  const cursors: Record<string, number> = {};
+
+  return days.map(day => {
+    const endOfDay = (day + 1) * DAY;
+    const positions = buildPositions(sorted.filter(trade => trade.date < endOfDay));
+    let marketValue = 0;
+    let costBasis = 0;
+
+    positions.forEach(position => {
+      costBasis += position.costBasis;
+
+      // Advance to the last close on or before this day
+      const bars = histories[position.symbol] ?? [];
+      let cursor = cursors[position.symbol] ?? -1;
+      while (cursor + 1 < bars.length && bars[cursor + 1].time < endOfDay) cursor++;
+      cursors[position.symbol] = cursor;
+
+      marketValue += cursor >= 0 ? position.quantity * bars[cursor].close : position.costBasis;
+    });
+
+    return { time: day * DAY, marketValue, costBasis };
+  });
+}
@@ -0,0 +1,293 @@
+// Local archive of model forecasts. Each forecast is kept after its cache
+// entry expires and settled against the closes that follow, so models can be
+// scored on how they actually did.
+import { z } from 'zod';
+import { addTradingDays, impliedDailyVolatility } from './forecastProjection';
+import { createKeyValueStore, isIndexedDbAvailable } from './indexedDbStore';
+import { BarResolution } from './marketData/history';
+import { CurrencyCode, Forecast, PriceBar } from './marketData/model';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A prediction counts as a hit when it lands within this fraction of the close
+export const HIT_TOLERANCE = 0.02;
+
+// Uncertainty bands checked for calibration, with their two-sided z-scores
+const CALIBRATION_LEVELS: Array<{ level: number; zScore: number }> = [
+  { level: 0.5, zScore: 0.6745 },
+  { level: 0.8, zScore: 1.2816 },
+  { level: 0.95, zScore: 1.96 },
+];
+
+export interface ArchivedForecastPoint {
+  horizonDays: number;
+  // Start of the trading day the price was predicted for, in epoch milliseconds (UTC)
+  targetTime: number;
+  price: number;
+  // Close on the target day, once it is known
+  actual: number | null;
+}
+
+export interface ArchivedForecast {
+  symbol: string;
+  currency: CurrencyCode;
+  modelVersion: string;
+  issuedAt: number;
+  // Close on the day the forecast was issued; predicted direction is measured from it
+  basePrice: number | null;
+  // Volatility implied by the forecast, used to check its calibration
+  dailyVolatility: number;
+  points: ArchivedForecastPoint[];
+  archivedAt: number;
+}
+
+const ArchivedForecastSchema = z.object({
+  symbol: z.string(),
+  currency: z.string(),
+  modelVersion: z.string(),
+  issuedAt: z.number(),
+  basePrice: z.number().nullable(),
+  dailyVolatility: z.number(),
+  points: z.array(z.object({
+    horizonDays: z.number(),
+    targetTime: z.number(),
+    price: z.number(),
+    actual: z.number().nullable(),
+  })),
+  archivedAt: z.number(),
+});
+
+const store = isIndexedDbAvailable() ? createKeyValueStore<ArchivedForecast>('predictions') : null;
+
+// A model issues one forecast per symbol and day
+const getArchiveKey = (forecast: { symbol: string; modelVersion: string; issuedAt: number }) =>
+  `${forecast.symbol.toUpperCase()}_${forecast.modelVersion}_${forecast.issuedAt}`;
+
+// UTC day number; daily bars and forecast dates are both stored as UTC midnight
+const dayOf = (time: number) => Math.floor(time / DAY);
+
+/**
+ * Add a forecast to the archive. Forecasts already archived are left as
+ * they are, so settled prices are never lost.
+ * @param forecast - Forecast from a prediction provider
+ */
+export async function archiveForecast(forecast: Forecast): Promise<void> {
+  if (!store) return;
+
+  const key = getArchiveKey(forecast);
+  if (await store.get(key)) return;
+
+  await store.set(key, {
+    symbol: forecast.symbol.toUpperCase(),
+    currency: forecast.currency,
+    modelVersion: forecast.modelVersion,
+    issuedAt: forecast.issuedAt,
+    basePrice: null,
+    dailyVolatility: impliedDailyVolatility(forecast),
+    points: forecast.points.map(point => ({
+      horizonDays: point.horizonDays,
+      targetTime: addTradingDays(forecast.issuedAt, point.horizonDays),
+      price: point.price,
+      actual: null,
+    })),
+    archivedAt: Date.now(),
+  });
+}
+
+/**
+ * Every archived forecast that still validates, newest first. Invalid
+ * records are removed.
+ */
+export async function loadArchivedForecasts(): Promise<ArchivedForecast[]> {
+  if (!store) return [];
+
+  const records: ArchivedForecast[] = [];
+  const entries = await store.entries();
+  entries.forEach(([key, record]) => {
+    const result = ArchivedForecastSchema.safeParse(record);
+    if (result.success) {
+      records.push(record);
+    } else {
+      console.warn(`Removing invalid archived forecast ${key}:`, result.error.message);
+      store.delete(key).catch(error => console.warn(`Failed to remove archived forecast ${key}:`, error));
+    }
+  });
+  return records.sort((a, b) => b.issuedAt - a.issuedAt);
+}
+
+/**
+ * Symbols with forecasts waiting on closes that should exist by now
+ * @param records - Archived forecasts
+ * @returns The earliest issue date still needed for each symbol
+ */
+export function getUnsettledSymbols(records: ArchivedForecast[]): Map<string, number> {
+  const today = dayOf(Date.now());
+  const unsettled = new Map<string, number>();
+  records.forEach(record => {
+    const due = record.basePrice === null
+      || record.points.some(point => point.actual === null && dayOf(point.targetTime) < today);
+    if (due) {
+      unsettled.set(record.symbol, Math.min(unsettled.get(record.symbol) ?? Infinity, record.issuedAt));
+    }
+  });
+  return unsettled;
+}
+
+/**
+ * Fill in the issue-day and target-day closes of a symbol's archived
+ * forecasts from daily bars. Today's bar is skipped, since it is still
+ * trading, and a target that fell on a holiday takes the next close.
+ * @param symbol - Ticker symbol
+ * @param bars - Bars in ascending time order
+ * @param resolution - Size of the bars; anything but daily bars is ignored,
+ * since a weekly close is not the close of the day that was predicted
+ * @returns Number of forecasts updated
+ */
+export async function settleArchivedForecasts(symbol: string, bars: PriceBar[], resolution: BarResolution): Promise<number> {
+  if (!store || resolution !== 'daily') return 0;
+
+  const today = dayOf(Date.now());
+  const closed = bars.filter(bar => dayOf(bar.time) < today);
+  if (closed.length === 0) return 0;
+  const firstDay = dayOf(closed[0].time);
+
+  const records = (await loadArchivedForecasts()).filter(record => record.symbol === symbol.toUpperCase());
+  let updated = 0;
+
+  for (const record of records) {
+    let changed = false;
+    const issueDay = dayOf(record.issuedAt);
+
+    if (record.basePrice === null && firstDay <= issueDay) {
+      const base = [...closed].reverse().find(bar => dayOf(bar.time) <= issueDay);
+      if (base) {
+        record.basePrice = base.close;
+        changed = true;
+      }
+    }
+
+    record.points.forEach(point => {
+      const targetDay = dayOf(point.targetTime);
+      if (point.actual !== null || targetDay < firstDay) return;
+      const bar = closed.find(candidate => dayOf(candidate.time) >= targetDay);
+      if (bar) {
+        point.actual = bar.close;
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      await store.set(getArchiveKey(record), record);
+      updated++;
+    }
+  }
+  return updated;
+}
+
+// One archived prediction whose target close is known
+export interface SettledPrediction {
+  symbol: string;
+  modelVersion: string;
+  horizonDays: number;
+  price: number;
+  actual: number;
+  basePrice: number | null;
+  dailyVolatility: number;
+}
+
+export interface AccuracySummary {
+  count: number;
+  // Share of predictions within HIT_TOLERANCE of the close
+  hitRate: number;
+  // Mean absolute error, in the instrument's currency
+  mae: number;
+  // Mean absolute percentage error
+  mape: number;
+  // Share of predictions that called the move from the issue-day close
+  // correctly, or null when no issue-day closes are known
+  directionalAccuracy: number | null;
+  // Share of closes inside each uncertainty band, next to the share expected
+  calibration: Array<{ level: number; observed: number }>;
+}
+
+/**
+ * Flatten archived forecasts into their settled predictions
+ * @param records - Archived forecasts
+ */
+export function getSettledPredictions(records: ArchivedForecast[]): SettledPrediction[] {
+  return records.flatMap(record => record.points
+    .filter(point => point.actual !== null)
+    .map(point => ({
+      symbol: record.symbol,
+      modelVersion: record.modelVersion,
+      horizonDays: point.horizonDays,
+      price: point.price,
+      actual: point.actual,
+      basePrice: record.basePrice,
+      dailyVolatility: record.dailyVolatility,
+    })));
+}
+
+/**
+ * Score a set of settled predictions
+ * @param predictions - Settled predictions
+ * @returns Accuracy metrics, or null when there is nothing to score
+ */
+export function summarizeAccuracy(predictions: SettledPrediction[]): AccuracySummary | null {
+  if (predictions.length === 0) return null;
+
+  let hits = 0;
+  let absoluteError = 0;
+  let percentageError = 0;
+  let directional = 0;
+  let directionalCorrect = 0;
+  const covered = CALIBRATION_LEVELS.map(() => 0);
+
+  predictions.forEach(prediction => {
+    const error = Math.abs(prediction.price - prediction.actual);
+    absoluteError += error;
+    percentageError += (error / prediction.actual) * 100;
+    if (error <= prediction.actual * HIT_TOLERANCE) hits++;
+
+    if (prediction.basePrice !== null && prediction.price !== prediction.basePrice) {
+      directional++;
+      if (Math.sign(prediction.price - prediction.basePrice) === Math.sign(prediction.actual - prediction.basePrice)) {
+        directionalCorrect++;
+      }
+    }
+
+    const logError = Math.abs(Math.log(prediction.actual / prediction.price));
+    const spread = prediction.dailyVolatility * Math.sqrt(prediction.horizonDays);
+    CALIBRATION_LEVELS.forEach(({ zScore }, i) => {
+      if (logError <= zScore * spread) covered[i]++;
+    });
+  });
+
+  const count = predictions.length;
+  return {
+    count,
+    hitRate: hits / count,
+    mae: absoluteError / count,
+    mape: percentageError / count,
+    directionalAccuracy: directional > 0 ? directionalCorrect / directional : null,
+    calibration: CALIBRATION_LEVELS.map(({ level }, i) => ({ level, observed: covered[i] / count })),
+  };
+}
+
+/**
+ * Score predictions separately for each group
+ * @param predictions - Settled predictions
+ * @param groupOf - Group a prediction belongs to
+ * @returns One summary per group, in order of first appearance
+ */
+export function summarizeAccuracyBy<K extends string | number>(
+  predictions: SettledPrediction[],
+  groupOf: (prediction: SettledPrediction) => K
+): Array<{ group: K; summary: AccuracySummary }> {
+  const groups = new Map<K, SettledPrediction[]>();
+  predictions.forEach(prediction => {
+    const group = groupOf(prediction);
+    groups.set(group, [...(groups.get(group) ?? []), prediction]);
+  });
+  return [...groups].map(([group, members]) => ({ group, summary: summarizeAccuracy(members) }));
+}
@@ -0,0 +1,233 @@
+// Central scheduler for outgoing API requests
+// Keeps each provider within its quota, runs the most important requests
+// first and shares one request between callers asking for the same thing.
+// Used by the browser providers and by the proxy server in server/.
+import { RateLimitError } from './marketData/errors';
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface ProviderQuota {
+  perMinute?: number;
+  perDay?: number;
+}
+
+export interface ScheduledRequest<T> {
+  provider: string;
+  // Requests with the same key are deduplicated
+  key: string;
+  priority?: RequestPriority;
+  run: () => Promise<T>;
+}
+
+export interface SchedulerStatus {
+  queued: number;
+  inFlight: number;
+  usedThisMinute: number;
+  usedToday: number;
+  pausedUntil: number | null;
+}
+
+interface QueueEntry {
+  key: string;
+  priority: RequestPriority;
+  order: number;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  promise: Promise<unknown>;
+}
+
+interface ProviderState {
+  queue: QueueEntry[];
+  inFlight: Record<string, Promise<unknown>>;
+  recent: number[];
+  pausedUntil: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Known provider limits (Alpha Vantage free tier)
+const QUOTAS: Record<string, ProviderQuota> = {
+  alphaVantage: { perMinute: 5, perDay: 25 },
+};
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+
+const MINUTE = 60 * 1000;
+
+// How long to hold requests after a provider reports throttling
+const THROTTLE_BACKOFF = MINUTE;
+
+const states: Record<string, ProviderState> = {};
+let orderCounter = 0;
+
+const getState = (provider: string): ProviderState => {
+  if (!states[provider]) {
+    states[provider] = { queue: [], inFlight: {}, recent: [], pausedUntil: 0, timer: null };
+  }
+  return states[provider];
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Daily usage is kept in localStorage so reloads don't reset the count.
+// Without localStorage (on the proxy server) it is kept in memory instead.
+const dailyKey = (provider: string) => `request_quota_${provider}`;
+
+const hasLocalStorage = typeof localStorage !== 'undefined';
+const memoryUsage: Record<string, string> = {};
+
+const getDailyUsage = (provider: string): number => {
+  try {
+    const saved = JSON.parse((hasLocalStorage ? localStorage.getItem(dailyKey(provider)) : memoryUsage[dailyKey(provider)]) || 'null');
+    return saved && saved.date === today() ? saved.count : 0;
+  } catch {
+    return 0;
+  }
+};
+
+const setDailyUsage = (provider: string, count: number) => {
+  const usage = JSON.stringify({ date: today(), count });
+  if (hasLocalStorage) {
+    localStorage.setItem(dailyKey(provider), usage);
+  } else {
+    memoryUsage[dailyKey(provider)] = usage;
+  }
+};
+
+// Milliseconds until the provider may start another request, or 0 if it may now
+const waitTime = (provider: string, state: ProviderState): number => {
+  const now = Date.now();
+  const quota = QUOTAS[provider] || {};
+
+  if (state.pausedUntil > now) {
+    return state.pausedUntil - now;
+  }
+
+  state.recent = state.recent.filter(time => now - time < MINUTE);
+  if (quota.perMinute && state.recent.length >= quota.perMinute) {
+    return state.recent[0] + MINUTE - now;
+  }
+
+  return 0;
+};
+
+const sortQueue = (state: ProviderState) => {
+  state.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.order - b.order);
+};
+
+const pump = (provider: string) => {
+  const state = getState(provider);
+  const quota = QUOTAS[provider] || {};
+
+  while (state.queue.length > 0) {
+    // Requests can't be served today at all once the daily allowance is gone
+    if (quota.perDay && getDailyUsage(provider) >= quota.perDay) {
+      const error = new RateLimitError(provider, `Daily request limit reached for ${provider}`, true);
+      state.queue.splice(0).forEach(entry => entry.reject(error));
+      return;
+    }
+
+    const wait = waitTime(provider, state);
+    if (wait > 0) {
+      if (!state.timer) {
+        state.timer = setTimeout(() => {
+          state.timer = null;
+          pump(provider);
+        }, wait);
+      }
+      return;
+    }
+
+    const entry = state.queue.shift()!;
+    state.recent.push(Date.now());
+    if (quota.perDay) {
+      setDailyUsage(provider, getDailyUsage(provider) + 1);
+    }
+
+    state.inFlight[entry.key] = entry.promise;
+    entry.run()
+      .then(entry.resolve, error => {
+        if (error instanceof RateLimitError) {
+          reportThrottled(provider, error.daily);
+        }
+        entry.reject(error);
+      })
+      .finally(() => {
+        delete state.inFlight[entry.key];
+        // A throttling response may have paused the queue; schedule the rest
+        pump(provider);
+      });
+  }
+};
+
+/**
+ * Queue a request for a provider. Resolves with the request's result once
+ * the provider's quota allows it to run.
+ * @param request - Provider, dedupe key, priority and the request itself
+ * @returns Result of the request
+ */
+export function scheduleRequest<T>({ provider, key, priority = 'normal', run }: ScheduledRequest<T>): Promise<T> {
+  const state = getState(provider);
+
+  // Share a request that is already running
+  if (key in state.inFlight) {
+    return state.inFlight[key] as Promise<T>;
+  }
+
+  // Share a queued request, moving it up if this caller needs it sooner
+  const queued = state.queue.find(entry => entry.key === key);
+  if (queued) {
+    if (PRIORITY_RANK[priority] < PRIORITY_RANK[queued.priority]) {
+      queued.priority = priority;
+      sortQueue(state);
+    }
+    return queued.promise as Promise<T>;
+  }
+
+  let resolve!: (value: unknown) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<unknown>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  state.queue.push({ key, priority, order: orderCounter++, run, resolve, reject, promise });
+  sortQueue(state);
+  pump(provider);
+
+  return promise as Promise<T>;
+}
+
+/**
+ * Hold a provider's queue after it reports throttling
+ * @param provider - Provider id
+ * @param daily - Whether the daily allowance is exhausted
+ */
+export function reportThrottled(provider: string, daily = false): void {
+  const state = getState(provider);
+  const quota = QUOTAS[provider];
+
+  if (daily && quota?.perDay) {
+    setDailyUsage(provider, quota.perDay);
+  } else {
+    state.pausedUntil = Date.now() + THROTTLE_BACKOFF;
+  }
+  console.warn(`${provider} is throttling requests${daily ? ' for the rest of the day' : ''}`);
+}
+
+/**
+ * Get the queue and quota usage of a provider
+ * @param provider - Provider id
+ */
+export function getSchedulerStatus(provider: string): SchedulerStatus {
+  const state = getState(provider);
+  const now = Date.now();
+
+  return {
+    queued: state.queue.length,
+    inFlight: Object.keys(state.inFlight).length,
+    usedThisMinute: state.recent.filter(time => now - time < MINUTE).length,
+    usedToday: getDailyUsage(provider),
+    pausedUntil: state.pausedUntil > now ? state.pausedUntil : null,
+  };
+}
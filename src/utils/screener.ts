@@ -0,0 +1,298 @@
+// Stock screens: filters and a sort order applied to the tracked tickers.
+// A screen round-trips through URL search params so it can be shared, e.g.
+// ?filter=rsi:below:30&filter=changePercent:above:1&sort=volume:desc
+import { ChartPeriod, getVolatilityLevel } from './apiService';
+import { INDICATORS, IndicatorId, IndicatorValue, normalizeIndicatorParams } from './indicators';
+import { Forecast, Instrument, PriceBar, Quote } from './marketData/model';
+
+export type VolatilityLevel = "Low" | "Medium" | "High";
+
+export type ScreenField =
+  | "price"
+  | "changePercent"
+  | "volume"
+  | "marketCap"
+  | "volatility"
+  | "volatilityScore"
+  | "predictedChange"
+  | "rsi"
+  | "macd"
+  | "stochastic";
+
+export interface ScreenFieldDefinition {
+  label: string;
+  // Where the value comes from; indicator fields need each ticker's daily history
+  source: "quote" | "prediction" | "indicator";
+  // Levels are compared for equality, numbers against a threshold
+  kind: "number" | "level";
+  // Thresholds are entered in this unit, e.g. market cap in billions
+  scale?: number;
+  unit?: string;
+}
+
+export const SCREEN_FIELDS: Record<ScreenField, ScreenFieldDefinition> = {
+  price: { label: "Price", source: "quote", kind: "number" },
+  changePercent: { label: "Change %", source: "quote", kind: "number" },
+  volume: { label: "Volume", source: "quote", kind: "number", scale: 1e6, unit: "M" },
+  marketCap: { label: "Market cap", source: "quote", kind: "number", scale: 1e9, unit: "B" },
+  volatility: { label: "Volatility", source: "prediction", kind: "level" },
+  volatilityScore: { label: "Volatility score", source: "prediction", kind: "number" },
+  predictedChange: { label: "Predicted 5-day %", source: "prediction", kind: "number" },
+  rsi: { label: "RSI (14)", source: "indicator", kind: "number" },
+  macd: { label: "MACD histogram", source: "indicator", kind: "number" },
+  stochastic: { label: "Stochastic %K", source: "indicator", kind: "number" },
+};
+
+export const SCREEN_FIELD_IDS = Object.keys(SCREEN_FIELDS) as ScreenField[];
+
+export const VOLATILITY_LEVELS: VolatilityLevel[] = ["Low", "Medium", "High"];
+
+// Daily history long enough for every indicator field to be defined
+export const SCREEN_HISTORY_PERIOD: ChartPeriod = "3mo";
+
+export type ScreenFilter =
+  | { field: ScreenField; operator: "above" | "below"; value: number }
+  | { field: ScreenField; operator: "is"; value: VolatilityLevel };
+
+export type SortDirection = "asc" | "desc";
+
+export interface Screen {
+  filters: ScreenFilter[];
+  sort: { field: ScreenField; direction: SortDirection };
+}
+
+export interface SavedScreen {
+  id: string;
+  name: string;
+  screen: Screen;
+  // Screens that ship with the app can't be deleted
+  builtIn?: boolean;
+}
+
+export type ScreenValues = Record<ScreenField, number | VolatilityLevel | null>;
+
+export interface ScreenerRow extends Instrument {
+  values: ScreenValues;
+  // Set when the row's quote or forecast came from the simulator instead of a provider
+  simulated: boolean;
+}
+
+export const DEFAULT_SCREEN: Screen = {
+  filters: [],
+  sort: { field: "changePercent", direction: "desc" },
+};
+
+export const BUILT_IN_SCREENS: SavedScreen[] = [
+  {
+    id: "oversold",
+    name: "Oversold (RSI below 30)",
+    screen: { filters: [{ field: "rsi", operator: "below", value: 30 }], sort: { field: "rsi", direction: "asc" } },
+    builtIn: true,
+  },
+  {
+    id: "overbought",
+    name: "Overbought (RSI above 70)",
+    screen: { filters: [{ field: "rsi", operator: "above", value: 70 }], sort: { field: "rsi", direction: "desc" } },
+    builtIn: true,
+  },
+  {
+    id: "predicted-upside",
+    name: "Predicted upside",
+    screen: {
+      filters: [{ field: "predictedChange", operator: "above", value: 0 }],
+      sort: { field: "predictedChange", direction: "desc" },
+    },
+    builtIn: true,
+  },
+  {
+    id: "calm-large-caps",
+    name: "Calm large caps",
+    screen: {
+      filters: [
+        { field: "marketCap", operator: "above", value: 100 },
+        { field: "volatility", operator: "is", value: "Low" },
+      ],
+      sort: { field: "marketCap", direction: "desc" },
+    },
+    builtIn: true,
+  },
+];
+
+const isScreenField = (value: string): value is ScreenField => (SCREEN_FIELD_IDS as string[]).includes(value);
+
+/**
+ * Whether a filter can be applied: its operator suits the field and its
+ * value is a finite number or a known level
+ * @param filter - Filter as edited
+ */
+export function isFilterComplete(filter: ScreenFilter): boolean {
+  if (!isScreenField(filter.field)) return false;
+  if (SCREEN_FIELDS[filter.field].kind === "level") {
+    return filter.operator === "is" && VOLATILITY_LEVELS.includes(filter.value as VolatilityLevel);
+  }
+  return (filter.operator === "above" || filter.operator === "below") && Number.isFinite(filter.value);
+}
+
+/**
+ * A filter for a field with a starting operator and value
+ * @param field - Field to filter on
+ */
+export function createFilter(field: ScreenField): ScreenFilter {
+  return SCREEN_FIELDS[field].kind === "level"
+    ? { field, operator: "is", value: "High" }
+    : { field, operator: "above", value: 0 };
+}
+
+/**
+ * Fields whose values a screen filters or sorts on
+ * @param screen - Screen
+ */
+export function getScreenFields(screen: Screen): ScreenField[] {
+  return [...new Set([...screen.filters.map(filter => filter.field), screen.sort.field])];
+}
+
+/**
+ * Whether a screen needs indicator values, and so each ticker's price history
+ * @param screen - Screen
+ */
+export function usesIndicators(screen: Screen): boolean {
+  return getScreenFields(screen).some(field => SCREEN_FIELDS[field].source === "indicator");
+}
+
+// Latest defined value of an indicator line, computed with default parameters
+const latestIndicatorValue = (bars: PriceBar[], id: IndicatorId, line: string): number | null => {
+  const series: IndicatorValue[] = INDICATORS[id].compute(bars, normalizeIndicatorParams(id))[line];
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i] !== null) return series[i];
+  }
+  return null;
+};
+
+/**
+ * Values a ticker is screened on. Fields whose data hasn't loaded are null.
+ * @param quote - Latest quote
+ * @param fallbackVolatility - Level shown until a forecast arrives
+ * @param forecast - Five-day forecast, if loaded
+ * @param bars - Daily bars in ascending order, if loaded
+ */
+export function getScreenValues(
+  quote: Quote,
+  fallbackVolatility: VolatilityLevel,
+  forecast?: Forecast,
+  bars?: PriceBar[]
+): ScreenValues {
+  const indicators = bars && bars.length > 0;
+  return {
+    price: quote.price,
+    changePercent: quote.changePercent,
+    volume: quote.volume,
+    marketCap: quote.marketCap ?? null,
+    volatility: forecast ? getVolatilityLevel(forecast.volatilityScore) : fallbackVolatility,
+    volatilityScore: forecast?.volatilityScore ?? null,
+    predictedChange: forecast?.percentChange ?? null,
+    rsi: indicators ? latestIndicatorValue(bars, "rsi", "value") : null,
+    macd: indicators ? latestIndicatorValue(bars, "macd", "histogram") : null,
+    stochastic: indicators ? latestIndicatorValue(bars, "stochastic", "k") : null,
+  };
+}
+
+/**
+ * Whether a ticker's values pass a filter; a value that hasn't loaded never passes
+ * @param values - Ticker's values
+ * @param filter - Complete filter
+ */
+export function matchesFilter(values: ScreenValues, filter: ScreenFilter): boolean {
+  const value = values[filter.field];
+  if (value === null) return false;
+  if (filter.operator === "is") return value === filter.value;
+
+  const threshold = filter.value * (SCREEN_FIELDS[filter.field].scale ?? 1);
+  return filter.operator === "above" ? (value as number) > threshold : (value as number) < threshold;
+}
+
+// Levels sort from calm to volatile
+const sortKey = (value: number | VolatilityLevel): number =>
+  typeof value === "number" ? value : VOLATILITY_LEVELS.indexOf(value);
+
+/**
+ * Apply a screen's complete filters and sort order. Tickers missing the
+ * sort value go last.
+ * @param rows - Tracked tickers
+ * @param screen - Screen to run
+ * @returns Matching rows, sorted
+ */
+export function runScreen(rows: ScreenerRow[], screen: Screen): ScreenerRow[] {
+  const filters = screen.filters.filter(isFilterComplete);
+  const { field, direction } = screen.sort;
+  const sign = direction === "asc" ? 1 : -1;
+
+  return rows
+    .filter(row => filters.every(filter => matchesFilter(row.values, filter)))
+    .sort((a, b) => {
+      const left = a.values[field];
+      const right = b.values[field];
+      if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+      return (sortKey(left) - sortKey(right)) * sign;
+    });
+}
+
+/**
+ * Encode a screen as URL search params. Incomplete filters are left out.
+ * @param screen - Screen
+ */
+export function screenToSearchParams(screen: Screen): URLSearchParams {
+  const params = new URLSearchParams();
+  screen.filters
+    .filter(isFilterComplete)
+    .forEach(filter => params.append("filter", `${filter.field}:${filter.operator}:${filter.value}`));
+  params.set("sort", `${screen.sort.field}:${screen.sort.direction}`);
+  return params;
+}
+
+/**
+ * Read a screen from URL search params, skipping parts that don't parse
+ * @param params - Search params of a shared link
+ * @returns The screen, or null when the params don't describe one
+ */
+export function screenFromSearchParams(params: URLSearchParams): Screen | null {
+  if (!params.has("filter") && !params.has("sort")) return null;
+
+  const filters = params.getAll("filter").flatMap((encoded): ScreenFilter[] => {
+    const [field, operator, raw = ""] = encoded.split(":");
+    if (!isScreenField(field)) return [];
+    const filter = (operator === "is"
+      ? { field, operator, value: raw }
+      : { field, operator, value: raw.trim() === "" ? NaN : Number(raw) }) as ScreenFilter;
+    return isFilterComplete(filter) ? [filter] : [];
+  });
+
+  const [field, direction] = (params.get("sort") ?? "").split(":");
+  const sort = isScreenField(field) && (direction === "asc" || direction === "desc")
+    ? { field, direction: direction as SortDirection }
+    : DEFAULT_SCREEN.sort;
+
+  return { filters, sort };
+}
+
+const escapeCsvCell = (cell: string) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+
+/**
+ * Screen results as CSV, one row per ticker with raw values and whether
+ * they are simulated
+ * @param rows - Rows to export, in order
+ * @param fields - Value columns after the ticker and name
+ */
+export function screenResultsToCsv(rows: ScreenerRow[], fields: ScreenField[]): string {
+  const header = ["Symbol", "Name", "Currency", "Simulated", ...fields.map(field => SCREEN_FIELDS[field].label)];
+  const lines = rows.map(row => [
+    row.symbol,
+    row.name,
+    row.currency,
+    String(row.simulated),
+    ...fields.map(field => {
+      const value = row.values[field];
+      return value === null ? "" : String(value);
+    }),
+  ]);
+  return [header, ...lines].map(line => line.map(escapeCsvCell).join(",")).join("\n");
+}
@@ -0,0 +1,75 @@
+// Sector groupings of the tracked stocks and how each sector performed over
+// a period, averaged both per stock and by market cap.
+import { CurrencyCode, DEFAULT_CURRENCY, Instrument, PriceBar } from './marketData/model';
+
+export const UNCLASSIFIED_SECTOR = "Unclassified";
+
+export interface SectorMember {
+  symbol: string;
+  sector: string;
+  // Weight in the cap-weighted average; members without one only count in the equal-weighted one
+  marketCap?: number;
+  // Currency the market cap is in. Caps in other currencies than the default
+  // can't be compared, so those members also only count in the equal-weighted average.
+  currency?: CurrencyCode;
+  // Percentage points over the period compared
+  change: number;
+}
+
+export interface SectorPerformance {
+  sector: string;
+  count: number;
+  // Plain average of the members' changes
+  equalWeighted: number;
+  // Average weighted by market cap; null when no member has one in the default currency
+  capWeighted: number | null;
+  leader: SectorMember;
+  laggard: SectorMember;
+}
+
+/**
+ * Sector to group an instrument under
+ * @param instrument - Instrument, with its classification if known
+ */
+export const getSector = (instrument: Pick<Instrument, "sector">): string => instrument.sector ?? UNCLASSIFIED_SECTOR;
+
+/**
+ * Change over a price history, from the first bar's open to the last bar's close
+ * @param bars - Bars in ascending time order
+ * @returns Percentage points, or null for an empty history
+ */
+export function getPeriodChange(bars: PriceBar[]): number | null {
+  if (bars.length === 0 || !(bars[0].open > 0)) return null;
+  return (bars[bars.length - 1].close / bars[0].open - 1) * 100;
+}
+
+/**
+ * Aggregate members' changes per sector
+ * @param members - Stocks with their change over the period
+ * @returns One entry per sector, in order of first appearance
+ */
+export function summarizeSectors(members: SectorMember[]): SectorPerformance[] {
+  const bySector = new Map<string, SectorMember[]>();
+  members.forEach(member => {
+    bySector.set(member.sector, [...(bySector.get(member.sector) ?? []), member]);
+  });
+
+  return [...bySector.entries()].map(([sector, sectorMembers]) => {
+    const weighted = sectorMembers.filter(member =>
+      member.marketCap !== undefined && member.marketCap > 0 && (member.currency ?? DEFAULT_CURRENCY) === DEFAULT_CURRENCY
+    );
+    const totalCap = weighted.reduce((sum, member) => sum + member.marketCap, 0);
+    const byChange = [...sectorMembers].sort((a, b) => b.change - a.change);
+
+    return {
+      sector,
+      count: sectorMembers.length,
+      equalWeighted: sectorMembers.reduce((sum, member) => sum + member.change, 0) / sectorMembers.length,
+      capWeighted: totalCap > 0
+        ? weighted.reduce((sum, member) => sum + member.change * member.marketCap, 0) / totalCap
+        : null,
+      leader: byChange[0],
+      laggard: byChange[byChange.length - 1],
+    };
+  });
+}
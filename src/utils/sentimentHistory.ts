@@ -0,0 +1,133 @@
+// Local history of market sentiment. Every market volatility summary loaded
+// from a live provider is kept with the time it was fetched, so the gauge can
+// be followed over days and weeks instead of only showing the latest reading.
+import { z } from 'zod';
+import { createKeyValueStore, isIndexedDbAvailable } from './indexedDbStore';
+import { MarketVolatilitySchema } from './marketData/schemas';
+import { MarketVolatility } from './marketData/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Snapshots older than this are dropped when a new one is recorded
+export const SENTIMENT_RETENTION = 90 * DAY;
+
+export const SENTIMENT_RANGES = ["1d", "1w", "1mo", "3mo"] as const;
+
+export type SentimentRange = typeof SENTIMENT_RANGES[number];
+
+const RANGE_DURATIONS: Record<SentimentRange, number> = {
+  "1d": DAY,
+  "1w": 7 * DAY,
+  "1mo": 30 * DAY,
+  "3mo": SENTIMENT_RETENTION,
+};
+
+export interface SentimentSnapshot {
+  // When the summary was fetched, in epoch milliseconds
+  recordedAt: number;
+  summary: MarketVolatility;
+}
+
+// A snapshot whose sentiment category differs from the one before it
+export interface SentimentChange {
+  time: number;
+  from: string;
+  to: string;
+}
+
+const SentimentSnapshotSchema = z.object({
+  recordedAt: z.number(),
+  summary: MarketVolatilitySchema,
+});
+
+const store = isIndexedDbAvailable() ? createKeyValueStore<SentimentSnapshot>('sentiment') : null;
+
+/**
+ * Convert a market summary to the 0-100 sentiment gauge value.
+ * Bearish: 0-30, Slightly Bearish: 30-45, Neutral: 45-55, Slightly Bullish: 55-70, Bullish: 70-100
+ * @param data - Market volatility summary
+ */
+export const getSentimentValue = (data: MarketVolatility): number => {
+  let sentimentValue: number;
+  switch (data.market_sentiment) {
+    case "Bearish":
+      sentimentValue = 15 + (data.market_volatility_score * 3);
+      break;
+    case "Slightly Bearish":
+      sentimentValue = 37.5 + (data.market_volatility_score * 2);
+      break;
+    case "Neutral":
+      sentimentValue = 50 + (data.market_volatility_score * 1);
+      break;
+    case "Slightly Bullish":
+      sentimentValue = 62.5 + (data.market_volatility_score * 2);
+      break;
+    case "Bullish":
+      sentimentValue = 85 + (data.market_volatility_score * 3);
+      break;
+    default:
+      sentimentValue = 50; // Default to neutral
+  }
+
+  // Ensure the value is within 0-100 range
+  return Math.max(0, Math.min(100, sentimentValue));
+};
+
+/**
+ * Add a market summary to the history and drop snapshots past the
+ * retention period
+ * @param summary - Summary from a market volatility provider
+ * @param recordedAt - When it was fetched
+ */
+export async function recordSentimentSnapshot(summary: MarketVolatility, recordedAt = Date.now()): Promise<void> {
+  if (!store) return;
+
+  await store.set(String(recordedAt), { recordedAt, summary });
+
+  const expired = (await store.entries()).filter(([, snapshot]) => snapshot.recordedAt < recordedAt - SENTIMENT_RETENTION);
+  await Promise.all(expired.map(([key]) => store.delete(key)));
+}
+
+/**
+ * Every recorded snapshot that still validates, oldest first. Invalid
+ * records are removed.
+ */
+export async function loadSentimentHistory(): Promise<SentimentSnapshot[]> {
+  if (!store) return [];
+
+  const snapshots: SentimentSnapshot[] = [];
+  const entries = await store.entries();
+  entries.forEach(([key, record]) => {
+    const result = SentimentSnapshotSchema.safeParse(record);
+    if (result.success) {
+      snapshots.push(record);
+    } else {
+      console.warn(`Removing invalid sentiment snapshot ${key}:`, result.error.message);
+      store.delete(key).catch(error => console.warn(`Failed to remove sentiment snapshot ${key}:`, error));
+    }
+  });
+  return snapshots.sort((a, b) => a.recordedAt - b.recordedAt);
+}
+
+/**
+ * Snapshots recorded within a range of the given time
+ * @param snapshots - Snapshots, oldest first
+ * @param range - How far back to go
+ * @param now - End of the range
+ */
+export function getSnapshotsInRange(snapshots: SentimentSnapshot[], range: SentimentRange, now = Date.now()): SentimentSnapshot[] {
+  const start = now - RANGE_DURATIONS[range];
+  return snapshots.filter(snapshot => snapshot.recordedAt >= start);
+}
+
+/**
+ * Points where the sentiment category changed between consecutive snapshots
+ * @param snapshots - Snapshots, oldest first
+ */
+export function getSentimentChanges(snapshots: SentimentSnapshot[]): SentimentChange[] {
+  return snapshots.slice(1).flatMap((snapshot, i) => {
+    const from = snapshots[i].summary.market_sentiment;
+    const to = snapshot.summary.market_sentiment;
+    return from === to ? [] : [{ time: snapshot.recordedAt, from, to }];
+  });
+}
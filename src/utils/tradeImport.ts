@@ -0,0 +1,314 @@
+// Reads trade history from broker CSV exports. Columns are mapped onto trade
+// fields, either by hand or from a template for a known broker format.
+import { normalizeSymbol } from './marketData/symbolDirectory';
+import { Trade, TradeInput } from './portfolio';
+
+export type ImportField = "date" | "symbol" | "side" | "quantity" | "price" | "commission" | "fees";
+
+// The CSV column read for each field; unmapped optional fields are treated as zero
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type DateFormat = "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY" | "YYYYMMDD";
+
+export interface ImportTemplate {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  // Templates that ship with the app can't be edited or deleted
+  builtIn?: boolean;
+}
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean }> = [
+  { field: "date", label: "Trade date", required: true },
+  { field: "symbol", label: "Ticker", required: true },
+  { field: "side", label: "Buy/sell", required: false },
+  { field: "quantity", label: "Shares", required: true },
+  { field: "price", label: "Price", required: true },
+  { field: "commission", label: "Commission", required: false },
+  { field: "fees", label: "Fees", required: false },
+];
+
+export const DATE_FORMATS: DateFormat[] = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY", "YYYYMMDD"];
+
+// Column names used by the transaction exports of common brokers
+export const BUILT_IN_TEMPLATES: ImportTemplate[] = [
+  {
+    id: "fidelity",
+    name: "Fidelity",
+    mapping: { date: "Run Date", side: "Action", symbol: "Symbol", quantity: "Quantity", price: "Price ($)", commission: "Commission ($)", fees: "Fees ($)" },
+    dateFormat: "MM/DD/YYYY",
+    builtIn: true,
+  },
+  {
+    id: "schwab",
+    name: "Charles Schwab",
+    mapping: { date: "Date", side: "Action", symbol: "Symbol", quantity: "Quantity", price: "Price", fees: "Fees & Comm" },
+    dateFormat: "MM/DD/YYYY",
+    builtIn: true,
+  },
+  {
+    id: "robinhood",
+    name: "Robinhood",
+    mapping: { date: "Activity Date", side: "Trans Code", symbol: "Instrument", quantity: "Quantity", price: "Price" },
+    dateFormat: "MM/DD/YYYY",
+    builtIn: true,
+  },
+  {
+    id: "vanguard",
+    name: "Vanguard",
+    mapping: { date: "Trade Date", side: "Transaction Type", symbol: "Symbol", quantity: "Shares", price: "Share Price", commission: "Commission Fees" },
+    dateFormat: "MM/DD/YYYY",
+    builtIn: true,
+  },
+  {
+    id: "ibkr",
+    name: "Interactive Brokers (Flex)",
+    mapping: { date: "TradeDate", side: "Buy/Sell", symbol: "Symbol", quantity: "Quantity", price: "TradePrice", commission: "IBCommission" },
+    dateFormat: "YYYYMMDD",
+    builtIn: true,
+  },
+];
+
+// Header names that suggest a field when no template matches
+const FIELD_SYNONYMS: Record<ImportField, RegExp> = {
+  date: /^(trade |run |activity |settlement )?date$|^tradedate$/i,
+  symbol: /^(symbol|ticker|instrument)$/i,
+  side: /^(action|side|type|buy\/sell|trans(action)? (code|type))$/i,
+  quantity: /^(quantity|qty|shares|units)$/i,
+  price: /^(price|share price|trade ?price|price \(\$\))$/i,
+  commission: /^(commission|ib ?commission|commission \(\$\))$/i,
+  fees: /^(fees?|fees & comm|fees \(\$\))$/i,
+};
+
+export interface CsvTable {
+  headers: string[];
+  // Data rows with their 1-based line in the file
+  rows: Array<{ line: number; cells: string[] }>;
+}
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain commas,
+ * doubled quotes and line breaks.
+ * @param text - CSV text
+ * @returns Rows with the 1-based line each starts on
+ */
+export function parseCsv(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim())) rows.push({ line: rowLine, cells: cells.map(value => value.trim()) });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Read a broker export into a header row and data rows. Exports often start
+ * with an account summary, so the header is the first row with at least
+ * three filled cells.
+ * @param text - CSV text
+ * @returns The table, or null when no header row is found
+ */
+export function readCsvTable(text: string): CsvTable | null {
+  // Files saved from Excel start with a byte order mark
+  const rows = parseCsv(text.replace(/^\uFEFF/, ""));
+  const headerIndex = rows.findIndex(row => row.cells.filter(Boolean).length >= 3);
+  if (headerIndex < 0) return null;
+  return { headers: rows[headerIndex].cells, rows: rows.slice(headerIndex + 1) };
+}
+
+/**
+ * Find the template whose required columns all appear in the headers
+ * @param headers - CSV header row
+ * @param templates - Templates to try, in order
+ */
+export function detectTemplate(headers: string[], templates: ImportTemplate[]): ImportTemplate | null {
+  return templates.find(template => IMPORT_FIELDS
+    .filter(({ required }) => required)
+    .every(({ field }) => headers.includes(template.mapping[field]))) ?? null;
+}
+
+/**
+ * Map columns to fields by their names
+ * @param headers - CSV header row
+ */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const header = headers.find(name => FIELD_SYNONYMS[field].test(name));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+}
+
+/**
+ * Parse a number as brokers format them, e.g. "$1,234.50" or "(12.00)"
+ * @param value - Cell text
+ * @returns The number, or null when the cell isn't one
+ */
+export function parseAmount(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith("-");
+  const digits = trimmed.replace(/[()$€£,\s+-]/g, "");
+  if (!/^\d*\.?\d+$/.test(digits)) return null;
+  const amount = Number(digits);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parse a trade date. Anything after the date, such as a time or Schwab's
+ * "as of" date, is ignored.
+ * @param value - Cell text
+ * @param format - Order of the date's parts
+ * @returns Start of the day in epoch milliseconds (UTC), or null when invalid
+ */
+export function parseTradeDate(value: string, format: DateFormat): number | null {
+  const token = value.trim().split(/[\sT,;]/)[0];
+  let parts: RegExpMatchArray | null;
+  let year: number, month: number, day: number;
+
+  if (format === "YYYYMMDD") {
+    parts = token.match(/^(\d{4})(\d{2})(\d{2})$/);
+    if (!parts) return null;
+    [year, month, day] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+  } else if (format === "YYYY-MM-DD") {
+    parts = token.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+    if (!parts) return null;
+    [year, month, day] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+  } else {
+    parts = token.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+    if (!parts) return null;
+    const [first, second] = [Number(parts[1]), Number(parts[2])];
+    [month, day] = format === "MM/DD/YYYY" ? [first, second] : [second, first];
+    year = parts[3].length === 2 ? 2000 + Number(parts[3]) : Number(parts[3]);
+  }
+
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  // Reject dates like 02/31 that Date.UTC would roll over
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? time : null;
+}
+
+// Read the side from an action column, e.g. "YOU BOUGHT ..." or "Sell"
+const parseSide = (value: string): Trade["side"] | null => {
+  if (/\b(buy|bought|purchase)\b/i.test(value)) return "buy";
+  if (/\b(sell|sold|sale)\b/i.test(value)) return "sell";
+  return null;
+};
+
+export type ImportRowStatus = "ready" | "duplicate" | "skipped" | "error";
+
+export interface ImportRow {
+  line: number;
+  status: ImportRowStatus;
+  // Set for ready and duplicate rows
+  trade?: TradeInput;
+  // Why the row is skipped, a duplicate or invalid
+  message?: string;
+}
+
+// Trades that match on everything the broker reports are treated as the same
+const tradeFingerprint = (trade: TradeInput) =>
+  [trade.symbol, trade.side, trade.date, trade.quantity, trade.price.toFixed(4)].join("|");
+
+/**
+ * Turn a CSV table into trades, one result per row. Rows that aren't buys
+ * or sells, like dividends, are skipped. A row is a duplicate when the
+ * ledger already has a matching trade that no earlier row matched.
+ * @param table - CSV table
+ * @param template - Column mapping and date format
+ * @param existing - Trades already in the ledger
+ */
+export function buildImportPreview(
+  table: CsvTable,
+  template: Pick<ImportTemplate, "mapping" | "dateFormat">,
+  existing: Trade[]
+): ImportRow[] {
+  const { mapping, dateFormat } = template;
+  const columnOf = (field: ImportField) => (mapping[field] ? table.headers.indexOf(mapping[field]) : -1);
+  const columns = Object.fromEntries(IMPORT_FIELDS.map(({ field }) => [field, columnOf(field)])) as Record<ImportField, number>;
+
+  const unmatched = new Map<string, number>();
+  existing.forEach(trade => {
+    const key = tradeFingerprint(trade);
+    unmatched.set(key, (unmatched.get(key) ?? 0) + 1);
+  });
+
+  return table.rows.map(({ line, cells }): ImportRow => {
+    const cell = (field: ImportField) => (columns[field] >= 0 ? cells[columns[field]] ?? "" : "");
+
+    const quantity = parseAmount(cell("quantity"));
+    let side: Trade["side"] | null;
+    if (columns.side >= 0) {
+      side = parseSide(cell("side"));
+      if (!side) return { line, status: "skipped", message: `Not a buy or sell: "${cell("side") || "blank"}"` };
+    } else {
+      // Without an action column, negative quantities are sells
+      side = quantity !== null && quantity < 0 ? "sell" : "buy";
+    }
+
+    const symbol = normalizeSymbol(cell("symbol"));
+    if (!symbol) return { line, status: "error", message: `Invalid ticker "${cell("symbol")}"` };
+    const date = parseTradeDate(cell("date"), dateFormat);
+    if (date === null) return { line, status: "error", message: `Invalid date "${cell("date")}" for format ${dateFormat}` };
+    if (quantity === null || quantity === 0) return { line, status: "error", message: `Invalid share quantity "${cell("quantity")}"` };
+    const price = parseAmount(cell("price"));
+    if (price === null) return { line, status: "error", message: `Invalid price "${cell("price")}"` };
+
+    const commission = parseAmount(cell("commission")) ?? 0;
+    const fees = parseAmount(cell("fees")) ?? 0;
+    const trade: TradeInput = {
+      symbol,
+      side,
+      quantity: Math.abs(quantity),
+      price: Math.abs(price),
+      fees: Math.abs(commission) + Math.abs(fees),
+      date,
+    };
+
+    const key = tradeFingerprint(trade);
+    const remaining = unmatched.get(key) ?? 0;
+    if (remaining > 0) {
+      unmatched.set(key, remaining - 1);
+      return { line, status: "duplicate", trade, message: "Already in your trades" };
+    }
+    return { line, status: "ready", trade };
+  });
+}
@@ -0,0 +1,81 @@
+// Squarified treemap layout (Bruls, Huizing and van Wijk): splits a rectangle
+// into tiles with areas proportional to their values, keeping each tile as
+// close to square as the values allow.
+
+export interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type TreemapTile<T> = TreemapRect & { item: T };
+
+// Worst aspect ratio in a row of areas laid along a side of the given length
+const worstRatio = (areas: number[], side: number): number => {
+  const total = areas.reduce((sum, area) => sum + area, 0);
+  const largest = Math.max(...areas);
+  const smallest = Math.min(...areas);
+  return Math.max((side * side * largest) / (total * total), (total * total) / (side * side * smallest));
+};
+
+/**
+ * Lay out items as tiles filling a rectangle
+ * @param items - Items to place; items without a positive value are left out
+ * @param getValue - Size of an item
+ * @param bounds - Rectangle to fill
+ * @returns One tile per placed item, largest first
+ */
+export function squarify<T>(items: T[], getValue: (item: T) => number, bounds: TreemapRect): TreemapTile<T>[] {
+  const sized = items
+    .map(item => ({ item, value: getValue(item) }))
+    .filter(({ value }) => Number.isFinite(value) && value > 0)
+    .sort((a, b) => b.value - a.value);
+  const total = sized.reduce((sum, { value }) => sum + value, 0);
+  if (total === 0 || bounds.width <= 0 || bounds.height <= 0) return [];
+
+  const scale = (bounds.width * bounds.height) / total;
+  const tiles: TreemapTile<T>[] = [];
+  const free = { ...bounds };
+  let row: Array<{ item: T; area: number }> = [];
+
+  // Place a finished row along the shorter side of the free space, then shrink it
+  const placeRow = () => {
+    const rowArea = row.reduce((sum, { area }) => sum + area, 0);
+    if (free.width >= free.height) {
+      const thickness = rowArea / free.height;
+      let y = free.y;
+      row.forEach(({ item, area }) => {
+        const height = area / thickness;
+        tiles.push({ item, x: free.x, y, width: thickness, height });
+        y += height;
+      });
+      free.x += thickness;
+      free.width -= thickness;
+    } else {
+      const thickness = rowArea / free.width;
+      let x = free.x;
+      row.forEach(({ item, area }) => {
+        const width = area / thickness;
+        tiles.push({ item, x, y: free.y, width, height: thickness });
+        x += width;
+      });
+      free.y += thickness;
+      free.height -= thickness;
+    }
+    row = [];
+  };
+
+  sized.forEach(({ item, value }) => {
+    const area = value * scale;
+    const side = Math.min(free.width, free.height);
+    const areas = row.map(tile => tile.area);
+    if (row.length > 0 && worstRatio([...areas, area], side) > worstRatio(areas, side)) {
+      placeRow();
+    }
+    row.push({ item, area });
+  });
+  if (row.length > 0) placeRow();
+
+  return tiles;
+}
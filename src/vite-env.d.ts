@@ -1 +1,19 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_QUOTE_PROVIDER?: string;
+  readonly VITE_OVERVIEW_PROVIDER?: string;
+  readonly VITE_HISTORY_PROVIDER?: string;
+  readonly VITE_PREDICTION_PROVIDER?: string;
+  readonly VITE_VOLATILITY_PROVIDER?: string;
+  readonly VITE_SEARCH_PROVIDER?: string;
+  readonly VITE_PROXY_URL?: string;
+  readonly VITE_ALPHA_VANTAGE_URL?: string;
+  readonly VITE_ALPHA_VANTAGE_API_KEY?: string;
+  readonly VITE_PREDICTION_API_URL?: string;
+  readonly VITE_LOCAL_DATA_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -8,6 +8,14 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      // Market data proxy started with `npm run server`. The client address is
+      // forwarded so the proxy can tell LAN visitors from local ones.
+      "/api": {
+        target: `http://localhost:${process.env.PROXY_PORT || 8787}`,
+        xfwd: true,
+      },
+    },
   },
   plugins: [
     react(),